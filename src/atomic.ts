@@ -2,18 +2,34 @@ import * as fs from "node:fs/promises";
 import * as path from "node:path";
 import * as crypto from "node:crypto";
 
+export interface AtomicWriteOptions {
+  /** Fail with EEXIST instead of replacing an existing file (default: true) */
+  overwrite?: boolean;
+}
+
 /**
  * Write content to a file atomically by first writing to a temp file
  * in the same directory, then renaming. This prevents corruption on
  * crash mid-write since rename is atomic on POSIX filesystems.
+ * With `overwrite: false` the temp file is hard-linked into place instead,
+ * which fails atomically if the target already exists.
  */
-export async function atomicWrite(filePath: string, content: string): Promise<void> {
+export async function atomicWrite(
+  filePath: string,
+  content: string | Buffer,
+  options: AtomicWriteOptions = {},
+): Promise<void> {
   const dir = path.dirname(filePath);
   await fs.mkdir(dir, { recursive: true });
   const tmpPath = path.join(dir, `.${path.basename(filePath)}.${crypto.randomBytes(4).toString("hex")}.tmp`);
   try {
     await fs.writeFile(tmpPath, content, "utf8");
-    await fs.rename(tmpPath, filePath);
+    if (options.overwrite === false) {
+      await fs.link(tmpPath, filePath);
+      await fs.unlink(tmpPath);
+    } else {
+      await fs.rename(tmpPath, filePath);
+    }
   } catch (err) {
     // Clean up temp file on failure
     try {
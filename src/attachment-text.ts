@@ -0,0 +1,405 @@
+import * as zlib from "node:zlib";
+import type { AttachmentInfo, AttachmentTextConfig, Logger, TrimmedEmail, TrimmerConfig } from "./types.js";
+import { decodeCharset } from "./mime.js";
+import { trimEmail } from "./trimmer.js";
+
+export interface AttachmentTextDeps {
+  fetchAttachment: (messageId: string, attachmentId: string, account: string) => Promise<Buffer | null>;
+  config: AttachmentTextConfig;
+  trimmer?: TrimmerConfig;
+  logger: Logger;
+}
+
+type TextKind = "text" | "csv" | "ics" | "pdf";
+
+const KIND_BY_MIME: Record<string, TextKind> = {
+  "text/plain": "text",
+  "text/csv": "csv",
+  "text/comma-separated-values": "csv",
+  "text/calendar": "ics",
+  "application/ics": "ics",
+  "application/pdf": "pdf",
+};
+
+const KIND_BY_EXTENSION: Record<string, TextKind> = {
+  txt: "text",
+  csv: "csv",
+  ics: "ics",
+  pdf: "pdf",
+};
+
+// Extracted text with fewer letters and digits than this is glyph soup from a font we can't map
+const MIN_READABLE_RATIO = 0.5;
+// Inflated PDF content allowed when no attachmentText config applies
+const DEFAULT_MAX_INFLATED_BYTES = 4 * 1024 * 1024;
+
+/** Which extractor handles an attachment; generic MIME types fall back to the file extension. */
+export function attachmentTextKind(info: AttachmentInfo): TextKind | null {
+  const byMime = KIND_BY_MIME[info.mimeType.split(";")[0].trim().toLowerCase()];
+  if (byMime) return byMime;
+  const ext = /\.([a-z0-9]+)$/i.exec(info.filename)?.[1].toLowerCase();
+  return ext ? KIND_BY_EXTENSION[ext] ?? null : null;
+}
+
+function decodeText(data: Buffer): string {
+  const text = data.subarray(0, 3).equals(Buffer.from([0xef, 0xbb, 0xbf])) ? data.subarray(3) : data;
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(text);
+  } catch {
+    return decodeCharset(text, "windows-1252");
+  }
+}
+
+// -- CSV --
+
+function parseCsvRows(text: string): string[][] {
+  const firstLine = text.split("\n", 1)[0];
+  const delimiter = [";", "\t", ","].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best, ",");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** Render CSV rows the way the HTML stage renders tables: cells joined with " | ". */
+export function csvToText(text: string): string {
+  return parseCsvRows(text)
+    .map((row) => row.map((cell) => cell.replace(/\s+/g, " ").trim()))
+    .filter((row) => row.some((cell) => cell))
+    .map((row) => row.join(" | "))
+    .join("\n");
+}
+
+// -- iCalendar --
+
+interface IcsProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+function parseIcsLine(line: string): [string, IcsProperty] | null {
+  // The value starts at the first colon outside a quoted parameter
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ":" && !quoted) {
+      const [name, ...rawParams] = line.slice(0, i).split(";");
+      const params: Record<string, string> = {};
+      for (const param of rawParams) {
+        const eq = param.indexOf("=");
+        if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+      }
+      return [name.toUpperCase(), { params, value: line.slice(i + 1) }];
+    }
+  }
+  return null;
+}
+
+function unescapeIcs(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_m, ch: string) => (ch === "n" || ch === "N" ? "\n" : ch));
+}
+
+function formatIcsDate(prop: IcsProperty | undefined): string | undefined {
+  if (!prop) return undefined;
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/.exec(prop.value.trim());
+  if (!match) return prop.value;
+  const [, y, mo, d, h, mi, utc] = match;
+  if (!h) return `${y}-${mo}-${d}`;
+  const zone = utc ? " UTC" : prop.params.TZID ? ` (${prop.params.TZID})` : "";
+  return `${y}-${mo}-${d} ${h}:${mi}${zone}`;
+}
+
+/** Summarise the events of an iCalendar file: what, when, where, who. */
+export function icsToText(text: string): string {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const method = lines.find((l) => /^METHOD:/i.test(l))?.slice(7).trim().toUpperCase();
+  const events: string[] = [];
+  let event: Map<string, IcsProperty> | null = null;
+  for (const line of lines) {
+    if (/^BEGIN:VEVENT$/i.test(line)) {
+      event = new Map();
+    } else if (/^END:VEVENT$/i.test(line) && event) {
+      const summary = unescapeIcs(event.get("SUMMARY")?.value ?? "(untitled event)");
+      const start = formatIcsDate(event.get("DTSTART"));
+      const end = formatIcsDate(event.get("DTEND"));
+      const location = event.get("LOCATION");
+      const organizer = event.get("ORGANIZER");
+      const description = event.get("DESCRIPTION");
+      const parts = [method === "CANCEL" ? `Cancelled: ${summary}` : `Event: ${summary}`];
+      if (start) parts.push(`When: ${end ? `${start} – ${end}` : start}`);
+      if (location?.value) parts.push(`Where: ${unescapeIcs(location.value)}`);
+      if (organizer) parts.push(`Organizer: ${organizer.params.CN ?? organizer.value.replace(/^mailto:/i, "")}`);
+      if (description?.value) parts.push("", unescapeIcs(description.value).trim());
+      events.push(parts.join("\n"));
+      event = null;
+    } else if (event) {
+      const parsed = parseIcsLine(line);
+      if (parsed && !event.has(parsed[0])) event.set(parsed[0], parsed[1]);
+    }
+  }
+  return events.join("\n\n");
+}
+
+// -- PDF --
+
+/**
+ * Decoded content streams of a PDF; images, fonts and streams with filters
+ * other than Flate are skipped. Inflating stops at `maxInflatedBytes` in
+ * total, so a small compressed stream can't expand without bound.
+ */
+function pdfStreams(pdf: Buffer, maxInflatedBytes: number): Buffer[] {
+  const text = pdf.toString("latin1");
+  const streams: Buffer[] = [];
+  const streamStart = /\bstream\r?\n/g;
+  let budget = maxInflatedBytes;
+  let match: RegExpExecArray | null;
+  while (budget > 0 && (match = streamStart.exec(text)) !== null) {
+    const start = match.index + match[0].length;
+    const end = text.indexOf("endstream", start);
+    if (end < 0) break;
+    streamStart.lastIndex = end + "endstream".length;
+    const dict = text.slice(text.lastIndexOf("obj", match.index) + 3, match.index);
+    if (/\/Subtype\s*\/Image|\/Type\s*\/(?:XRef|ObjStm|Metadata)|\/Length[123]\b/.test(dict)) continue;
+    let data = pdf.subarray(start, end);
+    if (/\/FlateDecode/.test(dict)) {
+      try {
+        // Z_SYNC_FLUSH tolerates the EOL before "endstream" and slightly short streams
+        data = zlib.inflateSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH, maxOutputLength: budget });
+      } catch {
+        // Corrupt, or a RangeError from inflating past the budget
+        continue;
+      }
+      budget -= data.length;
+    } else if (/\/Filter/.test(dict)) {
+      continue;
+    }
+    streams.push(data);
+  }
+  return streams;
+}
+
+function pdfLiteral(content: string, start: number): { bytes: number[]; end: number } {
+  const bytes: number[] = [];
+  let depth = 1;
+  let i = start + 1;
+  for (; i < content.length && depth > 0; i++) {
+    const ch = content[i];
+    if (ch === "\\") {
+      const next = content[++i];
+      const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+      if (next in escapes) {
+        bytes.push(escapes[next]);
+      } else if (/[0-7]/.test(next)) {
+        const octal = /^[0-7]{1,3}/.exec(content.slice(i, i + 3))![0];
+        bytes.push(parseInt(octal, 8) & 0xff);
+        i += octal.length - 1;
+      } else if (next === "\r" || next === "\n") {
+        // Line continuation
+        if (next === "\r" && content[i + 1] === "\n") i++;
+      } else if (next !== undefined) {
+        bytes.push(next.charCodeAt(0));
+      }
+      continue;
+    }
+    if (ch === "(") depth++;
+    if (ch === ")" && --depth === 0) break;
+    bytes.push(ch.charCodeAt(0));
+  }
+  return { bytes, end: i + 1 };
+}
+
+/** Text shown by the Tj/TJ/'/" operators of one content stream, with line breaks from text positioning. */
+function pdfContentText(content: string): string {
+  let out = "";
+  let operands: (string | number | (string | number)[])[] = [];
+  let array: (string | number)[] | null = null;
+  let lastY: number | undefined;
+  const show = (value: string | number | (string | number)[] | undefined) => {
+    if (typeof value === "string") out += value;
+    else if (Array.isArray(value)) {
+      for (const item of value) {
+        if (typeof item === "string") out += item;
+        // Kerning adjustments wider than ~a space separate words
+        else if (item < -200 && !out.endsWith(" ")) out += " ";
+      }
+    }
+  };
+  const newline = () => {
+    if (out && !out.endsWith("\n")) out += "\n";
+  };
+  const push = (value: string | number) => (array ? array.push(value) : operands.push(value));
+
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "%") {
+      const eol = content.slice(i).search(/[\r\n]/);
+      i = eol < 0 ? content.length : i + eol;
+    } else if (ch === "(") {
+      const literal = pdfLiteral(content, i);
+      push(decodeCharset(Buffer.from(literal.bytes), "windows-1252"));
+      i = literal.end;
+    } else if (ch === "<" && content[i + 1] !== "<") {
+      const end = content.indexOf(">", i);
+      const hex = content.slice(i + 1, end < 0 ? content.length : end).replace(/\s/g, "");
+      push(decodeCharset(Buffer.from(hex.length % 2 ? hex + "0" : hex, "hex"), "windows-1252"));
+      i = end < 0 ? content.length : end + 1;
+    } else if (ch === "[") {
+      array = [];
+      i++;
+    } else if (ch === "]") {
+      if (array) operands.push(array);
+      array = null;
+      i++;
+    } else if (/[-+.\d]/.test(ch)) {
+      const num = /^[-+]?(?:\d+\.?\d*|\.\d+)/.exec(content.slice(i, i + 32));
+      if (num) {
+        push(Number(num[0]));
+        i += num[0].length;
+      } else {
+        i++;
+      }
+    } else {
+      const word = /^(?:<<|>>|\/[^\s/[\]()<>{}%]*|[^\s/[\]()<>{}%]+)/.exec(content.slice(i, i + 128))?.[0] ?? ch;
+      i += word.length;
+      if (word.startsWith("/") || word === "<<" || word === ">>") {
+        continue;
+      }
+      switch (word) {
+        case "Tj":
+        case "TJ":
+          show(operands[operands.length - 1]);
+          break;
+        case "'":
+        case "\"":
+          newline();
+          show(operands[operands.length - 1]);
+          break;
+        case "T*":
+          newline();
+          break;
+        case "Td":
+        case "TD": {
+          const ty = operands[operands.length - 1];
+          if (typeof ty === "number" && ty !== 0) newline();
+          else if (out && !/\s$/.test(out)) out += " ";
+          break;
+        }
+        case "Tm": {
+          const y = operands[operands.length - 1];
+          if (typeof y === "number" && lastY !== undefined && y !== lastY) newline();
+          else if (out && !/\s$/.test(out)) out += " ";
+          if (typeof y === "number") lastY = y;
+          break;
+        }
+        case "ET":
+          if (out && !/\s$/.test(out)) out += " ";
+          break;
+      }
+      operands = [];
+    }
+  }
+  return out;
+}
+
+/** Text of a simple PDF (standard fonts, Flate-compressed or plain content streams). */
+export function pdfToText(pdf: Buffer, maxInflatedBytes = DEFAULT_MAX_INFLATED_BYTES): string {
+  const text = pdfStreams(pdf, maxInflatedBytes)
+    .map((stream) => pdfContentText(stream.toString("latin1")))
+    .join("\n")
+    .replace(/[\x00-\x08\x0b-\x1f\x7f]/g, "")
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  const readable = text.match(/[\p{L}\p{N}]/gu)?.length ?? 0;
+  return readable >= text.replace(/\s/g, "").length * MIN_READABLE_RATIO ? text : "";
+}
+
+export function extractAttachmentText(data: Buffer, info: AttachmentInfo, maxInflatedBytes?: number): string {
+  switch (attachmentTextKind(info)) {
+    case "text":
+      return decodeText(data).trim();
+    case "csv":
+      return csvToText(decodeText(data));
+    case "ics":
+      return icsToText(decodeText(data));
+    case "pdf":
+      return pdfToText(data, maxInflatedBytes);
+    default:
+      return "";
+  }
+}
+
+/**
+ * Download up to `maxAttachments` small text-based attachments of a new
+ * email and return a trimmed preview of their text, each labelled with its
+ * filename. Failures are logged and skipped — the preview is best effort.
+ */
+export async function extractAttachmentPreview(
+  email: Pick<TrimmedEmail, "id" | "account" | "attachments">,
+  deps: AttachmentTextDeps,
+): Promise<string | undefined> {
+  const { config } = deps;
+  const candidates = (email.attachments ?? [])
+    .filter((a) => !a.inline && a.size <= config.maxBytes && attachmentTextKind(a))
+    .slice(0, config.maxAttachments);
+
+  const texts: { filename: string; text: string }[] = [];
+  for (const attachment of candidates) {
+    try {
+      const data = await deps.fetchAttachment(email.id, attachment.attachmentId, email.account);
+      // Metadata sizes can be missing or estimated
+      if (!data || data.length > config.maxBytes) continue;
+      // maxBytes of decompressed content is still far more text than maxChars shows
+      const text = extractAttachmentText(data, attachment, config.maxBytes);
+      if (text) texts.push({ filename: attachment.filename, text });
+    } catch (err) {
+      deps.logger.warn(
+        `betteremail: could not read ${attachment.filename} of ${email.id}: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+  if (texts.length === 0) return undefined;
+
+  const perAttachment = Math.floor(config.maxChars / texts.length);
+  const previews = texts
+    .map(({ filename, text }) => ({ filename, body: trimEmail(text, perAttachment, deps.trimmer).body }))
+    .filter((p) => p.body);
+  return previews.length > 0 ? previews.map((p) => `[${p.filename}]\n${p.body}`).join("\n\n") : undefined;
+}
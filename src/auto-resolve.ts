@@ -0,0 +1,71 @@
+import type { DigestEntry } from "./types.js";
+import type { TransitionMeta } from "./digest.js";
+
+export interface AutoResolveDigest {
+  get(id: string): DigestEntry | undefined;
+  getActiveEntries(): DigestEntry[];
+  markHandled(id: string, meta?: TransitionMeta): void;
+  save(): Promise<void>;
+  exclusive<T>(fn: () => Promise<T> | T): Promise<T>;
+  shared<T>(key: string, fn: () => Promise<T>): Promise<T>;
+}
+
+const AUTO_RESOLVE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const CONCURRENCY = 5;
+
+async function parallelWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<void>,
+): Promise<void> {
+  const queue = [...items];
+  const workers = Array.from({ length: Math.min(concurrency, queue.length) }, async () => {
+    while (queue.length > 0) {
+      const item = queue.shift()!;
+      await fn(item);
+    }
+  });
+  await Promise.all(workers);
+}
+
+/**
+ * Mark active entries handled when the owner has replied in the thread.
+ * Threads are checked outside the digest lock; an entry triaged while its
+ * thread was being checked keeps that decision. Concurrent callers (the
+ * poll and get_email_digest) share one pass instead of both hitting the source.
+ */
+export function autoResolveReplies(
+  digest: AutoResolveDigest,
+  accounts: string[],
+  checkThreadForReply: (threadId: string, account: string) => Promise<boolean>,
+): Promise<DigestEntry[]> {
+  return digest.shared("auto-resolve", async () => {
+    const candidates = digest.getActiveEntries().filter((entry) => {
+      const age = Date.now() - new Date(entry.firstSeenAt).getTime();
+      if (age > AUTO_RESOLVE_MAX_AGE_MS) return false;
+      const fromLower = entry.from.toLowerCase();
+      if (accounts.some(a => fromLower.includes(a.toLowerCase()))) return false;
+      return true;
+    });
+
+    const replied: DigestEntry[] = [];
+    await parallelWithConcurrency(candidates, CONCURRENCY, async (entry) => {
+      try {
+        if (await checkThreadForReply(entry.threadId, entry.account)) replied.push(entry);
+      } catch {
+        // Non-critical — will retry next time
+      }
+    });
+    if (replied.length === 0) return [];
+
+    return digest.exclusive(async () => {
+      const resolved = replied.filter((entry) => {
+        const status = digest.get(entry.id)?.status;
+        return status === "new" || status === "surfaced" || status === "deferred";
+      });
+      for (const entry of resolved) digest.markHandled(entry.id, { actor: "auto-resolve", reason: "owner replied in thread" });
+      if (resolved.length > 0) await digest.save();
+      return resolved;
+    });
+  });
+}
@@ -31,7 +31,9 @@ export function createEmailsCommandHandler(digest: DigestManager) {
 
       for (const entry of active) {
         const age = formatAge(entry.firstSeenAt);
-        lines.push(`  ${entry.subject} from ${entry.from} — ${age}`);
+        const files = (entry.attachments ?? []).filter((a) => !a.inline).map((a) => a.filename);
+        const attached = files.length > 0 ? ` (attached: ${files.join(", ")})` : "";
+        lines.push(`  ${entry.subject} from ${entry.from} — ${age}${attached}`);
       }
 
       if (deferred.length > 0) {
@@ -0,0 +1,26 @@
+/**
+ * Serializes read-modify-write access to plugin state within this process.
+ * Pipeline phases and tool calls that change the digest run one at a time
+ * through `exclusive`, so a slow poll can no longer save a stale copy over a
+ * decision made in the meantime. Network calls belong outside `exclusive`.
+ */
+export class StateCoordinator {
+  private tail: Promise<unknown> = Promise.resolve();
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  /** Run `fn` once every earlier operation has settled. Not reentrant — `fn` must not call `exclusive` itself. */
+  exclusive<T>(fn: () => Promise<T> | T): Promise<T> {
+    const result = this.tail.then(() => fn());
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+
+  /** Join a `key` operation that is already running instead of starting a second one. */
+  shared<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const running = this.inFlight.get(key);
+    if (running) return running as Promise<T>;
+    const result = fn().finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, result);
+    return result;
+  }
+}
@@ -1,60 +1,128 @@
-import * as fs from "node:fs/promises";
-import * as path from "node:path";
-import type { DigestEntry, DigestState, DigestStatus } from "./types.js";
-import { atomicWrite } from "./atomic.js";
+import type {
+  DigestEntry, DigestHistoryEvent, DigestQuery, DigestStatus, DigestStore, EmailLogEntry, MutedThread, SenderProfile, SenderRule, StateCorruption,
+} from "./types.js";
+import { matchSenderRule } from "./sender-rules.js";
+import { applyHistoryEvent, buildSenderProfiles, emptyProfile, recordArrival } from "./sender-profiles.js";
+import { extractEmail } from "./utils.js";
+import { JsonDigestStore } from "./storage/json.js";
+import { StateCoordinator } from "./coordinator.js";
 
-const DIGEST_FILE = "digest.json";
+/** Handled and dismissed entries are deleted this long after they were resolved */
+export const PRUNE_AFTER_DAYS = 30;
+/** New and surfaced entries nobody triaged are dismissed after this long */
+export const STALE_AFTER_DAYS = 14;
+
+/** Dismiss reason for messages that arrive in a muted thread */
+export const MUTED_THREAD_REASON = "muted thread";
+
+/** Who changed an entry and why, recorded alongside the transition */
+export interface TransitionMeta {
+  actor: string;
+  reason?: string;
+  deferMinutes?: number;
+}
+
+function recordTransition(entry: DigestEntry, from: DigestStatus | null, meta: TransitionMeta): void {
+  const event: DigestHistoryEvent = { at: new Date().toISOString(), from, to: entry.status, actor: meta.actor };
+  if (meta.reason) event.reason = meta.reason;
+  if (meta.deferMinutes !== undefined) event.deferMinutes = meta.deferMinutes;
+  entry.history = [...(entry.history ?? []), event];
+}
+
+function isLapsed(mute: MutedThread): boolean {
+  return mute.until !== undefined && new Date(mute.until).getTime() <= Date.now();
+}
 
 export class DigestManager {
-  private filePath: string;
-  private state: DigestState;
-  private saving = false;
-  private saveQueue: (() => void)[] = [];
-
-  constructor(stateDir: string) {
-    this.filePath = path.join(stateDir, DIGEST_FILE);
-    this.state = { entries: {} };
-  }
-
-  async load(): Promise<void> {
-    try {
-      const raw = await fs.readFile(this.filePath, "utf8");
-      this.state = JSON.parse(raw) as DigestState;
-    } catch {
-      this.state = { entries: {} };
-    }
+  private store: DigestStore;
+  private coordinator: StateCoordinator;
+
+  constructor(stateDir: string, store: DigestStore = new JsonDigestStore(stateDir)) {
+    this.store = store;
+    this.coordinator = new StateCoordinator();
+  }
+
+  /**
+   * Run a read-modify-write of the digest without other mutations in this
+   * process interleaving, starting from whatever another process last saved.
+   */
+  exclusive<T>(fn: () => Promise<T> | T): Promise<T> {
+    return this.coordinator.exclusive(async () => {
+      await this.store.refresh();
+      const problem = this.store.readError();
+      if (problem !== null) {
+        throw new Error(`the digest could not be read (${problem}); it is recovered on the next poll`);
+      }
+      return fn();
+    });
+  }
+
+  /**
+   * Like `exclusive`, but also runs while the stored digest cannot be read —
+   * for callers that `load()` first, which quarantines and rebuilds it.
+   */
+  repairing<T>(fn: () => Promise<T> | T): Promise<T> {
+    return this.coordinator.exclusive(async () => {
+      await this.store.refresh();
+      return fn();
+    });
+  }
+
+  /** Share a running `key` operation with concurrent callers. */
+  shared<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    return this.coordinator.shared(key, fn);
+  }
+
+  async load(): Promise<StateCorruption | null> {
+    return this.store.load();
   }
 
   async save(): Promise<void> {
-    if (this.saving) {
-      await new Promise<void>((resolve) => this.saveQueue.push(resolve));
-    }
-    this.saving = true;
-    try {
-      await atomicWrite(this.filePath, JSON.stringify(this.state, null, 2) + "\n");
-    } finally {
-      this.saving = false;
-      const next = this.saveQueue.shift();
-      if (next) next();
-    }
+    await this.store.save();
   }
 
-  add(entry: DigestEntry): void {
-    this.state.entries[entry.id] = entry;
+  async refresh(): Promise<void> {
+    await this.store.refresh();
+  }
+
+  /** Store an entry; one without history gets its creation recorded with `meta`. */
+  add(entry: DigestEntry, meta: TransitionMeta = { actor: "pipeline" }): void {
+    if (!entry.history?.length) recordTransition(entry, null, meta);
+    this.store.put(entry);
+    if (meta.actor === "pipeline") {
+      const profile = this.profileFor(entry.from);
+      recordArrival(profile, entry.firstSeenAt);
+      this.store.putSenderProfile(profile);
+    }
   }
 
   get(id: string): DigestEntry | undefined {
-    return this.state.entries[id];
+    return this.store.get(id);
   }
 
   has(id: string): boolean {
-    return id in this.state.entries;
+    return this.store.get(id) !== undefined;
+  }
+
+  query(query: DigestQuery): DigestEntry[] {
+    return this.store.query(query);
   }
 
   getByStatus(status: DigestStatus | "all"): DigestEntry[] {
-    const entries = Object.values(this.state.entries);
-    if (status === "all") return entries;
-    return entries.filter((e) => e.status === status);
+    return this.store.query(status === "all" ? {} : { status });
+  }
+
+  getByThread(threadId: string): DigestEntry[] {
+    return this.store.query({ threadId });
+  }
+
+  getBySender(sender: string): DigestEntry[] {
+    return this.store.query({ sender });
+  }
+
+  /** Whether an email from `sender` was ever auto-resolved by an owner reply; the sender profile outlives pruning. */
+  ownerRepliedTo(sender: string): boolean {
+    return (this.getSenderProfile(sender)?.outcomes.autoResolved ?? 0) > 0;
   }
 
   getGroupedByAccount(status: DigestStatus | "all"): Record<string, DigestEntry[]> {
@@ -68,83 +136,210 @@ export class DigestManager {
   }
 
   getActiveEntries(): DigestEntry[] {
-    return Object.values(this.state.entries).filter(
-      (e) => e.status === "new" || e.status === "surfaced" || e.status === "deferred",
-    );
+    return this.store.query({ status: ["new", "surfaced", "deferred"] });
   }
 
-  markSurfaced(id: string): void {
-    const entry = this.state.entries[id];
-    if (entry) {
-      entry.status = "surfaced";
-      entry.surfacedAt = new Date().toISOString();
+  /** Active entries of a thread; thread ids are only unique within an account. */
+  getActiveThread(threadId: string, account: string): DigestEntry[] {
+    return this.store.query({ account, threadId, status: ["new", "surfaced", "deferred"] });
+  }
+
+  /** When a thread-wide deferral of `account`'s thread `threadId` ends, if one is running. */
+  threadDeferral(threadId: string, account: string): string | undefined {
+    const now = new Date().toISOString();
+    let until: string | undefined;
+    for (const entry of this.store.query({ account, threadId, status: "deferred" })) {
+      if (!entry.deferredWithThread || !entry.deferredUntil || entry.deferredUntil <= now) continue;
+      if (!until || entry.deferredUntil > until) until = entry.deferredUntil;
     }
+    return until;
   }
 
-  markHandled(id: string): void {
-    const entry = this.state.entries[id];
-    if (entry) {
-      entry.status = "handled";
+  markSurfaced(id: string, actor = "get_email_digest"): void {
+    this.transition(id, "surfaced", { actor }, (entry) => {
+      entry.surfacedAt = new Date().toISOString();
+    });
+  }
+
+  markHandled(id: string, meta: TransitionMeta = { actor: "mark_email_handled" }): void {
+    this.transition(id, "handled", meta, (entry) => {
       entry.resolvedAt = new Date().toISOString();
-    }
+    });
   }
 
-  defer(id: string, minutes: number): void {
-    const entry = this.state.entries[id];
-    if (entry) {
-      entry.status = "deferred";
+  defer(id: string, minutes: number, actor = "defer_email", withThread = false): void {
+    this.transition(id, "deferred", { actor, deferMinutes: minutes }, (entry) => {
       entry.deferredUntil = new Date(Date.now() + minutes * 60_000).toISOString();
-    }
+      if (withThread) entry.deferredWithThread = true;
+    });
   }
 
-  dismiss(id: string, reason?: string): void {
-    const entry = this.state.entries[id];
-    if (entry) {
-      entry.status = "dismissed";
+  dismiss(id: string, reason?: string, actor = "dismiss_email"): void {
+    this.transition(id, "dismissed", { actor, reason }, (entry) => {
       entry.resolvedAt = new Date().toISOString();
       if (reason) entry.dismissReason = reason;
-    }
+    });
+  }
+
+  /** Bring a triaged entry back to `to`, undoing what handling, dismissing or deferring set. */
+  restore(id: string, to: DigestStatus, meta: TransitionMeta = { actor: "restore_email" }): void {
+    this.transition(id, to, meta, (entry) => {
+      entry.resolvedAt = undefined;
+      entry.dismissReason = undefined;
+      if (to !== "deferred") entry.deferredUntil = undefined;
+      if (to === "surfaced") entry.surfacedAt ??= new Date().toISOString();
+      entry.restoredAt = new Date().toISOString();
+    });
+  }
+
+  muteThread(mute: MutedThread): void {
+    this.store.putMute(mute);
+  }
+
+  /** Returns false when the thread was not muted. */
+  unmuteThread(threadId: string, account: string): boolean {
+    if (!this.store.getMute(threadId, account)) return false;
+    this.store.deleteMute(threadId, account);
+    return true;
+  }
+
+  /** The mute of `account`'s thread `threadId`, unless it has none or it has lapsed. */
+  getMute(threadId: string, account: string): MutedThread | undefined {
+    const mute = this.store.getMute(threadId, account);
+    return mute && !isLapsed(mute) ? mute : undefined;
+  }
+
+  listMutes(): MutedThread[] {
+    return this.store.listMutes().filter((mute) => !isLapsed(mute));
+  }
+
+  /** Drop mutes whose time is up. */
+  pruneMutes(): number {
+    return this.store.transaction(() => {
+      const lapsed = this.store.listMutes().filter(isLapsed);
+      for (const mute of lapsed) this.store.deleteMute(mute.threadId, mute.account);
+      return lapsed.length;
+    });
+  }
+
+  /** Add a rule, replacing any earlier rule for the same sender pattern. */
+  putSenderRule(rule: SenderRule): void {
+    this.store.putSenderRule(rule);
+  }
+
+  /** Returns false when there was no such rule. */
+  deleteSenderRule(id: string): boolean {
+    if (!this.store.listSenderRules().some((rule) => rule.id === id)) return false;
+    this.store.deleteSenderRule(id);
+    return true;
+  }
+
+  listSenderRules(): SenderRule[] {
+    return this.store.listSenderRules();
+  }
+
+  matchSender(fromField: string): SenderRule | undefined {
+    return matchSenderRule(this.store.listSenderRules(), fromField);
+  }
+
+  getSenderProfile(sender: string): SenderProfile | undefined {
+    return this.store.getSenderProfile(extractEmail(sender));
+  }
+
+  listSenderProfiles(): SenderProfile[] {
+    return this.store.listSenderProfiles();
+  }
+
+  /**
+   * Build sender profiles from the email log and entry histories when there are
+   * none yet, e.g. after upgrading. Returns how many were built.
+   */
+  async backfillSenderProfiles(readLog: () => Promise<EmailLogEntry[]>): Promise<number> {
+    if (this.store.listSenderProfiles().length > 0) return 0;
+    const profiles = buildSenderProfiles(this.store.query(), await readLog());
+    this.store.transaction(() => {
+      for (const profile of profiles) this.store.putSenderProfile(profile);
+    });
+    return profiles.length;
   }
 
   prune(maxAgeDays: number): number {
     const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60_000;
-    let pruned = 0;
-    for (const [id, entry] of Object.entries(this.state.entries)) {
-      if (entry.status !== "handled" && entry.status !== "dismissed") continue;
-      const resolvedMs = entry.resolvedAt ? new Date(entry.resolvedAt).getTime() : 0;
-      if (resolvedMs > 0 && resolvedMs < cutoff) {
-        delete this.state.entries[id];
-        pruned++;
+    return this.store.transaction(() => {
+      let pruned = 0;
+      for (const entry of this.store.query({ status: ["handled", "dismissed"] })) {
+        const resolvedMs = entry.resolvedAt ? new Date(entry.resolvedAt).getTime() : 0;
+        if (resolvedMs > 0 && resolvedMs < cutoff) {
+          this.store.delete(entry.id);
+          pruned++;
+        }
       }
-    }
-    return pruned;
+      return pruned;
+    });
   }
 
   expireStale(maxAgeDays: number): number {
     const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60_000;
-    let count = 0;
-    for (const entry of Object.values(this.state.entries)) {
-      if (entry.status !== "new" && entry.status !== "surfaced") continue;
-      if (new Date(entry.firstSeenAt).getTime() < cutoff) {
-        entry.status = "dismissed";
-        entry.resolvedAt = new Date().toISOString();
-        entry.dismissReason = `auto-expired: not triaged within ${maxAgeDays} days`;
-        count++;
+    return this.store.transaction(() => {
+      let count = 0;
+      for (const entry of this.store.query({ status: ["new", "surfaced"] })) {
+        const since = Math.max(new Date(entry.firstSeenAt).getTime(), entry.restoredAt ? new Date(entry.restoredAt).getTime() : 0);
+        if (since < cutoff) {
+          const from = entry.status;
+          entry.status = "dismissed";
+          entry.resolvedAt = new Date().toISOString();
+          entry.dismissReason = `auto-expired: not triaged within ${maxAgeDays} days`;
+          recordTransition(entry, from, { actor: "expiry", reason: entry.dismissReason });
+          this.store.put(entry);
+          count++;
+        }
       }
-    }
-    return count;
+      return count;
+    });
   }
 
   expireDeferrals(): DigestEntry[] {
     const now = new Date();
-    const expired: DigestEntry[] = [];
-    for (const entry of Object.values(this.state.entries)) {
-      if (entry.status === "deferred" && entry.deferredUntil && new Date(entry.deferredUntil) <= now) {
-        entry.status = "new";
-        entry.deferredUntil = undefined;
-        expired.push(entry);
+    return this.store.transaction(() => {
+      const expired: DigestEntry[] = [];
+      for (const entry of this.store.query({ status: "deferred" })) {
+        if (entry.deferredUntil && new Date(entry.deferredUntil) <= now) {
+          entry.status = "new";
+          entry.deferredUntil = undefined;
+          entry.deferredWithThread = undefined;
+          recordTransition(entry, "deferred", { actor: "expiry", reason: "deferral ended" });
+          this.store.put(entry);
+          expired.push(entry);
+        }
       }
-    }
-    return expired;
+      return expired;
+    });
+  }
+
+  private transition(id: string, to: DigestStatus, meta: TransitionMeta, change: (entry: DigestEntry) => void): void {
+    this.update(id, (entry) => {
+      const from = entry.status;
+      entry.status = to;
+      entry.deferredWithThread = undefined;
+      change(entry);
+      recordTransition(entry, from, meta);
+      const profile = this.profileFor(entry.from);
+      if (applyHistoryEvent(profile, entry, entry.history!.length - 1)) this.store.putSenderProfile(profile);
+    });
+  }
+
+  private profileFor(from: string): SenderProfile {
+    const sender = extractEmail(from);
+    return this.store.getSenderProfile(sender) ?? emptyProfile(sender);
+  }
+
+  /** Read-modify-write a single entry; backends may hand out copies, so changes are always put back. */
+  private update(id: string, change: (entry: DigestEntry) => void): void {
+    this.store.transaction(() => {
+      const entry = this.store.get(id);
+      if (!entry) return;
+      change(entry);
+      this.store.put(entry);
+    });
   }
 }
@@ -1,39 +1,145 @@
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
-import type { EmailLogEntry } from "./types.js";
+import type { EmailLogEntry, EmailLogStore, Logger, StateCorruption } from "./types.js";
 import { atomicWrite } from "./atomic.js";
+import { NewerStateError, backupFile, corruptPath, dataVersion, schemaVersion, upgradeState } from "./state-schema.js";
 
-const EMAILS_FILE = "emails.jsonl";
-const DEFAULT_MAX_LINES = 10_000;
-const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+export const EMAILS_FILE = "emails.jsonl";
+export const DEFAULT_MAX_LINES = 10_000;
+export const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
 
-export class EmailLog {
+interface ParsedLog {
+  entries: EmailLogEntry[];
+  unreadable: string[];
+  firstReason: string;
+  oldest: number;
+  newest: number;
+}
+
+/**
+ * The original emails.jsonl backend: one JSON line per processed email. The
+ * parsed file is kept until its mtime or size changes, so a poll parses it once.
+ */
+export class EmailLog implements EmailLogStore {
   private filePath: string;
+  private logger: Logger | undefined;
+  /** The file as last parsed or written here, with the stamp it had then */
+  private parsed: { stamp: string; log: ParsedLog } | undefined;
 
-  constructor(stateDir: string) {
+  constructor(stateDir: string, logger?: Logger) {
     this.filePath = path.join(stateDir, EMAILS_FILE);
+    this.logger = logger;
   }
 
   async append(entry: EmailLogEntry): Promise<void> {
     await fs.mkdir(path.dirname(this.filePath), { recursive: true });
-    const line = JSON.stringify(entry) + "\n";
+    const line = JSON.stringify({ ...entry, schemaVersion: schemaVersion("emailLog") }) + "\n";
+    const before = await this.stat();
     await fs.appendFile(this.filePath, line, "utf8");
+    // Extend the parsed copy rather than re-reading the file, unless something else wrote to it too
+    const after = await this.stat();
+    if (this.parsed && this.parsed.stamp === stampOf(before) && after?.size === (before?.size ?? 0) + Buffer.byteLength(line)) {
+      this.parsed.log.entries.push(upgradeState("emailLog", JSON.parse(line)));
+      this.parsed.stamp = stampOf(after);
+    }
   }
 
+  /** Every line that parses and validates; unreadable lines and lines from newer releases are skipped. */
   async readAll(): Promise<EmailLogEntry[]> {
+    return [...(await this.parse()).entries];
+  }
+
+  /**
+   * Moves unreadable lines (typically a line torn by a crash mid-append) to
+   * `emails.jsonl.corrupt-<timestamp>` and rewrites the file without them;
+   * lines from older releases are upgraded in the same rewrite, after backing
+   * up the old file. Only the leader calls this, inside `digest.exclusive`.
+   * A file with lines from a newer release is not rewritten at all.
+   */
+  async recover(): Promise<StateCorruption | null> {
+    const { entries, unreadable, firstReason, oldest, newest } = await this.parse();
+    if (newest > schemaVersion("emailLog")) throw new NewerStateError(this.filePath, newest);
+    if (unreadable.length === 0 && oldest === schemaVersion("emailLog")) return null;
+
+    let corruption: StateCorruption | null = null;
+    if (unreadable.length > 0) {
+      const movedTo = corruptPath(this.filePath);
+      await atomicWrite(movedTo, unreadable.join("\n") + "\n");
+      const reason = `${unreadable.length} unreadable line(s)`;
+      this.logger?.error(`betteremail: ${this.filePath} had ${reason} (first: ${firstReason}) — moved to ${movedTo}`);
+      corruption = { file: this.filePath, movedTo, reason };
+    }
+    if (oldest < schemaVersion("emailLog")) await backupFile(this.filePath, oldest);
+    await this.rewrite(entries);
+    if (oldest < schemaVersion("emailLog")) {
+      this.logger?.info(`betteremail: migrated ${this.filePath} from schemaVersion ${oldest} to ${schemaVersion("emailLog")}`);
+    }
+    return corruption;
+  }
+
+  private async parse(): Promise<ParsedLog> {
+    const stamp = stampOf(await this.stat());
+    if (this.parsed?.stamp === stamp) return this.parsed.log;
+    const entries: EmailLogEntry[] = [];
+    const unreadable: string[] = [];
+    let firstReason = "";
+    let oldest = schemaVersion("emailLog");
+    let newest = schemaVersion("emailLog");
+
+    let raw: string;
     try {
-      const raw = await fs.readFile(this.filePath, "utf8");
-      return raw
-        .trim()
-        .split("\n")
-        .filter((line) => line.length > 0)
-        .map((line) => JSON.parse(line) as EmailLogEntry);
+      raw = await fs.readFile(this.filePath, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+      raw = "";
+    }
+
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const parsed: unknown = JSON.parse(line);
+        if (dataVersion(parsed) > schemaVersion("emailLog")) {
+          newest = Math.max(newest, dataVersion(parsed));
+          continue;
+        }
+        const entry = upgradeState("emailLog", parsed);
+        oldest = Math.min(oldest, dataVersion(parsed));
+        entries.push(entry);
+      } catch (err) {
+        firstReason ||= err instanceof Error ? err.message : String(err);
+        unreadable.push(line);
+      }
+    }
+    const log = { entries, unreadable, firstReason, oldest, newest };
+    this.parsed = { stamp, log };
+    return log;
+  }
+
+  /** Replace the file with `entries`, all valid and current, and remember them as its parsed content. */
+  private async rewrite(entries: EmailLogEntry[]): Promise<void> {
+    await atomicWrite(this.filePath, entries.map((e) => JSON.stringify(e) + "\n").join(""));
+    const current = schemaVersion("emailLog");
+    this.parsed = {
+      stamp: stampOf(await this.stat()),
+      log: { entries, unreadable: [], firstReason: "", oldest: current, newest: current },
+    };
+  }
+
+  private async stat(): Promise<{ mtimeMs: number; size: number } | null> {
+    try {
+      return await fs.stat(this.filePath);
     } catch {
-      return [];
+      return null;
     }
   }
 
+  async seenIds(): Promise<Set<string>> {
+    return new Set((await this.readAll()).map((e) => e.email.id));
+  }
+
   async rotate(maxLines: number = DEFAULT_MAX_LINES): Promise<number> {
+    // The rewrite below would drop unreadable lines, so move them aside first
+    await this.recover();
     const entries = await this.readAll();
     if (entries.length <= maxLines) return 0;
 
@@ -41,9 +147,12 @@ export class EmailLog {
     const kept = entries.filter((e) => e.timestamp >= cutoff).slice(-maxLines);
     const removed = entries.length - kept.length;
 
-    const content = kept.map((e) => JSON.stringify(e)).join("\n") + "\n";
-    await atomicWrite(this.filePath, content);
+    await this.rewrite(kept);
 
     return removed;
   }
 }
+
+function stampOf(stat: { mtimeMs: number; size: number } | null): string {
+  return stat ? `${stat.mtimeMs}:${stat.size}` : "";
+}
@@ -0,0 +1,300 @@
+import { decodeCharset } from "./mime.js";
+import { LEGACY_ENTITIES, NAMED_ENTITIES } from "./html-entities.js";
+
+const NAMED_ENTITY_MAP = new Map(Object.entries(NAMED_ENTITIES));
+
+function decodeNumericEntity(code: number): string {
+  if (!Number.isFinite(code) || code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) return "\uFFFD";
+  // Browsers read &#128;–&#159; as Windows-1252, and so do the senders who write them
+  if (code >= 0x80 && code <= 0x9f) return decodeCharset(Buffer.from([code]), "windows-1252");
+  return String.fromCodePoint(code);
+}
+
+/**
+ * Decode named (`&eacute;`), decimal (`&#233;`) and hex (`&#xE9;`) character
+ * references the way browsers do. In attribute values a bare legacy name
+ * followed by a letter, digit or "=" is left alone, so URL queries survive.
+ */
+export function decodeEntities(text: string, inAttribute = false): string {
+  return text.replace(/&(?:#(\d{1,7})|#[xX]([0-9a-fA-F]{1,6})|([A-Za-z][A-Za-z0-9]{1,31}));?/g, (match, dec, hex, name, offset: number) => {
+    if (dec) return decodeNumericEntity(parseInt(dec, 10));
+    if (hex) return decodeNumericEntity(parseInt(hex, 16));
+    const decoded = match.endsWith(";") ? NAMED_ENTITY_MAP.get(name) : undefined;
+    if (decoded !== undefined) return decoded;
+    // Without a semicolon only the legacy names count, as the longest one the text starts with (e.g. "&notit" is "¬it")
+    for (let length = Math.min(name.length, 6); length >= 2; length--) {
+      const legacy = name.slice(0, length);
+      if (!LEGACY_ENTITIES.has(legacy)) continue;
+      const next = length < name.length ? name[length] : text[offset + match.length] ?? "";
+      if (inAttribute && /[A-Za-z0-9=]/.test(next)) return match;
+      return NAMED_ENTITY_MAP.get(legacy)! + match.slice(1 + length);
+    }
+    return match;
+  });
+}
+
+/** Heuristic: does this body carry markup rather than plain text? */
+export function looksLikeHtml(text: string): boolean {
+  return /<(?:!doctype|html|head|body|div|p|br|span|table|td|a|b|i|strong|em|ul|ol|li|font|style|img|h[1-6])\b[^>]*>/i.test(text);
+}
+
+// Elements whose content is never rendered
+const SKIP_ELEMENTS = new Set(["head", "title", "style", "script", "noscript", "template", "svg", "object", "iframe", "xml"]);
+
+const VOID_ELEMENTS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source", "track", "wbr",
+]);
+
+// Elements that start and end on their own line
+const BLOCK_ELEMENTS = new Set([
+  "address", "article", "aside", "center", "dd", "div", "dl", "dt", "fieldset", "figcaption", "figure", "footer",
+  "form", "header", "li", "main", "nav", "section", "tr",
+]);
+
+// Block elements that are followed by a blank line
+const PARAGRAPH_ELEMENTS = new Set(["p", "h1", "h2", "h3", "h4", "h5", "h6", "pre", "table", "ul", "ol", "blockquote", "hr"]);
+
+// Preheaders and Outlook-only fallbacks hide themselves with inline styles
+const HIDDEN_STYLE = /(?:^|;)\s*(?:display\s*:\s*none|visibility\s*:\s*hidden|mso-hide\s*:\s*all|max-height\s*:\s*0(?:px)?\s*(?:!important)?\s*(?:;|$)|opacity\s*:\s*0(?:\.0+)?\s*(?:;|$)|font-size\s*:\s*0(?:px)?\s*(?:;|$))/i;
+
+// Padding characters mailers stuff after preheaders
+const INVISIBLE_CHARS = /[\u00ad\u034f\u200b-\u200d\u2060\ufeff]/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const re = /([^\s=/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(source)) !== null) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "", true);
+  }
+  return attrs;
+}
+
+function isHidden(attrs: Record<string, string>): boolean {
+  return "hidden" in attrs || HIDDEN_STYLE.test(attrs.style ?? "");
+}
+
+interface ListState {
+  ordered: boolean;
+  index: number;
+}
+
+interface LinkState {
+  href: string;
+  start: number;
+}
+
+export interface HtmlText {
+  text: string;
+  /** Link targets; `links[n - 1]` is the URL behind a `[n]` marker in `text`. */
+  links: string[];
+}
+
+/**
+ * Render an HTML email body as readable plain text. Non-visible content
+ * (head, style, script, hidden preheaders) is dropped, block elements become
+ * line breaks, lists become bullets, table rows become `a | b` lines,
+ * blockquotes become `> ` quotes and links get `[n]` footnote markers.
+ */
+export function renderHtml(html: string): HtmlText {
+  const source = html.replace(/<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[^>]*>/g, "");
+  const tokens = /<(\/?)([A-Za-z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>|([^<]+|<)/g;
+
+  let out = "";
+  let atLineStart = true;
+  let pendingSpace = false;
+  // Stack of open element names inside a skipped or hidden subtree
+  let skipStack: string[] = [];
+  const lists: ListState[] = [];
+  const cells: number[] = [];
+  const links: LinkState[] = [];
+  const footnotes: string[] = [];
+  let quoteDepth = 0;
+  let preDepth = 0;
+
+  // Blank lines are deferred to the next write so none trail a closing block;
+  // the value is the quote depth the blank line belongs to
+  let pendingBlank = -1;
+
+  const breakLine = (blank: boolean) => {
+    pendingSpace = false;
+    if (out.length === 0) return;
+    if (!atLineStart) {
+      out = out.replace(/[ \t]+$/, "") + "\n";
+      atLineStart = true;
+    }
+    if (blank) pendingBlank = pendingBlank === -1 ? quoteDepth : Math.min(pendingBlank, quoteDepth);
+  };
+
+  const write = (text: string) => {
+    if (!text) return;
+    if (atLineStart) {
+      if (pendingBlank !== -1) out += `${"> ".repeat(pendingBlank).trimEnd()}\n`;
+      out += "> ".repeat(quoteDepth) + "  ".repeat(Math.max(0, lists.length - 1));
+      atLineStart = false;
+      pendingBlank = -1;
+    } else if (pendingSpace) {
+      out += " ";
+    }
+    pendingSpace = false;
+    out += text;
+  };
+
+  const writeText = (raw: string) => {
+    const text = decodeEntities(raw).replace(INVISIBLE_CHARS, "");
+    if (preDepth > 0) {
+      text.split("\n").forEach((line, i) => {
+        if (i > 0 && atLineStart) out += "\n";
+        else if (i > 0) breakLine(false);
+        write(line);
+      });
+      return;
+    }
+    if (/^\s/.test(text)) pendingSpace = !atLineStart;
+    const words = text.trim().replace(/\s+/g, " ");
+    if (words) write(words);
+    if (/\s$/.test(text) && words) pendingSpace = true;
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = tokens.exec(source)) !== null) {
+    const [, closing, rawName, rawAttrs, text] = match;
+
+    if (text !== undefined) {
+      if (skipStack.length === 0) writeText(text);
+      continue;
+    }
+
+    const name = rawName.toLowerCase();
+    const selfClosing = /\/\s*$/.test(rawAttrs) || VOID_ELEMENTS.has(name);
+
+    if (skipStack.length > 0) {
+      if (closing) {
+        const idx = skipStack.lastIndexOf(name);
+        if (idx !== -1) skipStack = skipStack.slice(0, idx);
+      } else if (!selfClosing) {
+        skipStack.push(name);
+      }
+      continue;
+    }
+
+    if (!closing) {
+      const attrs = parseAttributes(rawAttrs);
+      if (SKIP_ELEMENTS.has(name) || isHidden(attrs)) {
+        if (!selfClosing) skipStack.push(name);
+        continue;
+      }
+      switch (name) {
+        case "br":
+          breakLine(false);
+          break;
+        case "img":
+          if (attrs.alt?.trim()) writeText(` ${attrs.alt} `);
+          break;
+        case "ul":
+        case "ol":
+          if (lists.length === 0) breakLine(true);
+          else breakLine(false);
+          lists.push({ ordered: name === "ol", index: 0 });
+          break;
+        case "li": {
+          breakLine(false);
+          const list = lists[lists.length - 1];
+          if (list) {
+            list.index++;
+            write(list.ordered ? `${list.index}.` : "-");
+            pendingSpace = true;
+          }
+          break;
+        }
+        case "tr":
+          breakLine(false);
+          cells.push(0);
+          break;
+        case "td":
+        case "th":
+          if (cells.length > 0 && cells[cells.length - 1]++ > 0 && !atLineStart) {
+            write(" |");
+            pendingSpace = true;
+          }
+          break;
+        case "blockquote":
+          breakLine(true);
+          quoteDepth++;
+          break;
+        case "pre":
+          breakLine(true);
+          preDepth++;
+          break;
+        case "a":
+          links.push({ href: attrs.href ?? "", start: out.length });
+          break;
+        default:
+          if (PARAGRAPH_ELEMENTS.has(name)) breakLine(true);
+          else if (BLOCK_ELEMENTS.has(name)) breakLine(false);
+      }
+      continue;
+    }
+
+    switch (name) {
+      case "ul":
+      case "ol":
+        lists.pop();
+        breakLine(lists.length === 0);
+        break;
+      case "tr":
+        cells.pop();
+        breakLine(false);
+        break;
+      case "blockquote":
+        breakLine(false);
+        quoteDepth = Math.max(0, quoteDepth - 1);
+        breakLine(true);
+        break;
+      case "pre":
+        preDepth = Math.max(0, preDepth - 1);
+        breakLine(true);
+        break;
+      case "a": {
+        const link = links.pop();
+        if (!link) break;
+        const label = out.slice(link.start).trim();
+        const href = link.href.trim();
+        if (!label || !/^(?:https?:|mailto:)/i.test(href)) break;
+        // Skip footnotes that would only repeat the visible text
+        const target = href.replace(/^mailto:/i, "");
+        if (label === target || label === href || label.replace(/\/$/, "") === target.replace(/\/$/, "")) break;
+        let n = footnotes.indexOf(href) + 1;
+        if (n === 0) n = footnotes.push(href);
+        pendingSpace = false;
+        write(`[${n}]`);
+        break;
+      }
+      default:
+        if (PARAGRAPH_ELEMENTS.has(name)) breakLine(true);
+        else if (BLOCK_ELEMENTS.has(name)) breakLine(false);
+    }
+  }
+
+  const text = out
+    .split("\n")
+    .map((line) => line.replace(/\s+$/, ""))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return { text, links: footnotes };
+}
+
+/** Append the footnotes still referenced by `[n]` markers in `text`. */
+export function appendFootnotes(text: string, links: string[]): string {
+  const used = links
+    .map((href, i) => ({ href, n: i + 1 }))
+    .filter(({ n }) => text.includes(`[${n}]`));
+  if (used.length === 0) return text;
+  return `${text}\n\n${used.map(({ href, n }) => `[${n}] ${href}`).join("\n")}`;
+}
+
+export function htmlToText(html: string): string {
+  const { text, links } = renderHtml(html);
+  return appendFootnotes(text, links);
+}
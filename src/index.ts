@@ -1,16 +1,36 @@
 import * as path from "node:path";
 import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
-import type { PluginConfig } from "./types.js";
+import type { AccountConfig, Logger, MailSource, PluginConfig } from "./types.js";
 import { DigestManager } from "./digest.js";
-import { EmailLog } from "./email-log.js";
 import { Poller } from "./poller.js";
 import { Scheduler } from "./scheduler.js";
 import { runPipeline } from "./pipeline.js";
+import { loadState } from "./recovery.js";
+import { LeaderLock } from "./lock.js";
+import { TriageJournal } from "./triage-journal.js";
 import { createGetEmailDigestTool } from "./tools/get-email-digest.js";
 import { createMarkEmailHandledTool } from "./tools/mark-email-handled.js";
 import { createDeferEmailTool } from "./tools/defer-email.js";
 import { createDismissEmailTool } from "./tools/dismiss-email.js";
+import { createRestoreEmailTool } from "./tools/restore-email.js";
+import { createUndoLastTriageTool } from "./tools/undo-last-triage.js";
+import { createMuteThreadTool } from "./tools/mute-thread.js";
+import { createUnmuteThreadTool } from "./tools/unmute-thread.js";
+import { createBlockSenderTool } from "./tools/block-sender.js";
+import { createAllowSenderTool } from "./tools/allow-sender.js";
+import { createListSenderRulesTool } from "./tools/list-sender-rules.js";
+import { createRemoveSenderRuleTool } from "./tools/remove-sender-rule.js";
+import { createGetEmailTool } from "./tools/get-email.js";
+import { createGetEmailHistoryTool } from "./tools/get-email-history.js";
+import { createTestEmailRuleTool } from "./tools/test-email-rule.js";
+import { createSaveEmailAttachmentTool } from "./tools/save-email-attachment.js";
 import { createEmailsCommandHandler } from "./commands/emails.js";
+import { createMailSource, resolveAccount } from "./sources/index.js";
+import { createStorage } from "./storage/index.js";
+import { SUPPORTED_LOCALES, compileTrimPattern } from "./trimmer.js";
+import { extractAttachmentPreview } from "./attachment-text.js";
+import { resolveRules } from "./rules.js";
+import { DEFAULT_PRIORITY_CONFIG, resolvePriorityConfig } from "./priority.js";
 
 const DEFAULT_CONFIG: PluginConfig = {
   accounts: [],
@@ -18,16 +38,54 @@ const DEFAULT_CONFIG: PluginConfig = {
   workHours: { start: 9, end: 18, timezone: "Europe/London" },
   consecutiveFailuresBeforeAlert: 3,
   rescanDaysOnHistoryReset: 7,
+  trimmer: { locales: SUPPORTED_LOCALES, quotePatterns: [], signaturePatterns: [] },
+  attachments: {
+    directory: "attachments",
+    maxBytes: 25 * 1024 * 1024,
+    allowedMimeTypes: [
+      "application/pdf",
+      "text/plain",
+      "text/csv",
+      "text/calendar",
+      "image/*",
+      "application/msword",
+      "application/vnd.ms-excel",
+      "application/vnd.ms-powerpoint",
+      "application/vnd.openxmlformats-officedocument.*",
+      "application/vnd.oasis.opendocument.*",
+    ],
+  },
+  attachmentText: { enabled: false, maxBytes: 1024 * 1024, maxAttachments: 2, maxChars: 400 },
+  storage: "json",
+  rules: [],
+  priority: DEFAULT_PRIORITY_CONFIG,
 };
 
-function resolveConfig(raw: Record<string, unknown> | undefined): PluginConfig {
+function resolvePatterns(raw: unknown, key: string, logger: Logger): string[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((p): p is string => {
+    if (typeof p === "string" && compileTrimPattern(p)) return true;
+    logger.warn(`betteremail: ignoring invalid trimmer.${key} entry: ${String(p)}`);
+    return false;
+  });
+}
+
+function resolveConfig(raw: Record<string, unknown> | undefined, logger: Logger): PluginConfig {
   const pollIntervalRaw = raw?.pollIntervalMinutes && typeof raw.pollIntervalMinutes === "object"
     ? raw.pollIntervalMinutes as Record<string, unknown> : null;
   const workHoursRaw = raw?.workHours && typeof raw.workHours === "object"
     ? raw.workHours as Record<string, unknown> : null;
+  const trimmerRaw = raw?.trimmer && typeof raw.trimmer === "object"
+    ? raw.trimmer as Record<string, unknown> : null;
+  const attachmentsRaw = raw?.attachments && typeof raw.attachments === "object"
+    ? raw.attachments as Record<string, unknown> : null;
+  const attachmentTextRaw = raw?.attachmentText && typeof raw.attachmentText === "object"
+    ? raw.attachmentText as Record<string, unknown> : null;
 
   return {
-    accounts: Array.isArray(raw?.accounts) ? (raw.accounts as string[]) : DEFAULT_CONFIG.accounts,
+    accounts: Array.isArray(raw?.accounts)
+      ? raw.accounts.map((account) => resolveAccount(account, logger)).filter((a): a is AccountConfig => a !== null)
+      : DEFAULT_CONFIG.accounts,
     pollIntervalMinutes: pollIntervalRaw ? {
       workHours: typeof pollIntervalRaw.workHours === "number" ? pollIntervalRaw.workHours : DEFAULT_CONFIG.pollIntervalMinutes.workHours,
       offHours: typeof pollIntervalRaw.offHours === "number" ? pollIntervalRaw.offHours : DEFAULT_CONFIG.pollIntervalMinutes.offHours,
@@ -45,6 +103,43 @@ function resolveConfig(raw: Record<string, unknown> | undefined): PluginConfig {
       typeof raw?.rescanDaysOnHistoryReset === "number"
         ? raw.rescanDaysOnHistoryReset
         : DEFAULT_CONFIG.rescanDaysOnHistoryReset,
+    trimmer: trimmerRaw ? {
+      locales: Array.isArray(trimmerRaw.locales)
+        ? trimmerRaw.locales.filter((l): l is string => {
+          if (typeof l === "string" && SUPPORTED_LOCALES.includes(l)) return true;
+          logger.warn(`betteremail: ignoring unsupported trimmer locale: ${String(l)}`);
+          return false;
+        })
+        : DEFAULT_CONFIG.trimmer.locales,
+      quotePatterns: resolvePatterns(trimmerRaw.quotePatterns, "quotePatterns", logger),
+      signaturePatterns: resolvePatterns(trimmerRaw.signaturePatterns, "signaturePatterns", logger),
+    } : DEFAULT_CONFIG.trimmer,
+    attachments: attachmentsRaw ? {
+      directory: typeof attachmentsRaw.directory === "string" && attachmentsRaw.directory.trim()
+        ? attachmentsRaw.directory
+        : DEFAULT_CONFIG.attachments.directory,
+      maxBytes: typeof attachmentsRaw.maxBytes === "number" && attachmentsRaw.maxBytes > 0
+        ? attachmentsRaw.maxBytes
+        : DEFAULT_CONFIG.attachments.maxBytes,
+      allowedMimeTypes: Array.isArray(attachmentsRaw.allowedMimeTypes)
+        ? attachmentsRaw.allowedMimeTypes.filter((t): t is string => typeof t === "string").map((t) => t.toLowerCase())
+        : DEFAULT_CONFIG.attachments.allowedMimeTypes,
+    } : DEFAULT_CONFIG.attachments,
+    attachmentText: attachmentTextRaw ? {
+      enabled: attachmentTextRaw.enabled === true,
+      maxBytes: typeof attachmentTextRaw.maxBytes === "number" && attachmentTextRaw.maxBytes > 0
+        ? attachmentTextRaw.maxBytes
+        : DEFAULT_CONFIG.attachmentText.maxBytes,
+      maxAttachments: typeof attachmentTextRaw.maxAttachments === "number" && attachmentTextRaw.maxAttachments >= 0
+        ? Math.floor(attachmentTextRaw.maxAttachments)
+        : DEFAULT_CONFIG.attachmentText.maxAttachments,
+      maxChars: typeof attachmentTextRaw.maxChars === "number" && attachmentTextRaw.maxChars > 0
+        ? attachmentTextRaw.maxChars
+        : DEFAULT_CONFIG.attachmentText.maxChars,
+    } : DEFAULT_CONFIG.attachmentText,
+    storage: raw?.storage === "json" || raw?.storage === "sqlite" ? raw.storage : DEFAULT_CONFIG.storage,
+    rules: resolveRules(raw?.rules, logger),
+    priority: resolvePriorityConfig(raw?.priority, logger),
   };
 }
 
@@ -53,7 +148,7 @@ export default {
   name: "BetterEmail Digest",
 
   register(api: OpenClawPluginApi) {
-    const config = resolveConfig(api.pluginConfig as Record<string, unknown> | undefined);
+    const config = resolveConfig(api.pluginConfig as Record<string, unknown> | undefined, api.logger);
     const stateDir = path.join(api.runtime.state.resolveStateDir(), "betteremail");
 
     api.logger.info(
@@ -66,14 +161,28 @@ export default {
       return;
     }
 
-    const digest = new DigestManager(stateDir);
-    const emailLog = new EmailLog(stateDir);
-    const poller = new Poller(api, stateDir, config.accounts, config.rescanDaysOnHistoryReset);
+    const runCommand = (args: string[], opts: { timeoutMs: number }) =>
+      api.runtime.system.runCommandWithTimeout(args, opts);
+    const accountEmails = config.accounts.map((a) => a.email);
+    const sources = new Map<string, MailSource>();
+    for (const account of config.accounts) {
+      sources.set(account.email, createMailSource(account, { runCommand, logger: api.logger }));
+    }
+
+    const storage = createStorage(config.storage, stateDir, api.logger);
+    const digest = new DigestManager(stateDir, storage.digestStore);
+    const emailLog = storage.emailLog;
+    const poller = new Poller(api.logger, stateDir, sources, config.rescanDaysOnHistoryReset, config.trimmer);
+    const lock = new LeaderLock(stateDir, api.logger);
     let initialized = false;
     const initPromise = (async () => {
       try {
-        await digest.load();
-        await poller.loadState();
+        // Only the lock holder repairs state; elsewhere mutating tools refuse to run while it cannot be read
+        if (await lock.acquire()) {
+          await digest.repairing(() => loadState({ poller, digest, emailLog, logger: api.logger, runCommand }));
+        } else {
+          await digest.refresh();
+        }
         initialized = true;
         api.logger.info("betteremail: async init complete");
       } catch (err) {
@@ -82,12 +191,35 @@ export default {
     })();
 
     api.registerTool(createGetEmailDigestTool(digest, initPromise, {
-      accounts: config.accounts,
+      accounts: accountEmails,
       checkThreadForReply: (threadId, account) => poller.checkThreadForReply(threadId, account),
     }));
-    api.registerTool(createMarkEmailHandledTool(digest, initPromise));
-    api.registerTool(createDeferEmailTool(digest, initPromise));
-    api.registerTool(createDismissEmailTool(digest, initPromise));
+    const journal = new TriageJournal();
+    api.registerTool(createMarkEmailHandledTool(digest, initPromise, journal));
+    api.registerTool(createDeferEmailTool(digest, initPromise, journal));
+    api.registerTool(createDismissEmailTool(digest, initPromise, journal));
+    api.registerTool(createRestoreEmailTool(digest, initPromise));
+    api.registerTool(createUndoLastTriageTool(digest, journal, initPromise));
+    api.registerTool(createMuteThreadTool(digest, initPromise));
+    api.registerTool(createUnmuteThreadTool(digest, initPromise));
+    api.registerTool(createBlockSenderTool(digest, initPromise));
+    api.registerTool(createAllowSenderTool(digest, initPromise));
+    api.registerTool(createListSenderRulesTool(digest, initPromise));
+    api.registerTool(createRemoveSenderRuleTool(digest, initPromise));
+    api.registerTool(createGetEmailTool(digest, initPromise, {
+      fetchMessage: (messageId, account) => poller.fetchMessage(messageId, account),
+      fetchThread: (threadId, account) => poller.fetchThread(threadId, account),
+      trimmer: config.trimmer,
+    }));
+    api.registerTool(createGetEmailHistoryTool(digest, initPromise));
+    api.registerTool(createTestEmailRuleTool(digest, initPromise, { rules: config.rules, emailLog }));
+    api.registerTool(createSaveEmailAttachmentTool(digest, initPromise, {
+      fetchMessage: (messageId, account) => poller.fetchMessage(messageId, account),
+      fetchAttachment: (messageId, attachmentId, account) => poller.fetchAttachment(messageId, attachmentId, account),
+      directory: path.resolve(stateDir, config.attachments.directory),
+      maxBytes: config.attachments.maxBytes,
+      allowedMimeTypes: config.attachments.allowedMimeTypes,
+    }));
 
     api.registerCommand({
       name: "emails",
@@ -95,20 +227,40 @@ export default {
       handler: createEmailsCommandHandler(digest),
     });
 
+    let polling: boolean | undefined;
     const runOnce = async () => {
       if (!initialized) await initPromise;
 
+      const leader = await lock.acquire();
+      if (leader !== polling) {
+        api.logger.info(leader
+          ? "betteremail: holding the poller lock — this process polls"
+          : "betteremail: another process holds the poller lock — serving tools only");
+        polling = leader;
+      }
+      if (!leader) return;
+
       await runPipeline({
-        accounts: config.accounts,
+        accounts: accountEmails,
         poller,
         digest,
         emailLog,
         logger: api.logger,
-        runCommand: (args, opts) => api.runtime.system.runCommandWithTimeout(args, opts),
+        runCommand,
         consecutiveFailuresBeforeAlert: config.consecutiveFailuresBeforeAlert,
+        rules: config.rules,
+        priority: config.priority,
+        extractAttachmentText: config.attachmentText.enabled
+          ? (email) => extractAttachmentPreview(email, {
+            fetchAttachment: (messageId, attachmentId, account) => poller.fetchAttachment(messageId, attachmentId, account),
+            config: config.attachmentText,
+            trimmer: config.trimmer,
+            logger: api.logger,
+          })
+          : undefined,
       });
 
-      await emailLog.rotate();
+      await digest.exclusive(() => emailLog.rotate());
     };
 
     const scheduler = new Scheduler(
@@ -125,6 +277,9 @@ export default {
       },
       stop: () => {
         scheduler.stop();
+        lock.release().catch((err) => {
+          api.logger.warn(`betteremail: could not release poller lock: ${err instanceof Error ? err.message : String(err)}`);
+        });
         api.logger.info("betteremail: polling service stopped");
       },
     });
@@ -0,0 +1,196 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as crypto from "node:crypto";
+import type { Logger } from "./types.js";
+import { atomicWrite } from "./atomic.js";
+
+export const LOCK_FILE = "poller.lock";
+export const HEARTBEAT_MS = 30_000;
+export const STALE_MS = 2 * 60_000;
+
+export interface LockInfo {
+  pid: number;
+  hostname: string;
+  /** Distinguishes plugin instances that share a process */
+  token: string;
+  acquiredAt: string;
+  heartbeatAt: string;
+}
+
+export interface LeaderLockOptions {
+  heartbeatMs?: number;
+  staleMs?: number;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: it exists but belongs to someone else
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Advisory lock electing the one process allowed to poll a state directory.
+ * The holder rewrites `poller.lock` every heartbeat; a lock whose heartbeat is
+ * older than the stale timeout, or whose process is gone from this host, is
+ * taken over by the next process that asks.
+ */
+export class LeaderLock {
+  private filePath: string;
+  private logger: Logger;
+  private heartbeatMs: number;
+  private staleMs: number;
+  private token = crypto.randomUUID();
+  private acquiredAt = "";
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private leader = false;
+
+  constructor(stateDir: string, logger: Logger, options: LeaderLockOptions = {}) {
+    this.filePath = path.join(stateDir, LOCK_FILE);
+    this.logger = logger;
+    this.heartbeatMs = options.heartbeatMs ?? HEARTBEAT_MS;
+    this.staleMs = options.staleMs ?? STALE_MS;
+  }
+
+  get isLeader(): boolean {
+    return this.leader;
+  }
+
+  /** Become (or stay) the poller. Returns false while another live process holds the lock. */
+  async acquire(): Promise<boolean> {
+    const current = await this.read();
+    if (current?.token === this.token) {
+      await this.heartbeat();
+      return this.leader;
+    }
+    if (current && !this.isStale(current)) {
+      this.setLeader(false);
+      return false;
+    }
+    if (current && !(await this.removeStale(current))) return false;
+
+    this.acquiredAt = new Date().toISOString();
+    try {
+      await atomicWrite(this.filePath, this.serialize(), { overwrite: false });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "EEXIST") return false;
+      throw err;
+    }
+    if (current) {
+      this.logger.warn(`betteremail: took over poller lock from pid ${current.pid} (last heartbeat ${current.heartbeatAt})`);
+    }
+    this.setLeader(true);
+    return true;
+  }
+
+  async release(): Promise<void> {
+    this.setLeader(false);
+    const current = await this.read();
+    if (current?.token !== this.token) return;
+    await fs.rm(this.filePath, { force: true });
+  }
+
+  /** Refresh the heartbeat, or step down if another process has taken the lock over. */
+  async heartbeat(): Promise<void> {
+    const current = await this.read();
+    if (current?.token !== this.token) {
+      if (this.leader) {
+        this.logger.warn(`betteremail: lost poller lock${current ? ` to pid ${current.pid}` : ""} — no longer polling`);
+      }
+      this.setLeader(false);
+      return;
+    }
+    await atomicWrite(this.filePath, this.serialize());
+    this.setLeader(true);
+  }
+
+  private setLeader(leader: boolean): void {
+    this.leader = leader;
+    if (leader && !this.timer) {
+      this.timer = setInterval(() => {
+        this.heartbeat().catch((err) => {
+          this.logger.warn(`betteremail: poller lock heartbeat failed: ${err instanceof Error ? err.message : String(err)}`);
+        });
+      }, this.heartbeatMs);
+      this.timer.unref?.();
+    } else if (!leader && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private serialize(): string {
+    const info: LockInfo = {
+      pid: process.pid,
+      hostname: os.hostname(),
+      token: this.token,
+      acquiredAt: this.acquiredAt,
+      heartbeatAt: new Date().toISOString(),
+    };
+    return JSON.stringify(info) + "\n";
+  }
+
+  /** The lock holder, null when unlocked. A lock that cannot be parsed is dated by its mtime. */
+  private async read(): Promise<LockInfo | null> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+    try {
+      const info = JSON.parse(raw) as LockInfo;
+      if (typeof info.token === "string" && typeof info.heartbeatAt === "string") return info;
+    } catch {
+      // Fall through to the mtime below
+    }
+    try {
+      const mtime = (await fs.stat(this.filePath)).mtime.toISOString();
+      return { pid: 0, hostname: "", token: "", acquiredAt: mtime, heartbeatAt: mtime };
+    } catch {
+      return null;
+    }
+  }
+
+  private isStale(info: LockInfo): boolean {
+    if (Date.now() - new Date(info.heartbeatAt).getTime() > this.staleMs) return true;
+    return info.hostname === os.hostname() && info.pid > 0 && !isProcessAlive(info.pid);
+  }
+
+  /**
+   * Move a stale lock out of the way. The file is renamed before it is checked,
+   * so two processes taking over at once cannot delete each other's fresh lock.
+   */
+  private async removeStale(seen: LockInfo): Promise<boolean> {
+    const aside = `${this.filePath}.${this.token}.stale`;
+    try {
+      await fs.rename(this.filePath, aside);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return true;
+      throw err;
+    }
+    let moved: LockInfo | null = null;
+    try {
+      moved = JSON.parse(await fs.readFile(aside, "utf8")) as LockInfo;
+    } catch {
+      // Unreadable, like the stale lock we saw
+    }
+    if (!moved || (moved.token === seen.token && moved.heartbeatAt === seen.heartbeatAt)) {
+      await fs.rm(aside, { force: true });
+      return true;
+    }
+    // Someone else's fresh lock replaced the stale one meanwhile — put it back
+    try {
+      await fs.link(aside, this.filePath);
+    } catch {
+      // A third process got there first; its lock stands
+    }
+    await fs.rm(aside, { force: true });
+    return false;
+  }
+}
@@ -0,0 +1,454 @@
+import type { AttachmentInfo, RawGogMessage } from "./types.js";
+
+export interface ParsedMessage {
+  headers: Map<string, string>;
+  body: string;
+}
+
+export interface MimePart {
+  /** Lowercased type/subtype, e.g. "text/plain" */
+  contentType: string;
+  params: Record<string, string>;
+  headers: Map<string, string>;
+  disposition?: string;
+  filename?: string;
+  /** Transfer-decoded bytes (empty for multipart containers) */
+  body: Buffer;
+  /** Declared size and provider handle when the bytes were not downloaded (Gmail attachments) */
+  size?: number;
+  attachmentId?: string;
+  parts: MimePart[];
+}
+
+export interface BodyText {
+  text: string;
+  isHtml: boolean;
+}
+
+/** Shape of a Gmail API message part, as returned in gog's `payload` */
+export interface GmailPayloadPart {
+  mimeType?: string;
+  filename?: string;
+  headers?: { name: string; value: string }[];
+  body?: { data?: string; size?: number; attachmentId?: string };
+  parts?: GmailPayloadPart[];
+}
+
+const MAX_MIME_DEPTH = 10;
+
+export function parseHeaders(block: string): Map<string, string> {
+  const headers = new Map<string, string>();
+  // Unfold continuation lines (RFC 5322 §2.2.3)
+  const unfolded = block.replace(/\r?\n[ \t]+/g, " ");
+  for (const line of unfolded.split(/\r?\n/)) {
+    const idx = line.indexOf(":");
+    if (idx <= 0) continue;
+    const name = line.slice(0, idx).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(idx + 1).trim());
+  }
+  return headers;
+}
+
+export function parseRfc822(raw: string): ParsedMessage {
+  const match = /\r?\n\r?\n/.exec(raw);
+  if (!match) return { headers: parseHeaders(raw), body: "" };
+  return {
+    headers: parseHeaders(raw.slice(0, match.index)),
+    body: raw.slice(match.index + match[0].length),
+  };
+}
+
+export function parseMessageIds(value: string | undefined): string[] {
+  if (!value) return [];
+  return [...value.matchAll(/<([^<>\s]+)>/g)].map((m) => m[1]);
+}
+
+/**
+ * Derive a stable thread ID from RFC 5322 threading headers: the root of
+ * References, then In-Reply-To, then the message's own Message-ID.
+ */
+export function deriveThreadId(headers: Map<string, string>): string | undefined {
+  return parseMessageIds(headers.get("references"))[0]
+    ?? parseMessageIds(headers.get("in-reply-to"))[0]
+    ?? parseMessageIds(headers.get("message-id"))[0];
+}
+
+// -- Decoding --
+
+// Windows-1252 code points for 0x80–0x9F (undefined slots map to themselves)
+const CP1252_HIGH = [
+  0x20ac, 0x81, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0x8d, 0x017d, 0x8f,
+  0x90, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0x9d, 0x017e, 0x0178,
+];
+
+/** Whether headers mark a message as mailing-list or bulk mail (List-Id, List-Unsubscribe, Precedence). */
+export function isBulkMail(headers: Map<string, string>): boolean {
+  return headers.has("list-id") || headers.has("list-unsubscribe") ||
+    /^(bulk|list|junk)$/i.test(headers.get("precedence") ?? "");
+}
+
+function decodeWindows1252(bytes: Buffer): string {
+  let out = "";
+  for (const byte of bytes) {
+    out += String.fromCharCode(byte >= 0x80 && byte <= 0x9f ? CP1252_HIGH[byte - 0x80] : byte);
+  }
+  return out;
+}
+
+export function decodeCharset(bytes: Buffer, charset?: string): string {
+  const label = (charset ?? "utf-8").trim().toLowerCase() || "utf-8";
+  try {
+    const decoder = new TextDecoder(label);
+    // Node decodes windows-1252 (and the labels WHATWG aliases to it, like
+    // iso-8859-1 and us-ascii) as plain Latin-1, losing €, curly quotes and dashes
+    if (decoder.encoding === "windows-1252") return decodeWindows1252(bytes);
+    return decoder.decode(bytes);
+  } catch {
+    // Unknown charset label — UTF-8 is the most likely truth
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+/** Decode quoted-printable from a binary (latin1) string. */
+export function decodeQuotedPrintable(input: string): Buffer {
+  const text = input.replace(/[ \t]*=\r?\n/g, "");
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function decodeTransferEncoding(body: string, encoding: string | undefined): Buffer {
+  switch ((encoding ?? "").trim().toLowerCase()) {
+    case "base64":
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ""), "base64");
+    case "quoted-printable":
+      return decodeQuotedPrintable(body);
+    default:
+      return Buffer.from(body, "latin1");
+  }
+}
+
+const ENCODED_WORD = /=\?([^?*]+)(?:\*[^?]*)?\?([bBqQ])\?([^?]*)\?=/g;
+
+/**
+ * Decode RFC 2047 encoded-words. Adjacent words in the same charset are
+ * joined at the byte level so multi-byte characters split across words
+ * survive.
+ */
+export function decodeEncodedWords(value: string): string {
+  // Whitespace between adjacent encoded-words is not significant (§6.2)
+  const collapsed = value.replace(/(\?=)\s+(?==\?)/g, "$1");
+  let out = "";
+  let last = 0;
+  let pending: { charset: string; bytes: Buffer[] } | null = null;
+  const flush = () => {
+    if (pending) out += decodeCharset(Buffer.concat(pending.bytes), pending.charset);
+    pending = null;
+  };
+  for (const match of collapsed.matchAll(ENCODED_WORD)) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      flush();
+      out += collapsed.slice(last, index);
+    }
+    const charset = match[1].toLowerCase();
+    const bytes = match[2].toUpperCase() === "B"
+      ? Buffer.from(match[3], "base64")
+      : decodeQuotedPrintable(match[3].replace(/_/g, " "));
+    if (pending && pending.charset !== charset) flush();
+    pending ??= { charset, bytes: [] };
+    pending.bytes.push(bytes);
+    last = index + match[0].length;
+  }
+  flush();
+  return out + collapsed.slice(last);
+}
+
+/**
+ * Decode a header value taken from a binary message: raw 8-bit bytes are read
+ * as UTF-8 (falling back to Windows-1252), then encoded-words are expanded.
+ */
+export function decodeHeaderValue(binary: string | undefined): string | undefined {
+  if (binary === undefined) return undefined;
+  const bytes = Buffer.from(binary, "latin1");
+  const utf8 = bytes.toString("utf8");
+  const text = utf8.includes("\uFFFD") ? decodeCharset(bytes, "windows-1252") : utf8;
+  return decodeEncodedWords(text);
+}
+
+/** Parse `value; key=val; key2="quoted"` including RFC 2231 continuations and charsets. */
+export function parseHeaderParams(header: string): { value: string; params: Record<string, string> } {
+  const semi = header.indexOf(";");
+  const value = (semi < 0 ? header : header.slice(0, semi)).trim();
+  const raw = new Map<string, { text: string; extended: boolean }[]>();
+  const re = /;\s*([^=\s;]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(header)) !== null) {
+    const key = match[1].toLowerCase();
+    const text = match[2] !== undefined ? match[2].replace(/\\(.)/g, "$1") : match[3].trim();
+    const cont = /^(.+?)\*(\d+)(\*?)$/.exec(key);
+    const name = cont ? cont[1] : key.replace(/\*$/, "");
+    const extended = cont ? cont[3] === "*" : key.endsWith("*");
+    const index = cont ? Number(cont[2]) : 0;
+    const segments = raw.get(name) ?? [];
+    segments[index] = { text, extended };
+    raw.set(name, segments);
+  }
+
+  const params: Record<string, string> = {};
+  for (const [name, segments] of raw) {
+    const present = segments.filter(Boolean);
+    if (present.some((s) => s.extended)) {
+      let charset = "utf-8";
+      const bytes: Buffer[] = [];
+      present.forEach((segment, i) => {
+        let text = segment.text;
+        if (i === 0 && segment.extended) {
+          const parts = /^([^']*)'[^']*'(.*)$/.exec(text);
+          if (parts) {
+            charset = parts[1] || charset;
+            text = parts[2];
+          }
+        }
+        bytes.push(segment.extended
+          ? Buffer.from(text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))), "latin1")
+          : Buffer.from(text, "latin1"));
+      });
+      params[name] = decodeCharset(Buffer.concat(bytes), charset);
+    } else {
+      params[name] = present.map((s) => s.text).join("");
+    }
+  }
+  return { value, params };
+}
+
+// -- MIME tree --
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const delimiter = new RegExp(`(?:^|\\r?\\n)--${escaped}(--)?[ \\t]*(?:\\r?\\n|$)`, "g");
+  const parts: string[] = [];
+  let start = -1;
+  let match: RegExpExecArray | null;
+  while ((match = delimiter.exec(body)) !== null) {
+    if (start >= 0) parts.push(body.slice(start, match.index));
+    if (match[1]) return parts;
+    start = delimiter.lastIndex;
+  }
+  // Tolerate a missing closing delimiter
+  if (start >= 0) parts.push(body.slice(start));
+  return parts;
+}
+
+/** Parse a MIME entity from a binary (latin1) string. */
+export function parseMimeEntity(binary: string, depth = 0): MimePart {
+  const { headers, body } = parseRfc822(binary);
+  const type = parseHeaderParams(headers.get("content-type") ?? "text/plain");
+  const contentType = type.value.toLowerCase() || "text/plain";
+  const disposition = headers.has("content-disposition")
+    ? parseHeaderParams(headers.get("content-disposition")!)
+    : undefined;
+  const filename = disposition?.params.filename ?? type.params.name;
+
+  const part: MimePart = {
+    contentType,
+    params: type.params,
+    headers,
+    disposition: disposition?.value.toLowerCase() || undefined,
+    filename: filename ? decodeHeaderValue(filename) : undefined,
+    body: Buffer.alloc(0),
+    parts: [],
+  };
+
+  if (contentType.startsWith("multipart/") && type.params.boundary && depth < MAX_MIME_DEPTH) {
+    part.parts = splitMultipart(body, type.params.boundary).map((p) => parseMimeEntity(p, depth + 1));
+  } else {
+    part.body = decodeTransferEncoding(body, headers.get("content-transfer-encoding"));
+  }
+  return part;
+}
+
+export function gmailPayloadToPart(payload: GmailPayloadPart): MimePart {
+  const headers = new Map<string, string>();
+  for (const h of payload.headers ?? []) {
+    const name = h.name.toLowerCase();
+    if (!headers.has(name)) headers.set(name, h.value);
+  }
+  const type = parseHeaderParams(headers.get("content-type") ?? payload.mimeType ?? "text/plain");
+  const disposition = headers.get("content-disposition");
+  return {
+    contentType: (payload.mimeType ?? type.value).toLowerCase(),
+    params: type.params,
+    headers,
+    disposition: disposition ? parseHeaderParams(disposition).value.toLowerCase() : undefined,
+    filename: payload.filename || undefined,
+    // Gmail has already undone the transfer encoding; data is base64url of the raw bytes
+    body: payload.body?.data ? Buffer.from(payload.body.data, "base64url") : Buffer.alloc(0),
+    size: payload.body?.size,
+    attachmentId: payload.body?.attachmentId,
+    parts: (payload.parts ?? []).map(gmailPayloadToPart),
+  };
+}
+
+export function isAttachmentPart(part: MimePart): boolean {
+  if (part.contentType.startsWith("multipart/")) return false;
+  if (part.disposition === "attachment") return true;
+  return Boolean(part.filename) && part.disposition !== "inline";
+}
+
+/**
+ * Attachments and embedded images anywhere in a MIME tree, in document order.
+ * Parts without a provider handle are identified by their IMAP-style part
+ * number.
+ */
+export function listAttachments(part: MimePart, partNumber = ""): AttachmentInfo[] {
+  if (part.contentType.startsWith("multipart/")) {
+    return part.parts.flatMap((child, i) => listAttachments(child, partNumber ? `${partNumber}.${i + 1}` : `${i + 1}`));
+  }
+  const inline = part.disposition === "inline" || part.headers.has("content-id");
+  const embedded = inline && !part.contentType.startsWith("text/") && (Boolean(part.filename) || part.headers.has("content-id"));
+  if (!isAttachmentPart(part) && !embedded) return [];
+  return [{
+    filename: part.filename ?? "(unnamed)",
+    mimeType: part.contentType,
+    size: part.body.length || part.size || 0,
+    attachmentId: part.attachmentId ?? (partNumber || "1"),
+    ...(inline ? { inline: true } : {}),
+  }];
+}
+
+/** Resolve an IMAP-style part number ("2", "1.3") as produced by `listAttachments`. */
+export function findPart(root: MimePart, partNumber: string): MimePart | null {
+  if (!/^\d+(?:\.\d+)*$/.test(partNumber)) return null;
+  // A single-part message is its own part 1
+  if (!root.contentType.startsWith("multipart/")) return partNumber === "1" ? root : null;
+  let part = root;
+  for (const index of partNumber.split(".").map(Number)) {
+    const child = part.contentType.startsWith("multipart/") ? part.parts[index - 1] : undefined;
+    if (!child) return null;
+    part = child;
+  }
+  return part;
+}
+
+/** Decoded bytes of the attachment at `partNumber` in a raw message, or null if there is none. */
+export function extractAttachment(raw: Buffer | string, partNumber: string): Buffer | null {
+  const part = findPart(parseMimeEntity(toBinary(raw)), partNumber);
+  return part && !part.contentType.startsWith("multipart/") ? part.body : null;
+}
+
+/**
+ * Pick the readable body of a MIME tree: text/plain is preferred over
+ * text/html inside multipart/alternative, and inline text parts of a
+ * multipart/mixed message are joined. Attachments are skipped.
+ */
+export function extractBodyText(part: MimePart): BodyText | null {
+  if (part.contentType.startsWith("multipart/")) {
+    const bodies = part.parts.map(extractBodyText).filter((b): b is BodyText => b !== null);
+    if (bodies.length === 0) return null;
+    if (part.contentType === "multipart/alternative") {
+      return bodies.find((b) => !b.isHtml) ?? bodies[bodies.length - 1];
+    }
+    const plain = bodies.filter((b) => !b.isHtml);
+    if (plain.length > 0) return { text: plain.map((b) => b.text).join("\n\n"), isHtml: false };
+    return bodies[0];
+  }
+  if (isAttachmentPart(part)) return null;
+  if (part.contentType === "text/plain" || part.contentType === "text/html") {
+    return { text: decodeCharset(part.body, part.params.charset), isHtml: part.contentType === "text/html" };
+  }
+  return null;
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? undefined : new Date(ms).toISOString();
+}
+
+function toBinary(raw: Buffer | string): string {
+  return typeof raw === "string" ? Buffer.from(raw, "utf8").toString("latin1") : raw.toString("latin1");
+}
+
+/**
+ * Convert a raw RFC 5322 message into the poller's message record, decoding
+ * MIME structure, transfer encodings, charsets and encoded-word headers.
+ * `fallbackId` is used when the message carries no Message-ID header.
+ */
+export function rfc822ToMessage(raw: Buffer | string, fallbackId: string): RawGogMessage {
+  const root = parseMimeEntity(toBinary(raw));
+  const headers = root.headers;
+  const id = parseMessageIds(headers.get("message-id"))[0] ?? fallbackId;
+  return {
+    id,
+    threadId: deriveThreadId(headers) ?? id,
+    subject: decodeHeaderValue(headers.get("subject")),
+    from: decodeHeaderValue(headers.get("from")),
+    to: decodeHeaderValue(headers.get("to")),
+    cc: decodeHeaderValue(headers.get("cc")),
+    date: toIsoDate(headers.get("date")),
+    body: extractBodyText(root)?.text ?? "",
+    attachments: listAttachments(root),
+    bulk: isBulkMail(headers) || undefined,
+  };
+}
+
+/** Quoted-printable that leaked through undecoded: soft breaks, =XX escapes and short lines. */
+function looksQuotedPrintable(body: string): boolean {
+  return /=\r?\n/.test(body) && /=[0-9A-F]{2}/.test(body) && body.split(/\r?\n/).every((line) => line.length <= 76);
+}
+
+/**
+ * Normalise a message from a JSON provider (gog): take the body from the
+ * Gmail payload or raw source when present, undo leaked quoted-printable and
+ * decode encoded-word headers.
+ */
+export function normalizeMessage(msg: RawGogMessage): RawGogMessage {
+  if (typeof msg.raw === "string" && msg.raw) {
+    const parsed = rfc822ToMessage(Buffer.from(msg.raw, "base64url"), msg.id);
+    return {
+      ...msg,
+      subject: parsed.subject ?? msg.subject,
+      from: parsed.from ?? msg.from,
+      to: parsed.to ?? msg.to,
+      cc: parsed.cc ?? msg.cc,
+      body: parsed.body,
+      attachments: parsed.attachments,
+      bulk: parsed.bulk ?? msg.bulk,
+    };
+  }
+
+  let body = msg.body;
+  let attachments = msg.attachments;
+  let headers = new Map<string, string>();
+  if (msg.payload && typeof msg.payload === "object") {
+    const root = gmailPayloadToPart(msg.payload as GmailPayloadPart);
+    headers = root.headers;
+    body = extractBodyText(root)?.text ?? body;
+    attachments = listAttachments(root);
+  } else if (typeof body === "string" && looksQuotedPrintable(body)) {
+    body = decodeCharset(decodeQuotedPrintable(toBinary(body)), "utf-8");
+  }
+
+  const subject = msg.subject ?? headers.get("subject");
+  const from = msg.from ?? headers.get("from");
+  const to = msg.to ?? headers.get("to");
+  const cc = msg.cc ?? headers.get("cc");
+  return {
+    ...msg,
+    subject: subject !== undefined ? decodeEncodedWords(subject) : undefined,
+    from: from !== undefined ? decodeEncodedWords(from) : undefined,
+    to: to !== undefined ? decodeEncodedWords(to) : undefined,
+    cc: cc !== undefined ? decodeEncodedWords(cc) : undefined,
+    body,
+    attachments,
+    bulk: msg.bulk ?? (isBulkMail(headers) || undefined),
+  };
+}
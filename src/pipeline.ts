@@ -1,9 +1,18 @@
-import type { TrimmedEmail, DigestEntry, EmailLogEntry } from "./types.js";
+import type {
+  CommandRunner, DigestEntry, EmailLogEntry, Logger, MutedThread, PriorityConfig, SenderRule, StateCorruption, TriageRule, TrimmedEmail,
+} from "./types.js";
+import { MUTED_THREAD_REASON, PRUNE_AFTER_DAYS, STALE_AFTER_DAYS, type TransitionMeta } from "./digest.js";
+import { autoResolveReplies } from "./auto-resolve.js";
+import { loadState } from "./recovery.js";
+import { alertAgent } from "./utils.js";
+import { senderRuleReason } from "./sender-rules.js";
+import { applyRuleOutcome, evaluateRules, type RuleOutcome } from "./rules.js";
+import { scorePriority } from "./priority.js";
 
 export interface PipelineDeps {
   accounts: string[];
   poller: {
-    loadState(): Promise<void>;
+    loadState(): Promise<StateCorruption | null>;
     saveState(): Promise<void>;
     pollAccount(account: string, seenMessageIds: Set<string>): Promise<{ emails: TrimmedEmail[]; historyId?: string }>;
     recordSuccess(account: string, historyId: string): void;
@@ -12,95 +21,94 @@ export interface PipelineDeps {
     checkThreadForReply(threadId: string, account: string): Promise<boolean>;
   };
   digest: {
-    load(): Promise<void>;
+    load(): Promise<StateCorruption | null>;
     save(): Promise<void>;
-    add(entry: DigestEntry): void;
+    add(entry: DigestEntry, meta?: TransitionMeta): void;
+    get(id: string): DigestEntry | undefined;
     has(id: string): boolean;
     getActiveEntries(): DigestEntry[];
+    threadDeferral(threadId: string, account: string): string | undefined;
+    getMute(threadId: string, account: string): MutedThread | undefined;
+    matchSender(fromField: string): SenderRule | undefined;
+    ownerRepliedTo(sender: string): boolean;
+    pruneMutes(): number;
+    backfillSenderProfiles(readLog: () => Promise<EmailLogEntry[]>): Promise<number>;
     expireDeferrals(): DigestEntry[];
     prune(maxAgeDays: number): number;
     expireStale(maxAgeDays: number): number;
-    markHandled(id: string): void;
+    markHandled(id: string, meta?: TransitionMeta): void;
+    exclusive<T>(fn: () => Promise<T> | T): Promise<T>;
+    repairing<T>(fn: () => Promise<T> | T): Promise<T>;
+    shared<T>(key: string, fn: () => Promise<T>): Promise<T>;
   };
   emailLog: {
     append(entry: EmailLogEntry): Promise<void>;
     readAll(): Promise<EmailLogEntry[]>;
+    recover(): Promise<StateCorruption | null>;
+    seenIds(): Promise<Set<string>>;
   };
-  logger: {
-    info(msg: string): void;
-    warn(msg: string): void;
-    error(msg: string): void;
-  };
-  runCommand: (args: string[], opts: { timeoutMs: number }) => Promise<{ code: number; stdout?: string; stderr?: string }>;
+  logger: Logger;
+  runCommand: CommandRunner;
   consecutiveFailuresBeforeAlert: number;
+  /** Triage rules from config, run on each new email right before it is added */
+  rules?: TriageRule[];
+  /** Scores each new email; entries keep no priority when absent */
+  priority?: PriorityConfig;
+  /** Optional stage previewing attachment text; absent when disabled */
+  extractAttachmentText?: (email: TrimmedEmail) => Promise<string | undefined>;
 }
 
-async function parallelWithConcurrency<T>(
-  items: T[],
-  concurrency: number,
-  fn: (item: T) => Promise<void>,
-): Promise<void> {
-  const queue = [...items];
-  const workers = Array.from({ length: Math.min(concurrency, queue.length) }, async () => {
-    while (queue.length > 0) {
-      const item = queue.shift()!;
-      await fn(item);
-    }
-  });
-  await Promise.all(workers);
+/**
+ * One poll cycle. State is only touched inside `digest.exclusive` phases so
+ * tool calls made while sources are being polled are never overwritten;
+ * overlapping calls share the run already in progress.
+ */
+export function runPipeline(deps: PipelineDeps): Promise<void> {
+  return deps.digest.shared("pipeline", () => runPhases(deps));
 }
 
-const AUTO_RESOLVE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
-
-export async function runPipeline(deps: PipelineDeps): Promise<void> {
+async function runPhases(deps: PipelineDeps): Promise<void> {
   const { accounts, poller, digest, emailLog, logger } = deps;
 
-  await poller.loadState();
-  await digest.load();
+  await digest.repairing(async () => {
+    await loadState(deps);
 
-  const pruned = digest.prune(30);
-  if (pruned > 0) {
-    logger.info(`betteremail: pruned ${pruned} resolved email(s) older than 30 days`);
-  }
+    const pruned = digest.prune(PRUNE_AFTER_DAYS);
+    if (pruned > 0) {
+      logger.info(`betteremail: pruned ${pruned} resolved email(s) older than ${PRUNE_AFTER_DAYS} days`);
+    }
 
-  const staleExpired = digest.expireStale(14);
-  if (staleExpired > 0) {
-    logger.info(`betteremail: auto-expired ${staleExpired} untriaged email(s) older than 14 days`);
-  }
+    const staleExpired = digest.expireStale(STALE_AFTER_DAYS);
+    if (staleExpired > 0) {
+      logger.info(`betteremail: auto-expired ${staleExpired} untriaged email(s) older than ${STALE_AFTER_DAYS} days`);
+    }
 
-  const expired = digest.expireDeferrals();
-  if (expired.length > 0) {
-    logger.info(`betteremail: ${expired.length} deferred email(s) re-entered digest`);
-  }
+    const expired = digest.expireDeferrals();
+    if (expired.length > 0) {
+      logger.info(`betteremail: ${expired.length} deferred email(s) re-entered digest`);
+    }
 
-  // Auto-resolve: re-check active threads for owner replies
-  const activeEntries = digest.getActiveEntries();
-  const entriesToCheck = activeEntries.filter((entry) => {
-    const age = Date.now() - new Date(entry.firstSeenAt).getTime();
-    if (age > AUTO_RESOLVE_MAX_AGE_MS) return false;
-    const fromLower = entry.from.toLowerCase();
-    if (accounts.some(a => fromLower.includes(a.toLowerCase()))) return false;
-    return true;
-  });
+    const unmuted = digest.pruneMutes();
+    if (unmuted > 0) {
+      logger.info(`betteremail: ${unmuted} thread mute(s) expired`);
+    }
 
-  await parallelWithConcurrency(entriesToCheck, 5, async (entry) => {
-    try {
-      const replied = await poller.checkThreadForReply(entry.threadId, entry.account);
-      if (replied) {
-        digest.markHandled(entry.id);
-        logger.info(`betteremail: auto-resolved ${entry.id} — owner replied`);
-      }
-    } catch {
-      // Non-critical — will retry next cycle
+    const profiled = await digest.backfillSenderProfiles(() => emailLog.readAll());
+    if (profiled > 0) {
+      logger.info(`betteremail: built sender profiles for ${profiled} sender(s) from the email log and digest history`);
     }
+    await digest.save();
   });
 
-  // Build seen IDs set from email log
-  const allLogEntries = await emailLog.readAll();
-  const seenIds = new Set(allLogEntries.map(e => e.email.id));
+  // Auto-resolve: re-check active threads for owner replies
+  const resolved = await autoResolveReplies(digest, accounts, (threadId, account) => poller.checkThreadForReply(threadId, account));
+  for (const entry of resolved) {
+    logger.info(`betteremail: auto-resolved ${entry.id} — owner replied`);
+  }
 
-  const allNewEmails: TrimmedEmail[] = [];
+  const seenIds = await emailLog.seenIds();
 
+  const allNewEmails: TrimmedEmail[] = [];
   for (const account of accounts) {
     try {
       const { emails, historyId } = await poller.pollAccount(account, seenIds);
@@ -114,14 +122,9 @@ export async function runPipeline(deps: PipelineDeps): Promise<void> {
 
       if (failures >= deps.consecutiveFailuresBeforeAlert) {
         try {
-          await deps.runCommand(
-            [
-              "openclaw", "agent",
-              "--session-id", "main",
-              "--deliver",
-              "--message", `[BetterEmail] Gmail polling has failed ${failures} times in a row for ${account}. Likely auth token expiry — please re-authenticate gog.`,
-            ],
-            { timeoutMs: 30_000 },
+          await alertAgent(
+            deps.runCommand,
+            `Email polling has failed ${failures} times in a row for ${account}. Likely expired credentials — please re-authenticate gog (Gmail) or check the account's credential reference.`,
           );
         } catch {
           logger.error("betteremail: failed to alert agent about polling failures");
@@ -130,29 +133,108 @@ export async function runPipeline(deps: PipelineDeps): Promise<void> {
     }
   }
 
-  if (allNewEmails.length === 0) {
+  // Attachment previews hit the source too, so they are fetched before taking the lock
+  const previews = new Map<string, string | undefined>();
+  if (deps.extractAttachmentText) {
+    for (const email of allNewEmails) {
+      if (email.attachments?.length) previews.set(email.id, await deps.extractAttachmentText(email));
+    }
+  }
+
+  const notify: DigestEntry[] = [];
+  await digest.exclusive(async () => {
+    let mutedCount = 0;
+    let ruleCount = 0;
+    let triageRuleCount = 0;
+    for (const email of allNewEmails) {
+      if (digest.has(email.id)) continue;
+      await emailLog.append({ email, timestamp: Date.now() / 1000 });
+
+      // Sender rules decide first (an allowed sender gets through a mute); muted threads skip
+      // the digest; a reply to a thread deferred as a whole waits with the rest of it
+      const rule = digest.matchSender(email.from);
+      const muted = !rule && digest.getMute(email.threadId, email.account) !== undefined;
+      const deferredUntil = rule || muted ? undefined : digest.threadDeferral(email.threadId, email.account);
+
+      const entry: DigestEntry = {
+        id: email.id,
+        threadId: email.threadId,
+        account: email.account,
+        from: email.from,
+        subject: email.subject,
+        date: email.date,
+        body: email.body,
+        originalLength: email.originalLength,
+        truncated: email.truncated,
+        attachments: email.attachments?.length ? email.attachments : undefined,
+        attachmentText: previews.get(email.id),
+        status: deferredUntil ? "deferred" : "new",
+        firstSeenAt: new Date().toISOString(),
+        deferredUntil,
+        deferredWithThread: deferredUntil ? true : undefined,
+      };
+      let reason: string | undefined;
+      if (rule) {
+        reason = senderRuleReason(rule);
+        if (rule.action !== "always_surface") {
+          entry.status = rule.action === "always_dismiss" ? "dismissed" : "handled";
+          entry.resolvedAt = entry.firstSeenAt;
+          entry.dismissReason = reason;
+        }
+        ruleCount++;
+      } else if (muted) {
+        entry.status = "dismissed";
+        entry.resolvedAt = entry.firstSeenAt;
+        entry.dismissReason = reason = MUTED_THREAD_REASON;
+        mutedCount++;
+      } else if (deferredUntil) {
+        reason = "thread is deferred";
+      }
+
+      const meta: TransitionMeta = { actor: "pipeline", reason };
+      let outcome: RuleOutcome | undefined;
+      if (deps.rules?.length) {
+        outcome = evaluateRules(deps.rules, email);
+        // A sender rule has already decided, including always_surface
+        if (rule) delete outcome.action;
+        const ruleReason = applyRuleOutcome(entry, outcome);
+        if (ruleReason) {
+          meta.reason = ruleReason;
+          if (outcome.action?.type === "defer") meta.deferMinutes = outcome.action.deferMinutes;
+        }
+        if (outcome.matched.length > 0) triageRuleCount++;
+        if (outcome.notify && entry.status === "new") notify.push(entry);
+      }
+      if (deps.priority) {
+        const scored = scorePriority(email, deps.priority, {
+          accounts,
+          ownerRepliedTo: (sender) => digest.ownerRepliedTo(sender),
+          rule: outcome?.priority,
+        });
+        entry.priority = scored.priority;
+        entry.priorityReasons = scored.reasons;
+      }
+      digest.add(entry, meta);
+    }
+    if (triageRuleCount > 0) {
+      logger.info(`betteremail: triage rules matched ${triageRuleCount} new email(s)`);
+    }
+    if (ruleCount > 0) {
+      logger.info(`betteremail: applied sender rules to ${ruleCount} new email(s)`);
+    }
+    if (mutedCount > 0) {
+      logger.info(`betteremail: dismissed ${mutedCount} new email(s) in muted threads`);
+    }
+
     await digest.save();
     await poller.saveState();
-    return;
-  }
+  });
 
-  for (const email of allNewEmails) {
-    await emailLog.append({ email, timestamp: Date.now() / 1000 });
-
-    const entry: DigestEntry = {
-      id: email.id,
-      threadId: email.threadId,
-      account: email.account,
-      from: email.from,
-      subject: email.subject,
-      date: email.date,
-      body: email.body,
-      status: "new",
-      firstSeenAt: new Date().toISOString(),
-    };
-    digest.add(entry);
+  for (const entry of notify) {
+    try {
+      await alertAgent(deps.runCommand, `New email from ${entry.from}: "${entry.subject}" (messageId ${entry.id}) — flagged by a notify rule.`);
+    } catch {
+      logger.error(`betteremail: failed to alert agent about ${entry.id}`);
+    }
   }
-
-  await digest.save();
-  await poller.saveState();
 }
@@ -1,54 +1,12 @@
-import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
-import type { RawGogMessage, RawGogThread, PollState, TrimmedEmail } from "./types.js";
-import { trimEmailBody } from "./trimmer.js";
-import * as fs from "node:fs/promises";
+import type { Logger, MailBatch, MailSource, RawGogMessage, RawGogThread, PollState, StateCorruption, TrimmedEmail, TrimmerConfig } from "./types.js";
+import { DEFAULT_TRIMMER_CONFIG, trimEmail } from "./trimmer.js";
 import * as path from "node:path";
 import { atomicWrite } from "./atomic.js";
+import { extractEmail } from "./utils.js";
+import { NewerStateError, loadStateFile, schemaVersion } from "./state-schema.js";
 
 const STATE_FILE = "state.json";
 
-export function parseGogMessages(stdout: string): RawGogMessage[] {
-  if (!stdout || !stdout.trim()) return [];
-  try {
-    const parsed = JSON.parse(stdout.trim());
-    if (Array.isArray(parsed)) return parsed;
-    if (parsed && typeof parsed === "object" && Array.isArray(parsed.messages)) return parsed.messages;
-    if (parsed && typeof parsed === "object" && parsed.id) return [parsed];
-    return [];
-  } catch {
-    return [];
-  }
-}
-
-export function extractHistoryId(stdout: string): string | undefined {
-  if (!stdout || !stdout.trim()) return undefined;
-  try {
-    const parsed = JSON.parse(stdout.trim());
-    if (parsed && typeof parsed === "object" && !Array.isArray(parsed) && typeof parsed.historyId === "string") {
-      return parsed.historyId;
-    }
-    return undefined;
-  } catch {
-    return undefined;
-  }
-}
-
-export function parseGogThread(stdout: string): RawGogThread | null {
-  if (!stdout || !stdout.trim()) return null;
-  try {
-    const parsed = JSON.parse(stdout.trim());
-    if (parsed && parsed.id && Array.isArray(parsed.messages)) return parsed;
-    return null;
-  } catch {
-    return null;
-  }
-}
-
-function extractEmail(fromField: string): string {
-  const match = fromField.match(/<([^>]+)>/);
-  return (match ? match[1] : fromField).toLowerCase().trim();
-}
-
 export function detectOwnerReply(thread: RawGogThread, ownerAccounts: string[]): boolean {
   const lowerAccounts = ownerAccounts.map((a) => a.toLowerCase());
   // Skip first message (could be user-initiated thread)
@@ -59,31 +17,53 @@ export function detectOwnerReply(thread: RawGogThread, ownerAccounts: string[]):
   });
 }
 
+/** Whether the thread's first message came from one of the owner's accounts. */
+export function ownerStartedThread(thread: RawGogThread, ownerAccounts: string[]): boolean {
+  const first = thread.messages[0]?.from;
+  return first !== undefined && ownerAccounts.some((a) => a.toLowerCase() === extractEmail(first));
+}
+
 export class Poller {
-  private api: OpenClawPluginApi;
+  private logger: Logger;
   private stateDir: string;
+  private sources: Map<string, MailSource>;
   private accounts: string[];
   private rescanDays: number;
+  private trimmer: TrimmerConfig;
   private state: PollState;
-
-  constructor(api: OpenClawPluginApi, stateDir: string, accounts: string[], rescanDays: number) {
-    this.api = api;
+  /** Set once state.json turns out to be from a newer release; nothing is saved over it after that */
+  private newerVersion: number | undefined;
+
+  constructor(
+    logger: Logger,
+    stateDir: string,
+    sources: Map<string, MailSource>,
+    rescanDays: number,
+    trimmer: TrimmerConfig = DEFAULT_TRIMMER_CONFIG,
+  ) {
+    this.logger = logger;
     this.stateDir = stateDir;
-    this.accounts = accounts;
+    this.sources = sources;
+    this.accounts = [...sources.keys()];
     this.rescanDays = rescanDays;
-    this.state = { accounts: {} };
+    this.trimmer = trimmer;
+    this.state = { schemaVersion: schemaVersion("poll"), accounts: {} };
   }
 
-  async loadState(): Promise<void> {
-    try {
-      const raw = await fs.readFile(path.join(this.stateDir, STATE_FILE), "utf8");
-      this.state = JSON.parse(raw) as PollState;
-    } catch {
-      this.state = { accounts: {} };
+  async loadState(): Promise<StateCorruption | null> {
+    const filePath = path.join(this.stateDir, STATE_FILE);
+    const result = await loadStateFile(filePath, "poll", this.logger);
+    if (result.status === "newer") {
+      this.newerVersion = result.version;
+      throw new NewerStateError(filePath, result.version);
     }
+    this.state = result.status === "ok" ? result.data : { schemaVersion: schemaVersion("poll"), accounts: {} };
+    if (result.status === "ok" && result.migratedFrom !== undefined) await this.saveState();
+    return result.status === "quarantined" ? { file: filePath, movedTo: result.movedTo, reason: result.reason } : null;
   }
 
   async saveState(): Promise<void> {
+    if (this.newerVersion !== undefined) throw new NewerStateError(path.join(this.stateDir, STATE_FILE), this.newerVersion);
     await atomicWrite(
       path.join(this.stateDir, STATE_FILE),
       JSON.stringify(this.state, null, 2) + "\n",
@@ -113,81 +93,59 @@ export class Poller {
     return failures;
   }
 
-  async runGog(args: string[]): Promise<{ stdout: string; ok: boolean }> {
-    try {
-      const result = await this.api.runtime.system.runCommandWithTimeout(
-        ["gog", ...args],
-        { timeoutMs: 30_000 },
-      );
-      if (result.code !== 0) {
-        this.api.logger.warn(`betteremail: gog failed (code ${result.code}): ${result.stderr?.slice(0, 200)}`);
-        return { stdout: "", ok: false };
-      }
-      return { stdout: result.stdout ?? "", ok: true };
-    } catch (err) {
-      this.api.logger.error(`betteremail: gog error: ${err instanceof Error ? err.message : String(err)}`);
-      return { stdout: "", ok: false };
-    }
+  async fetchMessage(messageId: string, account: string): Promise<RawGogMessage | null> {
+    const source = this.sources.get(account);
+    return source ? source.fetchMessage(messageId) : null;
+  }
+
+  async fetchThread(threadId: string, account: string): Promise<RawGogThread | null> {
+    const source = this.sources.get(account);
+    return source ? source.fetchThread(threadId) : null;
+  }
+
+  async fetchAttachment(messageId: string, attachmentId: string, account: string): Promise<Buffer | null> {
+    const source = this.sources.get(account);
+    return source ? source.fetchAttachment(messageId, attachmentId) : null;
   }
 
   async checkThreadForReply(threadId: string, account: string): Promise<boolean> {
-    const result = await this.runGog([
-      "gmail", "thread", "get", threadId, "--account", account, "--json",
-    ]);
-    if (!result.ok) return false;
-    const thread = parseGogThread(result.stdout);
+    const source = this.sources.get(account);
+    if (!source) return false;
+    const thread = await source.fetchThread(threadId);
     if (!thread) return false;
     return detectOwnerReply(thread, this.accounts);
   }
 
   async pollAccount(account: string, seenMessageIds: Set<string>): Promise<{ emails: TrimmedEmail[]; historyId?: string }> {
-    const accountState = this.state.accounts[account];
-    const currentHistoryId = accountState?.historyId;
+    const source = this.sources.get(account);
+    if (!source) throw new Error(`no mail source configured for ${account}`);
 
-    let messages: RawGogMessage[];
-    let newHistoryId: string | undefined;
+    const currentHistoryId = this.state.accounts[account]?.historyId;
 
+    let batch: MailBatch | null;
     if (currentHistoryId) {
-      const result = await this.runGog([
-        "gmail", "history", "--since", currentHistoryId, "--account", account, "--json",
-      ]);
-      if (!result.ok) {
-        this.api.logger.info(`betteremail: history fetch failed for ${account}, falling back to rescan`);
-        const fallback = await this.runGog([
-          "gmail", "messages", "search", `newer_than:${this.rescanDays}d`,
-          "--account", account, "--json", "--include-body",
-        ]);
-        if (!fallback.ok) return { emails: [] };
-        messages = parseGogMessages(fallback.stdout);
-        // No historyId from search fallback
-      } else {
-        newHistoryId = extractHistoryId(result.stdout);
-        messages = parseGogMessages(result.stdout);
+      batch = await source.listChanges(currentHistoryId);
+      if (!batch) {
+        this.logger.info(`betteremail: history fetch failed for ${account}, falling back to rescan`);
+        batch = await source.rescan(this.rescanDays);
       }
     } else {
-      const result = await this.runGog([
-        "gmail", "messages", "search", `newer_than:${this.rescanDays}d`,
-        "--account", account, "--json", "--include-body",
-      ]);
-      if (!result.ok) return { emails: [] };
-      messages = parseGogMessages(result.stdout);
-      // No historyId from initial search
+      batch = await source.rescan(this.rescanDays);
     }
+    if (!batch) return { emails: [] };
 
-    const newMessages = messages.filter((m) => !seenMessageIds.has(m.id));
+    const newMessages = batch.messages.filter((m) => !seenMessageIds.has(m.id));
     const trimmedEmails: TrimmedEmail[] = [];
 
     for (const msg of newMessages) {
-      const threadResult = await this.runGog([
-        "gmail", "thread", "get", msg.threadId, "--account", account, "--json",
-      ]);
-
-      const thread = threadResult.ok ? parseGogThread(threadResult.stdout) : null;
+      const thread = await source.fetchThread(msg.threadId);
 
       if (thread && detectOwnerReply(thread, this.accounts)) {
         continue;
       }
 
+      const trimmed = trimEmail(msg.body ?? "", undefined, this.trimmer);
+      const attachments = Array.isArray(msg.attachments) ? msg.attachments : [];
       trimmedEmails.push({
         id: msg.id,
         threadId: msg.threadId,
@@ -196,13 +154,21 @@ export class Poller {
         to: msg.to ?? account,
         subject: msg.subject ?? "(no subject)",
         date: msg.date ?? new Date().toISOString(),
-        body: trimEmailBody(msg.body ?? ""),
+        body: trimmed.body,
+        originalLength: trimmed.originalLength,
+        truncated: trimmed.truncated,
         threadLength: thread?.messages.length ?? 1,
-        hasAttachments: (Array.isArray(msg.labels) && msg.labels.includes("ATTACHMENT")) ||
+        hasAttachments: attachments.some((a) => !a.inline) ||
+          (Array.isArray(msg.labels) && msg.labels.includes("ATTACHMENT")) ||
           (Array.isArray(msg.labelIds) && msg.labelIds.includes("ATTACHMENT")),
+        attachments,
+        labels: Array.isArray(msg.labels) ? msg.labels : Array.isArray(msg.labelIds) ? msg.labelIds : undefined,
+        cc: msg.cc,
+        bulk: msg.bulk,
+        ownerInThread: thread ? ownerStartedThread(thread, this.accounts) : undefined,
       });
     }
 
-    return { emails: trimmedEmails, historyId: newHistoryId };
+    return { emails: trimmedEmails, historyId: batch.cursor };
   }
 }
@@ -0,0 +1,145 @@
+import type { Logger, PriorityConfig, PriorityWeights, TrimmedEmail } from "./types.js";
+import { extractEmail } from "./utils.js";
+
+export const DEFAULT_PRIORITY_CONFIG: PriorityConfig = {
+  vipSenders: [],
+  urgencyKeywords: [
+    "urgent", "asap", "immediately", "action required", "fraud", "suspicious", "security alert", "overdue", "final notice",
+  ],
+  weights: {
+    vipSender: 50,
+    repliedSender: 20,
+    direct: 10,
+    cc: 0,
+    list: -20,
+    urgent: 25,
+    deadline: 15,
+    ownerThread: 15,
+    threadLength: 2,
+  },
+};
+
+// Gmail categories that hold bulk mail; CATEGORY_UPDATES is left out because bank and security alerts land there
+const BULK_LABELS = new Set(["CATEGORY_PROMOTIONS", "CATEGORY_FORUMS", "CATEGORY_SOCIAL"]);
+
+const WEEKDAYS = "monday|tuesday|wednesday|thursday|friday|saturday|sunday";
+const DEADLINE = new RegExp(
+  `\\b(deadline|due (today|tomorrow|by|on|in)|by (today|tonight|tomorrow|eod|cob|end of (the )?(day|week)|${WEEKDAYS})|` +
+  `(expires?|expiring) (today|tomorrow|on|in|soon)|no later than)\\b`,
+  "i",
+);
+const MAX_THREAD_BONUS_MESSAGES = 5;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Every bare lowercase address in a To or Cc header. */
+function addresses(field: string | undefined): string[] {
+  return (field ?? "").split(",").map((part) => extractEmail(part)).filter((a) => a.includes("@"));
+}
+
+function signed(points: number): string {
+  return points >= 0 ? `+${points}` : String(points);
+}
+
+/** Whether `address` is one of `vipSenders`, or belongs to one of their domains or its subdomains. */
+function isVip(address: string, vipSenders: string[]): boolean {
+  return vipSenders.some((vip) => {
+    const pattern = vip.trim().toLowerCase();
+    if (pattern.includes("@") && !pattern.startsWith("@")) return address === pattern;
+    const domain = pattern.replace(/^@/, "");
+    return address.endsWith(`@${domain}`) || address.endsWith(`.${domain}`);
+  });
+}
+
+export interface PriorityContext {
+  /** The owner's account addresses */
+  accounts: string[];
+  /** Whether the owner has replied to mail from this bare address */
+  ownerRepliedTo(sender: string): boolean;
+  /** Priority set by a triage rule, added on top of the signals */
+  rule?: { name: string; priority: number };
+}
+
+/** Priority score for a new email and the signals that made it up, in the order they were checked. */
+export function scorePriority(
+  email: TrimmedEmail,
+  config: PriorityConfig,
+  context: PriorityContext,
+): { priority: number; reasons: string[] } {
+  const { weights } = config;
+  let priority = 0;
+  const reasons: string[] = [];
+  const add = (weight: number, label: string) => {
+    if (weight === 0) return;
+    priority += weight;
+    reasons.push(`${label} (${signed(weight)})`);
+  };
+
+  const sender = extractEmail(email.from ?? "");
+  if (isVip(sender, config.vipSenders)) add(weights.vipSender, "VIP sender");
+  if (context.ownerRepliedTo(sender)) add(weights.repliedSender, "you replied to this sender before");
+
+  const owners = new Set([...context.accounts, email.account].map((a) => a.toLowerCase()));
+  const bulk = email.bulk === true || (email.labels ?? []).some((l) => BULK_LABELS.has(l.toUpperCase()));
+  if (bulk) {
+    add(weights.list, "mailing list or bulk mail");
+  } else if (addresses(email.to).some((a) => owners.has(a))) {
+    add(weights.direct, "sent to you directly");
+  } else if (addresses(email.cc).some((a) => owners.has(a))) {
+    add(weights.cc, "you are in Cc");
+  } else {
+    add(weights.list, "not addressed to you (list or Bcc)");
+  }
+
+  const text = `${email.subject ?? ""}\n${email.body ?? ""}`;
+  const keyword = config.urgencyKeywords.find((k) => new RegExp(`\\b${escapeRegExp(k)}\\b`, "i").test(text));
+  if (keyword) add(weights.urgent, `urgent: "${keyword}"`);
+  const deadline = text.match(DEADLINE);
+  if (deadline) add(weights.deadline, `deadline: "${deadline[0].toLowerCase()}"`);
+
+  if (email.ownerInThread) add(weights.ownerThread, "you started this thread");
+  const extraMessages = Math.min(Math.max((email.threadLength ?? 1) - 1, 0), MAX_THREAD_BONUS_MESSAGES);
+  if (extraMessages > 0) add(weights.threadLength * extraMessages, `thread of ${email.threadLength} messages`);
+
+  if (context.rule) add(context.rule.priority, `rule "${context.rule.name}"`);
+  return { priority, reasons };
+}
+
+function stringList(raw: unknown, key: string, fallback: string[], logger: Logger): string[] {
+  if (raw === undefined) return fallback;
+  if (!Array.isArray(raw)) {
+    logger.warn(`betteremail: ignoring priority.${key} — expected an array of strings`);
+    return fallback;
+  }
+  return raw.filter((item): item is string => {
+    if (typeof item === "string" && item.trim() !== "") return true;
+    logger.warn(`betteremail: ignoring invalid priority.${key} entry: ${String(item)}`);
+    return false;
+  });
+}
+
+/** The `priority` config section over the defaults; invalid values are logged and replaced by the default. */
+export function resolvePriorityConfig(raw: unknown, logger: Logger): PriorityConfig {
+  if (!raw || typeof raw !== "object") return DEFAULT_PRIORITY_CONFIG;
+  const section = raw as Record<string, unknown>;
+  const weightsRaw = section.weights && typeof section.weights === "object" ? section.weights as Record<string, unknown> : {};
+
+  const weights = { ...DEFAULT_PRIORITY_CONFIG.weights };
+  for (const [key, value] of Object.entries(weightsRaw)) {
+    if (!(key in weights)) {
+      logger.warn(`betteremail: ignoring unknown priority weight: ${key}`);
+    } else if (typeof value !== "number" || !Number.isFinite(value)) {
+      logger.warn(`betteremail: ignoring priority.weights.${key} — expected a number`);
+    } else {
+      weights[key as keyof PriorityWeights] = value;
+    }
+  }
+
+  return {
+    vipSenders: stringList(section.vipSenders, "vipSenders", DEFAULT_PRIORITY_CONFIG.vipSenders, logger),
+    urgencyKeywords: stringList(section.urgencyKeywords, "urgencyKeywords", DEFAULT_PRIORITY_CONFIG.urgencyKeywords, logger),
+    weights,
+  };
+}
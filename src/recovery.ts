@@ -0,0 +1,154 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { CommandRunner, DigestEntry, EmailLogEntry, Logger, StateCorruption } from "./types.js";
+import { NewerStateError, upgradeState } from "./state-schema.js";
+import { alertAgent } from "./utils.js";
+import type { TransitionMeta } from "./digest.js";
+
+export interface StateLoadDeps {
+  poller: {
+    loadState(): Promise<StateCorruption | null>;
+  };
+  digest: {
+    load(): Promise<StateCorruption | null>;
+    save(): Promise<void>;
+    add(entry: DigestEntry, meta?: TransitionMeta): void;
+    has(id: string): boolean;
+  };
+  emailLog: {
+    readAll(): Promise<EmailLogEntry[]>;
+    recover(): Promise<StateCorruption | null>;
+  };
+  logger: Logger;
+  runCommand: CommandRunner;
+}
+
+/** Rebuilt entries older than this would be auto-expired by the next run anyway */
+const REBUILD_MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+
+// Files from a newer release already reported to the agent by this process, as `<file>@<version>`
+const reportedNewer = new Set<string>();
+
+/** Entries of a quarantined digest file that still pass validation on their own. */
+export async function salvageDigestEntries(quarantined: string): Promise<DigestEntry[]> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(quarantined, "utf8"));
+  } catch {
+    return [];
+  }
+  const entries = (parsed as { entries?: unknown } | null)?.entries;
+  if (!entries || typeof entries !== "object") return [];
+
+  const salvaged: DigestEntry[] = [];
+  for (const [id, entry] of Object.entries(entries)) {
+    try {
+      // Each entry goes through the same migrations as a whole file would
+      const state = upgradeState("digest", { ...(parsed as object), entries: { [id]: entry } });
+      salvaged.push(...Object.values(state.entries));
+    } catch {
+      // Unreadable on its own too — the email log may still have it
+    }
+  }
+  return salvaged;
+}
+
+export function entryFromLog(logged: EmailLogEntry): DigestEntry {
+  const { email } = logged;
+  // The log schema only guarantees the id; lines from old releases may lack the rest
+  return {
+    id: email.id,
+    threadId: email.threadId ?? email.id,
+    account: email.account ?? "",
+    from: email.from ?? "",
+    subject: email.subject ?? "",
+    date: email.date ?? "",
+    body: email.body ?? "",
+    originalLength: email.originalLength,
+    truncated: email.truncated,
+    attachments: email.attachments?.length ? email.attachments : undefined,
+    status: "new",
+    firstSeenAt: new Date(logged.timestamp * 1000).toISOString(),
+  };
+}
+
+/**
+ * Load the poll state, email log and digest, repairing what was damaged.
+ * Unreadable files are already moved aside by the loaders; a lost digest is
+ * rebuilt from the entries that survive in the quarantined file plus recent
+ * emails from the log, and the agent is told what happened. A file from a
+ * newer release stops the load with a NewerStateError, and the agent is
+ * told once, since polling stays paused until the plugin is upgraded.
+ */
+export async function loadState(deps: StateLoadDeps): Promise<void> {
+  try {
+    await loadAndRepair(deps);
+  } catch (err) {
+    if (err instanceof NewerStateError && !reportedNewer.has(`${err.file}@${err.version}`)) {
+      reportedNewer.add(`${err.file}@${err.version}`);
+      deps.logger.error(err.message);
+      try {
+        await alertAgent(
+          deps.runCommand,
+          `${path.basename(err.file)} was written by a newer version of the betteremail plugin (schemaVersion ${err.version}). ` +
+          "Email polling is paused and the file was left untouched; please upgrade the plugin.",
+        );
+      } catch {
+        deps.logger.error("betteremail: failed to alert agent about state from a newer plugin version");
+      }
+    }
+    throw err;
+  }
+}
+
+async function loadAndRepair(deps: StateLoadDeps): Promise<void> {
+  const { poller, digest, emailLog, logger } = deps;
+  const problems: string[] = [];
+
+  const pollCorruption = await poller.loadState();
+  if (pollCorruption) {
+    problems.push(
+      `${path.basename(pollCorruption.file)} was unreadable and moved to ${pollCorruption.movedTo}; ` +
+      "accounts will be rescanned from scratch.",
+    );
+  }
+
+  const logCorruption = await emailLog.recover();
+  if (logCorruption) {
+    problems.push(
+      `${path.basename(logCorruption.file)} had ${logCorruption.reason}, moved to ${logCorruption.movedTo}; ` +
+      "those emails may show up again.",
+    );
+  }
+
+  const digestCorruption = await digest.load();
+  if (digestCorruption) {
+    const salvaged = await salvageDigestEntries(digestCorruption.movedTo);
+    for (const entry of salvaged) digest.add(entry, { actor: "recovery" });
+
+    const cutoff = Date.now() - REBUILD_MAX_AGE_MS;
+    let rebuilt = 0;
+    for (const logged of await emailLog.readAll()) {
+      if (logged.timestamp * 1000 < cutoff || digest.has(logged.email.id)) continue;
+      digest.add(entryFromLog(logged), { actor: "recovery" });
+      rebuilt++;
+    }
+    await digest.save();
+
+    logger.warn(
+      `betteremail: rebuilt digest with ${salvaged.length} salvaged and ${rebuilt} re-created entries`,
+    );
+    problems.push(
+      `${path.basename(digestCorruption.file)} was unreadable (${digestCorruption.reason}) and moved to ${digestCorruption.movedTo}. ` +
+      `Kept ${salvaged.length} readable entries and restored ${rebuilt} recent email(s) from the email log as new; ` +
+      "other triage decisions were lost.",
+    );
+  }
+
+  if (problems.length === 0) return;
+  try {
+    await alertAgent(deps.runCommand, `State files were damaged and repaired. ${problems.join(" ")}`);
+  } catch {
+    logger.error("betteremail: failed to alert agent about damaged state files");
+  }
+}
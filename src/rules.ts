@@ -0,0 +1,147 @@
+import { Type } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+import type { DigestEntry, Logger, TriageRule, TrimmedEmail } from "./types.js";
+
+const TriageRuleSchema = Type.Object({
+  name: Type.String({ minLength: 1 }),
+  match: Type.Object({
+    from: Type.Optional(Type.String({ minLength: 1 })),
+    to: Type.Optional(Type.String({ minLength: 1 })),
+    subject: Type.Optional(Type.String({ minLength: 1 })),
+    bodyKeywords: Type.Optional(Type.Array(Type.String({ minLength: 1 }), { minItems: 1 })),
+    account: Type.Optional(Type.String({ minLength: 1 })),
+    hasAttachments: Type.Optional(Type.Boolean()),
+    labels: Type.Optional(Type.Array(Type.String({ minLength: 1 }), { minItems: 1 })),
+    minThreadLength: Type.Optional(Type.Integer({ minimum: 1 })),
+    maxThreadLength: Type.Optional(Type.Integer({ minimum: 1 })),
+  }, { additionalProperties: false, minProperties: 1 }),
+  action: Type.Optional(Type.Union([Type.Literal("dismiss"), Type.Literal("handle"), Type.Literal("defer")])),
+  deferMinutes: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+  priority: Type.Optional(Type.Number()),
+  tags: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+  notify: Type.Optional(Type.Boolean()),
+}, { additionalProperties: false });
+
+/** Why `raw` is not a usable rule, or null when it is. */
+export function validateRule(raw: unknown): string | null {
+  const error = Value.Errors(TriageRuleSchema, raw).First();
+  if (error) return `${error.path || "/"}: ${error.message}`;
+
+  const rule = raw as TriageRule;
+  if (rule.match.subject !== undefined) {
+    try {
+      new RegExp(rule.match.subject, "i");
+    } catch {
+      return `/match/subject: invalid regular expression ${rule.match.subject}`;
+    }
+  }
+  if (rule.action === "defer" && rule.deferMinutes === undefined) return "/deferMinutes: required when action is \"defer\"";
+  if (rule.action !== "defer" && rule.deferMinutes !== undefined) return "/deferMinutes: only allowed when action is \"defer\"";
+  if (!rule.action && rule.priority === undefined && !rule.tags?.length && !rule.notify) {
+    return "/: a rule needs at least one of action, priority, tags or notify";
+  }
+  return null;
+}
+
+/** The valid rules from the `rules` config section; invalid ones are logged and skipped. */
+export function resolveRules(raw: unknown, logger: Logger): TriageRule[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    logger.warn("betteremail: ignoring rules — expected an array");
+    return [];
+  }
+  const names = new Set<string>();
+  return raw.filter((rule, i): rule is TriageRule => {
+    const problem = validateRule(rule);
+    if (problem) {
+      logger.warn(`betteremail: ignoring invalid rules[${i}] — ${problem}`);
+      return false;
+    }
+    const { name } = rule as TriageRule;
+    if (names.has(name)) logger.warn(`betteremail: rules[${i}] reuses the name "${name}"`);
+    names.add(name);
+    return true;
+  });
+}
+
+function includesIgnoringCase(haystack: string | undefined, needle: string): boolean {
+  return (haystack ?? "").toLowerCase().includes(needle.toLowerCase());
+}
+
+/** Whether every condition of `rule` holds for `email`. */
+export function ruleMatches(rule: TriageRule, email: TrimmedEmail): boolean {
+  const { match } = rule;
+  if (match.from !== undefined && !includesIgnoringCase(email.from, match.from)) return false;
+  if (match.to !== undefined && !includesIgnoringCase(email.to, match.to)) return false;
+  if (match.subject !== undefined && !new RegExp(match.subject, "i").test(email.subject ?? "")) return false;
+  if (match.bodyKeywords && !match.bodyKeywords.some((k) => includesIgnoringCase(email.body, k))) return false;
+  if (match.account !== undefined && (email.account ?? "").toLowerCase() !== match.account.toLowerCase()) return false;
+  if (match.hasAttachments !== undefined && Boolean(email.hasAttachments) !== match.hasAttachments) return false;
+  if (match.labels) {
+    const labels = new Set((email.labels ?? []).map((l) => l.toLowerCase()));
+    if (!match.labels.some((l) => labels.has(l.toLowerCase()))) return false;
+  }
+  if (match.minThreadLength !== undefined && (email.threadLength ?? 1) < match.minThreadLength) return false;
+  if (match.maxThreadLength !== undefined && (email.threadLength ?? 1) > match.maxThreadLength) return false;
+  return true;
+}
+
+export interface RuleOutcome {
+  /** Names of every rule that matched, in config order */
+  matched: string[];
+  /** The first matching rule with an action */
+  action?: { rule: string; type: NonNullable<TriageRule["action"]>; deferMinutes?: number };
+  /** The last matching rule that sets a priority, and that priority */
+  priority?: { name: string; priority: number };
+  tags: string[];
+  notify: boolean;
+}
+
+/**
+ * Runs every rule against `email`. Tags, priority and notify accumulate across
+ * matching rules; only the first matching rule with an action decides status.
+ */
+export function evaluateRules(rules: TriageRule[], email: TrimmedEmail): RuleOutcome {
+  const outcome: RuleOutcome = { matched: [], tags: [], notify: false };
+  for (const rule of rules) {
+    if (!ruleMatches(rule, email)) continue;
+    outcome.matched.push(rule.name);
+    if (rule.action && !outcome.action) {
+      outcome.action = { rule: rule.name, type: rule.action, deferMinutes: rule.deferMinutes };
+    }
+    if (rule.priority !== undefined) outcome.priority = { name: rule.name, priority: rule.priority };
+    for (const tag of rule.tags ?? []) if (!outcome.tags.includes(tag)) outcome.tags.push(tag);
+    if (rule.notify) outcome.notify = true;
+  }
+  return outcome;
+}
+
+const ACTION_LABELS = { dismiss: "auto-dismissed", handle: "auto-handled", defer: "deferred" } as const;
+
+/** Reason recorded on an entry a rule decided, e.g. `auto-dismissed by rule "newsletters"`. */
+export function ruleActionReason(action: NonNullable<RuleOutcome["action"]>): string {
+  return `${ACTION_LABELS[action.type]} by rule "${action.rule}"`;
+}
+
+/**
+ * Applies `outcome` to an entry about to be added. The status action only
+ * applies to entries still "new", so mutes and thread deferrals keep
+ * precedence. Returns the reason to record, if the action applied.
+ */
+export function applyRuleOutcome(entry: DigestEntry, outcome: RuleOutcome): string | undefined {
+  if (outcome.priority) entry.priority = outcome.priority.priority;
+  if (outcome.tags.length > 0) entry.tags = [...outcome.tags];
+  const action = outcome.action;
+  if (!action || entry.status !== "new") return undefined;
+
+  const reason = ruleActionReason(action);
+  if (action.type === "defer") {
+    entry.status = "deferred";
+    entry.deferredUntil = new Date(Date.parse(entry.firstSeenAt) + action.deferMinutes! * 60_000).toISOString();
+  } else {
+    entry.status = action.type === "dismiss" ? "dismissed" : "handled";
+    entry.resolvedAt = entry.firstSeenAt;
+    entry.dismissReason = reason;
+  }
+  return reason;
+}
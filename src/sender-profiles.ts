@@ -0,0 +1,132 @@
+import type { DigestEntry, DigestStatus, EmailLogEntry, SenderOutcome, SenderProfile } from "./types.js";
+import { extractEmail } from "./utils.js";
+
+/** Triage-time samples kept per sender for the median */
+const TRIAGE_SAMPLES = 25;
+/** Dismissals needed, and their share of decisions, before suggesting a sender's mail be dismissed */
+const SUGGEST_MIN_DISMISSALS = 5;
+const SUGGEST_DISMISS_SHARE = 0.9;
+
+// Status changes these make are not the owner's judgment of the sender
+const AUTOMATIC_ACTORS = new Set(["pipeline", "expiry", "recovery"]);
+
+// Ties go to the first listed
+const OUTCOMES: SenderOutcome[] = ["handled", "autoResolved", "dismissed", "deferred"];
+const OUTCOME_VERBS: Record<SenderOutcome, string> = {
+  handled: "handled",
+  autoResolved: "replied to",
+  dismissed: "dismissed",
+  deferred: "deferred",
+};
+
+export function emptyProfile(sender: string): SenderProfile {
+  return { sender, received: 0, outcomes: { handled: 0, dismissed: 0, deferred: 0, autoResolved: 0 }, triageMinutes: [] };
+}
+
+/** The outcome a status change counts as, if it was a triage decision by the owner. */
+export function senderOutcome(to: DigestStatus, actor: string): SenderOutcome | undefined {
+  if (actor === "auto-resolve") return to === "handled" ? "autoResolved" : undefined;
+  if (AUTOMATIC_ACTORS.has(actor)) return undefined;
+  return to === "handled" || to === "dismissed" || to === "deferred" ? to : undefined;
+}
+
+export function recordArrival(profile: SenderProfile, at: string): void {
+  profile.received++;
+  if (!profile.lastReceivedAt || at > profile.lastReceivedAt) profile.lastReceivedAt = at;
+}
+
+/**
+ * Counts `entry.history[index]` in its sender's profile. A decision adds to its
+ * outcome, and the entry's first decision adds a triage-time sample; an owner
+ * restoring a triaged entry takes back the decision that put it there.
+ * Returns whether the profile changed.
+ */
+export function applyHistoryEvent(profile: SenderProfile, entry: DigestEntry, index: number): boolean {
+  const history = entry.history ?? [];
+  const event = history[index];
+  if (!event) return false;
+  const earlier = history.slice(0, index);
+
+  const outcome = senderOutcome(event.to, event.actor);
+  if (outcome) {
+    profile.outcomes[outcome]++;
+    if (!profile.lastTriagedAt || event.at > profile.lastTriagedAt) profile.lastTriagedAt = event.at;
+    if (!earlier.some((e) => senderOutcome(e.to, e.actor))) {
+      const minutes = Math.max(0, (Date.parse(event.at) - Date.parse(entry.firstSeenAt)) / 60_000);
+      profile.triageMinutes = [...profile.triageMinutes, Math.round(minutes)].slice(-TRIAGE_SAMPLES);
+    }
+    return true;
+  }
+
+  if (event.from === null || AUTOMATIC_ACTORS.has(event.actor) || event.actor === "auto-resolve") return false;
+  const cause = [...earlier].reverse().find((e) => e.to === event.from);
+  const revoked = cause && senderOutcome(cause.to, cause.actor);
+  if (!revoked) return false;
+  profile.outcomes[revoked] = Math.max(0, profile.outcomes[revoked] - 1);
+  return true;
+}
+
+/**
+ * Profiles rebuilt from what is still on record: arrivals from the email log
+ * and decisions from the history of entries not yet pruned.
+ */
+export function buildSenderProfiles(entries: DigestEntry[], log: EmailLogEntry[]): SenderProfile[] {
+  const profiles = new Map<string, SenderProfile>();
+  const profileFor = (from: string) => {
+    const sender = extractEmail(from);
+    let profile = profiles.get(sender);
+    if (!profile) profiles.set(sender, profile = emptyProfile(sender));
+    return profile;
+  };
+
+  for (const { email, timestamp } of log) {
+    recordArrival(profileFor(email.from ?? ""), new Date(timestamp * 1000).toISOString());
+  }
+  for (const entry of entries) {
+    const history = entry.history ?? [];
+    if (history.length === 0) continue;
+    const profile = profileFor(entry.from);
+    history.forEach((_, i) => applyHistoryEvent(profile, entry, i));
+  }
+  return [...profiles.values()].filter((p) => p.sender !== "");
+}
+
+export function medianTriageMinutes(profile: SenderProfile): number | undefined {
+  const sorted = [...profile.triageMinutes].sort((a, b) => a - b);
+  if (sorted.length === 0) return undefined;
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+export function dominantOutcome(profile: SenderProfile): SenderOutcome | undefined {
+  let best: SenderOutcome | undefined;
+  for (const outcome of OUTCOMES) {
+    if (profile.outcomes[outcome] > 0 && (!best || profile.outcomes[outcome] > profile.outcomes[best])) best = outcome;
+  }
+  return best;
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)}h`;
+  return `${Math.round(minutes / (24 * 60))}d`;
+}
+
+/** One line for the digest, e.g. `you dismissed 14/15 from this sender, usually within 5m`. */
+export function describeSenderProfile(profile: SenderProfile): string {
+  const dominant = dominantOutcome(profile);
+  if (!dominant) {
+    return profile.received <= 1 ? "first email from this sender" : `${profile.received} emails from this sender, none triaged yet`;
+  }
+  const count = profile.outcomes[dominant];
+  const median = medianTriageMinutes(profile);
+  const summary = `you ${OUTCOME_VERBS[dominant]} ${count}/${Math.max(profile.received, count)} from this sender`;
+  return median !== undefined ? `${summary}, usually within ${formatMinutes(median)}` : summary;
+}
+
+/** Whether the owner dismisses this sender's mail so reliably that dismissing new mail is worth suggesting. */
+export function suggestsDismissal(profile: SenderProfile): boolean {
+  const { handled, dismissed, autoResolved } = profile.outcomes;
+  const decided = handled + dismissed + autoResolved;
+  return dismissed >= SUGGEST_MIN_DISMISSALS && dismissed / decided >= SUGGEST_DISMISS_SHARE;
+}
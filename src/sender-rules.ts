@@ -0,0 +1,72 @@
+import type { SenderRule, SenderRuleAction } from "./types.js";
+import { extractEmail } from "./utils.js";
+
+// More specific rules win when several match one sender
+const SPECIFICITY: Record<SenderRule["match"], number> = { address: 3, domain: 2, name: 1 };
+
+export function normalizePattern(match: SenderRule["match"], pattern: string): string {
+  const trimmed = pattern.trim().toLowerCase();
+  return match === "domain" ? trimmed.replace(/^@/, "") : trimmed;
+}
+
+export function senderRuleId(match: SenderRule["match"], pattern: string): string {
+  return `${match}:${normalizePattern(match, pattern)}`;
+}
+
+/** The display name in a From header, without quotes; empty for a bare address. */
+export function displayName(fromField: string): string {
+  if (!fromField.includes("<")) return "";
+  return fromField.replace(/<[^>]*>/, "").trim().replace(/^"(.*)"$/, "$1").trim();
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${source}$`, "i");
+}
+
+function matches(rule: SenderRule, address: string, name: string): boolean {
+  switch (rule.match) {
+    case "address":
+      return address === rule.pattern;
+    case "domain":
+      return address.endsWith(`@${rule.pattern}`) || address.endsWith(`.${rule.pattern}`);
+    case "name":
+      return name !== "" && globToRegExp(rule.pattern).test(name);
+  }
+}
+
+/** The most specific rule matching the sender in `fromField`, if any. */
+export function matchSenderRule(rules: SenderRule[], fromField: string): SenderRule | undefined {
+  const address = extractEmail(fromField);
+  const name = displayName(fromField);
+  let best: SenderRule | undefined;
+  for (const rule of rules) {
+    if (!matches(rule, address, name)) continue;
+    if (!best || SPECIFICITY[rule.match] > SPECIFICITY[best.match]) best = rule;
+  }
+  return best;
+}
+
+const ACTION_LABELS: Record<SenderRuleAction, string> = {
+  always_dismiss: "auto-dismissed",
+  always_handle: "auto-handled",
+  always_surface: "surfaced",
+};
+
+/** Reason recorded on an entry a rule decided, e.g. `auto-dismissed by sender rule domain:news.example.com: newsletter`. */
+export function senderRuleReason(rule: SenderRule): string {
+  const label = `${ACTION_LABELS[rule.action]} by sender rule ${rule.id}`;
+  return rule.reason ? `${label}: ${rule.reason}` : label;
+}
+
+/** The one sender pattern given as `address`, `domain` or `name` tool parameters, or an error message. */
+export function senderMatchFromParams(params: Record<string, unknown>): { match: SenderRule["match"]; pattern: string } | string {
+  const given = (["address", "domain", "name"] as const)
+    .filter((key) => typeof params[key] === "string" && (params[key] as string).trim() !== "");
+  if (given.length !== 1) return "Error: pass exactly one of address, domain or name.";
+  const match = given[0];
+  const pattern = normalizePattern(match, params[match] as string);
+  if (match === "address" && !/^[^@\s]+@[^@\s]+$/.test(pattern)) return `Error: "${pattern}" is not an email address.`;
+  if (match === "domain" && !/^[^@\s]+\.[^@\s]+$/.test(pattern)) return `Error: "${pattern}" is not a domain.`;
+  return { match, pattern };
+}
@@ -0,0 +1,32 @@
+import type { CommandRunner, CredentialRef } from "../types.js";
+
+/**
+ * Resolve a credential reference at connection time so rotated secrets are
+ * picked up without restarting the plugin. Secrets are never stored in config.
+ */
+export async function resolveSecret(ref: CredentialRef, runCommand: CommandRunner): Promise<string> {
+  if (ref.env) {
+    const value = process.env[ref.env];
+    if (!value) throw new Error(`environment variable ${ref.env} is not set`);
+    return value;
+  }
+  if (ref.command && ref.command.length > 0) {
+    const result = await runCommand(ref.command, { timeoutMs: 10_000 });
+    const value = result.stdout?.trim();
+    if (result.code !== 0 || !value) {
+      throw new Error(`credential command ${ref.command[0]} failed (code ${result.code})`);
+    }
+    return value;
+  }
+  throw new Error("credential reference needs either env or command");
+}
+
+export function resolveCredentialRef(raw: unknown): CredentialRef | null {
+  if (!raw || typeof raw !== "object") return null;
+  const obj = raw as Record<string, unknown>;
+  if (typeof obj.env === "string" && obj.env) return { env: obj.env };
+  if (Array.isArray(obj.command) && obj.command.length > 0 && obj.command.every((c) => typeof c === "string")) {
+    return { command: obj.command as string[] };
+  }
+  return null;
+}
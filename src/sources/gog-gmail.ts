@@ -0,0 +1,125 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { CommandRunner, Logger, MailBatch, MailSource, RawGogMessage, RawGogThread } from "../types.js";
+import { normalizeMessage } from "../mime.js";
+
+export function parseGogMessages(stdout: string): RawGogMessage[] {
+  if (!stdout || !stdout.trim()) return [];
+  try {
+    const parsed = JSON.parse(stdout.trim());
+    if (Array.isArray(parsed)) return parsed;
+    if (parsed && typeof parsed === "object" && Array.isArray(parsed.messages)) return parsed.messages;
+    if (parsed && typeof parsed === "object" && parsed.id) return [parsed];
+    return [];
+  } catch {
+    return [];
+  }
+}
+
+export function extractHistoryId(stdout: string): string | undefined {
+  if (!stdout || !stdout.trim()) return undefined;
+  try {
+    const parsed = JSON.parse(stdout.trim());
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed) && typeof parsed.historyId === "string") {
+      return parsed.historyId;
+    }
+    return undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function parseGogThread(stdout: string): RawGogThread | null {
+  if (!stdout || !stdout.trim()) return null;
+  try {
+    const parsed = JSON.parse(stdout.trim());
+    if (parsed && parsed.id && Array.isArray(parsed.messages)) return parsed;
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+export class GogGmailSource implements MailSource {
+  private account: string;
+  private runCommand: CommandRunner;
+  private logger: Logger;
+
+  constructor(account: string, runCommand: CommandRunner, logger: Logger) {
+    this.account = account;
+    this.runCommand = runCommand;
+    this.logger = logger;
+  }
+
+  async runGog(args: string[]): Promise<{ stdout: string; ok: boolean }> {
+    try {
+      const result = await this.runCommand(["gog", ...args], { timeoutMs: 30_000 });
+      if (result.code !== 0) {
+        this.logger.warn(`betteremail: gog failed (code ${result.code}): ${result.stderr?.slice(0, 200)}`);
+        return { stdout: "", ok: false };
+      }
+      return { stdout: result.stdout ?? "", ok: true };
+    } catch (err) {
+      this.logger.error(`betteremail: gog error: ${err instanceof Error ? err.message : String(err)}`);
+      return { stdout: "", ok: false };
+    }
+  }
+
+  async listChanges(cursor: string): Promise<MailBatch | null> {
+    const result = await this.runGog([
+      "gmail", "history", "--since", cursor, "--account", this.account, "--json",
+    ]);
+    if (!result.ok) return null;
+    return {
+      messages: parseGogMessages(result.stdout).map(normalizeMessage),
+      cursor: extractHistoryId(result.stdout),
+    };
+  }
+
+  async rescan(days: number): Promise<MailBatch | null> {
+    const result = await this.runGog([
+      "gmail", "messages", "search", `newer_than:${days}d`,
+      "--account", this.account, "--json", "--include-body",
+    ]);
+    if (!result.ok) return null;
+    // Search results carry no historyId
+    return { messages: parseGogMessages(result.stdout).map(normalizeMessage) };
+  }
+
+  async fetchThread(threadId: string): Promise<RawGogThread | null> {
+    const result = await this.runGog([
+      "gmail", "thread", "get", threadId, "--account", this.account, "--json",
+    ]);
+    if (!result.ok) return null;
+    const thread = parseGogThread(result.stdout);
+    return thread ? { ...thread, messages: thread.messages.map(normalizeMessage) } : null;
+  }
+
+  async fetchMessage(messageId: string): Promise<RawGogMessage | null> {
+    const result = await this.runGog([
+      "gmail", "get", messageId, "--account", this.account, "--json",
+    ]);
+    if (!result.ok) return null;
+    const msg = parseGogMessages(result.stdout)[0];
+    return msg ? normalizeMessage(msg) : null;
+  }
+
+  async fetchAttachment(messageId: string, attachmentId: string): Promise<Buffer | null> {
+    // Command output is captured as text, so have gog write the bytes to a scratch file
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "betteremail-"));
+    try {
+      const outPath = path.join(dir, "attachment");
+      const result = await this.runGog([
+        "gmail", "attachment", messageId, attachmentId, "--account", this.account, "--out", outPath,
+      ]);
+      if (!result.ok) return null;
+      return await fs.readFile(outPath);
+    } catch (err) {
+      this.logger.warn(`betteremail: gog attachment not readable: ${err instanceof Error ? err.message : String(err)}`);
+      return null;
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import * as net from "node:net";
+import * as tls from "node:tls";
+
+export interface ImapConnectOptions {
+  host: string;
+  port: number;
+  tls: boolean;
+  timeoutMs?: number;
+}
+
+export interface ImapResponse {
+  /** Response text with any literals cut out */
+  text: string;
+  literals: Buffer[];
+}
+
+export interface ImapMailboxStatus {
+  uidValidity: number;
+  uidNext: number;
+  exists: number;
+}
+
+export interface ImapFetchedMessage {
+  uid: number;
+  raw: Buffer;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const FETCH_BATCH_SIZE = 50;
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+export function quoteImapString(value: string): string {
+  return `"${value.replace(/(["\\])/g, "\\$1")}"`;
+}
+
+export function formatImapDate(date: Date): string {
+  return `${date.getUTCDate()}-${MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()}`;
+}
+
+/**
+ * Minimal IMAP4rev1 client — just enough to select a mailbox, search by UID
+ * and fetch full messages. One command is in flight at a time.
+ */
+export class ImapClient {
+  private socket: net.Socket;
+  private buffer = Buffer.alloc(0);
+  private partial: ImapResponse | null = null;
+  private literalBytes = -1;
+  private responses: ImapResponse[] = [];
+  private wake: (() => void) | null = null;
+  private closed: Error | null = null;
+  private tagCounter = 0;
+
+  private constructor(socket: net.Socket, timeoutMs: number) {
+    this.socket = socket;
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error("IMAP connection timed out")));
+    socket.on("data", (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.parse();
+    });
+    socket.on("error", (err) => {
+      this.closed = err;
+      this.notify();
+    });
+    socket.on("close", () => {
+      this.closed ??= new Error("IMAP connection closed");
+      this.notify();
+    });
+  }
+
+  static async connect(opts: ImapConnectOptions): Promise<ImapClient> {
+    const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const sock = opts.tls
+        ? tls.connect({ host: opts.host, port: opts.port, servername: opts.host })
+        : net.connect({ host: opts.host, port: opts.port });
+      // The idle timeout set by the constructor only starts once connected; this covers the connect and TLS handshake
+      const timer = setTimeout(() => {
+        sock.destroy();
+        reject(new Error(`IMAP connection to ${opts.host}:${opts.port} timed out`));
+      }, timeoutMs);
+      const fail = (err: Error) => {
+        clearTimeout(timer);
+        reject(err);
+      };
+      sock.once("error", fail);
+      sock.once(opts.tls ? "secureConnect" : "connect", () => {
+        clearTimeout(timer);
+        sock.off("error", fail);
+        resolve(sock);
+      });
+    });
+    const client = new ImapClient(socket, timeoutMs);
+    const greeting = await client.readResponse();
+    if (!/^\* (OK|PREAUTH)\b/i.test(greeting.text)) {
+      socket.destroy();
+      throw new Error(`IMAP server rejected connection: ${greeting.text.slice(0, 200)}`);
+    }
+    return client;
+  }
+
+  async login(user: string, password: string): Promise<void> {
+    await this.command(`LOGIN ${quoteImapString(user)} ${quoteImapString(password)}`);
+  }
+
+  async examine(mailbox: string): Promise<ImapMailboxStatus> {
+    const untagged = await this.command(`EXAMINE ${quoteImapString(mailbox)}`);
+    const status: ImapMailboxStatus = { uidValidity: 0, uidNext: 0, exists: 0 };
+    for (const res of untagged) {
+      const validity = /\[UIDVALIDITY (\d+)\]/i.exec(res.text);
+      if (validity) status.uidValidity = Number(validity[1]);
+      const next = /\[UIDNEXT (\d+)\]/i.exec(res.text);
+      if (next) status.uidNext = Number(next[1]);
+      const exists = /^\* (\d+) EXISTS/i.exec(res.text);
+      if (exists) status.exists = Number(exists[1]);
+    }
+    return status;
+  }
+
+  async uidSearch(criteria: string): Promise<number[]> {
+    const untagged = await this.command(`UID SEARCH ${criteria}`);
+    const uids: number[] = [];
+    for (const res of untagged) {
+      const match = /^\* SEARCH\b(.*)$/i.exec(res.text);
+      if (!match) continue;
+      for (const token of match[1].trim().split(/\s+/)) {
+        if (/^\d+$/.test(token)) uids.push(Number(token));
+      }
+    }
+    return uids;
+  }
+
+  async uidFetch(uids: number[]): Promise<ImapFetchedMessage[]> {
+    const messages: ImapFetchedMessage[] = [];
+    for (let i = 0; i < uids.length; i += FETCH_BATCH_SIZE) {
+      const batch = uids.slice(i, i + FETCH_BATCH_SIZE);
+      const untagged = await this.command(`UID FETCH ${batch.join(",")} (UID BODY.PEEK[])`);
+      for (const res of untagged) {
+        if (!/^\* \d+ FETCH\b/i.test(res.text) || res.literals.length === 0) continue;
+        const uid = /\bUID (\d+)/i.exec(res.text);
+        if (uid) messages.push({ uid: Number(uid[1]), raw: res.literals[0] });
+      }
+    }
+    return messages;
+  }
+
+  async logout(): Promise<void> {
+    try {
+      await this.command("LOGOUT");
+    } catch {
+      // Server may drop the connection before the tagged OK
+    } finally {
+      this.socket.destroy();
+    }
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  /** False once the server, a timeout or `close()` ended the connection */
+  isOpen(): boolean {
+    return this.closed === null;
+  }
+
+  private async command(text: string): Promise<ImapResponse[]> {
+    const tag = `A${++this.tagCounter}`;
+    this.socket.write(`${tag} ${text}\r\n`);
+    const untagged: ImapResponse[] = [];
+    for (;;) {
+      const res = await this.readResponse();
+      if (res.text.startsWith(`${tag} `)) {
+        const status = res.text.slice(tag.length + 1);
+        if (!/^OK\b/i.test(status)) {
+          throw new Error(`IMAP ${text.split(" ")[0]} failed: ${status.slice(0, 200)}`);
+        }
+        return untagged;
+      }
+      untagged.push(res);
+    }
+  }
+
+  private async readResponse(): Promise<ImapResponse> {
+    while (this.responses.length === 0) {
+      if (this.closed) throw this.closed;
+      await new Promise<void>((resolve) => {
+        this.wake = resolve;
+      });
+    }
+    return this.responses.shift()!;
+  }
+
+  private notify(): void {
+    const wake = this.wake;
+    this.wake = null;
+    wake?.();
+  }
+
+  private parse(): void {
+    for (;;) {
+      if (this.literalBytes >= 0) {
+        if (this.buffer.length < this.literalBytes) break;
+        this.partial!.literals.push(this.buffer.subarray(0, this.literalBytes));
+        this.buffer = this.buffer.subarray(this.literalBytes);
+        this.literalBytes = -1;
+        continue;
+      }
+      const eol = this.buffer.indexOf("\r\n");
+      if (eol < 0) break;
+      const line = this.buffer.subarray(0, eol).toString("utf8");
+      this.buffer = this.buffer.subarray(eol + 2);
+      const response = this.partial ?? { text: "", literals: [] };
+      const literal = /\{(\d+)\}$/.exec(line);
+      if (literal) {
+        response.text += line.slice(0, literal.index);
+        this.partial = response;
+        this.literalBytes = Number(literal[1]);
+        continue;
+      }
+      response.text += line;
+      this.partial = null;
+      this.responses.push(response);
+      this.notify();
+    }
+  }
+}
@@ -0,0 +1,197 @@
+import type {
+  CommandRunner,
+  ImapAccountConfig,
+  Logger,
+  MailBatch,
+  MailSource,
+  RawGogMessage,
+  RawGogThread,
+} from "../types.js";
+import { extractAttachment, rfc822ToMessage } from "../mime.js";
+import { resolveSecret } from "./credentials.js";
+import { ImapClient, formatImapDate, quoteImapString } from "./imap-client.js";
+
+/** How long a session stays logged in after a call, for the next fetch of the same poll */
+const SESSION_IDLE_MS = 10_000;
+
+export function formatImapCursor(uidValidity: number, uidNext: number): string {
+  return `${uidValidity}:${uidNext}`;
+}
+
+export function parseImapCursor(cursor: string): { uidValidity: number; uidNext: number } | null {
+  const match = /^(\d+):(\d+)$/.exec(cursor);
+  if (!match) return null;
+  return { uidValidity: Number(match[1]), uidNext: Number(match[2]) };
+}
+
+/**
+ * IMAP mail source. Incremental polling keys off UIDVALIDITY/UIDNEXT of the
+ * inbox; threads are reassembled from Message-ID/References headers across
+ * the inbox and the Sent folder so owner replies are visible. Consecutive
+ * calls share one logged-in session, closed after SESSION_IDLE_MS idle.
+ */
+export class ImapSource implements MailSource {
+  private config: ImapAccountConfig;
+  private runCommand: CommandRunner;
+  private logger: Logger;
+  /** Logged-in session left open by the previous call, until SESSION_IDLE_MS passes */
+  private session: ImapClient | undefined;
+  private idleTimer: NodeJS.Timeout | undefined;
+  /** Calls share one connection, so they run one at a time */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(config: ImapAccountConfig, runCommand: CommandRunner, logger: Logger) {
+    this.config = config;
+    this.runCommand = runCommand;
+    this.logger = logger;
+  }
+
+  async listChanges(cursor: string): Promise<MailBatch | null> {
+    const saved = parseImapCursor(cursor);
+    if (!saved) return null;
+    return this.withClient(async (client) => {
+      const status = await client.examine(this.config.mailbox);
+      if (status.uidValidity !== saved.uidValidity) {
+        this.logger.info(`betteremail: UIDVALIDITY changed for ${this.config.email}, rescan needed`);
+        return null;
+      }
+      const uidNext = status.uidNext || saved.uidNext;
+      if (uidNext <= saved.uidNext) {
+        return { messages: [], cursor };
+      }
+      // "n:*" always matches the highest UID, so filter out anything older
+      const uids = (await client.uidSearch(`UID ${saved.uidNext}:*`)).filter((uid) => uid >= saved.uidNext);
+      const messages = await this.fetchMessages(client, this.config.mailbox, status.uidValidity, uids);
+      const highest = uids.reduce((max, uid) => Math.max(max, uid + 1), uidNext);
+      return { messages, cursor: formatImapCursor(status.uidValidity, highest) };
+    });
+  }
+
+  async rescan(days: number): Promise<MailBatch | null> {
+    return this.withClient(async (client) => {
+      const status = await client.examine(this.config.mailbox);
+      const since = formatImapDate(new Date(Date.now() - days * 24 * 60 * 60_000));
+      const uids = await client.uidSearch(`SINCE ${since}`);
+      const messages = await this.fetchMessages(client, this.config.mailbox, status.uidValidity, uids);
+      const uidNext = status.uidNext || uids.reduce((max, uid) => Math.max(max, uid + 1), 1);
+      return { messages, cursor: formatImapCursor(status.uidValidity, uidNext) };
+    });
+  }
+
+  async fetchThread(threadId: string): Promise<RawGogThread | null> {
+    const id = quoteImapString(`<${threadId}>`);
+    const messages = await this.searchMailboxes(
+      `OR OR HEADER Message-ID ${id} HEADER References ${id} HEADER In-Reply-To ${id}`,
+    );
+    if (!messages || messages.length === 0) return null;
+    messages.sort((a, b) => new Date(a.date ?? 0).getTime() - new Date(b.date ?? 0).getTime());
+    return { id: threadId, messages };
+  }
+
+  async fetchMessage(messageId: string): Promise<RawGogMessage | null> {
+    const messages = await this.searchMailboxes(`HEADER Message-ID ${quoteImapString(`<${messageId}>`)}`);
+    return messages?.find((m) => m.id === messageId) ?? null;
+  }
+
+  async fetchAttachment(messageId: string, attachmentId: string): Promise<Buffer | null> {
+    return this.withClient(async (client) => {
+      // Messages without a Message-ID carry their mailbox/UIDVALIDITY/UID in the fallback id
+      const fallback = this.parseFallbackId(messageId);
+      const mailboxes = fallback ? [fallback.mailbox] : [this.config.mailbox, this.config.sentMailbox];
+      for (const mailbox of mailboxes) {
+        let uidValidity: number;
+        try {
+          uidValidity = (await client.examine(mailbox)).uidValidity;
+        } catch {
+          continue;
+        }
+        if (fallback && fallback.uidValidity !== uidValidity) return null;
+        const uids = fallback
+          ? [fallback.uid]
+          : await client.uidSearch(`HEADER Message-ID ${quoteImapString(`<${messageId}>`)}`);
+        for (const { uid, raw } of await client.uidFetch(uids)) {
+          if (rfc822ToMessage(raw, `${this.config.email}:${mailbox}:${uidValidity}:${uid}`).id === messageId) {
+            return extractAttachment(raw, attachmentId);
+          }
+        }
+      }
+      return null;
+    });
+  }
+
+  private parseFallbackId(messageId: string): { mailbox: string; uidValidity: number; uid: number } | null {
+    const prefix = `${this.config.email}:`;
+    if (!messageId.startsWith(prefix)) return null;
+    const match = /^(.+):(\d+):(\d+)$/.exec(messageId.slice(prefix.length));
+    return match ? { mailbox: match[1], uidValidity: Number(match[2]), uid: Number(match[3]) } : null;
+  }
+
+  private async searchMailboxes(criteria: string): Promise<RawGogMessage[] | null> {
+    return this.withClient(async (client) => {
+      const byId = new Map<string, RawGogMessage>();
+      for (const mailbox of [this.config.mailbox, this.config.sentMailbox]) {
+        let uidValidity: number;
+        try {
+          uidValidity = (await client.examine(mailbox)).uidValidity;
+        } catch {
+          // Sent folder may not exist under the configured name
+          continue;
+        }
+        const uids = await client.uidSearch(criteria);
+        for (const msg of await this.fetchMessages(client, mailbox, uidValidity, uids)) {
+          if (!byId.has(msg.id)) byId.set(msg.id, msg);
+        }
+      }
+      return [...byId.values()];
+    });
+  }
+
+  private async fetchMessages(
+    client: ImapClient,
+    mailbox: string,
+    uidValidity: number,
+    uids: number[],
+  ): Promise<RawGogMessage[]> {
+    const fetched = await client.uidFetch(uids);
+    return fetched.map(({ uid, raw }) => ({
+      ...rfc822ToMessage(raw, `${this.config.email}:${mailbox}:${uidValidity}:${uid}`),
+      labels: [mailbox],
+    }));
+  }
+
+  private withClient<T>(fn: (client: ImapClient) => Promise<T | null>): Promise<T | null> {
+    const run = this.queue.then(() => this.runWithClient(fn));
+    this.queue = run;
+    return run;
+  }
+
+  private async runWithClient<T>(fn: (client: ImapClient) => Promise<T | null>): Promise<T | null> {
+    clearTimeout(this.idleTimer);
+    let client = this.session;
+    this.session = undefined;
+    try {
+      if (!client?.isOpen()) {
+        const password = await resolveSecret(this.config.password, this.runCommand);
+        client = await ImapClient.connect({ host: this.config.host, port: this.config.port, tls: this.config.tls });
+        await client.login(this.config.username, password);
+      }
+      const result = await fn(client);
+      this.keepOpen(client);
+      return result;
+    } catch (err) {
+      client?.close();
+      this.logger.warn(`betteremail: IMAP error for ${this.config.email}: ${err instanceof Error ? err.message : String(err)}`);
+      return null;
+    }
+  }
+
+  private keepOpen(client: ImapClient): void {
+    this.session = client;
+    this.idleTimer = setTimeout(() => {
+      if (this.session !== client) return;
+      this.session = undefined;
+      void client.logout();
+    }, SESSION_IDLE_MS);
+    this.idleTimer.unref();
+  }
+}
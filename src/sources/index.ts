@@ -0,0 +1,90 @@
+import type { AccountConfig, CommandRunner, Logger, MailSource } from "../types.js";
+import { resolveCredentialRef } from "./credentials.js";
+import { GogGmailSource } from "./gog-gmail.js";
+import { ImapSource } from "./imap.js";
+import { MaildirSource } from "./maildir.js";
+import { MboxSource } from "./mbox.js";
+import { OutlookSource } from "./outlook.js";
+
+export interface MailSourceDeps {
+  runCommand: CommandRunner;
+  logger: Logger;
+}
+
+export function createMailSource(account: AccountConfig, deps: MailSourceDeps): MailSource {
+  switch (account.source) {
+    case "gmail":
+      return new GogGmailSource(account.email, deps.runCommand, deps.logger);
+    case "imap":
+      return new ImapSource(account, deps.runCommand, deps.logger);
+    case "maildir":
+      return new MaildirSource(account, deps.logger);
+    case "mbox":
+      return new MboxSource(account, deps.logger);
+    case "outlook":
+      return new OutlookSource(account, deps.runCommand, deps.logger);
+  }
+}
+
+function ignored(logger: Logger | undefined, source: string, email: string, missing: string[]): null {
+  logger?.warn(`betteremail: ignoring ${source} account ${email}: missing ${missing.join(" and ")}`);
+  return null;
+}
+
+export function resolveAccount(raw: unknown, logger?: Logger): AccountConfig | null {
+  if (typeof raw === "string") {
+    return raw ? { source: "gmail", email: raw } : null;
+  }
+  if (!raw || typeof raw !== "object") return null;
+  const obj = raw as Record<string, unknown>;
+  if (typeof obj.email !== "string" || !obj.email) return null;
+  const source = obj.source ?? "gmail";
+
+  if (source === "gmail") return { source: "gmail", email: obj.email };
+
+  if (source === "imap") {
+    const password = resolveCredentialRef(obj.password);
+    if (typeof obj.host !== "string" || !obj.host || !password) {
+      return ignored(logger, source, obj.email, [...(obj.host ? [] : ["host"]), ...(password ? [] : ["password"])]);
+    }
+    const useTls = typeof obj.tls === "boolean" ? obj.tls : true;
+    return {
+      source: "imap",
+      email: obj.email,
+      host: obj.host,
+      port: typeof obj.port === "number" ? obj.port : useTls ? 993 : 143,
+      tls: useTls,
+      username: typeof obj.username === "string" && obj.username ? obj.username : obj.email,
+      password,
+      mailbox: typeof obj.mailbox === "string" && obj.mailbox ? obj.mailbox : "INBOX",
+      sentMailbox: typeof obj.sentMailbox === "string" && obj.sentMailbox ? obj.sentMailbox : "Sent",
+    };
+  }
+
+  if (source === "outlook") {
+    const token = resolveCredentialRef(obj.token);
+    if (!token) return ignored(logger, source, obj.email, ["token"]);
+    return {
+      source: "outlook",
+      email: obj.email,
+      token,
+      mailFolder: typeof obj.mailFolder === "string" && obj.mailFolder ? obj.mailFolder : "inbox",
+      baseUrl: typeof obj.baseUrl === "string" && obj.baseUrl
+        ? obj.baseUrl.replace(/\/+$/, "")
+        : "https://graph.microsoft.com/v1.0",
+    };
+  }
+
+  if (source === "maildir" || source === "mbox") {
+    if (typeof obj.path !== "string" || !obj.path) return ignored(logger, source, obj.email, ["path"]);
+    return {
+      source,
+      email: obj.email,
+      path: obj.path,
+      sentPath: typeof obj.sentPath === "string" && obj.sentPath ? obj.sentPath : undefined,
+    };
+  }
+
+  logger?.warn(`betteremail: ignoring account ${obj.email}: unknown source ${String(source)}`);
+  return null;
+}
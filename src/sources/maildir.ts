@@ -0,0 +1,168 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { Logger, MailBatch, MailSource, MaildirAccountConfig, RawGogMessage, RawGogThread } from "../types.js";
+import { extractAttachment, rfc822ToMessage } from "../mime.js";
+import { MessageIndex, collectThread } from "./threads.js";
+
+interface MaildirFile {
+  path: string;
+  /** Unique part of the filename — stable across flag changes and new/ → cur/ moves */
+  key: string;
+  mtimeMs: number;
+}
+
+interface MaildirLocation extends MaildirFile {
+  label: string;
+}
+
+async function listMaildir(dir: string): Promise<MaildirFile[]> {
+  const files: MaildirFile[] = [];
+  for (const sub of ["new", "cur"]) {
+    let names: string[];
+    try {
+      names = await fs.readdir(path.join(dir, sub));
+    } catch {
+      continue;
+    }
+    for (const name of names) {
+      if (name.startsWith(".")) continue;
+      const filePath = path.join(dir, sub, name);
+      try {
+        const stat = await fs.stat(filePath);
+        if (!stat.isFile()) continue;
+        files.push({ path: filePath, key: name.split(":")[0], mtimeMs: Math.floor(stat.mtimeMs) });
+      } catch {
+        // Moved or deleted between readdir and stat (e.g. by mbsync)
+      }
+    }
+  }
+  return files;
+}
+
+async function dirStamp(dir: string): Promise<string> {
+  try {
+    return String((await fs.stat(dir)).mtimeMs);
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Maildir mail source for mailboxes synced to disk by offlineimap/mbsync.
+ * The cursor is the newest file mtime seen; files at or after it are
+ * re-listed and the email log drops the ones already processed.
+ */
+export class MaildirSource implements MailSource {
+  private config: MaildirAccountConfig;
+  private logger: Logger;
+  /** Index of the folders as of their directories' mtimes */
+  private indexed: { stamp: string; index: MessageIndex<MaildirLocation> } | undefined;
+  /** id and thread of every file indexed so far, by folder label and file key */
+  private parsed = new Map<string, { id: string; threadId: string }>();
+
+  constructor(config: MaildirAccountConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger;
+  }
+
+  async listChanges(cursor: string): Promise<MailBatch | null> {
+    const since = Number(cursor);
+    if (!Number.isFinite(since)) return null;
+    return this.scan(since);
+  }
+
+  async rescan(days: number): Promise<MailBatch | null> {
+    return this.scan(Date.now() - days * 24 * 60 * 60_000);
+  }
+
+  async fetchThread(threadId: string): Promise<RawGogThread | null> {
+    const index = await this.messageIndex();
+    if (!index) return null;
+    const messages: RawGogMessage[] = [];
+    for (const location of index.thread(threadId)) {
+      const msg = await this.readMessage(location, location.label);
+      if (msg) messages.push(msg);
+    }
+    return collectThread(threadId, messages);
+  }
+
+  async fetchMessage(messageId: string): Promise<RawGogMessage | null> {
+    const location = (await this.messageIndex())?.message(messageId);
+    return location ? this.readMessage(location, location.label) : null;
+  }
+
+  async fetchAttachment(messageId: string, attachmentId: string): Promise<Buffer | null> {
+    const location = (await this.messageIndex())?.message(messageId);
+    if (!location) return null;
+    try {
+      return extractAttachment(await fs.readFile(location.path), attachmentId);
+    } catch {
+      return null;
+    }
+  }
+
+  private async scan(sinceMs: number): Promise<MailBatch | null> {
+    if (!(await this.exists())) return null;
+    const files = await listMaildir(this.config.path);
+    const changed = files.filter((f) => f.mtimeMs >= sinceMs);
+    const messages: RawGogMessage[] = [];
+    for (const file of changed) {
+      const msg = await this.readMessage(file, "INBOX");
+      if (msg) messages.push(msg);
+    }
+    const newest = files.reduce((max, f) => Math.max(max, f.mtimeMs), Math.floor(sinceMs));
+    return { messages, cursor: String(newest) };
+  }
+
+  private async messageIndex(): Promise<MessageIndex<MaildirLocation> | null> {
+    if (!(await this.exists())) return null;
+    // Delivering, deleting or renaming a file (flag changes included) updates its directory's mtime
+    const dirs = this.folders().flatMap(([dir]) => [path.join(dir, "new"), path.join(dir, "cur")]);
+    const stamp = (await Promise.all(dirs.map(dirStamp))).join("|");
+    if (this.indexed?.stamp === stamp) return this.indexed.index;
+
+    const index = new MessageIndex<MaildirLocation>();
+    const parsed = new Map<string, { id: string; threadId: string }>();
+    for (const [dir, label] of this.folders()) {
+      for (const file of await listMaildir(dir)) {
+        const cacheKey = `${label}/${file.key}`;
+        let ids = this.parsed.get(cacheKey);
+        if (!ids) {
+          const msg = await this.readMessage(file, label);
+          if (!msg) continue;
+          ids = { id: msg.id, threadId: msg.threadId };
+        }
+        parsed.set(cacheKey, ids);
+        index.add(ids.id, ids.threadId, { ...file, label });
+      }
+    }
+    this.parsed = parsed;
+    this.indexed = { stamp, index };
+    return index;
+  }
+
+  private folders(): [string, string][] {
+    const folders: [string, string][] = [[this.config.path, "INBOX"]];
+    if (this.config.sentPath) folders.push([this.config.sentPath, "SENT"]);
+    return folders;
+  }
+
+  private async readMessage(file: MaildirFile, label: string): Promise<RawGogMessage | null> {
+    try {
+      const raw = await fs.readFile(file.path);
+      return { ...rfc822ToMessage(raw, file.key), labels: [label] };
+    } catch {
+      return null;
+    }
+  }
+
+  private async exists(): Promise<boolean> {
+    try {
+      await fs.access(path.join(this.config.path, "cur"));
+      return true;
+    } catch {
+      this.logger.warn(`betteremail: Maildir not found for ${this.config.email}: ${this.config.path}`);
+      return false;
+    }
+  }
+}
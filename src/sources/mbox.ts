@@ -0,0 +1,171 @@
+import * as fs from "node:fs/promises";
+import type { Logger, MailBatch, MailSource, MboxAccountConfig, RawGogMessage, RawGogThread } from "../types.js";
+import { extractAttachment, rfc822ToMessage } from "../mime.js";
+import { MessageIndex, collectThread } from "./threads.js";
+
+export interface MboxEntry {
+  /** Byte offset of the "From " separator line */
+  offset: number;
+  /** Byte offset just past the message */
+  end: number;
+  raw: Buffer;
+}
+
+interface MboxLocation {
+  path: string;
+  offset: number;
+  end: number;
+  label: string;
+}
+
+/**
+ * Split an mbox file into messages. Offsets are byte offsets so they can be
+ * used as a resume cursor; ">From " quoting (mboxo/mboxrd) is undone.
+ */
+export function splitMbox(data: Buffer, startOffset = 0): MboxEntry[] {
+  // latin1 maps bytes 1:1 to chars, so string indices are byte offsets
+  const text = data.toString("latin1");
+  const separator = /(?:^|\n)From [^\n]*\n/g;
+  // Start on the newline before the offset so the separator there is matched
+  separator.lastIndex = Math.max(0, startOffset - 1);
+  const starts: { offset: number; contentStart: number }[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = separator.exec(text)) !== null) {
+    const offset = match[0].startsWith("\n") ? match.index + 1 : match.index;
+    starts.push({ offset, contentStart: match.index + match[0].length });
+  }
+  return starts.map((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].offset : data.length;
+    const raw = text.slice(start.contentStart, end).replace(/^>(>*From )/gm, "$1");
+    return { offset: start.offset, end, raw: Buffer.from(raw, "latin1") };
+  });
+}
+
+/**
+ * mbox mail source. The cursor is the byte length of the file at the last
+ * poll; a file that shrank or no longer has a separator at the cursor was
+ * rewritten, so the poller falls back to a rescan.
+ */
+export class MboxSource implements MailSource {
+  private config: MboxAccountConfig;
+  private logger: Logger;
+  /** Index of the mbox files as of their mtimes and sizes */
+  private indexed: { stamp: string; index: MessageIndex<MboxLocation> } | undefined;
+
+  constructor(config: MboxAccountConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger;
+  }
+
+  async listChanges(cursor: string): Promise<MailBatch | null> {
+    const offset = Number(cursor);
+    if (!Number.isInteger(offset) || offset < 0) return null;
+    const data = await this.read(this.config.path);
+    if (!data || data.length < offset) return null;
+    if (data.length === offset) return { messages: [], cursor };
+    if (offset > 0 && data.subarray(offset, offset + 5).toString("latin1") !== "From ") return null;
+    return {
+      messages: this.toMessages(splitMbox(data, offset), "INBOX"),
+      cursor: String(data.length),
+    };
+  }
+
+  async rescan(days: number): Promise<MailBatch | null> {
+    const data = await this.read(this.config.path);
+    if (!data) return null;
+    const cutoff = Date.now() - days * 24 * 60 * 60_000;
+    const messages = this.toMessages(splitMbox(data), "INBOX")
+      .filter((m) => !m.date || new Date(m.date).getTime() >= cutoff);
+    return { messages, cursor: String(data.length) };
+  }
+
+  async fetchThread(threadId: string): Promise<RawGogThread | null> {
+    const index = await this.messageIndex();
+    if (!index) return null;
+    const messages: RawGogMessage[] = [];
+    for (const location of index.thread(threadId)) {
+      const entry = await this.readEntry(location);
+      if (entry) messages.push(...this.toMessages([entry], location.label));
+    }
+    return collectThread(threadId, messages);
+  }
+
+  async fetchMessage(messageId: string): Promise<RawGogMessage | null> {
+    const location = (await this.messageIndex())?.message(messageId);
+    const entry = location && await this.readEntry(location);
+    return entry ? this.toMessages([entry], location.label)[0] : null;
+  }
+
+  async fetchAttachment(messageId: string, attachmentId: string): Promise<Buffer | null> {
+    const location = (await this.messageIndex())?.message(messageId);
+    const entry = location && await this.readEntry(location);
+    return entry ? extractAttachment(entry.raw, attachmentId) : null;
+  }
+
+  private async messageIndex(): Promise<MessageIndex<MboxLocation> | null> {
+    const files: [string, string][] = [[this.config.path, "INBOX"]];
+    if (this.config.sentPath) files.push([this.config.sentPath, "SENT"]);
+    const stamp = (await Promise.all(files.map(([filePath]) => fileStamp(filePath)))).join("|");
+    if (this.indexed?.stamp === stamp) return this.indexed.index;
+
+    const index = new MessageIndex<MboxLocation>();
+    for (const [filePath, label] of files) {
+      const data = await this.read(filePath);
+      if (!data) {
+        if (label === "INBOX") return null;
+        continue;
+      }
+      for (const entry of splitMbox(data)) {
+        const msg = rfc822ToMessage(entry.raw, this.fallbackId(entry));
+        index.add(msg.id, msg.threadId, { path: filePath, offset: entry.offset, end: entry.end, label });
+      }
+    }
+    this.indexed = { stamp, index };
+    return index;
+  }
+
+  /** Re-read one indexed message; null if the file changed under the index */
+  private async readEntry(location: MboxLocation): Promise<MboxEntry | null> {
+    let handle: fs.FileHandle | undefined;
+    try {
+      handle = await fs.open(location.path, "r");
+      const buffer = Buffer.alloc(location.end - location.offset);
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, location.offset);
+      const [entry] = splitMbox(buffer.subarray(0, bytesRead));
+      return entry?.offset === 0 ? { ...entry, offset: location.offset, end: location.end } : null;
+    } catch {
+      return null;
+    } finally {
+      await handle?.close();
+    }
+  }
+
+  private toMessages(entries: MboxEntry[], label: string): RawGogMessage[] {
+    return entries.map((entry) => ({
+      ...rfc822ToMessage(entry.raw, this.fallbackId(entry)),
+      labels: [label],
+    }));
+  }
+
+  private fallbackId(entry: MboxEntry): string {
+    return `${this.config.email}:mbox:${entry.offset}`;
+  }
+
+  private async read(filePath: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(filePath);
+    } catch (err) {
+      this.logger.warn(`betteremail: cannot read mbox ${filePath}: ${err instanceof Error ? err.message : String(err)}`);
+      return null;
+    }
+  }
+}
+
+async function fileStamp(filePath: string): Promise<string> {
+  try {
+    const stat = await fs.stat(filePath);
+    return `${stat.mtimeMs}:${stat.size}`;
+  } catch {
+    return "";
+  }
+}
@@ -0,0 +1,218 @@
+import type {
+  CommandRunner,
+  Logger,
+  MailBatch,
+  MailSource,
+  OutlookAccountConfig,
+  RawGogMessage,
+  RawGogThread,
+} from "../types.js";
+import { resolveSecret } from "./credentials.js";
+
+export interface GraphRecipient {
+  emailAddress?: { name?: string; address?: string };
+}
+
+export interface GraphAttachment {
+  id: string;
+  name?: string;
+  contentType?: string;
+  size?: number;
+  isInline?: boolean;
+  /** Only on file attachments fetched individually */
+  contentBytes?: string;
+}
+
+export interface GraphMessage {
+  id: string;
+  conversationId?: string;
+  subject?: string;
+  from?: GraphRecipient;
+  toRecipients?: GraphRecipient[];
+  ccRecipients?: GraphRecipient[];
+  receivedDateTime?: string;
+  body?: { contentType?: string; content?: string };
+  bodyPreview?: string;
+  hasAttachments?: boolean;
+  categories?: string[];
+  attachments?: GraphAttachment[];
+  "@removed"?: unknown;
+}
+
+interface GraphPage {
+  value?: GraphMessage[] | GraphAttachment[];
+  "@odata.nextLink"?: string;
+  "@odata.deltaLink"?: string;
+}
+
+const SELECT_FIELDS = "id,conversationId,subject,from,toRecipients,ccRecipients,receivedDateTime,body,bodyPreview,hasAttachments,categories";
+const ATTACHMENT_FIELDS = "id,name,contentType,size,isInline";
+const REQUEST_TIMEOUT_MS = 30_000;
+const MAX_PAGES = 50;
+
+function formatRecipient(recipient: GraphRecipient | undefined): string | undefined {
+  const address = recipient?.emailAddress?.address;
+  if (!address) return undefined;
+  const name = recipient?.emailAddress?.name;
+  return name && name !== address ? `${name} <${address}>` : address;
+}
+
+/** Map a Graph message onto the poller's message record; conversationId becomes threadId. */
+export function graphToMessage(msg: GraphMessage): RawGogMessage {
+  const labels = [...(msg.categories ?? [])];
+  if (msg.hasAttachments) labels.push("ATTACHMENT");
+  return {
+    id: msg.id,
+    threadId: msg.conversationId ?? msg.id,
+    subject: msg.subject,
+    from: formatRecipient(msg.from),
+    to: msg.toRecipients?.map(formatRecipient).filter(Boolean).join(", ") || undefined,
+    cc: msg.ccRecipients?.map(formatRecipient).filter(Boolean).join(", ") || undefined,
+    date: msg.receivedDateTime,
+    body: msg.body?.content ?? msg.bodyPreview,
+    labels,
+    attachments: msg.attachments?.map((a) => ({
+      filename: a.name ?? "(unnamed)",
+      mimeType: (a.contentType ?? "application/octet-stream").toLowerCase(),
+      size: a.size ?? 0,
+      attachmentId: a.id,
+      ...(a.isInline ? { inline: true } : {}),
+    })),
+  };
+}
+
+/**
+ * Microsoft 365 / Outlook mail source using Graph `messages/delta`. The
+ * delta link is the cursor — or the next page's link when a poll stops at
+ * MAX_PAGES — and an expired link (410 Gone) triggers a rescan.
+ * Conversation lookups go through /me/messages so Sent Items are included.
+ */
+export class OutlookSource implements MailSource {
+  private config: OutlookAccountConfig;
+  private runCommand: CommandRunner;
+  private logger: Logger;
+
+  constructor(config: OutlookAccountConfig, runCommand: CommandRunner, logger: Logger) {
+    this.config = config;
+    this.runCommand = runCommand;
+    this.logger = logger;
+  }
+
+  async listChanges(cursor: string): Promise<MailBatch | null> {
+    if (!/^https?:\/\//.test(cursor)) return null;
+    return this.followDelta(cursor);
+  }
+
+  async rescan(days: number): Promise<MailBatch | null> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60_000).toISOString();
+    const params = new URLSearchParams({
+      $select: SELECT_FIELDS,
+      $filter: `receivedDateTime ge ${since}`,
+    });
+    const folder = encodeURIComponent(this.config.mailFolder);
+    return this.followDelta(`${this.config.baseUrl}/me/mailFolders/${folder}/messages/delta?${params}`);
+  }
+
+  async fetchThread(threadId: string): Promise<RawGogThread | null> {
+    const params = new URLSearchParams({
+      $select: SELECT_FIELDS,
+      $filter: `conversationId eq '${threadId.replace(/'/g, "''")}'`,
+      $expand: `attachments($select=${ATTACHMENT_FIELDS})`,
+    });
+    const messages: GraphMessage[] = [];
+    let url: string | undefined = `${this.config.baseUrl}/me/messages?${params}`;
+    for (let page = 0; url && page < MAX_PAGES; page++) {
+      const body = await this.get(url);
+      if (!body) return null;
+      messages.push(...((body.value ?? []) as GraphMessage[]));
+      url = body["@odata.nextLink"];
+    }
+    if (messages.length === 0) return null;
+    const ordered = messages
+      .map(graphToMessage)
+      .sort((a, b) => new Date(a.date ?? 0).getTime() - new Date(b.date ?? 0).getTime());
+    return { id: threadId, messages: ordered };
+  }
+
+  async fetchMessage(messageId: string): Promise<RawGogMessage | null> {
+    const params = new URLSearchParams({ $select: SELECT_FIELDS, $expand: `attachments($select=${ATTACHMENT_FIELDS})` });
+    const body = await this.get(`${this.config.baseUrl}/me/messages/${encodeURIComponent(messageId)}?${params}`);
+    if (!body) return null;
+    return graphToMessage(body as GraphMessage);
+  }
+
+  async fetchAttachment(messageId: string, attachmentId: string): Promise<Buffer | null> {
+    const body = await this.get(
+      `${this.config.baseUrl}/me/messages/${encodeURIComponent(messageId)}/attachments/${encodeURIComponent(attachmentId)}`,
+    ) as GraphAttachment | null;
+    if (!body) return null;
+    // Item and reference attachments (attached emails, OneDrive links) have no bytes
+    if (typeof body.contentBytes !== "string") {
+      this.logger.warn(`betteremail: Graph attachment ${attachmentId} for ${this.config.email} has no file content`);
+      return null;
+    }
+    return Buffer.from(body.contentBytes, "base64");
+  }
+
+  private async followDelta(startUrl: string): Promise<MailBatch | null> {
+    const messages: RawGogMessage[] = [];
+    let url: string | undefined = startUrl;
+    for (let page = 0; url && page < MAX_PAGES; page++) {
+      const body = await this.get(url);
+      if (!body) return null;
+      for (const msg of (body.value ?? []) as GraphMessage[]) {
+        // Deletions and moves out of the folder come back as "@removed" stubs
+        if (msg["@removed"] || !msg.id) continue;
+        // Delta queries can't $expand, so attachment metadata is a separate call
+        if (msg.hasAttachments && !msg.attachments) {
+          msg.attachments = (await this.listAttachments(msg.id)) ?? undefined;
+        }
+        messages.push(graphToMessage(msg));
+      }
+      if (body["@odata.deltaLink"]) {
+        return { messages, cursor: body["@odata.deltaLink"] };
+      }
+      url = body["@odata.nextLink"];
+    }
+    if (url) {
+      // Large backlog: keep what was fetched and carry on from the next page on the next poll
+      this.logger.info(`betteremail: Graph delta for ${this.config.email} continues after ${MAX_PAGES} pages; resuming next poll`);
+      return { messages, cursor: url };
+    }
+    this.logger.warn(`betteremail: Graph delta for ${this.config.email} ended without a delta link`);
+    return null;
+  }
+
+  private async listAttachments(messageId: string): Promise<GraphAttachment[] | null> {
+    const params = new URLSearchParams({ $select: ATTACHMENT_FIELDS });
+    const body = await this.get(`${this.config.baseUrl}/me/messages/${encodeURIComponent(messageId)}/attachments?${params}`);
+    return body ? (body.value ?? []) as GraphAttachment[] : null;
+  }
+
+  private async get(url: string): Promise<GraphPage | null> {
+    try {
+      const token = await resolveSecret(this.config.token, this.runCommand);
+      const res = await fetch(url, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          Accept: "application/json",
+          Prefer: 'outlook.body-content-type="text", odata.maxpagesize=50',
+        },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (res.status === 410) {
+        this.logger.info(`betteremail: Graph delta link expired for ${this.config.email}, rescan needed`);
+        return null;
+      }
+      if (!res.ok) {
+        const text = await res.text();
+        this.logger.warn(`betteremail: Graph request failed (${res.status}) for ${this.config.email}: ${text.slice(0, 200)}`);
+        return null;
+      }
+      return (await res.json()) as GraphPage;
+    } catch (err) {
+      this.logger.error(`betteremail: Graph error for ${this.config.email}: ${err instanceof Error ? err.message : String(err)}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import type { RawGogMessage, RawGogThread } from "../types.js";
+
+/**
+ * Pick the messages belonging to a thread out of a local mail store and
+ * order them oldest first, deduplicating copies found in several folders.
+ */
+export function collectThread(threadId: string, messages: RawGogMessage[]): RawGogThread | null {
+  const byId = new Map<string, RawGogMessage>();
+  for (const msg of messages) {
+    if (msg.threadId !== threadId && msg.id !== threadId) continue;
+    if (!byId.has(msg.id)) byId.set(msg.id, msg);
+  }
+  if (byId.size === 0) return null;
+  const ordered = [...byId.values()].sort(
+    (a, b) => new Date(a.date ?? 0).getTime() - new Date(b.date ?? 0).getTime(),
+  );
+  return { id: threadId, messages: ordered };
+}
+
+/**
+ * Where each message of a local mail store lives, by id and by thread, so a
+ * fetch reads only the messages it returns instead of parsing the whole store.
+ */
+export class MessageIndex<L> {
+  private byId = new Map<string, L>();
+  private byThread = new Map<string, L[]>();
+
+  /** Later copies of a message already indexed (e.g. in another folder) are ignored */
+  add(id: string, threadId: string, location: L): void {
+    if (this.byId.has(id)) return;
+    this.byId.set(id, location);
+    const thread = this.byThread.get(threadId);
+    if (thread) thread.push(location);
+    else this.byThread.set(threadId, [location]);
+  }
+
+  message(id: string): L | undefined {
+    return this.byId.get(id);
+  }
+
+  /** The thread's messages, plus the one whose id is `threadId` if it was filed elsewhere */
+  thread(threadId: string): L[] {
+    const locations = [...(this.byThread.get(threadId) ?? [])];
+    const root = this.byId.get(threadId);
+    if (root !== undefined && !locations.includes(root)) locations.push(root);
+    return locations;
+  }
+}
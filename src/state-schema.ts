@@ -0,0 +1,316 @@
+import * as fs from "node:fs/promises";
+import { Type, type TSchema } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+import type { DigestState, EmailLogEntry, Logger, MutedThread, PollState } from "./types.js";
+
+// -- Schemas --
+
+const OptionalTimestamp = Type.Optional(Type.Union([Type.String(), Type.Null()]));
+
+const AttachmentInfoSchema = Type.Object({
+  filename: Type.String(),
+  mimeType: Type.String(),
+  size: Type.Number(),
+  attachmentId: Type.String(),
+  inline: Type.Optional(Type.Boolean()),
+});
+
+const StatusSchema = Type.Union([
+  Type.Literal("new"),
+  Type.Literal("surfaced"),
+  Type.Literal("deferred"),
+  Type.Literal("handled"),
+  Type.Literal("dismissed"),
+]);
+
+const DigestHistoryEventSchema = Type.Object({
+  at: Type.String(),
+  from: Type.Union([StatusSchema, Type.Null()]),
+  to: StatusSchema,
+  actor: Type.String(),
+  reason: Type.Optional(Type.String()),
+  deferMinutes: Type.Optional(Type.Number()),
+});
+
+const DigestEntrySchema = Type.Object({
+  id: Type.String(),
+  threadId: Type.String(),
+  account: Type.String(),
+  from: Type.String(),
+  subject: Type.String(),
+  date: Type.String(),
+  body: Type.String(),
+  originalLength: Type.Optional(Type.Number()),
+  truncated: Type.Optional(Type.Boolean()),
+  attachments: Type.Optional(Type.Array(AttachmentInfoSchema)),
+  attachmentText: Type.Optional(Type.String()),
+  status: StatusSchema,
+  firstSeenAt: Type.String(),
+  surfacedAt: OptionalTimestamp,
+  deferredUntil: OptionalTimestamp,
+  deferredWithThread: Type.Optional(Type.Boolean()),
+  resolvedAt: OptionalTimestamp,
+  dismissReason: Type.Optional(Type.String()),
+  priority: Type.Optional(Type.Number()),
+  priorityReasons: Type.Optional(Type.Array(Type.String())),
+  tags: Type.Optional(Type.Array(Type.String())),
+  restoredAt: OptionalTimestamp,
+  history: Type.Optional(Type.Array(DigestHistoryEventSchema)),
+});
+
+const MutedThreadSchema = Type.Object({
+  threadId: Type.String(),
+  account: Type.String(),
+  subject: Type.String(),
+  mutedAt: Type.String(),
+  until: Type.Optional(Type.String()),
+  reason: Type.Optional(Type.String()),
+});
+
+const SenderRuleSchema = Type.Object({
+  id: Type.String(),
+  match: Type.Union([Type.Literal("address"), Type.Literal("domain"), Type.Literal("name")]),
+  pattern: Type.String(),
+  action: Type.Union([Type.Literal("always_dismiss"), Type.Literal("always_handle"), Type.Literal("always_surface")]),
+  reason: Type.Optional(Type.String()),
+  createdAt: Type.String(),
+});
+
+const SenderProfileSchema = Type.Object({
+  sender: Type.String(),
+  received: Type.Number(),
+  outcomes: Type.Object({
+    handled: Type.Number(),
+    dismissed: Type.Number(),
+    deferred: Type.Number(),
+    autoResolved: Type.Number(),
+  }),
+  lastReceivedAt: Type.Optional(Type.String()),
+  lastTriagedAt: Type.Optional(Type.String()),
+  triageMinutes: Type.Array(Type.Number()),
+});
+
+const DigestStateSchema = Type.Object({
+  schemaVersion: Type.Number(),
+  entries: Type.Record(Type.String(), DigestEntrySchema),
+  mutedThreads: Type.Optional(Type.Record(Type.String(), MutedThreadSchema)),
+  senderRules: Type.Optional(Type.Record(Type.String(), SenderRuleSchema)),
+  senderProfiles: Type.Optional(Type.Record(Type.String(), SenderProfileSchema)),
+});
+
+const PollStateSchema = Type.Object({
+  schemaVersion: Type.Number(),
+  accounts: Type.Record(Type.String(), Type.Object({
+    historyId: Type.String(),
+    lastPollAt: Type.String(),
+    consecutiveFailures: Type.Number(),
+  })),
+});
+
+// The log is read for message IDs; the rest of the email is kept as written
+const EmailLogEntrySchema = Type.Object({
+  schemaVersion: Type.Number(),
+  email: Type.Object({ id: Type.String() }),
+  timestamp: Type.Number(),
+});
+
+// -- Migrations --
+
+/** Key of a mute in the digest's `mutedThreads`. */
+export function muteKey(account: string, threadId: string): string {
+  return `${account}/${threadId}`;
+}
+
+function rekeyMutes(mutes: unknown): unknown {
+  if (typeof mutes !== "object" || mutes === null) return mutes;
+  // Anything malformed is left for validation to reject
+  return Object.fromEntries(Object.entries(mutes).map(([key, mute]) => {
+    const { account, threadId } = (mute ?? {}) as Partial<MutedThread>;
+    return [typeof account === "string" && typeof threadId === "string" ? muteKey(account, threadId) : key, mute];
+  }));
+}
+
+interface StateKinds {
+  digest: DigestState;
+  poll: PollState;
+  emailLog: EmailLogEntry;
+}
+
+export type StateKind = keyof StateKinds;
+
+interface Migration {
+  /** Version produced by this step; it runs on data at `to - 1` */
+  to: number;
+  migrate(data: Record<string, unknown>): Record<string, unknown>;
+}
+
+interface StateFileSpec {
+  version: number;
+  schema: TSchema;
+  migrations: Migration[];
+}
+
+/**
+ * Current version and upgrade path of each state file. To change a shape,
+ * bump `version`, append a step and update the schema; files written by
+ * older releases are upgraded one step at a time on load.
+ */
+export const STATE_FILES: Record<StateKind, StateFileSpec> = {
+  digest: {
+    version: 3,
+    schema: DigestStateSchema,
+    migrations: [
+      // v0: unversioned digest.json from before schema versioning
+      { to: 1, migrate: (data) => ({ ...data, entries: data.entries ?? {} }) },
+      // v2 adds mutedThreads, senderRules and senderProfiles, and history, restoredAt,
+      // deferredWithThread, priority, priorityReasons and tags on entries; all optional
+      { to: 2, migrate: (data) => data },
+      // v3: mutes are keyed by account and thread, as thread IDs are only unique within an account
+      { to: 3, migrate: (data) => (data.mutedThreads ? { ...data, mutedThreads: rekeyMutes(data.mutedThreads) } : data) },
+    ],
+  },
+  poll: {
+    version: 1,
+    schema: PollStateSchema,
+    migrations: [
+      { to: 1, migrate: (data) => ({ ...data, accounts: data.accounts ?? {} }) },
+    ],
+  },
+  emailLog: {
+    version: 1,
+    schema: EmailLogEntrySchema,
+    migrations: [
+      { to: 1, migrate: (data) => data },
+    ],
+  },
+};
+
+export function schemaVersion(kind: StateKind): number {
+  return STATE_FILES[kind].version;
+}
+
+export function dataVersion(data: unknown): number {
+  const version = (data as { schemaVersion?: unknown } | null)?.schemaVersion;
+  return typeof version === "number" ? version : 0;
+}
+
+/** Upgrade parsed state to the current version; throws if it was written by a newer release. */
+export function migrateState(kind: StateKind, data: Record<string, unknown>): Record<string, unknown> {
+  const spec = STATE_FILES[kind];
+  let version = dataVersion(data);
+  if (version > spec.version) {
+    throw new Error(`schemaVersion ${version} is newer than this plugin supports (${spec.version})`);
+  }
+  let current = data;
+  while (version < spec.version) {
+    const step = spec.migrations.find((m) => m.to === version + 1);
+    if (!step) throw new Error(`no migration from schemaVersion ${version}`);
+    current = { ...step.migrate(current), schemaVersion: step.to };
+    version = step.to;
+  }
+  return current;
+}
+
+/** First validation problem, or null when the data matches the current schema. */
+export function validateState(kind: StateKind, data: unknown): string | null {
+  const error = Value.Errors(STATE_FILES[kind].schema, data).First();
+  return error ? `${error.path || "/"}: ${error.message}` : null;
+}
+
+/** Parse, migrate and validate one state document; throws with the reason it is unusable. */
+export function upgradeState<K extends StateKind>(kind: K, data: unknown): StateKinds[K] {
+  if (!data || typeof data !== "object" || Array.isArray(data)) throw new Error("not a JSON object");
+  const migrated = migrateState(kind, data as Record<string, unknown>);
+  const problem = validateState(kind, migrated);
+  if (problem) throw new Error(problem);
+  return migrated as unknown as StateKinds[K];
+}
+
+// -- Files --
+
+/** Where unreadable content of `filePath` is kept: `<file>.corrupt-<timestamp>`. */
+export function corruptPath(filePath: string): string {
+  return `${filePath}.corrupt-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+}
+
+/** Move an unusable state file aside so it can be inspected instead of being overwritten. */
+export async function quarantineFile(filePath: string): Promise<string> {
+  const target = corruptPath(filePath);
+  await fs.rename(filePath, target);
+  return target;
+}
+
+/** Copy a file about to be migrated to `<file>.v<version>.bak`, keeping an existing backup. */
+export async function backupFile(filePath: string, version: number): Promise<void> {
+  try {
+    await fs.copyFile(filePath, `${filePath}.v${version}.bak`, fs.constants.COPYFILE_EXCL);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+  }
+}
+
+/**
+ * Thrown instead of loading or saving state written by a newer release, so
+ * the file is neither quarantined nor overwritten with older data.
+ */
+export class NewerStateError extends Error {
+  readonly file: string;
+  readonly version: number;
+
+  constructor(file: string, version: number) {
+    super(`betteremail: ${file} was written by a newer version of the plugin (schemaVersion ${version}) — not touching it`);
+    this.name = "NewerStateError";
+    this.file = file;
+    this.version = version;
+  }
+}
+
+export type LoadResult<T> =
+  | { status: "missing" }
+  | { status: "ok"; data: T; migratedFrom?: number }
+  | { status: "newer"; version: number }
+  | { status: "quarantined"; movedTo: string; reason: string };
+
+/**
+ * Load a JSON state file. Old versions are backed up and migrated (the caller
+ * writes the upgraded data back on its next save); files from a newer release
+ * are left alone and reported as "newer"; files that do not parse or fail
+ * validation are quarantined.
+ */
+export async function loadStateFile<K extends StateKind>(
+  filePath: string,
+  kind: K,
+  logger?: Logger,
+): Promise<LoadResult<StateKinds[K]>> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return { status: "missing" };
+    throw err;
+  }
+
+  let parsed: unknown;
+  let data: StateKinds[K];
+  try {
+    parsed = JSON.parse(raw);
+    if (dataVersion(parsed) > STATE_FILES[kind].version) {
+      logger?.error(
+        `betteremail: ${filePath} has schemaVersion ${dataVersion(parsed)}, newer than this plugin supports (${STATE_FILES[kind].version}) — leaving it alone`,
+      );
+      return { status: "newer", version: dataVersion(parsed) };
+    }
+    data = upgradeState(kind, parsed);
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    const movedTo = await quarantineFile(filePath);
+    logger?.error(`betteremail: ${filePath} is unreadable (${reason}) — moved to ${movedTo}`);
+    return { status: "quarantined", movedTo, reason };
+  }
+
+  const from = dataVersion(parsed);
+  if (from === STATE_FILES[kind].version) return { status: "ok", data };
+  await backupFile(filePath, from);
+  logger?.info(`betteremail: migrated ${filePath} from schemaVersion ${from} to ${STATE_FILES[kind].version}`);
+  return { status: "ok", data, migratedFrom: from };
+}
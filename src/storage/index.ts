@@ -0,0 +1,23 @@
+import type { DigestStore, EmailLogStore, Logger, StorageBackend } from "../types.js";
+import { EmailLog } from "../email-log.js";
+import { JsonDigestStore } from "./json.js";
+import { SqliteDigestStore, SqliteEmailLog, SqliteState, loadSqlite } from "./sqlite.js";
+
+export interface Storage {
+  /** The backend actually in use — sqlite falls back to json on Node versions without node:sqlite */
+  backend: StorageBackend;
+  digestStore: DigestStore;
+  emailLog: EmailLogStore;
+}
+
+export function createStorage(backend: StorageBackend, stateDir: string, logger: Logger): Storage {
+  if (backend === "sqlite") {
+    const sqlite = loadSqlite();
+    if (sqlite) {
+      const state = new SqliteState(stateDir, sqlite, logger);
+      return { backend, digestStore: new SqliteDigestStore(state), emailLog: new SqliteEmailLog(state) };
+    }
+    logger.warn("betteremail: storage \"sqlite\" needs node:sqlite (Node 22.5+) — falling back to JSON files");
+  }
+  return { backend: "json", digestStore: new JsonDigestStore(stateDir, logger), emailLog: new EmailLog(stateDir, logger) };
+}
@@ -0,0 +1,218 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { DigestEntry, DigestQuery, DigestState, DigestStore, Logger, MutedThread, SenderProfile, SenderRule, StateCorruption } from "../types.js";
+import { atomicWrite } from "../atomic.js";
+import { NewerStateError, dataVersion, loadStateFile, muteKey, schemaVersion, upgradeState } from "../state-schema.js";
+import { extractEmail } from "../utils.js";
+
+export const DIGEST_FILE = "digest.json";
+
+type Collection = "entries" | "mutedThreads" | "senderRules" | "senderProfiles";
+
+export function matchesQuery(entry: DigestEntry, query: DigestQuery): boolean {
+  if (query.status !== undefined) {
+    const statuses = Array.isArray(query.status) ? query.status : [query.status];
+    if (!statuses.includes(entry.status)) return false;
+  }
+  if (query.account !== undefined && entry.account !== query.account) return false;
+  if (query.threadId !== undefined && entry.threadId !== query.threadId) return false;
+  if (query.sender !== undefined && extractEmail(entry.from) !== query.sender.toLowerCase()) return false;
+  return true;
+}
+
+/** The original digest.json backend: the whole digest in memory, rewritten on save. */
+export class JsonDigestStore implements DigestStore {
+  private filePath: string;
+  private logger: Logger | undefined;
+  private state: DigestState;
+  private saving = false;
+  private saveQueue: (() => void)[] = [];
+  /** mtime and size of digest.json as last loaded or saved here */
+  private fileStamp = "";
+  /** Set once digest.json turns out to be from a newer release; nothing is saved over it after that */
+  private newerVersion: number | undefined;
+  /** Why digest.json could not be read on the last refresh; nothing is saved over it until load() has quarantined it */
+  private unreadable: string | null = null;
+  /** What each running transaction (innermost last) first touched, as it was before, to put back if it throws */
+  private journals: Map<string, { collection: Collection; id: string; before: unknown }>[] = [];
+
+  constructor(stateDir: string, logger?: Logger) {
+    this.filePath = path.join(stateDir, DIGEST_FILE);
+    this.logger = logger;
+    this.state = { schemaVersion: schemaVersion("digest"), entries: {} };
+  }
+
+  async load(): Promise<StateCorruption | null> {
+    const result = await loadStateFile(this.filePath, "digest", this.logger);
+    this.unreadable = null;
+    if (result.status === "newer") {
+      this.newerVersion = result.version;
+      throw new NewerStateError(this.filePath, result.version);
+    }
+    this.state = result.status === "ok" ? result.data : { schemaVersion: schemaVersion("digest"), entries: {} };
+    if (result.status === "ok" && result.migratedFrom !== undefined) await this.save();
+    this.fileStamp = await this.stamp();
+    return result.status === "quarantined"
+      ? { file: this.filePath, movedTo: result.movedTo, reason: result.reason }
+      : null;
+  }
+
+  async save(): Promise<void> {
+    if (this.newerVersion !== undefined) throw new NewerStateError(this.filePath, this.newerVersion);
+    if (this.unreadable !== null) {
+      throw new Error(`${this.filePath} could not be read (${this.unreadable}); not saving over it before it is recovered`);
+    }
+    if (this.saving) {
+      await new Promise<void>((resolve) => this.saveQueue.push(resolve));
+    }
+    this.saving = true;
+    try {
+      await atomicWrite(this.filePath, JSON.stringify(this.state, null, 2) + "\n");
+      this.fileStamp = await this.stamp();
+    } finally {
+      this.saving = false;
+      const next = this.saveQueue.shift();
+      if (next) next();
+    }
+  }
+
+  async refresh(): Promise<void> {
+    const stamp = await this.stamp();
+    if (!stamp || stamp === this.fileStamp) return;
+    try {
+      const parsed: unknown = JSON.parse(await fs.readFile(this.filePath, "utf8"));
+      if (dataVersion(parsed) > schemaVersion("digest")) {
+        this.newerVersion = dataVersion(parsed);
+        return;
+      }
+      this.state = upgradeState("digest", parsed);
+      this.fileStamp = stamp;
+      this.unreadable = null;
+    } catch (err) {
+      // Damaged — keep what we have for reads, but leave the file for load() to quarantine
+      this.unreadable = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  readError(): string | null {
+    return this.unreadable;
+  }
+
+  private async stamp(): Promise<string> {
+    try {
+      const stat = await fs.stat(this.filePath);
+      return `${stat.mtimeMs}:${stat.size}`;
+    } catch {
+      return "";
+    }
+  }
+
+  get(id: string): DigestEntry | undefined {
+    this.touch("entries", id);
+    return this.state.entries[id];
+  }
+
+  put(entry: DigestEntry): void {
+    this.touch("entries", entry.id);
+    this.state.entries[entry.id] = entry;
+  }
+
+  delete(id: string): void {
+    this.touch("entries", id);
+    delete this.state.entries[id];
+  }
+
+  query(query: DigestQuery = {}): DigestEntry[] {
+    const found = Object.values(this.state.entries).filter((e) => matchesQuery(e, query));
+    for (const entry of found) this.touch("entries", entry.id);
+    return found;
+  }
+
+  getMute(threadId: string, account: string): MutedThread | undefined {
+    this.touch("mutedThreads", muteKey(account, threadId));
+    return this.state.mutedThreads?.[muteKey(account, threadId)];
+  }
+
+  putMute(mute: MutedThread): void {
+    this.touch("mutedThreads", muteKey(mute.account, mute.threadId));
+    this.state.mutedThreads = { ...this.state.mutedThreads, [muteKey(mute.account, mute.threadId)]: mute };
+  }
+
+  deleteMute(threadId: string, account: string): void {
+    this.touch("mutedThreads", muteKey(account, threadId));
+    delete this.state.mutedThreads?.[muteKey(account, threadId)];
+  }
+
+  listMutes(): MutedThread[] {
+    const mutes = Object.values(this.state.mutedThreads ?? {});
+    for (const mute of mutes) this.touch("mutedThreads", muteKey(mute.account, mute.threadId));
+    return mutes;
+  }
+
+  putSenderRule(rule: SenderRule): void {
+    this.touch("senderRules", rule.id);
+    this.state.senderRules = { ...this.state.senderRules, [rule.id]: rule };
+  }
+
+  deleteSenderRule(id: string): void {
+    this.touch("senderRules", id);
+    delete this.state.senderRules?.[id];
+  }
+
+  listSenderRules(): SenderRule[] {
+    const rules = Object.values(this.state.senderRules ?? {});
+    for (const rule of rules) this.touch("senderRules", rule.id);
+    return rules;
+  }
+
+  getSenderProfile(sender: string): SenderProfile | undefined {
+    this.touch("senderProfiles", sender);
+    return this.state.senderProfiles?.[sender];
+  }
+
+  putSenderProfile(profile: SenderProfile): void {
+    this.touch("senderProfiles", profile.sender);
+    this.state.senderProfiles = { ...this.state.senderProfiles, [profile.sender]: profile };
+  }
+
+  listSenderProfiles(): SenderProfile[] {
+    const profiles = Object.values(this.state.senderProfiles ?? {});
+    for (const profile of profiles) this.touch("senderProfiles", profile.sender);
+    return profiles;
+  }
+
+  /**
+   * Rolls back only what `fn` read or wrote: everything handed out is live,
+   * so each record is copied the first time a transaction touches it.
+   */
+  transaction<T>(fn: () => T): T {
+    const journal = new Map<string, { collection: Collection; id: string; before: unknown }>();
+    this.journals.push(journal);
+    try {
+      const result = fn();
+      this.journals.pop();
+      // A nested transaction's copies still predate the outer one for anything the outer had not touched
+      const outer = this.journals.at(-1);
+      if (outer) {
+        for (const [key, record] of journal) if (!outer.has(key)) outer.set(key, record);
+      }
+      return result;
+    } catch (err) {
+      this.journals.pop();
+      for (const { collection, id, before } of journal.values()) {
+        const records = (this.state[collection] ??= {}) as Record<string, unknown>;
+        if (before === undefined) delete records[id];
+        else records[id] = before;
+      }
+      throw err;
+    }
+  }
+
+  private touch(collection: Collection, id: string): void {
+    const journal = this.journals.at(-1);
+    const key = `${collection}/${id}`;
+    if (!journal || journal.has(key)) return;
+    const before = this.state[collection]?.[id];
+    journal.set(key, { collection, id, before: before === undefined ? undefined : structuredClone(before) });
+  }
+}
@@ -0,0 +1,464 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { DigestEntry, DigestQuery, DigestState, DigestStore, EmailLogEntry, EmailLogStore, Logger, MutedThread, SenderProfile, SenderRule, StateCorruption } from "../types.js";
+import { DEFAULT_MAX_LINES, EMAILS_FILE, MAX_AGE_MS } from "../email-log.js";
+import { NewerStateError, loadStateFile, schemaVersion, upgradeState } from "../state-schema.js";
+import { extractEmail } from "../utils.js";
+import { DIGEST_FILE } from "./json.js";
+
+export const DATABASE_FILE = "state.db";
+
+// node:sqlite ships with Node 22.5+ and is not in our @types/node — declare the part we use
+type SqliteValue = string | number | bigint | null | Uint8Array;
+
+interface SqliteStatement {
+  run(...params: SqliteValue[]): { changes: number | bigint };
+  get(...params: SqliteValue[]): Record<string, SqliteValue> | undefined;
+  all(...params: SqliteValue[]): Record<string, SqliteValue>[];
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+export interface SqliteModule {
+  DatabaseSync: new (filePath: string) => SqliteDatabase;
+}
+
+/** The node:sqlite module, or null on Node versions without it. */
+export function loadSqlite(): SqliteModule | null {
+  try {
+    const builtin = (process as unknown as { getBuiltinModule?: (id: string) => unknown })
+      .getBuiltinModule?.("node:sqlite") as SqliteModule | undefined;
+    return builtin?.DatabaseSync ? builtin : null;
+  } catch {
+    return null;
+  }
+}
+
+// Digest schemaVersion from which muted_threads is keyed by account and thread
+const MUTES_BY_ACCOUNT_VERSION = 3;
+const MUTED_THREADS_TABLE = `CREATE TABLE IF NOT EXISTS muted_threads (
+    account TEXT NOT NULL,
+    thread_id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (account, thread_id)
+  );`;
+
+const SCHEMA = `
+  PRAGMA journal_mode = WAL;
+  PRAGMA busy_timeout = 5000;
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS digest (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    account TEXT NOT NULL,
+    thread_id TEXT NOT NULL,
+    sender TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS digest_status ON digest (status);
+  CREATE INDEX IF NOT EXISTS digest_account ON digest (account);
+  CREATE INDEX IF NOT EXISTS digest_thread ON digest (thread_id);
+  CREATE INDEX IF NOT EXISTS digest_sender ON digest (sender);
+  CREATE TABLE IF NOT EXISTS email_log (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    message_id TEXT NOT NULL,
+    timestamp REAL NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS email_log_message ON email_log (message_id);
+  ${MUTED_THREADS_TABLE}
+  CREATE TABLE IF NOT EXISTS sender_rules (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS sender_profiles (
+    sender TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+`;
+
+const JSON_IMPORTED_KEY = "json_imported_at";
+const SCHEMA_VERSION_KEY = "schema_version";
+
+interface RowVersions {
+  digest: number;
+  emailLog: number;
+}
+
+/**
+ * The shared state.db connection behind the SQLite digest and email log.
+ * Opening it creates the schema, upgrades rows written by older releases
+ * (after copying the database to `state.db.v<digest>-<emailLog>.bak`) and,
+ * once, imports digest.json and emails.jsonl; the imported files are kept
+ * as `*.migrated`.
+ */
+export class SqliteState {
+  private stateDir: string;
+  private sqlite: SqliteModule;
+  private logger: Logger;
+  private db: SqliteDatabase | null = null;
+  private opening: Promise<SqliteDatabase> | null = null;
+  private statements = new Map<string, SqliteStatement>();
+  private transactionDepth = 0;
+
+  constructor(stateDir: string, sqlite: SqliteModule, logger: Logger) {
+    this.stateDir = stateDir;
+    this.sqlite = sqlite;
+    this.logger = logger;
+  }
+
+  open(): Promise<SqliteDatabase> {
+    this.opening ??= this.openDatabase().catch((err) => {
+      // Let the next load() try again instead of caching the failure
+      this.opening = null;
+      throw err;
+    });
+    return this.opening;
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+    this.opening = null;
+    this.statements.clear();
+  }
+
+  statement(sql: string): SqliteStatement {
+    if (!this.db) throw new Error(`betteremail: ${DATABASE_FILE} used before load()`);
+    let stmt = this.statements.get(sql);
+    if (!stmt) {
+      stmt = this.db.prepare(sql);
+      this.statements.set(sql, stmt);
+    }
+    return stmt;
+  }
+
+  /** Run `fn` in a transaction; nested calls become savepoints of the outer one. */
+  transaction<T>(fn: () => T): T {
+    if (!this.db) throw new Error(`betteremail: ${DATABASE_FILE} used before load()`);
+    const db = this.db;
+    const savepoint = `sp${this.transactionDepth}`;
+    db.exec(this.transactionDepth === 0 ? "BEGIN IMMEDIATE" : `SAVEPOINT ${savepoint}`);
+    this.transactionDepth++;
+    try {
+      const result = fn();
+      db.exec(this.transactionDepth === 1 ? "COMMIT" : `RELEASE ${savepoint}`);
+      return result;
+    } catch (err) {
+      db.exec(this.transactionDepth === 1 ? "ROLLBACK" : `ROLLBACK TO ${savepoint}; RELEASE ${savepoint}`);
+      throw err;
+    } finally {
+      this.transactionDepth--;
+    }
+  }
+
+  private async openDatabase(): Promise<SqliteDatabase> {
+    await fs.mkdir(this.stateDir, { recursive: true });
+    const db = new this.sqlite.DatabaseSync(path.join(this.stateDir, DATABASE_FILE));
+    db.exec(SCHEMA);
+    this.db = db;
+    try {
+      await this.migrateRows();
+      await this.importJsonFiles();
+    } catch (err) {
+      this.close();
+      throw err;
+    }
+    return db;
+  }
+
+  private async migrateRows(): Promise<void> {
+    const current: RowVersions = { digest: schemaVersion("digest"), emailLog: schemaVersion("emailLog") };
+    const row = this.statement("SELECT value FROM meta WHERE key = ?").get(SCHEMA_VERSION_KEY);
+    // Databases created before versioning already hold version 1 rows
+    const stored: RowVersions = row ? JSON.parse(row.value as string) as RowVersions : { digest: 1, emailLog: 1 };
+    if (stored.digest > current.digest || stored.emailLog > current.emailLog) {
+      throw new NewerStateError(path.join(this.stateDir, DATABASE_FILE), Math.max(stored.digest, stored.emailLog));
+    }
+    if (row && stored.digest === current.digest && stored.emailLog === current.emailLog) return;
+
+    if (stored.digest < current.digest || stored.emailLog < current.emailLog) {
+      const backupPath = path.join(this.stateDir, `${DATABASE_FILE}.v${stored.digest}-${stored.emailLog}.bak`);
+      if ((await readOptional(backupPath)) === null) {
+        this.db!.exec(`VACUUM INTO '${backupPath.replace(/'/g, "''")}'`);
+      }
+    }
+
+    this.transaction(() => {
+      if (stored.digest < current.digest) {
+        const entries: Record<string, unknown> = {};
+        for (const { data } of this.statement("SELECT data FROM digest").all()) {
+          const entry = JSON.parse(data as string) as DigestEntry;
+          entries[entry.id] = entry;
+        }
+        const upgraded = upgradeState("digest", { schemaVersion: stored.digest, entries });
+        this.statement("DELETE FROM digest").run();
+        for (const entry of Object.values(upgraded.entries)) putEntry(this, entry);
+        if (stored.digest < MUTES_BY_ACCOUNT_VERSION) this.rebuildMutedThreads();
+        for (const mute of Object.values(upgraded.mutedThreads ?? {})) putMute(this, mute);
+        for (const rule of Object.values(upgraded.senderRules ?? {})) putSenderRule(this, rule);
+        for (const profile of Object.values(upgraded.senderProfiles ?? {})) putSenderProfile(this, profile);
+      }
+      if (stored.emailLog < current.emailLog) {
+        for (const { seq, data } of this.statement("SELECT seq, data FROM email_log").all()) {
+          const entry = upgradeState("emailLog", { ...JSON.parse(data as string), schemaVersion: stored.emailLog });
+          this.statement("UPDATE email_log SET data = ? WHERE seq = ?").run(JSON.stringify(entry), seq);
+        }
+      }
+      this.statement("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value")
+        .run(SCHEMA_VERSION_KEY, JSON.stringify(current));
+    });
+    if (row) {
+      this.logger.info(
+        `betteremail: migrated ${DATABASE_FILE} from schemaVersion ${stored.digest}/${stored.emailLog} to ${current.digest}/${current.emailLog}`,
+      );
+    }
+  }
+
+  /** Recreate muted_threads keyed by account and thread; before that it was keyed by thread alone. */
+  private rebuildMutedThreads(): void {
+    const mutes = this.statement("SELECT data FROM muted_threads").all().map((row) => JSON.parse(row.data as string) as MutedThread);
+    this.db!.exec(`DROP TABLE muted_threads; ${MUTED_THREADS_TABLE}`);
+    this.statements.clear();
+    for (const mute of mutes) putMute(this, mute);
+  }
+
+  private async importJsonFiles(): Promise<void> {
+    if (this.statement("SELECT value FROM meta WHERE key = ?").get(JSON_IMPORTED_KEY)) return;
+
+    const digestPath = path.join(this.stateDir, DIGEST_FILE);
+    const logPath = path.join(this.stateDir, EMAILS_FILE);
+    const loaded = await loadStateFile(digestPath, "digest", this.logger);
+    if (loaded.status === "newer") throw new NewerStateError(digestPath, loaded.version);
+    const digest: DigestState | null = loaded.status === "ok" ? loaded.data : null;
+    const logRaw = await readOptional(logPath);
+
+    let imported = 0;
+    let logged = 0;
+    this.transaction(() => {
+      for (const entry of Object.values(digest?.entries ?? {})) {
+        putEntry(this, entry);
+        imported++;
+      }
+      for (const mute of Object.values(digest?.mutedThreads ?? {})) putMute(this, mute);
+      for (const rule of Object.values(digest?.senderRules ?? {})) putSenderRule(this, rule);
+      for (const profile of Object.values(digest?.senderProfiles ?? {})) putSenderProfile(this, profile);
+      for (const line of (logRaw ?? "").split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          appendLogEntry(this, upgradeState("emailLog", JSON.parse(line)));
+          logged++;
+        } catch {
+          // A torn last line from a crash mid-append, or one that fails validation — nothing to recover
+        }
+      }
+      this.statement("INSERT INTO meta (key, value) VALUES (?, ?)").run(JSON_IMPORTED_KEY, new Date().toISOString());
+    });
+
+    if (digest) await fs.rename(digestPath, `${digestPath}.migrated`);
+    if (logRaw !== null) await fs.rename(logPath, `${logPath}.migrated`);
+    if (digest || logRaw !== null) {
+      this.logger.info(`betteremail: imported ${imported} digest entries and ${logged} log entries into ${DATABASE_FILE}`);
+    }
+  }
+}
+
+async function readOptional(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, "utf8");
+  } catch {
+    return null;
+  }
+}
+
+function putEntry(state: SqliteState, entry: DigestEntry): void {
+  state.statement(
+    `INSERT INTO digest (id, status, account, thread_id, sender, data) VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT (id) DO UPDATE SET status = excluded.status, account = excluded.account,
+       thread_id = excluded.thread_id, sender = excluded.sender, data = excluded.data`,
+  ).run(entry.id, entry.status, entry.account, entry.threadId, extractEmail(entry.from), JSON.stringify(entry));
+}
+
+function putMute(state: SqliteState, mute: MutedThread): void {
+  state.statement(
+    `INSERT INTO muted_threads (account, thread_id, data) VALUES (?, ?, ?)
+     ON CONFLICT (account, thread_id) DO UPDATE SET data = excluded.data`,
+  ).run(mute.account, mute.threadId, JSON.stringify(mute));
+}
+
+function putSenderRule(state: SqliteState, rule: SenderRule): void {
+  state.statement("INSERT INTO sender_rules (id, data) VALUES (?, ?) ON CONFLICT (id) DO UPDATE SET data = excluded.data")
+    .run(rule.id, JSON.stringify(rule));
+}
+
+function putSenderProfile(state: SqliteState, profile: SenderProfile): void {
+  state.statement("INSERT INTO sender_profiles (sender, data) VALUES (?, ?) ON CONFLICT (sender) DO UPDATE SET data = excluded.data")
+    .run(profile.sender, JSON.stringify(profile));
+}
+
+function appendLogEntry(state: SqliteState, entry: EmailLogEntry): void {
+  state.statement("INSERT INTO email_log (message_id, timestamp, data) VALUES (?, ?, ?)")
+    .run(entry.email.id, entry.timestamp, JSON.stringify({ ...entry, schemaVersion: schemaVersion("emailLog") }));
+}
+
+/** Digest entries as indexed rows; every change is committed immediately, so `save()` has nothing to do. */
+export class SqliteDigestStore implements DigestStore {
+  private state: SqliteState;
+
+  constructor(state: SqliteState) {
+    this.state = state;
+  }
+
+  async load(): Promise<StateCorruption | null> {
+    await this.state.open();
+    return null;
+  }
+
+  async save(): Promise<void> {}
+
+  /** Every read goes to the database, so there is no cached copy to refresh */
+  async refresh(): Promise<void> {
+    await this.state.open();
+  }
+
+  readError(): string | null {
+    return null;
+  }
+
+  get(id: string): DigestEntry | undefined {
+    const row = this.state.statement("SELECT data FROM digest WHERE id = ?").get(id);
+    return row ? JSON.parse(row.data as string) as DigestEntry : undefined;
+  }
+
+  put(entry: DigestEntry): void {
+    putEntry(this.state, entry);
+  }
+
+  delete(id: string): void {
+    this.state.statement("DELETE FROM digest WHERE id = ?").run(id);
+  }
+
+  query(query: DigestQuery = {}): DigestEntry[] {
+    const where: string[] = [];
+    const params: string[] = [];
+    if (query.status !== undefined) {
+      const statuses = Array.isArray(query.status) ? query.status : [query.status];
+      where.push(`status IN (${statuses.map(() => "?").join(", ") || "NULL"})`);
+      params.push(...statuses);
+    }
+    if (query.account !== undefined) {
+      where.push("account = ?");
+      params.push(query.account);
+    }
+    if (query.threadId !== undefined) {
+      where.push("thread_id = ?");
+      params.push(query.threadId);
+    }
+    if (query.sender !== undefined) {
+      where.push("sender = ?");
+      params.push(query.sender.toLowerCase());
+    }
+    const sql = `SELECT data FROM digest${where.length ? ` WHERE ${where.join(" AND ")}` : ""} ORDER BY rowid`;
+    return this.state.statement(sql).all(...params).map((row) => JSON.parse(row.data as string) as DigestEntry);
+  }
+
+  getMute(threadId: string, account: string): MutedThread | undefined {
+    const row = this.state.statement("SELECT data FROM muted_threads WHERE account = ? AND thread_id = ?").get(account, threadId);
+    return row ? JSON.parse(row.data as string) as MutedThread : undefined;
+  }
+
+  putMute(mute: MutedThread): void {
+    putMute(this.state, mute);
+  }
+
+  deleteMute(threadId: string, account: string): void {
+    this.state.statement("DELETE FROM muted_threads WHERE account = ? AND thread_id = ?").run(account, threadId);
+  }
+
+  listMutes(): MutedThread[] {
+    return this.state.statement("SELECT data FROM muted_threads ORDER BY rowid").all()
+      .map((row) => JSON.parse(row.data as string) as MutedThread);
+  }
+
+  putSenderRule(rule: SenderRule): void {
+    putSenderRule(this.state, rule);
+  }
+
+  deleteSenderRule(id: string): void {
+    this.state.statement("DELETE FROM sender_rules WHERE id = ?").run(id);
+  }
+
+  listSenderRules(): SenderRule[] {
+    return this.state.statement("SELECT data FROM sender_rules ORDER BY rowid").all()
+      .map((row) => JSON.parse(row.data as string) as SenderRule);
+  }
+
+  getSenderProfile(sender: string): SenderProfile | undefined {
+    const row = this.state.statement("SELECT data FROM sender_profiles WHERE sender = ?").get(sender);
+    return row ? JSON.parse(row.data as string) as SenderProfile : undefined;
+  }
+
+  putSenderProfile(profile: SenderProfile): void {
+    putSenderProfile(this.state, profile);
+  }
+
+  listSenderProfiles(): SenderProfile[] {
+    return this.state.statement("SELECT data FROM sender_profiles ORDER BY rowid").all()
+      .map((row) => JSON.parse(row.data as string) as SenderProfile);
+  }
+
+  transaction<T>(fn: () => T): T {
+    return this.state.transaction(fn);
+  }
+}
+
+export class SqliteEmailLog implements EmailLogStore {
+  private state: SqliteState;
+
+  constructor(state: SqliteState) {
+    this.state = state;
+  }
+
+  async append(entry: EmailLogEntry): Promise<void> {
+    await this.state.open();
+    appendLogEntry(this.state, entry);
+  }
+
+  async readAll(): Promise<EmailLogEntry[]> {
+    await this.state.open();
+    return this.state.statement("SELECT data FROM email_log ORDER BY seq").all()
+      .map((row) => JSON.parse(row.data as string) as EmailLogEntry);
+  }
+
+  /** Rows are written whole inside transactions, so there is nothing to recover */
+  async recover(): Promise<StateCorruption | null> {
+    await this.state.open();
+    return null;
+  }
+
+  async seenIds(): Promise<Set<string>> {
+    await this.state.open();
+    return new Set(this.state.statement("SELECT DISTINCT message_id FROM email_log").all().map((row) => row.message_id as string));
+  }
+
+  async rotate(maxLines: number = DEFAULT_MAX_LINES): Promise<number> {
+    await this.state.open();
+    const count = () => Number(this.state.statement("SELECT COUNT(*) AS n FROM email_log").get()!.n);
+    const before = count();
+    if (before <= maxLines) return 0;
+    const cutoff = Date.now() / 1000 - MAX_AGE_MS / 1000;
+    return this.state.transaction(() => {
+      this.state.statement("DELETE FROM email_log WHERE timestamp < ?").run(cutoff);
+      this.state.statement("DELETE FROM email_log WHERE seq NOT IN (SELECT seq FROM email_log ORDER BY seq DESC LIMIT ?)")
+        .run(maxLines);
+      return before - count();
+    });
+  }
+}
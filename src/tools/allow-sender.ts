@@ -0,0 +1,35 @@
+import { Type } from "@sinclair/typebox";
+import type { DigestManager } from "../digest.js";
+import { senderMatchFromParams, senderRuleId } from "../sender-rules.js";
+
+export function createAllowSenderTool(digest: DigestManager, ready?: Promise<void>) {
+  return {
+    name: "allow_sender",
+    label: "Allow Sender",
+    description:
+      "Always show a sender's new emails in the digest, even in muted or deferred threads and over a broader block " +
+      "(an address rule beats a domain rule, which beats a name rule). Replaces any earlier rule for the same pattern.",
+    parameters: Type.Object({
+      address: Type.Optional(Type.String({ description: "Exact sender address, e.g. boss@work.com" })),
+      domain: Type.Optional(Type.String({ description: "Sender domain, e.g. work.com" })),
+      name: Type.Optional(Type.String({ description: "Display-name pattern, * matches anything" })),
+      reason: Type.Optional(Type.String({ description: "Why this sender matters" })),
+    }),
+    async execute(_id: string, params: Record<string, unknown>) {
+      if (ready) await ready;
+      const sender = senderMatchFromParams(params);
+      if (typeof sender === "string") {
+        return { content: [{ type: "text" as const, text: sender }] };
+      }
+      const reason = typeof params.reason === "string" && params.reason ? params.reason : undefined;
+      return digest.exclusive(async () => {
+        const id = senderRuleId(sender.match, sender.pattern);
+        digest.putSenderRule({ id, ...sender, action: "always_surface", reason, createdAt: new Date().toISOString() });
+        await digest.save();
+        return {
+          content: [{ type: "text" as const, text: `Added sender rule ${id}: new emails will always show up in the digest.` }],
+        };
+      });
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import { Type } from "@sinclair/typebox";
+import type { DigestManager } from "../digest.js";
+import { senderMatchFromParams, senderRuleId } from "../sender-rules.js";
+
+export function createBlockSenderTool(digest: DigestManager, ready?: Promise<void>) {
+  return {
+    name: "block_sender",
+    label: "Block Sender",
+    description:
+      "Stop a sender's future emails from reaching the digest: they are dismissed (or marked handled) as they arrive. " +
+      "Match one exact address, a whole domain (including subdomains) or a display-name pattern. " +
+      "Replaces any earlier rule for the same pattern.",
+    parameters: Type.Object({
+      address: Type.Optional(Type.String({ description: "Exact sender address, e.g. news@shop.com" })),
+      domain: Type.Optional(Type.String({ description: "Sender domain, e.g. shop.com" })),
+      name: Type.Optional(Type.String({ description: "Display-name pattern, * matches anything, e.g. \"*Newsletter*\"" })),
+      action: Type.Optional(
+        Type.String({ description: '"dismiss" (default) or "handle" — handle for mail that needs no action but is not noise, like receipts' }),
+      ),
+      reason: Type.Optional(Type.String({ description: "Why — recorded on every email the rule dismisses" })),
+    }),
+    async execute(_id: string, params: Record<string, unknown>) {
+      if (ready) await ready;
+      const sender = senderMatchFromParams(params);
+      if (typeof sender === "string") {
+        return { content: [{ type: "text" as const, text: sender }] };
+      }
+      const action = params.action ?? "dismiss";
+      if (action !== "dismiss" && action !== "handle") {
+        return { content: [{ type: "text" as const, text: 'Error: action must be "dismiss" or "handle".' }] };
+      }
+      const reason = typeof params.reason === "string" && params.reason ? params.reason : undefined;
+      return digest.exclusive(async () => {
+        const id = senderRuleId(sender.match, sender.pattern);
+        digest.putSenderRule({
+          id,
+          ...sender,
+          action: action === "dismiss" ? "always_dismiss" : "always_handle",
+          reason,
+          createdAt: new Date().toISOString(),
+        });
+        await digest.save();
+        return {
+          content: [{ type: "text" as const, text: `Added sender rule ${id}: new emails will be ${action === "dismiss" ? "dismissed" : "marked handled"} automatically.` }],
+        };
+      });
+    },
+  };
+}
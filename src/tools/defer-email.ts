@@ -1,16 +1,21 @@
 import { Type } from "@sinclair/typebox";
 import type { DigestManager } from "../digest.js";
+import type { TriageJournal } from "../triage-journal.js";
 
-export function createDeferEmailTool(digest: DigestManager, ready?: Promise<void>) {
+export function createDeferEmailTool(digest: DigestManager, ready?: Promise<void>, journal?: TriageJournal) {
   return {
     name: "defer_email",
     label: "Defer Email",
     description:
       "Defer an email — it will re-appear in the digest after the specified number of minutes. " +
-      "Use this when the user can't deal with it right now (e.g., in a meeting).",
+      "Use this when the user can't deal with it right now (e.g., in a meeting). " +
+      "Set thread to defer its whole thread; replies arriving before the time is up are deferred too.",
     parameters: Type.Object({
       messageId: Type.String({ description: "The message ID to defer" }),
       minutes: Type.Number({ description: "Minutes until the email re-surfaces in the digest" }),
+      thread: Type.Optional(
+        Type.Boolean({ description: "Defer every new or surfaced email in this message's thread, and later replies until the time is up (default: false)" }),
+      ),
     }),
     async execute(_id: string, params: Record<string, unknown>) {
       if (ready) await ready;
@@ -22,21 +27,43 @@ export function createDeferEmailTool(digest: DigestManager, ready?: Promise<void
       }
       const messageId = params.messageId;
       const minutes = params.minutes;
-      const entry = digest.get(messageId);
-      if (!entry) {
-        return { content: [{ type: "text" as const, text: `Email ${messageId} not found in digest.` }] };
-      }
-      if (entry.status === "handled" || entry.status === "dismissed" || entry.status === "deferred") {
-        return { content: [{ type: "text" as const, text: `Cannot defer: email is already "${entry.status}".` }] };
-      }
-      digest.defer(messageId, minutes);
-      await digest.save();
-      return {
-        content: [{
-          type: "text" as const,
-          text: `Deferred "${entry.subject}" — will re-surface in ${minutes} minutes.`,
-        }],
-      };
+      const wholeThread = params.thread === true;
+      return digest.exclusive(async () => {
+        const entry = digest.get(messageId);
+        if (!entry) {
+          return { content: [{ type: "text" as const, text: `Email ${messageId} not found in digest.` }] };
+        }
+        if (wholeThread) {
+          const changes = digest.getActiveThread(entry.threadId, entry.account)
+            .filter((e) => e.status !== "deferred")
+            .map((e) => ({ messageId: e.id, from: e.status }));
+          if (changes.length === 0) {
+            return { content: [{ type: "text" as const, text: "Cannot defer: no new or surfaced emails in this thread." }] };
+          }
+          for (const { messageId: id } of changes) digest.defer(id, minutes, "defer_email", true);
+          journal?.record(changes, "deferred", "defer_email");
+          await digest.save();
+          return {
+            content: [{
+              type: "text" as const,
+              text: `Deferred ${changes.length} email(s) in thread "${entry.subject}" — the thread will re-surface in ${minutes} minutes.`,
+            }],
+          };
+        }
+        if (entry.status === "handled" || entry.status === "dismissed" || entry.status === "deferred") {
+          return { content: [{ type: "text" as const, text: `Cannot defer: email is already "${entry.status}".` }] };
+        }
+        const from = entry.status;
+        digest.defer(messageId, minutes);
+        journal?.record([{ messageId, from }], "deferred", "defer_email");
+        await digest.save();
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Deferred "${entry.subject}" — will re-surface in ${minutes} minutes.`,
+          }],
+        };
+      });
     },
   };
 }
@@ -1,14 +1,20 @@
 import { Type } from "@sinclair/typebox";
 import type { DigestManager } from "../digest.js";
+import type { TriageJournal } from "../triage-journal.js";
 
-export function createDismissEmailTool(digest: DigestManager, ready?: Promise<void>) {
+export function createDismissEmailTool(digest: DigestManager, ready?: Promise<void>, journal?: TriageJournal) {
   return {
     name: "dismiss_email",
     label: "Dismiss Email",
-    description: "Permanently dismiss an email from the digest. It will never be re-flagged.",
+    description:
+      "Dismiss an email from the digest. It will not be re-flagged; restore_email can bring it back. " +
+      "Set thread to dismiss every active email in its thread at once.",
     parameters: Type.Object({
       messageId: Type.String({ description: "The message ID to dismiss" }),
       reason: Type.Optional(Type.String({ description: "Optional reason for dismissing" })),
+      thread: Type.Optional(
+        Type.Boolean({ description: "Also dismiss every other active email in this message's thread (default: false)" }),
+      ),
     }),
     async execute(_id: string, params: Record<string, unknown>) {
       if (ready) await ready;
@@ -17,18 +23,35 @@ export function createDismissEmailTool(digest: DigestManager, ready?: Promise<vo
       }
       const messageId = params.messageId;
       const reason = typeof params.reason === "string" ? params.reason : undefined;
-      const entry = digest.get(messageId);
-      if (!entry) {
-        return { content: [{ type: "text" as const, text: `Email ${messageId} not found in digest.` }] };
-      }
-      if (entry.status === "handled" || entry.status === "dismissed") {
-        return { content: [{ type: "text" as const, text: `Cannot dismiss: email is already "${entry.status}".` }] };
-      }
-      digest.dismiss(messageId, reason);
-      await digest.save();
-      return {
-        content: [{ type: "text" as const, text: `Dismissed "${entry.subject}" from ${entry.from}. It won't be flagged again.` }],
-      };
+      const wholeThread = params.thread === true;
+      return digest.exclusive(async () => {
+        const entry = digest.get(messageId);
+        if (!entry) {
+          return { content: [{ type: "text" as const, text: `Email ${messageId} not found in digest.` }] };
+        }
+        if (wholeThread) {
+          const changes = digest.getActiveThread(entry.threadId, entry.account).map((e) => ({ messageId: e.id, from: e.status }));
+          if (changes.length === 0) {
+            return { content: [{ type: "text" as const, text: "Cannot dismiss: no active emails in this thread." }] };
+          }
+          for (const { messageId: id } of changes) digest.dismiss(id, reason);
+          journal?.record(changes, "dismissed", "dismiss_email");
+          await digest.save();
+          return {
+            content: [{ type: "text" as const, text: `Dismissed ${changes.length} email(s) in thread "${entry.subject}".` }],
+          };
+        }
+        if (entry.status === "handled" || entry.status === "dismissed") {
+          return { content: [{ type: "text" as const, text: `Cannot dismiss: email is already "${entry.status}".` }] };
+        }
+        const from = entry.status;
+        digest.dismiss(messageId, reason);
+        journal?.record([{ messageId, from }], "dismissed", "dismiss_email");
+        await digest.save();
+        return {
+          content: [{ type: "text" as const, text: `Dismissed "${entry.subject}" from ${entry.from}. It won't be flagged again.` }],
+        };
+      });
     },
   };
 }
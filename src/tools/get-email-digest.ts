@@ -1,24 +1,48 @@
 import { Type } from "@sinclair/typebox";
 import type { DigestManager } from "../digest.js";
 import type { DigestEntry } from "../types.js";
-import { formatAge } from "../utils.js";
+import { formatAge, formatSize } from "../utils.js";
+import { truncateText } from "../trimmer.js";
+import { autoResolveReplies } from "../auto-resolve.js";
+import { describeSenderProfile, suggestsDismissal } from "../sender-profiles.js";
 
 export interface AutoResolveDeps {
   accounts: string[];
   checkThreadForReply: (threadId: string, account: string) => Promise<boolean>;
 }
 
-const AUTO_RESOLVE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_BODY_CHARS = 500;
+// Rough chars-per-token ratio for turning a token budget into characters
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Split `budget` characters across bodies of the given lengths. Short bodies
+ * take only what they need; the remainder is shared evenly by the longer ones.
+ */
+function allocateBudget(lengths: number[], budget: number): number[] {
+  const allocation = new Array<number>(lengths.length).fill(0);
+  const order = lengths.map((length, i) => ({ length, i })).sort((a, b) => a.length - b.length);
+  let remaining = budget;
+  order.forEach(({ length, i }, n) => {
+    const share = Math.floor(remaining / (order.length - n));
+    allocation[i] = Math.min(length, share);
+    remaining -= allocation[i];
+  });
+  return allocation;
+}
 
 export function createGetEmailDigestTool(digest: DigestManager, ready?: Promise<void>, autoResolve?: AutoResolveDeps) {
   return {
     name: "get_email_digest",
     label: "Get Email Digest",
     description:
-      "Get current email digest — new and surfaced emails from all Gmail accounts. " +
+      "Get current email digest — new and surfaced emails from all configured accounts (Gmail, Outlook, IMAP, Maildir and mbox). " +
       "Returns emails grouped by account with status and age. " +
       "By default only shows actionable emails (new + surfaced). " +
-      "Use includeDeferred/includeDismissed to also see those categories.",
+      "Use includeDeferred/includeDismissed to also see those categories. " +
+      "Set groupByThread to get one item per conversation instead of one per message. " +
+      "Set sortBy to \"priority\" to put the most important emails first, and minPriority to hide low-priority ones. " +
+      "Each email's senderHistory says what the owner usually does with that sender's mail.",
     parameters: Type.Object({
       account: Type.Optional(
         Type.String({ description: "Filter by account email address" }),
@@ -32,13 +56,44 @@ export function createGetEmailDigestTool(digest: DigestManager, ready?: Promise<
       limit: Type.Optional(
         Type.Number({ description: "Max emails to return (default 20). Use 0 for all." }),
       ),
+      maxChars: Type.Optional(
+        Type.Number({ description: "Total character budget for all returned bodies, spread across emails (default: 500 per email)" }),
+      ),
+      maxTokens: Type.Optional(
+        Type.Number({ description: "Total token budget for all returned bodies (approx. 4 characters per token); used when maxChars is not set" }),
+      ),
+      groupByThread: Type.Optional(
+        Type.Boolean({ description: "Return one item per thread with its message count, participants and newest message; limit counts threads (default: false)" }),
+      ),
+      sortBy: Type.Optional(
+        Type.Union([Type.Literal("date"), Type.Literal("priority")], {
+          description: "Order by date (newest first, default) or by priority score (highest first; a thread ranks by its highest-scoring email)",
+        }),
+      ),
+      minPriority: Type.Optional(
+        Type.Number({
+          description: "Only include emails scoring at least this much, or with groupByThread, threads whose highest-scoring email does; unscored emails count as 0",
+        }),
+      ),
+      suggestDismissals: Type.Optional(
+        Type.Boolean({ description: "Mark emails from senders the owner nearly always dismisses with suggestedAction \"dismiss\" (default: false)" }),
+      ),
     }),
     async execute(_id: string, params: Record<string, unknown>) {
       if (ready) await ready;
       const account = typeof params.account === "string" ? params.account : undefined;
       const includeDeferred = params.includeDeferred === true;
       const includeDismissed = params.includeDismissed === true;
+      const groupByThread = params.groupByThread === true;
+      const byPriority = params.sortBy === "priority";
+      const minPriority = typeof params.minPriority === "number" ? params.minPriority : undefined;
+      const suggestDismissals = params.suggestDismissals === true;
       const limit = typeof params.limit === "number" && params.limit >= 0 ? params.limit : 20;
+      const bodyBudget = typeof params.maxChars === "number" && params.maxChars >= 0
+        ? Math.floor(params.maxChars)
+        : typeof params.maxTokens === "number" && params.maxTokens >= 0
+          ? Math.floor(params.maxTokens * CHARS_PER_TOKEN)
+          : undefined;
 
       const allowedStatuses = new Set(["new", "surfaced"]);
       if (includeDeferred) allowedStatuses.add("deferred");
@@ -46,83 +101,125 @@ export function createGetEmailDigestTool(digest: DigestManager, ready?: Promise<
 
       // Auto-resolve: check active entries for owner replies before returning
       if (autoResolve) {
-        const active = digest.getActiveEntries();
-        const toCheck = active.filter((entry) => {
-          const age = Date.now() - new Date(entry.firstSeenAt).getTime();
-          if (age > AUTO_RESOLVE_MAX_AGE_MS) return false;
-          const fromLower = entry.from.toLowerCase();
-          if (autoResolve.accounts.some(a => fromLower.includes(a.toLowerCase()))) return false;
-          return true;
-        });
-        for (const entry of toCheck) {
-          try {
-            const replied = await autoResolve.checkThreadForReply(entry.threadId, entry.account);
-            if (replied) {
-              digest.markHandled(entry.id);
-            }
-          } catch {
-            // Non-critical
+        await autoResolveReplies(digest, autoResolve.accounts, autoResolve.checkThreadForReply);
+      }
+
+      return digest.exclusive(async () => {
+        const entries = digest.getByStatus("all").filter((e: DigestEntry) => allowedStatuses.has(e.status));
+
+        const grouped: Record<string, DigestEntry[]> = {};
+        for (const entry of entries) {
+          const acc = entry.account;
+          if (account && acc !== account) continue;
+          if (!grouped[acc]) grouped[acc] = [];
+          grouped[acc].push(entry);
+        }
+
+        // Flatten all entries, sort by date descending (newest first)
+        const allEntries = Object.entries(grouped).flatMap(([acc, entries]) =>
+          entries.map((e) => ({ account: acc, entry: e })),
+        );
+        allEntries.sort((a, b) => new Date(b.entry.date).getTime() - new Date(a.entry.date).getTime());
+
+        // One item per thread, led by its newest message; threads keep the newest-first order
+        const items: { account: string; entry: DigestEntry; thread: DigestEntry[] }[] = [];
+        const threads = new Map<string, DigestEntry[]>();
+        for (const { account: acc, entry } of allEntries) {
+          if (!groupByThread) {
+            items.push({ account: acc, entry, thread: [entry] });
+            continue;
+          }
+          const key = `${acc}\0${entry.threadId}`;
+          const thread = threads.get(key);
+          if (thread) {
+            thread.push(entry);
+          } else {
+            threads.set(key, [entry]);
+            items.push({ account: acc, entry, thread: threads.get(key)! });
           }
         }
-      }
 
-      const entries = digest.getByStatus("all").filter((e: DigestEntry) => allowedStatuses.has(e.status));
+        // A thread is shown or hidden as a whole, by its highest-scoring email, so its counts stay complete
+        const score = (thread: DigestEntry[]) => Math.max(...thread.map((e) => e.priority ?? 0));
+        const shown = minPriority === undefined ? items : items.filter(({ thread }) => score(thread) >= minPriority);
+        if (byPriority) {
+          shown.sort((a, b) => score(b.thread) - score(a.thread));
+        }
 
-      const grouped: Record<string, DigestEntry[]> = {};
-      for (const entry of entries) {
-        const acc = entry.account;
-        if (account && acc !== account) continue;
-        if (!grouped[acc]) grouped[acc] = [];
-        grouped[acc].push(entry);
-      }
+        const total = shown.length;
+        const limited = limit === 0 ? shown : shown.slice(0, limit);
+        const showing = limited.length;
+        const bodyLimits = bodyBudget === undefined
+          ? limited.map(() => DEFAULT_BODY_CHARS)
+          : allocateBudget(limited.map(({ entry }) => entry.body.length), bodyBudget);
 
-      // Flatten all entries, sort by date descending (newest first)
-      const allEntries = Object.entries(grouped).flatMap(([acc, entries]) =>
-        entries.map((e) => ({ account: acc, entry: e })),
-      );
-      allEntries.sort((a, b) => new Date(b.entry.date).getTime() - new Date(a.entry.date).getTime());
-
-      const total = allEntries.length;
-      const limited = limit === 0 ? allEntries : allEntries.slice(0, limit);
-      const showing = limited.length;
-
-      // Build response from limited entries, re-grouped by account
-      const summary: Record<string, unknown[]> = {};
-      for (const { account: acc, entry: e } of limited) {
-        if (!summary[acc]) summary[acc] = [];
-        summary[acc].push({
-          messageId: e.id,
-          from: e.from,
-          subject: e.subject,
-          status: e.status,
-          date: e.date,
-          age: formatAge(e.firstSeenAt),
-          body: e.body.length > 500 ? e.body.slice(0, 500) + "\u2026" : e.body,
-          deferredUntil: e.deferredUntil ?? undefined,
+        // Build response from limited entries, re-grouped by account
+        const summary: Record<string, unknown[]> = {};
+        limited.forEach(({ account: acc, entry: e, thread }, i) => {
+          if (!summary[acc]) summary[acc] = [];
+          const body = truncateText(e.body, bodyLimits[i]);
+          const truncated = body.truncated || e.truncated === true;
+          const profile = digest.getSenderProfile(e.from);
+          const email = {
+            messageId: e.id,
+            from: e.from,
+            subject: e.subject,
+            status: e.status,
+            priority: e.priority,
+            priorityReasons: e.priorityReasons,
+            tags: e.tags,
+            date: e.date,
+            age: formatAge(e.firstSeenAt),
+            body: body.text,
+            truncated: truncated || undefined,
+            originalLength: truncated ? e.originalLength ?? e.body.length : undefined,
+            attachments: e.attachments?.map((a) => ({
+              filename: a.filename,
+              mimeType: a.mimeType,
+              size: formatSize(a.size),
+              inline: a.inline,
+            })),
+            attachmentText: e.attachmentText,
+            deferredUntil: e.deferredUntil ?? undefined,
+            senderHistory: profile ? describeSenderProfile(profile) : undefined,
+            suggestedAction: suggestDismissals && profile && suggestsDismissal(profile) ? "dismiss" : undefined,
+          };
+          if (!groupByThread) {
+            summary[acc].push(email);
+            return;
+          }
+          summary[acc].push({
+            threadId: e.threadId,
+            subject: e.subject,
+            messageCount: thread.length,
+            participants: [...new Set(thread.map((t) => t.from))],
+            messageIds: thread.map((t) => t.id),
+            latest: email,
+          });
         });
-      }
 
-      // Mark ALL matching entries as surfaced (not just limited ones)
-      for (const entries of Object.values(grouped)) {
-        for (const entry of entries) {
-          if (entry.status === "new") {
-            digest.markSurfaced(entry.id);
+        // Mark ALL matching entries as surfaced (not just limited ones); those under minPriority stay new
+        for (const { thread } of shown) {
+          for (const entry of thread) {
+            if (entry.status === "new") {
+              digest.markSurfaced(entry.id);
+            }
           }
         }
-      }
 
-      await digest.save();
+        await digest.save();
 
-      const response = {
-        total,
-        showing,
-        hasMore: showing < total,
-        emails: summary,
-      };
+        const response = {
+          total,
+          showing,
+          hasMore: showing < total,
+          emails: summary,
+        };
 
-      return {
-        content: [{ type: "text" as const, text: JSON.stringify(response, null, 2) }],
-      };
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify(response, null, 2) }],
+        };
+      });
     },
   };
 }
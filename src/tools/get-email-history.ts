@@ -0,0 +1,40 @@
+import { Type } from "@sinclair/typebox";
+import type { DigestManager } from "../digest.js";
+
+export function createGetEmailHistoryTool(digest: DigestManager, ready?: Promise<void>) {
+  return {
+    name: "get_email_history",
+    label: "Get Email History",
+    description:
+      "Show how an email's status changed over time: who moved it (a tool, the pipeline, expiry or auto-resolve), when, and why.",
+    parameters: Type.Object({
+      messageId: Type.String({ description: "The message ID to show the history for" }),
+    }),
+    async execute(_id: string, params: Record<string, unknown>) {
+      if (ready) await ready;
+      if (typeof params.messageId !== "string" || !params.messageId) {
+        return { content: [{ type: "text" as const, text: "Error: messageId must be a non-empty string." }] };
+      }
+      await digest.refresh();
+      const entry = digest.get(params.messageId);
+      if (!entry) {
+        return { content: [{ type: "text" as const, text: `Email ${params.messageId} not found in digest.` }] };
+      }
+
+      const response: Record<string, unknown> = {
+        id: entry.id,
+        from: entry.from,
+        subject: entry.subject,
+        status: entry.status,
+        firstSeenAt: entry.firstSeenAt,
+        history: entry.history ?? [],
+      };
+      if (!entry.history?.length) {
+        response.note = "This email was stored before status changes were recorded; only its current status is known.";
+      }
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(response, null, 2) }],
+      };
+    },
+  };
+}
@@ -0,0 +1,115 @@
+import { Type } from "@sinclair/typebox";
+import type { DigestManager } from "../digest.js";
+import type { RawGogMessage, RawGogThread, TrimmerConfig } from "../types.js";
+import { trimEmail } from "../trimmer.js";
+import { formatSize } from "../utils.js";
+
+export interface GetEmailDeps {
+  fetchMessage: (messageId: string, account: string) => Promise<RawGogMessage | null>;
+  fetchThread: (threadId: string, account: string) => Promise<RawGogThread | null>;
+  trimmer?: TrimmerConfig;
+}
+
+// Generous per-message cap: this tool exists to return what the digest cut
+const FULL_BODY_MAX_CHARS = 20_000;
+// Shorter paragraphs ("Thanks!", "Hi Bob,") legitimately repeat across messages
+const MIN_DEDUPE_PARAGRAPH_CHARS = 40;
+
+function normalizeParagraph(paragraph: string): string {
+  return paragraph.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/**
+ * Drop paragraphs that already appeared in an earlier message of the thread —
+ * unprefixed quotes the trimmer could not recognise. Bodies are oldest first.
+ */
+function dedupeQuotedParagraphs(bodies: string[]): { body: string; removed: number }[] {
+  const seen = new Set<string>();
+  return bodies.map((body) => {
+    const paragraphs = body.split(/\n{2,}/);
+    const kept = paragraphs.filter((p) => {
+      const key = normalizeParagraph(p);
+      if (key.length < MIN_DEDUPE_PARAGRAPH_CHARS) return true;
+      return !seen.has(key);
+    });
+    for (const p of paragraphs) {
+      const key = normalizeParagraph(p);
+      if (key.length >= MIN_DEDUPE_PARAGRAPH_CHARS) seen.add(key);
+    }
+    return { body: kept.join("\n\n").trim(), removed: paragraphs.length - kept.length };
+  });
+}
+
+export function createGetEmailTool(digest: DigestManager, ready: Promise<void> | undefined, deps: GetEmailDeps) {
+  return {
+    name: "get_email",
+    label: "Get Email",
+    description:
+      "Fetch the full text of a digest email, optionally with its whole thread. " +
+      "Bodies are cleaned (quotes, signatures and repeated text removed) but not cut to the digest preview length. " +
+      "The digest email is marked with digestEntry: true.",
+    parameters: Type.Object({
+      messageId: Type.String({ description: "The message ID from get_email_digest" }),
+      includeThread: Type.Optional(
+        Type.Boolean({ description: "Return every message in the thread, oldest first (default: false)" }),
+      ),
+    }),
+    async execute(_id: string, params: Record<string, unknown>) {
+      if (ready) await ready;
+      if (typeof params.messageId !== "string" || !params.messageId) {
+        return { content: [{ type: "text" as const, text: "Error: messageId must be a non-empty string." }] };
+      }
+      const messageId = params.messageId;
+      const includeThread = params.includeThread === true;
+      await digest.refresh();
+      const entry = digest.get(messageId);
+      if (!entry) {
+        return { content: [{ type: "text" as const, text: `Email ${messageId} not found in digest.` }] };
+      }
+
+      let messages: RawGogMessage[];
+      if (includeThread) {
+        const thread = await deps.fetchThread(entry.threadId, entry.account);
+        if (!thread) {
+          return { content: [{ type: "text" as const, text: `Error: could not fetch thread ${entry.threadId} from ${entry.account}.` }] };
+        }
+        messages = thread.messages;
+      } else {
+        const msg = await deps.fetchMessage(messageId, entry.account);
+        if (!msg) {
+          return { content: [{ type: "text" as const, text: `Error: could not fetch email ${messageId} from ${entry.account}.` }] };
+        }
+        messages = [msg];
+      }
+
+      const trimmed = messages.map((msg) => trimEmail(msg.body ?? "", FULL_BODY_MAX_CHARS, deps.trimmer));
+      const deduped = dedupeQuotedParagraphs(trimmed.map((t) => t.body));
+
+      const response = {
+        messageId,
+        threadId: entry.threadId,
+        account: entry.account,
+        status: entry.status,
+        messages: messages.map((msg, i) => ({
+          messageId: msg.id,
+          digestEntry: msg.id === messageId || undefined,
+          from: msg.from ?? "unknown",
+          to: msg.to,
+          subject: msg.subject ?? "(no subject)",
+          date: msg.date,
+          attachments: msg.attachments?.length
+            ? msg.attachments.map((a) => ({ ...a, size: formatSize(a.size) }))
+            : undefined,
+          body: deduped[i].body,
+          truncated: trimmed[i].truncated || undefined,
+          originalLength: trimmed[i].truncated ? trimmed[i].originalLength : undefined,
+          repeatedParagraphsRemoved: deduped[i].removed || undefined,
+        })),
+      };
+
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(response, null, 2) }],
+      };
+    },
+  };
+}
@@ -0,0 +1,20 @@
+import { Type } from "@sinclair/typebox";
+import type { DigestManager } from "../digest.js";
+
+export function createListSenderRulesTool(digest: DigestManager, ready?: Promise<void>) {
+  return {
+    name: "list_sender_rules",
+    label: "List Sender Rules",
+    description:
+      "List the sender rules set with block_sender and allow_sender. Use remove_sender_rule to delete one.",
+    parameters: Type.Object({}),
+    async execute(_id: string, _params: Record<string, unknown>) {
+      if (ready) await ready;
+      await digest.refresh();
+      const rules = digest.listSenderRules().map(({ id, action, reason, createdAt }) => ({ id, action, reason, createdAt }));
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify({ rules }, null, 2) }],
+      };
+    },
+  };
+}
@@ -1,13 +1,19 @@
 import { Type } from "@sinclair/typebox";
 import type { DigestManager } from "../digest.js";
+import type { TriageJournal } from "../triage-journal.js";
 
-export function createMarkEmailHandledTool(digest: DigestManager, ready?: Promise<void>) {
+export function createMarkEmailHandledTool(digest: DigestManager, ready?: Promise<void>, journal?: TriageJournal) {
   return {
     name: "mark_email_handled",
     label: "Mark Email Handled",
-    description: "Mark an email as handled/dealt with. It will no longer appear in the digest.",
+    description:
+      "Mark an email as handled/dealt with. It will no longer appear in the digest. " +
+      "Set thread to handle every active email in its thread at once.",
     parameters: Type.Object({
       messageId: Type.String({ description: "The message ID to mark as handled" }),
+      thread: Type.Optional(
+        Type.Boolean({ description: "Also mark every other active email in this message's thread (default: false)" }),
+      ),
     }),
     async execute(_id: string, params: Record<string, unknown>) {
       if (ready) await ready;
@@ -15,18 +21,35 @@ export function createMarkEmailHandledTool(digest: DigestManager, ready?: Promis
         return { content: [{ type: "text" as const, text: "Error: messageId must be a non-empty string." }] };
       }
       const messageId = params.messageId;
-      const entry = digest.get(messageId);
-      if (!entry) {
-        return { content: [{ type: "text" as const, text: `Email ${messageId} not found in digest.` }] };
-      }
-      if (entry.status === "handled" || entry.status === "dismissed") {
-        return { content: [{ type: "text" as const, text: `Cannot mark as handled: email is already "${entry.status}".` }] };
-      }
-      digest.markHandled(messageId);
-      await digest.save();
-      return {
-        content: [{ type: "text" as const, text: `Marked "${entry.subject}" from ${entry.from} as handled.` }],
-      };
+      const wholeThread = params.thread === true;
+      return digest.exclusive(async () => {
+        const entry = digest.get(messageId);
+        if (!entry) {
+          return { content: [{ type: "text" as const, text: `Email ${messageId} not found in digest.` }] };
+        }
+        if (wholeThread) {
+          const changes = digest.getActiveThread(entry.threadId, entry.account).map((e) => ({ messageId: e.id, from: e.status }));
+          if (changes.length === 0) {
+            return { content: [{ type: "text" as const, text: "Cannot mark as handled: no active emails in this thread." }] };
+          }
+          for (const { messageId: id } of changes) digest.markHandled(id);
+          journal?.record(changes, "handled", "mark_email_handled");
+          await digest.save();
+          return {
+            content: [{ type: "text" as const, text: `Marked ${changes.length} email(s) in thread "${entry.subject}" as handled.` }],
+          };
+        }
+        if (entry.status === "handled" || entry.status === "dismissed") {
+          return { content: [{ type: "text" as const, text: `Cannot mark as handled: email is already "${entry.status}".` }] };
+        }
+        const from = entry.status;
+        digest.markHandled(messageId);
+        journal?.record([{ messageId, from }], "handled", "mark_email_handled");
+        await digest.save();
+        return {
+          content: [{ type: "text" as const, text: `Marked "${entry.subject}" from ${entry.from} as handled.` }],
+        };
+      });
     },
   };
 }
@@ -0,0 +1,57 @@
+import { Type } from "@sinclair/typebox";
+import { MUTED_THREAD_REASON, type DigestManager } from "../digest.js";
+import type { MutedThread } from "../types.js";
+
+export function createMuteThreadTool(digest: DigestManager, ready?: Promise<void>) {
+  return {
+    name: "mute_thread",
+    label: "Mute Thread",
+    description:
+      "Mute an email's thread: its active emails are dismissed and later replies are dismissed as they arrive, " +
+      "without showing up in the digest. Use for reply-all storms and automated ticket threads.",
+    parameters: Type.Object({
+      messageId: Type.String({ description: "Any message ID in the thread to mute" }),
+      days: Type.Optional(
+        Type.Number({ description: "Unmute automatically after this many days (default: stay muted)" }),
+      ),
+      reason: Type.Optional(Type.String({ description: "Optional reason for muting" })),
+    }),
+    async execute(_id: string, params: Record<string, unknown>) {
+      if (ready) await ready;
+      if (typeof params.messageId !== "string" || !params.messageId) {
+        return { content: [{ type: "text" as const, text: "Error: messageId must be a non-empty string." }] };
+      }
+      if (params.days !== undefined && (typeof params.days !== "number" || params.days <= 0 || !Number.isFinite(params.days))) {
+        return { content: [{ type: "text" as const, text: "Error: days must be a positive number." }] };
+      }
+      const messageId = params.messageId;
+      const days = params.days;
+      const reason = typeof params.reason === "string" ? params.reason : undefined;
+      return digest.exclusive(async () => {
+        const entry = digest.get(messageId);
+        if (!entry) {
+          return { content: [{ type: "text" as const, text: `Email ${messageId} not found in digest.` }] };
+        }
+        const mute: MutedThread = {
+          threadId: entry.threadId,
+          account: entry.account,
+          subject: entry.subject,
+          mutedAt: new Date().toISOString(),
+          until: days !== undefined ? new Date(Date.now() + days * 24 * 60 * 60_000).toISOString() : undefined,
+          reason,
+        };
+        digest.muteThread(mute);
+        const active = digest.getActiveThread(entry.threadId, entry.account);
+        for (const e of active) digest.dismiss(e.id, MUTED_THREAD_REASON, "mute_thread");
+        await digest.save();
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Muted thread "${entry.subject}" (${entry.threadId}) ${mute.until ? `until ${mute.until}` : "until unmuted"}. ` +
+              `Dismissed ${active.length} active email(s) in it.`,
+          }],
+        };
+      });
+    },
+  };
+}
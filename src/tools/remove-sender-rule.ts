@@ -0,0 +1,29 @@
+import { Type } from "@sinclair/typebox";
+import type { DigestManager } from "../digest.js";
+
+export function createRemoveSenderRuleTool(digest: DigestManager, ready?: Promise<void>) {
+  return {
+    name: "remove_sender_rule",
+    label: "Remove Sender Rule",
+    description:
+      "Delete a sender rule set with block_sender or allow_sender. New emails from that sender are triaged normally again; " +
+      "emails the rule already decided keep their status (use restore_email).",
+    parameters: Type.Object({
+      id: Type.String({ description: "ID of the rule to delete, as shown by list_sender_rules, e.g. domain:shop.com" }),
+    }),
+    async execute(_id: string, params: Record<string, unknown>) {
+      if (ready) await ready;
+      if (typeof params.id !== "string" || !params.id) {
+        return { content: [{ type: "text" as const, text: "Error: id must be a non-empty string." }] };
+      }
+      const ruleId = params.id;
+      return digest.exclusive(async () => {
+        if (!digest.deleteSenderRule(ruleId)) {
+          return { content: [{ type: "text" as const, text: `Sender rule ${ruleId} not found.` }] };
+        }
+        await digest.save();
+        return { content: [{ type: "text" as const, text: `Removed sender rule ${ruleId}.` }] };
+      });
+    },
+  };
+}
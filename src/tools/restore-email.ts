@@ -0,0 +1,48 @@
+import { Type } from "@sinclair/typebox";
+import { PRUNE_AFTER_DAYS, type DigestManager } from "../digest.js";
+
+export function createRestoreEmailTool(digest: DigestManager, ready?: Promise<void>) {
+  return {
+    name: "restore_email",
+    label: "Restore Email",
+    description:
+      "Bring a handled or dismissed email back into the digest. " +
+      `Resolved emails are deleted ${PRUNE_AFTER_DAYS} days after they were handled or dismissed and cannot be restored after that.`,
+    parameters: Type.Object({
+      messageId: Type.String({ description: "The message ID to restore" }),
+      status: Type.Optional(
+        Type.String({ description: 'Status to restore to: "new" (default) or "surfaced"' }),
+      ),
+    }),
+    async execute(_id: string, params: Record<string, unknown>) {
+      if (ready) await ready;
+      if (typeof params.messageId !== "string" || !params.messageId) {
+        return { content: [{ type: "text" as const, text: "Error: messageId must be a non-empty string." }] };
+      }
+      const status = params.status ?? "new";
+      if (status !== "new" && status !== "surfaced") {
+        return { content: [{ type: "text" as const, text: 'Error: status must be "new" or "surfaced".' }] };
+      }
+      const messageId = params.messageId;
+      return digest.exclusive(async () => {
+        const entry = digest.get(messageId);
+        if (!entry) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: `Email ${messageId} not found in digest. Handled and dismissed emails are deleted ${PRUNE_AFTER_DAYS} days after they were resolved, so it can no longer be restored.`,
+            }],
+          };
+        }
+        if (entry.status !== "handled" && entry.status !== "dismissed") {
+          return { content: [{ type: "text" as const, text: `Cannot restore: email is "${entry.status}", not handled or dismissed.` }] };
+        }
+        digest.restore(messageId, status);
+        await digest.save();
+        return {
+          content: [{ type: "text" as const, text: `Restored "${entry.subject}" from ${entry.from} as ${status}.` }],
+        };
+      });
+    },
+  };
+}
@@ -0,0 +1,180 @@
+import { Type } from "@sinclair/typebox";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { DigestManager } from "../digest.js";
+import type { AttachmentInfo, RawGogMessage } from "../types.js";
+import { atomicWrite } from "../atomic.js";
+import { formatSize } from "../utils.js";
+
+export interface SaveAttachmentDeps {
+  fetchMessage: (messageId: string, account: string) => Promise<RawGogMessage | null>;
+  fetchAttachment: (messageId: string, attachmentId: string, account: string) => Promise<Buffer | null>;
+  /** Absolute root every saved file must stay inside */
+  directory: string;
+  maxBytes: number;
+  allowedMimeTypes: string[];
+}
+
+const MAX_FILENAME_LENGTH = 120;
+
+export function isMimeTypeAllowed(mimeType: string, allowed: string[]): boolean {
+  const type = mimeType.split(";")[0].trim().toLowerCase();
+  return allowed.some((pattern) =>
+    pattern.endsWith("*") ? type.startsWith(pattern.slice(0, -1)) : type === pattern,
+  );
+}
+
+/** Reduce a sender-controlled name to a single safe path segment. */
+export function safeFileName(name: string, fallback = "attachment"): string {
+  const base = name.split(/[\\/]/).pop() ?? "";
+  let cleaned = base
+    .replace(/[\x00-\x1f\x7f<>:"|?*]/g, "_")
+    .replace(/^[\s.]+|[\s.]+$/g, "");
+  if (!cleaned) cleaned = fallback;
+  if (cleaned.length > MAX_FILENAME_LENGTH) {
+    const ext = path.extname(cleaned).slice(0, 16);
+    cleaned = cleaned.slice(0, MAX_FILENAME_LENGTH - ext.length) + ext;
+  }
+  return cleaned;
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+function pickAttachment(
+  attachments: AttachmentInfo[],
+  attachmentId: string | undefined,
+  filename: string | undefined,
+): AttachmentInfo | undefined {
+  if (attachmentId) return attachments.find((a) => a.attachmentId === attachmentId);
+  if (filename) return attachments.find((a) => a.filename.toLowerCase() === filename.toLowerCase());
+  const files = attachments.filter((a) => !a.inline);
+  return files.length === 1 ? files[0] : undefined;
+}
+
+export function createSaveEmailAttachmentTool(
+  digest: DigestManager,
+  ready: Promise<void> | undefined,
+  deps: SaveAttachmentDeps,
+) {
+  return {
+    name: "save_email_attachment",
+    label: "Save Email Attachment",
+    description:
+      "Download an attachment of a digest email to a local file and return its path so it can be read with other tools. " +
+      "Pick the attachment by attachmentId (from get_email) or filename; it may be omitted when the email has a single attachment. " +
+      "Only allowed file types up to a size limit are saved, and existing files are never overwritten.",
+    parameters: Type.Object({
+      messageId: Type.String({ description: "The message ID from get_email_digest" }),
+      attachmentId: Type.Optional(Type.String({ description: "Attachment ID as listed by get_email" })),
+      filename: Type.Optional(Type.String({ description: "Attachment filename, if attachmentId is not known" })),
+    }),
+    async execute(_id: string, params: Record<string, unknown>) {
+      if (ready) await ready;
+      if (typeof params.messageId !== "string" || !params.messageId) {
+        return { content: [{ type: "text" as const, text: "Error: messageId must be a non-empty string." }] };
+      }
+      const messageId = params.messageId;
+      const attachmentId = typeof params.attachmentId === "string" && params.attachmentId ? params.attachmentId : undefined;
+      const filename = typeof params.filename === "string" && params.filename ? params.filename : undefined;
+      await digest.refresh();
+      const entry = digest.get(messageId);
+      if (!entry) {
+        return { content: [{ type: "text" as const, text: `Email ${messageId} not found in digest.` }] };
+      }
+
+      // Entries recorded before attachment metadata existed need a fresh look
+      let attachments = entry.attachments;
+      if (!attachments) {
+        const msg = await deps.fetchMessage(messageId, entry.account);
+        if (!msg) {
+          return { content: [{ type: "text" as const, text: `Error: could not fetch email ${messageId} from ${entry.account}.` }] };
+        }
+        attachments = msg.attachments ?? [];
+      }
+      if (attachments.length === 0) {
+        return { content: [{ type: "text" as const, text: `Email ${messageId} has no attachments.` }] };
+      }
+      const attachment = pickAttachment(attachments, attachmentId, filename);
+      if (!attachment) {
+        const available = attachments.map((a) => `${a.filename} (attachmentId: ${a.attachmentId})`).join(", ");
+        const wanted = attachmentId ?? filename;
+        return {
+          content: [{
+            type: "text" as const,
+            text: wanted
+              ? `Error: attachment ${wanted} not found. Available: ${available}.`
+              : `Error: specify attachmentId or filename. Available: ${available}.`,
+          }],
+        };
+      }
+
+      if (!isMimeTypeAllowed(attachment.mimeType, deps.allowedMimeTypes)) {
+        return { content: [{ type: "text" as const, text: `Error: ${attachment.mimeType} attachments are not allowed to be saved.` }] };
+      }
+      if (attachment.size > deps.maxBytes) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Error: ${attachment.filename} is ${formatSize(attachment.size)}, over the ${formatSize(deps.maxBytes)} limit.`,
+          }],
+        };
+      }
+
+      const root = path.resolve(deps.directory);
+      const targetDir = path.join(root, safeFileName(messageId, "message"));
+      const target = path.join(targetDir, safeFileName(attachment.filename));
+      if (!isInside(root, target)) {
+        return { content: [{ type: "text" as const, text: `Error: refusing to write outside ${root}.` }] };
+      }
+      try {
+        await fs.access(target);
+        return { content: [{ type: "text" as const, text: `Error: ${target} already exists; not overwriting.` }] };
+      } catch {
+        // Expected: nothing saved there yet
+      }
+
+      const data = await deps.fetchAttachment(messageId, attachment.attachmentId, entry.account);
+      if (!data) {
+        return { content: [{ type: "text" as const, text: `Error: could not download ${attachment.filename} from ${entry.account}.` }] };
+      }
+      // Metadata sizes are estimates (and zero for some sources)
+      if (data.length > deps.maxBytes) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Error: ${attachment.filename} is ${formatSize(data.length)}, over the ${formatSize(deps.maxBytes)} limit.`,
+          }],
+        };
+      }
+
+      try {
+        await fs.mkdir(targetDir, { recursive: true });
+        // A symlinked directory must not lead the write out of the root
+        if (!isInside(await fs.realpath(root), await fs.realpath(targetDir))) {
+          return { content: [{ type: "text" as const, text: `Error: refusing to write outside ${root}.` }] };
+        }
+        await atomicWrite(target, data, { overwrite: false });
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "EEXIST") {
+          return { content: [{ type: "text" as const, text: `Error: ${target} already exists; not overwriting.` }] };
+        }
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Error: could not save ${attachment.filename}: ${err instanceof Error ? err.message : String(err)}`,
+          }],
+        };
+      }
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: `Saved "${attachment.filename}" (${formatSize(data.length)}, ${attachment.mimeType}) to ${target}`,
+        }],
+      };
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import { Type } from "@sinclair/typebox";
+import type { DigestManager } from "../digest.js";
+import type { EmailLogEntry, TriageRule } from "../types.js";
+import { ruleActionReason, ruleMatches, validateRule } from "../rules.js";
+
+const DEFAULT_LIMIT = 50;
+
+export interface TestEmailRuleDeps {
+  /** Rules from the `rules` config section */
+  rules: TriageRule[];
+  /** Only read from, never recovered or rotated here */
+  emailLog: { readAll(): Promise<EmailLogEntry[]> };
+}
+
+export function createTestEmailRuleTool(digest: DigestManager, ready: Promise<void> | undefined, deps: TestEmailRuleDeps) {
+  return {
+    name: "test_email_rule",
+    label: "Test Email Rule",
+    description:
+      "Dry-run a triage rule against recently polled emails without changing anything. " +
+      "Pass a configured rule's name, or a rule object to try one before adding it to config.",
+    parameters: Type.Object({
+      name: Type.Optional(Type.String({ description: "Name of a rule in the plugin's rules config" })),
+      rule: Type.Optional(
+        Type.Unknown({ description: "A rule object in the config format: { name, match, action?, deferMinutes?, priority?, tags?, notify? }" }),
+      ),
+      limit: Type.Optional(
+        Type.Number({ description: `How many of the most recently polled emails to test (default ${DEFAULT_LIMIT})` }),
+      ),
+    }),
+    async execute(_id: string, params: Record<string, unknown>) {
+      if (ready) await ready;
+      const limit = params.limit ?? DEFAULT_LIMIT;
+      if (typeof limit !== "number" || !Number.isInteger(limit) || limit < 1) {
+        return { content: [{ type: "text" as const, text: "Error: limit must be a positive whole number." }] };
+      }
+
+      let rule: TriageRule;
+      if (params.rule !== undefined) {
+        const problem = validateRule(params.rule);
+        if (problem) {
+          return { content: [{ type: "text" as const, text: `Error: invalid rule — ${problem}` }] };
+        }
+        rule = params.rule as TriageRule;
+      } else if (typeof params.name === "string" && params.name) {
+        const configured = deps.rules.find((r) => r.name === params.name);
+        if (!configured) {
+          const names = deps.rules.map((r) => `"${r.name}"`).join(", ");
+          return {
+            content: [{ type: "text" as const, text: `No rule named "${params.name}" in config. Configured rules: ${names || "none"}.` }],
+          };
+        }
+        rule = configured;
+      } else {
+        return { content: [{ type: "text" as const, text: "Error: pass either name or rule." }] };
+      }
+
+      // Serialized with the pipeline so the log and the statuses are read from the same poll
+      const { recent, matches } = await digest.exclusive(async () => {
+        const recent = (await deps.emailLog.readAll()).slice(-limit).reverse();
+        const matches = recent
+          .filter(({ email }) => ruleMatches(rule, email))
+          .map(({ email }) => ({
+            messageId: email.id,
+            account: email.account,
+            from: email.from,
+            subject: email.subject,
+            date: email.date,
+            currentStatus: digest.get(email.id)?.status,
+          }));
+        return { recent, matches };
+      });
+
+      const wouldDo: string[] = [];
+      if (rule.action) {
+        const reason = ruleActionReason({ rule: rule.name, type: rule.action, deferMinutes: rule.deferMinutes });
+        wouldDo.push(rule.action === "defer" ? `${reason} for ${rule.deferMinutes} minutes` : reason);
+      }
+      if (rule.priority !== undefined) wouldDo.push(`priority ${rule.priority}`);
+      if (rule.tags?.length) wouldDo.push(`tags ${rule.tags.join(", ")}`);
+      if (rule.notify) wouldDo.push("notify the agent");
+
+      const response = {
+        rule: rule.name,
+        tested: recent.length,
+        matched: matches.length,
+        wouldApply: wouldDo,
+        emails: matches,
+      };
+      return { content: [{ type: "text" as const, text: JSON.stringify(response, null, 2) }] };
+    },
+  };
+}
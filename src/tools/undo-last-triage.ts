@@ -0,0 +1,53 @@
+import { Type } from "@sinclair/typebox";
+import { PRUNE_AFTER_DAYS, type DigestManager } from "../digest.js";
+import type { TriageJournal } from "../triage-journal.js";
+
+export function createUndoLastTriageTool(digest: DigestManager, journal: TriageJournal, ready?: Promise<void>) {
+  return {
+    name: "undo_last_triage",
+    label: "Undo Last Triage",
+    description:
+      "Undo the most recent mark_email_handled, defer_email or dismiss_email calls made in this session, newest first. " +
+      "Each email goes back to the status it had before; a thread-wide call counts as one.",
+    parameters: Type.Object({
+      count: Type.Optional(
+        Type.Number({ description: "How many actions to undo (default 1)" }),
+      ),
+    }),
+    async execute(_id: string, params: Record<string, unknown>) {
+      if (ready) await ready;
+      const count = params.count ?? 1;
+      if (typeof count !== "number" || !Number.isInteger(count) || count < 1) {
+        return { content: [{ type: "text" as const, text: "Error: count must be a positive whole number." }] };
+      }
+      return digest.exclusive(async () => {
+        const actions = journal.takeLatest(count);
+        if (actions.length === 0) {
+          return { content: [{ type: "text" as const, text: "Nothing to undo in this session." }] };
+        }
+
+        const lines: string[] = [];
+        let undone = 0;
+        for (const action of actions) {
+          for (const { messageId, from } of action.messages) {
+            const entry = digest.get(messageId);
+            if (!entry) {
+              lines.push(`${messageId}: no longer in the digest (resolved emails are deleted after ${PRUNE_AFTER_DAYS} days) — cannot be recovered.`);
+              continue;
+            }
+            if (entry.status !== action.to) {
+              lines.push(`"${entry.subject}": skipped, it has been moved to "${entry.status}" since ${action.actor}.`);
+              continue;
+            }
+            digest.restore(messageId, from, { actor: "undo_last_triage", reason: `undid ${action.actor}` });
+            lines.push(`"${entry.subject}": ${action.to} → ${from}`);
+            undone++;
+          }
+        }
+        if (undone > 0) await digest.save();
+        if (actions.length < count) lines.push(`Only ${actions.length} action(s) were left to undo in this session.`);
+        return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+      });
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { Type } from "@sinclair/typebox";
+import type { DigestManager } from "../digest.js";
+
+export function createUnmuteThreadTool(digest: DigestManager, ready?: Promise<void>) {
+  return {
+    name: "unmute_thread",
+    label: "Unmute Thread",
+    description:
+      "Stop dismissing new replies in a muted thread. Emails already dismissed stay dismissed (use restore_email). " +
+      "Call without arguments to list muted threads.",
+    parameters: Type.Object({
+      threadId: Type.Optional(Type.String({ description: "The thread ID to unmute" })),
+      account: Type.Optional(
+        Type.String({ description: "Account the thread belongs to; only needed when the thread ID is muted in several accounts" }),
+      ),
+      messageId: Type.Optional(Type.String({ description: "Any message ID in the thread, instead of threadId" })),
+    }),
+    async execute(_id: string, params: Record<string, unknown>) {
+      if (ready) await ready;
+      const threadId = typeof params.threadId === "string" && params.threadId ? params.threadId : undefined;
+      const account = typeof params.account === "string" && params.account ? params.account : undefined;
+      const messageId = typeof params.messageId === "string" && params.messageId ? params.messageId : undefined;
+      return digest.exclusive(async () => {
+        if (!threadId && !messageId) {
+          const mutes = digest.listMutes();
+          if (mutes.length === 0) {
+            return { content: [{ type: "text" as const, text: "No threads are muted." }] };
+          }
+          const muted = mutes.map((m) => ({ threadId: m.threadId, account: m.account, subject: m.subject, until: m.until, reason: m.reason }));
+          return { content: [{ type: "text" as const, text: JSON.stringify({ muted }, null, 2) }] };
+        }
+
+        let target = threadId;
+        let targetAccount = account;
+        if (!target) {
+          const entry = digest.get(messageId!);
+          if (!entry) {
+            return { content: [{ type: "text" as const, text: `Email ${messageId} not found in digest.` }] };
+          }
+          target = entry.threadId;
+          targetAccount = entry.account;
+        } else if (!targetAccount) {
+          const accounts = digest.listMutes().filter((m) => m.threadId === target).map((m) => m.account);
+          if (accounts.length > 1) {
+            return {
+              content: [{ type: "text" as const, text: `Error: thread ${target} is muted in ${accounts.join(", ")}; pass account.` }],
+            };
+          }
+          targetAccount = accounts[0];
+        }
+        if (!targetAccount || !digest.unmuteThread(target, targetAccount)) {
+          return { content: [{ type: "text" as const, text: `Thread ${target} is not muted.` }] };
+        }
+        await digest.save();
+        return { content: [{ type: "text" as const, text: `Unmuted thread ${target}. New replies will show up in the digest again.` }] };
+      });
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import type { DigestStatus } from "./types.js";
+
+export interface TriageAction {
+  /** Every email one tool call changed, with the status it had before */
+  messages: { messageId: string; from: DigestStatus }[];
+  to: DigestStatus;
+  /** The tool that made the change */
+  actor: string;
+  at: string;
+}
+
+const MAX_ACTIONS = 100;
+
+/**
+ * Triage actions taken through the tools since the plugin started, newest
+ * last, so `undo_last_triage` can walk them back. Kept in memory only: a
+ * restart starts a new session with nothing to undo.
+ */
+export class TriageJournal {
+  private actions: TriageAction[] = [];
+
+  record(messages: TriageAction["messages"], to: DigestStatus, actor: string): void {
+    this.actions.push({ messages, to, actor, at: new Date().toISOString() });
+    if (this.actions.length > MAX_ACTIONS) this.actions.shift();
+  }
+
+  /** Remove and return up to `count` of the most recent actions, newest first. */
+  takeLatest(count: number): TriageAction[] {
+    return this.actions.splice(Math.max(0, this.actions.length - count)).reverse();
+  }
+
+  get size(): number {
+    return this.actions.length;
+  }
+}
@@ -1,41 +1,267 @@
+import type { TrimmerConfig } from "./types.js";
+import { appendFootnotes, decodeEntities, looksLikeHtml, renderHtml } from "./html.js";
+
 const DEFAULT_MAX_LENGTH = 3000;
 
-const HTML_ENTITY_MAP: Record<string, string> = {
-  "&amp;": "&",
-  "&lt;": "<",
-  "&gt;": ">",
-  "&quot;": '"',
-  "&#39;": "'",
-  "&apos;": "'",
-  "&nbsp;": " ",
+interface LocaleDetectors {
+  /** Reply attribution lines ("On <date>, <person> wrote:") */
+  attribution: RegExp;
+  /** Outlook's "-----Original Message-----" separator */
+  separator: RegExp;
+  /** Forward markers; a header block right after one is forwarded content, not history */
+  forward: RegExp;
+  /** Field names of Outlook's "From: … Sent: … To: … Subject: …" header block */
+  fromField: string;
+  subjectField: string;
+  /** Mobile client footers ("Sent from my iPhone") */
+  mobileSignature: RegExp;
+  /** Sign-offs followed by a short name block */
+  signOff: RegExp;
+  disclaimer: RegExp;
+}
+
+// Attribution lines may wrap once, but never span a blank line
+const ATTRIBUTION_BODY = "(?:[^\\n]|\\n(?!\\n)){5,250}?";
+
+const LOCALE_DETECTORS: Record<string, LocaleDetectors> = {
+  en: {
+    attribution: new RegExp(`^On\\s${ATTRIBUTION_BODY}\\swrote:[ \\t]*$`, "im"),
+    separator: /^-{2,}\s*Original Message\s*-{2,}[ \t]*$/im,
+    forward: /Forwarded message|Begin forwarded message/i,
+    fromField: "From",
+    subjectField: "Subject",
+    mobileSignature: /(?:^|\n)Sent from my [^\n]+$/i,
+    signOff: /(?:^|\n)(?:Best regards|Kind regards|Regards|Cheers|Thanks|Best),?[ \t]*\n[\s\S]{0,200}$/i,
+    disclaimer: /(?:^|\n)(?:This email is confidential|CONFIDENTIALITY NOTICE|DISCLAIMER|If you (?:are not|received this in error))[\s\S]*$/i,
+  },
+  de: {
+    attribution: new RegExp(`^Am\\s${ATTRIBUTION_BODY}\\sschrieb\\s${ATTRIBUTION_BODY}:[ \\t]*$`, "im"),
+    separator: /^-{2,}\s*Ursprüngliche Nachricht\s*-{2,}[ \t]*$/im,
+    forward: /Weitergeleitete Nachricht|Anfang der weitergeleiteten/i,
+    fromField: "Von",
+    subjectField: "Betreff",
+    mobileSignature: /(?:^|\n)(?:Von meinem [^\n]+ gesendet|Gesendet von meinem [^\n]+)$/i,
+    signOff: /(?:^|\n)(?:Mit freundlichen Grüßen|Freundliche Grüße|Viele Grüße|Beste Grüße|Liebe Grüße|Schöne Grüße|Gruß|MfG|VG|LG),?[ \t]*\n[\s\S]{0,200}$/i,
+    disclaimer: /(?:^|\n)(?:Diese E-Mail (?:enthält|kann) vertrauliche|Vertraulichkeitshinweis|Wenn Sie nicht der (?:richtige|beabsichtigte) Adressat)[\s\S]*$/i,
+  },
+  fr: {
+    attribution: new RegExp(`^Le\\s${ATTRIBUTION_BODY}\\sa\\s+écrit\\s*:[ \\t]*$`, "im"),
+    separator: /^-{2,}\s*(?:Message d'origine|Message original)\s*-{2,}[ \t]*$/im,
+    forward: /Message transféré|Début du message (?:réexpédié|transféré)/i,
+    fromField: "De",
+    subjectField: "Objet",
+    mobileSignature: /(?:^|\n)Envoyé (?:de|depuis) mon [^\n]+$/i,
+    signOff: /(?:^|\n)(?:Cordialement|Bien cordialement|Bien à vous|Salutations|Bonne journée|Merci),?[ \t]*\n[\s\S]{0,200}$/i,
+    disclaimer: /(?:^|\n)(?:Ce (?:message|courriel|e-mail)(?: et (?:ses|les) pièces jointes)? (?:est|sont) confidentiel|AVIS DE CONFIDENTIALITÉ)[\s\S]*$/i,
+  },
+  es: {
+    attribution: new RegExp(`^El\\s${ATTRIBUTION_BODY}\\sescribió\\s*:[ \\t]*$`, "im"),
+    separator: /^-{2,}\s*Mensaje original\s*-{2,}[ \t]*$/im,
+    forward: /Mensaje reenviado|Inicio del mensaje reenviado/i,
+    fromField: "De",
+    subjectField: "Asunto",
+    mobileSignature: /(?:^|\n)Enviado desde mi [^\n]+$/i,
+    signOff: /(?:^|\n)(?:Saludos cordiales|Un saludo|Saludos|Atentamente|Gracias),?[ \t]*\n[\s\S]{0,200}$/i,
+    disclaimer: /(?:^|\n)(?:Este (?:correo|mensaje)(?: electrónico)? (?:es|contiene información) confidencial|AVISO DE CONFIDENCIALIDAD)[\s\S]*$/i,
+  },
+};
+
+export const SUPPORTED_LOCALES = Object.keys(LOCALE_DETECTORS);
+
+export const DEFAULT_TRIMMER_CONFIG: TrimmerConfig = {
+  locales: SUPPORTED_LOCALES,
+  quotePatterns: [],
+  signaturePatterns: [],
 };
 
-export function trimEmailBody(raw: string, maxLength: number = DEFAULT_MAX_LENGTH): string {
-  if (!raw || typeof raw !== "string") return "";
+/** Compile a user-supplied detector; returns null when the pattern is not a valid regex. */
+export function compileTrimPattern(source: string): RegExp | null {
+  try {
+    return new RegExp(source, "im");
+  } catch {
+    return null;
+  }
+}
+
+/** Cut `body` at the start of the first match, if any. */
+function cutAt(body: string, pattern: RegExp): string {
+  const match = pattern.exec(body);
+  return match ? body.slice(0, match.index) : body;
+}
+
+/**
+ * Cut at Outlook's header block: the From line followed within a few lines by
+ * the Subject line. Fields may be bolded (`*From:*`) and French puts a space
+ * before the colon. Blocks introduced by a forward marker are kept.
+ */
+function cutAtHeaderBlock(body: string, detectors: LocaleDetectors[]): string {
+  const from = [...new Set(detectors.map((d) => d.fromField))].join("|");
+  const subject = [...new Set(detectors.map((d) => d.subjectField))].join("|");
+  const pattern = new RegExp(`^\\*?(?:${from})\\s?:\\*?[ \\t].*\\n(?:.*\\n){0,5}?\\*?(?:${subject})\\s?:`, "gim");
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body)) !== null) {
+    const previousLine = body.slice(0, match.index).trimEnd().split("\n").pop() ?? "";
+    if (detectors.some((d) => d.forward.test(previousLine))) continue;
+    return body.slice(0, match.index);
+  }
+  return body;
+}
+
+/**
+ * Drop reply attributions. When the quoted text below is `>`-prefixed only
+ * the attribution goes (the quote block is removed later); otherwise the
+ * client quoted without prefixes and everything from the attribution on is
+ * history.
+ */
+function stripAttributions(body: string, patterns: RegExp[]): string {
+  for (const pattern of patterns) {
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(body)) !== null) {
+      const rest = body.slice(match.index + match[0].length);
+      if (/^\s*\n>/.test(rest)) {
+        body = body.slice(0, match.index) + rest.replace(/^\s*\n/, "\n");
+      } else {
+        body = body.slice(0, match.index);
+      }
+    }
+  }
+  return body;
+}
 
-  let body = raw;
+// Closing requests worth keeping when the middle of a long email is cut
+const CALL_TO_ACTION = /\?|\b(?:let me know|please|could you|can you|would you|reply by|respond by|deadline|asap|rsvp|bitte|merci de|pourriez-vous|por favor|podrías|podría)\b/i;
 
-  // 1. Strip HTML tags
-  body = body.replace(/<[^>]*>/g, "");
+const SENTENCE_END = /[.!?…。](?=\s)|\n/g;
 
-  // 2. Decode HTML entities
-  body = body.replace(/&\w+;|&#\d+;/g, (match) => HTML_ENTITY_MAP[match] ?? match);
+export interface TruncateResult {
+  text: string;
+  truncated: boolean;
+}
+
+/** Drop a dangling high surrogate so a cut never splits a code point. */
+function sliceSafe(text: string, end: number): string {
+  const code = text.charCodeAt(end - 1);
+  return text.slice(0, code >= 0xd800 && code <= 0xdbff ? end - 1 : end);
+}
+
+/**
+ * Longest prefix of `text` within `budget`, ending at a paragraph break or
+ * sentence end when one keeps at least half the budget, else at a word
+ * break. Only a single word longer than the budget gets a hard cut.
+ */
+function cutHead(text: string, budget: number): string {
+  if (text.length <= budget) return text;
+  const window = sliceSafe(text, budget + 1);
+  const minimum = Math.floor(budget / 2);
+
+  const paragraph = window.lastIndexOf("\n\n");
+  if (paragraph >= minimum) return text.slice(0, paragraph).trimEnd();
+
+  let sentence = -1;
+  for (const match of window.matchAll(SENTENCE_END)) {
+    const end = match.index + match[0].length;
+    if (end <= budget) sentence = end;
+  }
+  if (sentence >= minimum) return text.slice(0, sentence).trimEnd();
 
-  // 3. Remove quoted reply chains ("On <date>, <person> wrote:")
-  body = body.replace(/\n*On\s+.{10,80}\s+wrote:\s*\n(>[^\n]*\n?)*/gi, "");
+  // A short head beats a split word or URL
+  const space = window.search(/\s\S*$/);
+  if (space > 0) return text.slice(0, space).trimEnd();
+
+  return sliceSafe(text, budget);
+}
+
+/** Last sentence or paragraph of `text` if it asks something of the reader. */
+function findClosingAsk(text: string): string | null {
+  const paragraphs = text.split(/\n{2,}/).map((p) => p.trim()).filter(Boolean);
+  const last = paragraphs[paragraphs.length - 1];
+  if (!last) return null;
+  const sentences = last.match(/[^.!?…。]+(?:[.!?…。]+|$)/g)?.map((x) => x.trim()).filter(Boolean) ?? [last];
+  const closing = sentences.slice(-2).join(" ");
+  return CALL_TO_ACTION.test(closing) ? closing : null;
+}
+
+function omittedMarker(count: number): string {
+  return `[… ${count} chars omitted]`;
+}
+
+/**
+ * Shorten `text` to at most `maxLength` characters without splitting words,
+ * URLs or multi-byte characters. Keeps the opening and, when the email ends
+ * with a question or request, that closing ask; the gap is marked with the
+ * number of characters dropped.
+ */
+export function truncateText(text: string, maxLength: number): TruncateResult {
+  if (text.length <= maxLength) return { text, truncated: false };
+  const budget = Math.max(0, maxLength);
+
+  // Reserve room for the marker assuming the worst case (everything omitted)
+  const markerRoom = omittedMarker(text.length).length + 2;
+  if (budget <= markerRoom) return { text: cutHead(text, budget), truncated: true };
+
+  const ask = findClosingAsk(text);
+  const askBudget = ask && ask.length + 2 <= Math.floor((budget - markerRoom) / 3) ? ask.length + 2 : 0;
+  const head = cutHead(text, budget - markerRoom - askBudget);
+
+  if (askBudget > 0 && ask && !head.includes(ask)) {
+    const omitted = text.length - head.length - ask.length;
+    return { text: `${head}\n\n${omittedMarker(omitted)}\n\n${ask}`, truncated: true };
+  }
+  return { text: `${head}\n\n${omittedMarker(text.length - head.length)}`, truncated: true };
+}
+
+export interface TrimResult {
+  body: string;
+  /** Length of the cleaned body before truncation */
+  originalLength: number;
+  truncated: boolean;
+}
+
+export function trimEmail(
+  raw: string,
+  maxLength: number = DEFAULT_MAX_LENGTH,
+  config: TrimmerConfig = DEFAULT_TRIMMER_CONFIG,
+): TrimResult {
+  if (!raw || typeof raw !== "string") return { body: "", originalLength: 0, truncated: false };
+
+  const detectors = config.locales
+    .map((locale) => LOCALE_DETECTORS[locale])
+    .filter((d): d is LocaleDetectors => d !== undefined);
+  const compile = (sources: string[]) => sources.map(compileTrimPattern).filter((p): p is RegExp => p !== null);
+
+  let body = raw.replace(/\r\n?/g, "\n");
+  let links: string[] = [];
+
+  // 1. Convert HTML to text (drops hidden content, keeps structure and link targets)
+  // 2. Decode HTML entities left in plain-text bodies
+  if (looksLikeHtml(body)) {
+    ({ text: body, links } = renderHtml(body));
+  } else {
+    body = decodeEntities(body);
+  }
+
+  // 3. Remove quoted reply chains: attributions, Outlook separators and header blocks, custom markers
+  body = stripAttributions(body, detectors.map((d) => d.attribution));
+  for (const d of detectors) body = cutAt(body, d.separator);
+  if (detectors.length > 0) body = cutAtHeaderBlock(body, detectors);
+  for (const pattern of compile(config.quotePatterns)) body = cutAt(body, pattern);
 
   // 4. Remove > prefixed quote blocks
   body = body.replace(/\n*(?:^|\n)(>[^\n]*\n?)+/g, "");
 
-  // 5. Remove email signatures (-- delimiter)
+  // 5. Remove email signatures (-- delimiter, custom markers)
   body = body.replace(/\n--\s*\n[\s\S]*$/m, "");
+  for (const pattern of compile(config.signaturePatterns)) body = cutAt(body, pattern);
 
-  // 6. Remove "Sent from" signatures
-  body = body.replace(/\n*Sent from my [\w\s]+$/i, "");
-  body = body.replace(/\n*(?:Best regards|Kind regards|Regards|Cheers|Thanks|Best),?\s*\n[\s\S]{0,200}$/i, "");
+  // 6. Remove "Sent from" signatures and sign-offs
+  body = body.trimEnd();
+  for (const d of detectors) {
+    body = body.replace(d.mobileSignature, "").trimEnd();
+    body = body.replace(d.signOff, "");
+  }
 
   // 7. Remove legal disclaimers
-  body = body.replace(/\n*(?:This email is confidential|CONFIDENTIALITY NOTICE|DISCLAIMER|If you (?:are not|received this in error))[\s\S]*$/i, "");
+  for (const d of detectors) body = body.replace(d.disclaimer, "");
 
   // 8. Remove tracking pixels / image references
   body = body.replace(/\[(?:image|cid:[^\]]*)\]/gi, "");
@@ -45,10 +271,24 @@ export function trimEmailBody(raw: string, maxLength: number = DEFAULT_MAX_LENGT
   body = body.replace(/\n{3,}/g, "\n\n");
   body = body.trim();
 
-  // 10. Truncate
-  if (body.length > maxLength) {
-    body = body.slice(0, maxLength);
+  // 10. Truncate at a paragraph or sentence boundary, keeping any closing ask
+  const originalLength = body.length;
+  const { text, truncated } = truncateText(body, maxLength);
+
+  // 11. Re-attach the footnotes that survived, as far as they fit
+  let withLinks = appendFootnotes(text, links);
+  while (withLinks.length > maxLength && withLinks.lastIndexOf("\n[") > text.length) {
+    withLinks = withLinks.slice(0, withLinks.lastIndexOf("\n[")).trimEnd();
   }
+  if (withLinks.length > maxLength) withLinks = text;
 
-  return body;
+  return { body: withLinks, originalLength, truncated };
+}
+
+export function trimEmailBody(
+  raw: string,
+  maxLength: number = DEFAULT_MAX_LENGTH,
+  config: TrimmerConfig = DEFAULT_TRIMMER_CONFIG,
+): string {
+  return trimEmail(raw, maxLength, config).body;
 }
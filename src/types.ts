@@ -11,26 +11,199 @@ export interface WorkHoursConfig {
   timezone: string;
 }
 
+export interface GmailAccountConfig {
+  source: "gmail";
+  email: string;
+}
+
+/** Where to read a secret from at connection time — never the secret itself. */
+export interface CredentialRef {
+  env?: string;
+  command?: string[];
+}
+
+export interface ImapAccountConfig {
+  source: "imap";
+  email: string;
+  host: string;
+  port: number;
+  tls: boolean;
+  username: string;
+  password: CredentialRef;
+  mailbox: string;
+  sentMailbox: string;
+}
+
+export interface MaildirAccountConfig {
+  source: "maildir";
+  email: string;
+  path: string;
+  /** Maildir holding sent mail, read for owner-reply detection */
+  sentPath?: string;
+}
+
+export interface MboxAccountConfig {
+  source: "mbox";
+  email: string;
+  path: string;
+  sentPath?: string;
+}
+
+export interface OutlookAccountConfig {
+  source: "outlook";
+  email: string;
+  /** Reference to a Microsoft Graph access token with Mail.Read */
+  token: CredentialRef;
+  mailFolder: string;
+  baseUrl: string;
+}
+
+export type AccountConfig =
+  | GmailAccountConfig
+  | ImapAccountConfig
+  | MaildirAccountConfig
+  | MboxAccountConfig
+  | OutlookAccountConfig;
+
+export interface TrimmerConfig {
+  /** Built-in quote/signature detector sets to apply, e.g. ["en", "de"] */
+  locales: string[];
+  /** Extra regexes marking the start of quoted history; the body is cut there */
+  quotePatterns: string[];
+  /** Extra regexes marking the start of a signature; the body is cut there */
+  signaturePatterns: string[];
+}
+
+export interface AttachmentsConfig {
+  /** Where save_email_attachment writes; relative paths resolve against the plugin state dir */
+  directory: string;
+  /** Largest attachment that may be saved, in bytes */
+  maxBytes: number;
+  /** MIME types that may be saved; "type/*" matches a whole family */
+  allowedMimeTypes: string[];
+}
+
+export interface AttachmentTextConfig {
+  /** Download small text-based attachments (txt, csv, ics, simple PDFs) while polling and preview their text */
+  enabled: boolean;
+  /** Skip attachments larger than this, in bytes */
+  maxBytes: number;
+  /** Attachments read per message */
+  maxAttachments: number;
+  /** Length of the combined preview per message */
+  maxChars: number;
+}
+
+export type StorageBackend = "json" | "sqlite";
+
 export interface PluginConfig {
-  accounts: string[];
+  accounts: AccountConfig[];
   pollIntervalMinutes: PollIntervalConfig;
   workHours: WorkHoursConfig;
   consecutiveFailuresBeforeAlert: number;
   rescanDaysOnHistoryReset: number;
+  trimmer: TrimmerConfig;
+  attachments: AttachmentsConfig;
+  attachmentText: AttachmentTextConfig;
+  /** Where the digest and email log live: JSON files or a node:sqlite database */
+  storage: StorageBackend;
+  /** Applied in order to every new email before it enters the digest */
+  rules: TriageRule[];
+  priority: PriorityConfig;
+}
+
+// -- Priority scoring --
+
+/** Points each signal adds to an email's priority; negative weights lower it, 0 disables a signal */
+export interface PriorityWeights {
+  vipSender: number;
+  /** Sender of an email the owner replied to */
+  repliedSender: number;
+  /** An owner account is in To */
+  direct: number;
+  /** An owner account is only in Cc */
+  cc: number;
+  /** Mailing-list, bulk or promotional mail, or mail not addressed to the owner */
+  list: number;
+  urgent: number;
+  deadline: number;
+  /** The owner started the thread */
+  ownerThread: number;
+  /** Added per message beyond the first, up to 5 */
+  threadLength: number;
+}
+
+export interface PriorityConfig {
+  /** Addresses or domains ("@bank.com" or "bank.com") that always matter */
+  vipSenders: string[];
+  /** Whole words or phrases in the subject or body that signal urgency */
+  urgencyKeywords: string[];
+  weights: PriorityWeights;
+}
+
+// -- Triage rules --
+
+/** Every condition given must hold; text comparisons ignore case */
+export interface TriageRuleMatch {
+  /** Substring of the From header */
+  from?: string;
+  /** Substring of the To header */
+  to?: string;
+  /** Regular expression tested against the subject */
+  subject?: string;
+  /** Matches when the body contains any of these */
+  bodyKeywords?: string[];
+  account?: string;
+  hasAttachments?: boolean;
+  /** Matches when the email carries any of these labels (Gmail labels, Outlook categories, mailbox names) */
+  labels?: string[];
+  minThreadLength?: number;
+  maxThreadLength?: number;
+}
+
+export interface TriageRule {
+  name: string;
+  match: TriageRuleMatch;
+  /** Status decision; the first matching rule with an action decides */
+  action?: "dismiss" | "handle" | "defer";
+  /** Required with action "defer" */
+  deferMinutes?: number;
+  priority?: number;
+  tags?: string[];
+  /** Alert the agent as soon as a matching email arrives */
+  notify?: boolean;
 }
 
 // -- Raw email from gog CLI --
 
+export interface AttachmentInfo {
+  filename: string;
+  mimeType: string;
+  /** Size in bytes (decoded, or as declared by the provider) */
+  size: number;
+  /**
+   * Handle for fetching the bytes: the Gmail or Graph attachment ID, or the
+   * IMAP-style MIME part number ("2", "1.3") for sources that read raw messages.
+   */
+  attachmentId: string;
+  /** Embedded in the body (logos, signature images) rather than attached */
+  inline?: boolean;
+}
+
 export interface RawGogMessage {
   id: string;
   threadId: string;
   subject?: string;
   from?: string;
   to?: string;
+  cc?: string;
   date?: string;
   body?: string;
   labels?: string[];
+  /** Mailing-list or bulk mail, judged from its headers */
+  bulk?: boolean;
   labelIds?: string[];
+  attachments?: AttachmentInfo[];
   [key: string]: unknown;
 }
 
@@ -39,6 +212,39 @@ export interface RawGogThread {
   messages: RawGogMessage[];
 }
 
+// -- Mail sources --
+
+export interface Logger {
+  info(msg: string): void;
+  warn(msg: string): void;
+  error(msg: string): void;
+}
+
+export type CommandRunner = (
+  args: string[],
+  opts: { timeoutMs: number },
+) => Promise<{ code: number; stdout?: string; stderr?: string }>;
+
+export interface MailBatch {
+  messages: RawGogMessage[];
+  /** Cursor to resume from on the next poll. Omitted when the source can't provide one. */
+  cursor?: string;
+}
+
+/**
+ * A provider that can list, rescan and fetch mail for a single account.
+ * Methods resolve to null when the provider call fails or the cursor is no
+ * longer valid — the poller treats that as "fall back to a rescan".
+ */
+export interface MailSource {
+  listChanges(cursor: string): Promise<MailBatch | null>;
+  rescan(days: number): Promise<MailBatch | null>;
+  fetchThread(threadId: string): Promise<RawGogThread | null>;
+  fetchMessage(messageId: string): Promise<RawGogMessage | null>;
+  /** Decoded bytes of one attachment; attachmentId as listed in RawGogMessage.attachments */
+  fetchAttachment(messageId: string, attachmentId: string): Promise<Buffer | null>;
+}
+
 // -- Trimmed email --
 
 export interface TrimmedEmail {
@@ -50,14 +256,38 @@ export interface TrimmedEmail {
   subject: string;
   date: string;
   body: string;
+  /** Length of the cleaned body before truncation */
+  originalLength: number;
+  /** Whether `body` was shortened to fit the trim budget */
+  truncated: boolean;
   threadLength: number;
   hasAttachments: boolean;
+  attachments: AttachmentInfo[];
+  /** Labels, categories or mailbox the source reported; absent in log lines from older releases */
+  labels?: string[];
+  cc?: string;
+  /** Mailing-list or bulk mail, judged from its headers */
+  bulk?: boolean;
+  /** The thread was started by one of the owner's accounts */
+  ownerInThread?: boolean;
 }
 
 // -- Digest entry --
 
 export type DigestStatus = "new" | "surfaced" | "deferred" | "handled" | "dismissed";
 
+/** One status change of a digest entry */
+export interface DigestHistoryEvent {
+  at: string;
+  /** null for the event that created the entry */
+  from: DigestStatus | null;
+  to: DigestStatus;
+  /** Tool name, "pipeline", "expiry", "recovery" or "auto-resolve" */
+  actor: string;
+  reason?: string;
+  deferMinutes?: number;
+}
+
 export interface DigestEntry {
   id: string;
   threadId: string;
@@ -66,35 +296,168 @@ export interface DigestEntry {
   subject: string;
   date: string;
   body: string;
+  /** Absent on entries stored before truncation was tracked */
+  originalLength?: number;
+  truncated?: boolean;
+  attachments?: AttachmentInfo[];
+  /** Trimmed text of readable attachments, each headed by "[filename]" */
+  attachmentText?: string;
   status: DigestStatus;
   firstSeenAt: string;
   surfacedAt?: string;
   deferredUntil?: string;
+  /** Deferred together with its thread; later messages in the thread join the deferral */
+  deferredWithThread?: boolean;
   resolvedAt?: string;
   dismissReason?: string;
+  /** Score from the priority stage, including any triage rule's priority; higher matters more */
+  priority?: number;
+  /** What contributed to `priority`, e.g. `VIP sender (+50)` */
+  priorityReasons?: string[];
+  /** Added by triage rules */
+  tags?: string[];
+  /** Set when a handled or dismissed entry is brought back; restarts the untriaged-expiry clock */
+  restoredAt?: string;
+  /** Append-only; absent on entries stored before transitions were recorded */
+  history?: DigestHistoryEvent[];
 }
 
 // -- Digest state file --
 
+export interface MutedThread {
+  threadId: string;
+  account: string;
+  /** Subject of the message the thread was muted from, for listing mutes */
+  subject: string;
+  mutedAt: string;
+  /** The mute lapses at this time; absent for a mute without end */
+  until?: string;
+  reason?: string;
+}
+
+export type SenderRuleAction = "always_dismiss" | "always_handle" | "always_surface";
+
+export interface SenderRule {
+  /** `<match>:<pattern>`, so one sender pattern has one rule */
+  id: string;
+  /** "address" and "domain" compare the sender address; "name" globs the display name (`*` = anything) */
+  match: "address" | "domain" | "name";
+  /** Lowercase; a domain also covers its subdomains */
+  pattern: string;
+  action: SenderRuleAction;
+  reason?: string;
+  createdAt: string;
+}
+
+/** How the owner triaged a sender's email; "autoResolved" means they replied */
+export type SenderOutcome = "handled" | "dismissed" | "deferred" | "autoResolved";
+
+/** What the owner usually does with one sender's mail, kept after digest entries are pruned */
+export interface SenderProfile {
+  /** Bare lowercase address */
+  sender: string;
+  /** Emails from this sender that entered the digest */
+  received: number;
+  /** Triage decisions by the owner (tools and replies); automatic decisions by rules, mutes and expiry are left out */
+  outcomes: Record<SenderOutcome, number>;
+  lastReceivedAt?: string;
+  lastTriagedAt?: string;
+  /** Minutes from arrival to the first decision, for the most recent emails; oldest first */
+  triageMinutes: number[];
+}
+
 export interface DigestState {
+  /** Files written before state files were versioned lack it; migration fills it in on load */
+  schemaVersion: number;
   entries: Record<string, DigestEntry>;
+  /** Keyed by `muteKey(account, threadId)`; absent in files written before threads could be muted */
+  mutedThreads?: Record<string, MutedThread>;
+  /** Keyed by rule ID; absent in files written before sender rules existed */
+  senderRules?: Record<string, SenderRule>;
+  /** Keyed by sender address; absent in files written before sender profiles existed */
+  senderProfiles?: Record<string, SenderProfile>;
 }
 
 // -- Polling state file --
 
 export interface AccountState {
+  /**
+   * Source-specific poll cursor: a Gmail historyId, "UIDVALIDITY:UIDNEXT" for
+   * IMAP, a Graph delta link for Outlook, the newest file mtime for Maildir,
+   * or a byte offset for mbox.
+   */
   historyId: string;
   lastPollAt: string;
   consecutiveFailures: number;
 }
 
 export interface PollState {
+  schemaVersion: number;
   accounts: Record<string, AccountState>;
 }
 
 // -- Email log entry (emails.jsonl) --
 
 export interface EmailLogEntry {
+  /** Stamped by the log when the line is written */
+  schemaVersion?: number;
   email: TrimmedEmail;
   timestamp: number;
 }
+
+// -- State storage --
+
+/** A state file (or part of one) that could not be read and was moved aside */
+export interface StateCorruption {
+  file: string;
+  movedTo: string;
+  reason: string;
+}
+
+export interface DigestQuery {
+  status?: DigestStatus | DigestStatus[];
+  account?: string;
+  threadId?: string;
+  /** Bare lowercase address, compared with the address in `from` */
+  sender?: string;
+}
+
+/**
+ * Backend holding digest entries. Reads and writes are synchronous against
+ * the loaded state; `save()` persists anything the backend has not written yet.
+ */
+export interface DigestStore {
+  /** Returns what was quarantined when the stored digest could not be read */
+  load(): Promise<StateCorruption | null>;
+  save(): Promise<void>;
+  /** Pick up changes another process saved since the last load or save; never quarantines */
+  refresh(): Promise<void>;
+  /** Why the last refresh could not read the stored digest, until load() recovers it; `save()` refuses meanwhile */
+  readError(): string | null;
+  get(id: string): DigestEntry | undefined;
+  put(entry: DigestEntry): void;
+  delete(id: string): void;
+  query(query?: DigestQuery): DigestEntry[];
+  getMute(threadId: string, account: string): MutedThread | undefined;
+  putMute(mute: MutedThread): void;
+  deleteMute(threadId: string, account: string): void;
+  listMutes(): MutedThread[];
+  putSenderRule(rule: SenderRule): void;
+  deleteSenderRule(id: string): void;
+  listSenderRules(): SenderRule[];
+  getSenderProfile(sender: string): SenderProfile | undefined;
+  putSenderProfile(profile: SenderProfile): void;
+  listSenderProfiles(): SenderProfile[];
+  /** Apply several changes as one unit — if `fn` throws, none of them stick */
+  transaction<T>(fn: () => T): T;
+}
+
+export interface EmailLogStore {
+  append(entry: EmailLogEntry): Promise<void>;
+  readAll(): Promise<EmailLogEntry[]>;
+  /** Move unreadable entries aside so the rest stays usable; reports what was moved */
+  recover(): Promise<StateCorruption | null>;
+  /** IDs of every logged email, without materialising the entries */
+  seenIds(): Promise<Set<string>>;
+  rotate(maxLines?: number): Promise<number>;
+}
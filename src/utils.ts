@@ -1,3 +1,5 @@
+import type { CommandRunner } from "./types.js";
+
 export function formatAge(isoDate: string): string {
   const ms = Date.now() - new Date(isoDate).getTime();
   const minutes = Math.floor(ms / 60_000);
@@ -7,3 +9,24 @@ export function formatAge(isoDate: string): string {
   const days = Math.floor(hours / 24);
   return `${days}d ago`;
 }
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const kb = bytes / 1024;
+  if (kb < 1024) return `${Math.round(kb)} KB`;
+  return `${(kb / 1024).toFixed(1)} MB`;
+}
+
+/** Bare lowercase address from a From/To header value like "Name <a@b.c>". */
+export function extractEmail(fromField: string): string {
+  const match = fromField.match(/<([^>]+)>/);
+  return (match ? match[1] : fromField).toLowerCase().trim();
+}
+
+/** Deliver a "[BetterEmail] ..." message to the agent's main session. */
+export async function alertAgent(runCommand: CommandRunner, message: string): Promise<void> {
+  await runCommand(
+    ["openclaw", "agent", "--session-id", "main", "--deliver", "--message", `[BetterEmail] ${message}`],
+    { timeoutMs: 30_000 },
+  );
+}
@@ -57,4 +57,25 @@ describe("atomicWrite", () => {
     // Content during write should be either original or updated (never partial)
     expect(["original\n", "updated\n"]).toContain(contentDuringWrite);
   });
+
+  it("writes binary content", async () => {
+    const filePath = path.join(tmpDir, "blob.bin");
+    await atomicWrite(filePath, Buffer.from([0x00, 0xff, 0x80]));
+    expect([...await fs.readFile(filePath)]).toEqual([0x00, 0xff, 0x80]);
+  });
+
+  it("refuses to replace an existing file when overwrite is false", async () => {
+    const filePath = path.join(tmpDir, "test.json");
+    await atomicWrite(filePath, "original\n");
+    await expect(atomicWrite(filePath, "clobbered\n", { overwrite: false })).rejects.toMatchObject({ code: "EEXIST" });
+    expect(await fs.readFile(filePath, "utf8")).toBe("original\n");
+    expect(await fs.readdir(tmpDir)).toEqual(["test.json"]);
+  });
+
+  it("creates a new file when overwrite is false", async () => {
+    const filePath = path.join(tmpDir, "new.txt");
+    await atomicWrite(filePath, "fresh\n", { overwrite: false });
+    expect(await fs.readFile(filePath, "utf8")).toBe("fresh\n");
+    expect(await fs.readdir(tmpDir)).toEqual(["new.txt"]);
+  });
 });
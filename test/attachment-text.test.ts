@@ -0,0 +1,159 @@
+import { describe, it, expect, vi } from "vitest";
+import * as zlib from "node:zlib";
+import {
+  attachmentTextKind,
+  csvToText,
+  extractAttachmentPreview,
+  extractAttachmentText,
+  icsToText,
+  pdfToText,
+} from "../src/attachment-text.js";
+import type { AttachmentInfo } from "../src/types.js";
+
+function makePdf(content: string, compress = true): Buffer {
+  const data = compress ? zlib.deflateSync(Buffer.from(content, "latin1")) : Buffer.from(content, "latin1");
+  const filter = compress ? " /Filter /FlateDecode" : "";
+  return Buffer.concat([
+    Buffer.from(`%PDF-1.4\n4 0 obj\n<< /Length ${data.length}${filter} >>\nstream\n`, "latin1"),
+    data,
+    Buffer.from("\nendstream\nendobj\ntrailer\n<< /Root 1 0 R >>\n%%EOF\n", "latin1"),
+  ]);
+}
+
+function info(filename: string, mimeType: string, size = 100): AttachmentInfo {
+  return { filename, mimeType, size, attachmentId: filename };
+}
+
+describe("attachmentTextKind", () => {
+  it("maps MIME types and falls back to the extension for generic types", () => {
+    expect(attachmentTextKind(info("a.bin", "text/calendar; method=REQUEST"))).toBe("ics");
+    expect(attachmentTextKind(info("Rechnung.PDF", "application/octet-stream"))).toBe("pdf");
+    expect(attachmentTextKind(info("photo.jpg", "image/jpeg"))).toBeNull();
+  });
+});
+
+describe("pdfToText", () => {
+  it("reads Tj and TJ text from Flate-compressed content streams", () => {
+    const pdf = makePdf(
+      "BT /F1 12 Tf 72 720 Td (Invoice No. 4711) Tj 0 -14 Td [(Total:) -300 (EUR 1.234,56)] TJ T* (Due \\(net 30\\)) Tj ET",
+    );
+    expect(pdfToText(pdf)).toBe("Invoice No. 4711\nTotal: EUR 1.234,56\nDue (net 30)");
+  });
+
+  it("decodes octal escapes as Windows-1252 and reads uncompressed streams", () => {
+    expect(pdfToText(makePdf("BT 72 700 Td (Gr\\374\\337e \\200 5) Tj ET", false))).toBe("Grüße € 5");
+  });
+
+  it("skips a stream that inflates past the size limit and reads the rest", () => {
+    const bombStream = zlib.deflateSync(Buffer.from("BT (zip bomb) Tj ET\n".repeat(200_000), "latin1"));
+    const pdf = Buffer.concat([
+      Buffer.from(`%PDF-1.4\n3 0 obj\n<< /Length ${bombStream.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+      bombStream,
+      Buffer.from("\nendstream\nendobj\n", "latin1"),
+      makePdf("BT 72 700 Td (Total: EUR 120) Tj ET"),
+    ]);
+    expect(pdfToText(pdf, 64 * 1024)).toBe("Total: EUR 120");
+  });
+
+  it("returns nothing for fonts it cannot map", () => {
+    expect(pdfToText(makePdf("BT 72 700 Td <0012001F0003> Tj ET"))).toBe("");
+  });
+});
+
+describe("icsToText", () => {
+  it("summarises events with unfolded and unescaped values", () => {
+    const ics = [
+      "BEGIN:VCALENDAR",
+      "METHOD:REQUEST",
+      "BEGIN:VEVENT",
+      "SUMMARY:Budget review",
+      "DTSTART;TZID=Europe/Berlin:20260302T140000",
+      "DTEND;TZID=Europe/Berlin:20260302T150000",
+      "LOCATION:Room 4\\, 2nd floor",
+      'ORGANIZER;CN="Doe, Jane":mailto:jane@example.com',
+      "DESCRIPTION:Agenda:\\n- numbers\\n- hiri",
+      " ng",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+    expect(icsToText(ics)).toBe([
+      "Event: Budget review",
+      "When: 2026-03-02 14:00 (Europe/Berlin) – 2026-03-02 15:00 (Europe/Berlin)",
+      "Where: Room 4, 2nd floor",
+      "Organizer: Doe, Jane",
+      "",
+      "Agenda:\n- numbers\n- hiring",
+    ].join("\n"));
+  });
+
+  it("marks cancellations", () => {
+    const ics = "BEGIN:VCALENDAR\nMETHOD:CANCEL\nBEGIN:VEVENT\nSUMMARY:Standup\nDTSTART:20260303T090000Z\nEND:VEVENT\nEND:VCALENDAR\n";
+    expect(icsToText(ics)).toBe("Cancelled: Standup\nWhen: 2026-03-03 09:00 UTC");
+  });
+});
+
+describe("csvToText", () => {
+  it("detects the delimiter and keeps quoted fields together", () => {
+    expect(csvToText('Item;Qty;Price\r\n"Coffee; dark";2;"3,50"\r\n\r\nTea;1;2\r\n'))
+      .toBe("Item | Qty | Price\nCoffee; dark | 2 | 3,50\nTea | 1 | 2");
+  });
+});
+
+describe("extractAttachmentText", () => {
+  it("falls back to Windows-1252 for text that is not UTF-8", () => {
+    expect(extractAttachmentText(Buffer.from([0x4a, 0xf6, 0x72, 0x67, 0x0a]), info("n.txt", "text/plain"))).toBe("Jörg");
+  });
+});
+
+describe("extractAttachmentPreview", () => {
+  const config = { enabled: true, maxBytes: 1000, maxAttachments: 2, maxChars: 400 };
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+  it("labels each preview and respects size and count limits", async () => {
+    const files: Record<string, Buffer> = {
+      "notes.txt": Buffer.from("Please sign by Friday."),
+      "big.txt": Buffer.from("x"),
+      "logo.png": Buffer.from("png"),
+      "rates.csv": Buffer.from("a,b\n1,2\n"),
+      "extra.txt": Buffer.from("never read"),
+    };
+    const fetchAttachment = vi.fn(async (_m: string, id: string) => files[id] ?? null);
+    const preview = await extractAttachmentPreview({
+      id: "msg-1",
+      account: "me@example.com",
+      attachments: [
+        info("logo.png", "image/png"),
+        info("big.txt", "text/plain", 5000),
+        info("notes.txt", "text/plain"),
+        { ...info("inline.txt", "text/plain"), inline: true },
+        info("rates.csv", "text/csv"),
+        info("extra.txt", "text/plain"),
+      ],
+    }, { fetchAttachment, config, logger });
+    expect(fetchAttachment.mock.calls.map((c) => c[1])).toEqual(["notes.txt", "rates.csv"]);
+    expect(preview).toBe("[notes.txt]\nPlease sign by Friday.\n\n[rates.csv]\na | b\n1 | 2");
+  });
+
+  it("splits maxChars between attachments and skips failed downloads", async () => {
+    const long = "The supplier confirms the revised delivery schedule for all sites. ".repeat(10);
+    const preview = await extractAttachmentPreview({
+      id: "msg-1",
+      account: "me@example.com",
+      attachments: [info("a.txt", "text/plain"), info("b.txt", "text/plain")],
+    }, {
+      fetchAttachment: async (_m, id) => (id === "a.txt" ? Buffer.from(long) : null),
+      config: { ...config, maxChars: 200 },
+      logger,
+    });
+    expect(preview!.startsWith("[a.txt]\nThe supplier")).toBe(true);
+    expect(preview!.length).toBeLessThanOrEqual("[a.txt]\n".length + 200);
+  });
+
+  it("returns undefined when nothing is readable", async () => {
+    const preview = await extractAttachmentPreview(
+      { id: "msg-1", account: "me@example.com", attachments: [info("photo.jpg", "image/jpeg")] },
+      { fetchAttachment: vi.fn(), config, logger },
+    );
+    expect(preview).toBeUndefined();
+  });
+});
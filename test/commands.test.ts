@@ -132,4 +132,18 @@ describe("createEmailsCommandHandler", () => {
     expect(result.text).toContain("Personal email");
     expect(result.text).not.toContain("No pending emails");
   });
+
+  it("lists attached files but not embedded images", () => {
+    digest.add(makeEntry({
+      subject: "Invoice",
+      attachments: [
+        { filename: "invoice.pdf", mimeType: "application/pdf", size: 48_000, attachmentId: "2" },
+        { filename: "logo.png", mimeType: "image/png", size: 900, attachmentId: "1.2", inline: true },
+      ],
+    }));
+    const result = createEmailsCommandHandler(digest)();
+    expect(result.text).toContain("Invoice from sender@example.com");
+    expect(result.text).toContain("(attached: invoice.pdf)");
+    expect(result.text).not.toContain("logo.png");
+  });
 });
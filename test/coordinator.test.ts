@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { StateCoordinator } from "../src/coordinator.js";
+import { DigestManager } from "../src/digest.js";
+import { EmailLog } from "../src/email-log.js";
+import { runPipeline, type PipelineDeps } from "../src/pipeline.js";
+import { createDeferEmailTool } from "../src/tools/defer-email.js";
+import { createDismissEmailTool } from "../src/tools/dismiss-email.js";
+import { createGetEmailDigestTool } from "../src/tools/get-email-digest.js";
+import { createMarkEmailHandledTool } from "../src/tools/mark-email-handled.js";
+import type { DigestEntry, TrimmedEmail } from "../src/types.js";
+
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => { resolve = r; });
+  return { promise, resolve };
+}
+
+/** Let pending callbacks run so concurrent operations reach their next await */
+const settle = () => new Promise((r) => setTimeout(r, 10));
+
+function makeEntry(id: string, overrides: Partial<DigestEntry> = {}): DigestEntry {
+  return {
+    id,
+    threadId: `t-${id}`,
+    account: "me@work.com",
+    from: "sender@example.com",
+    subject: `Subject ${id}`,
+    date: "2026-02-26T10:00:00Z",
+    body: "Hello",
+    status: "new",
+    firstSeenAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+function makeEmail(id: string): TrimmedEmail {
+  return {
+    id, threadId: `t-${id}`, account: "me@work.com", from: "sender@example.com", to: "me@work.com",
+    subject: `Subject ${id}`, date: "2026-02-26T10:00:00Z", body: "Hello", originalLength: 5, truncated: false,
+    threadLength: 1, hasAttachments: false, attachments: [],
+  };
+}
+
+describe("StateCoordinator", () => {
+  it("runs exclusive operations one at a time, in order", async () => {
+    const coordinator = new StateCoordinator();
+    const gate = deferred();
+    const order: string[] = [];
+    const first = coordinator.exclusive(async () => {
+      order.push("first:start");
+      await gate.promise;
+      order.push("first:end");
+    });
+    const second = coordinator.exclusive(() => { order.push("second"); });
+    await settle();
+    expect(order).toEqual(["first:start"]);
+    gate.resolve();
+    await Promise.all([first, second]);
+    expect(order).toEqual(["first:start", "first:end", "second"]);
+  });
+
+  it("keeps going after an operation fails", async () => {
+    const coordinator = new StateCoordinator();
+    await expect(coordinator.exclusive(() => { throw new Error("boom"); })).rejects.toThrow("boom");
+    expect(await coordinator.exclusive(() => 42)).toBe(42);
+  });
+
+  it("lets concurrent callers share a running operation", async () => {
+    const coordinator = new StateCoordinator();
+    const gate = deferred<string>();
+    const fn = vi.fn(() => gate.promise);
+    const a = coordinator.shared("k", fn);
+    const b = coordinator.shared("k", fn);
+    gate.resolve("done");
+    expect(await Promise.all([a, b])).toEqual(["done", "done"]);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await coordinator.shared("k", async () => "again");
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("pipeline and tools interleaved", () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  let tmpDir: string;
+  let digest: DigestManager;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "betteremail-coord-"));
+    const seed = new DigestManager(tmpDir);
+    await seed.load();
+    for (const id of ["a", "b", "c"]) seed.add(makeEntry(id));
+    await seed.save();
+    digest = new DigestManager(tmpDir);
+    await digest.load();
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  function pipelineDeps(poller: Partial<PipelineDeps["poller"]>): PipelineDeps {
+    return {
+      accounts: ["me@work.com"],
+      poller: {
+        loadState: vi.fn().mockResolvedValue(null),
+        saveState: vi.fn(),
+        pollAccount: vi.fn().mockResolvedValue({ emails: [] }),
+        recordSuccess: vi.fn(),
+        recordFailure: vi.fn().mockReturnValue(1),
+        getAccountState: vi.fn().mockReturnValue(undefined),
+        checkThreadForReply: vi.fn().mockResolvedValue(false),
+        ...poller,
+      },
+      digest,
+      emailLog: new EmailLog(tmpDir),
+      logger,
+      runCommand: vi.fn().mockResolvedValue({ code: 0 }),
+      consecutiveFailuresBeforeAlert: 3,
+    };
+  }
+
+  async function statusesOnDisk(): Promise<Record<string, string>> {
+    const reloaded = new DigestManager(tmpDir);
+    await reloaded.load();
+    return Object.fromEntries(reloaded.getByStatus("all").map((e) => [e.id, e.status]));
+  }
+
+  it("keeps decisions made while a slow poll is in flight", async () => {
+    const poll = deferred<{ emails: TrimmedEmail[]; historyId: string }>();
+    const deps = pipelineDeps({ pollAccount: vi.fn(() => poll.promise) });
+    const run = runPipeline(deps);
+    await settle();
+    expect(deps.poller.pollAccount).toHaveBeenCalled();
+
+    const results = await Promise.all([
+      createDismissEmailTool(digest).execute("1", { messageId: "a", reason: "spam" }),
+      createDeferEmailTool(digest).execute("2", { messageId: "b", minutes: 60 }),
+      createMarkEmailHandledTool(digest).execute("3", { messageId: "c" }),
+    ]);
+    expect(results.map((r) => r.content[0].text)).toEqual([
+      expect.stringContaining("Dismissed"),
+      expect.stringContaining("Deferred"),
+      expect.stringContaining("as handled"),
+    ]);
+
+    poll.resolve({ emails: [makeEmail("d")], historyId: "h2" });
+    await run;
+
+    expect(await statusesOnDisk()).toEqual({ a: "dismissed", b: "deferred", c: "handled", d: "new" });
+  });
+
+  it("does not reload the digest underneath a tool's save", async () => {
+    const dismissing = createDismissEmailTool(digest).execute("1", { messageId: "a" });
+    const run = runPipeline(pipelineDeps({}));
+    await Promise.all([dismissing, run]);
+
+    expect(digest.get("a")?.status).toBe("dismissed");
+    expect((await statusesOnDisk()).a).toBe("dismissed");
+  });
+
+  it("applies a tool call made while the pipeline reloads state after the reload", async () => {
+    const reload = deferred<null>();
+    const deps = pipelineDeps({ loadState: vi.fn(() => reload.promise) });
+    const run = runPipeline(deps);
+    await settle();
+
+    const dismissing = createDismissEmailTool(digest).execute("1", { messageId: "a" });
+    await settle();
+    reload.resolve(null);
+    await Promise.all([run, dismissing]);
+
+    expect(digest.get("a")?.status).toBe("dismissed");
+    expect((await statusesOnDisk()).a).toBe("dismissed");
+  });
+
+  it("does not auto-resolve an email dismissed while its thread was being checked", async () => {
+    const check = deferred<boolean>();
+    const deps = pipelineDeps({
+      checkThreadForReply: vi.fn((threadId: string) => threadId === "t-a" ? check.promise : Promise.resolve(false)),
+    });
+    const run = runPipeline(deps);
+    await settle();
+
+    await createDismissEmailTool(digest).execute("1", { messageId: "a", reason: "not for me" });
+    check.resolve(true);
+    await run;
+
+    expect(digest.get("a")).toMatchObject({ status: "dismissed", dismissReason: "not for me" });
+    expect(logger.info).not.toHaveBeenCalledWith(expect.stringContaining("auto-resolved a"));
+  });
+
+  it("shares one auto-resolve pass between the poll and get_email_digest", async () => {
+    const check = deferred<boolean>();
+    const checkThreadForReply = vi.fn(() => check.promise);
+    const deps = pipelineDeps({ checkThreadForReply });
+    const run = runPipeline(deps);
+    await settle();
+
+    const tool = createGetEmailDigestTool(digest, undefined, { accounts: ["me@work.com"], checkThreadForReply });
+    const reading = tool.execute("1", {});
+    await settle();
+    check.resolve(true);
+    const [result] = await Promise.all([reading, run]);
+
+    expect(checkThreadForReply).toHaveBeenCalledTimes(3);
+    expect(JSON.parse(result.content[0].text).total).toBe(0);
+    expect(await statusesOnDisk()).toEqual({ a: "handled", b: "handled", c: "handled" });
+  });
+
+  it("joins overlapping pipeline runs", async () => {
+    const poll = deferred<{ emails: TrimmedEmail[] }>();
+    const deps = pipelineDeps({ pollAccount: vi.fn(() => poll.promise) });
+    const first = runPipeline(deps);
+    const second = runPipeline(deps);
+    poll.resolve({ emails: [] });
+    await Promise.all([first, second]);
+    expect(deps.poller.pollAccount).toHaveBeenCalledTimes(1);
+  });
+});
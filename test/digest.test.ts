@@ -90,6 +90,54 @@ describe("DigestManager", () => {
     expect(digest.get("msg-1")?.status).toBe("deferred");
   });
 
+  it("records each transition with its actor", () => {
+    digest.add(makeEntry());
+    digest.markSurfaced("msg-1");
+    digest.defer("msg-1", 30);
+    digest.get("msg-1")!.deferredUntil = new Date(Date.now() - 1_000).toISOString();
+    digest.expireDeferrals();
+    digest.dismiss("msg-1", "newsletter");
+
+    const history = digest.get("msg-1")!.history!;
+    expect(history.map(({ from, to, actor }) => ({ from, to, actor }))).toEqual([
+      { from: null, to: "new", actor: "pipeline" },
+      { from: "new", to: "surfaced", actor: "get_email_digest" },
+      { from: "surfaced", to: "deferred", actor: "defer_email" },
+      { from: "deferred", to: "new", actor: "expiry" },
+      { from: "new", to: "dismissed", actor: "dismiss_email" },
+    ]);
+    expect(history[2].deferMinutes).toBe(30);
+    expect(history[3].reason).toBe("deferral ended");
+    expect(history[4].reason).toBe("newsletter");
+    expect(history.every((e) => !Number.isNaN(Date.parse(e.at)))).toBe(true);
+  });
+
+  it("records auto-expiry and keeps history on entries that already have it", () => {
+    const old = new Date(Date.now() - 20 * 24 * 60 * 60 * 1000).toISOString();
+    digest.add(makeEntry({ firstSeenAt: old }), { actor: "recovery" });
+    digest.expireStale(14);
+    expect(digest.get("msg-1")!.history).toEqual([
+      expect.objectContaining({ from: null, to: "new", actor: "recovery" }),
+      expect.objectContaining({ from: "new", to: "dismissed", actor: "expiry", reason: "auto-expired: not triaged within 14 days" }),
+    ]);
+
+    digest.add({ ...digest.get("msg-1")! });
+    expect(digest.get("msg-1")!.history).toHaveLength(2);
+  });
+
+  it("restores a dismissed entry and restarts its expiry clock", () => {
+    const old = new Date(Date.now() - 20 * 24 * 60 * 60 * 1000).toISOString();
+    digest.add(makeEntry({ firstSeenAt: old }));
+    digest.expireStale(14);
+    digest.restore("msg-1", "surfaced");
+
+    const entry = digest.get("msg-1")!;
+    expect(entry).toMatchObject({ status: "surfaced", resolvedAt: undefined, dismissReason: undefined });
+    expect(entry.surfacedAt).toBeDefined();
+    expect(entry.history!.at(-1)).toMatchObject({ from: "dismissed", to: "surfaced", actor: "restore_email" });
+    expect(digest.expireStale(14)).toBe(0);
+  });
+
   it("groups entries by account", () => {
     digest.add(makeEntry({ id: "msg-1", account: "work@co.com" }));
     digest.add(makeEntry({ id: "msg-2", account: "personal@gmail.com" }));
@@ -131,6 +179,40 @@ describe("DigestManager", () => {
     expect(files).toEqual(["digest.json"]);
   });
 
+  it("exclusive starts from what another process saved", async () => {
+    digest.add(makeEntry({ id: "msg-1" }));
+    digest.add(makeEntry({ id: "msg-2" }));
+    await digest.save();
+
+    // A second process holding its own copy of the same digest
+    const other = new DigestManager(tmpDir);
+    await other.load();
+    await other.exclusive(async () => {
+      other.dismiss("msg-1", "spam");
+      await other.save();
+    });
+
+    await digest.exclusive(async () => {
+      digest.markHandled("msg-2");
+      await digest.save();
+    });
+
+    const reloaded = new DigestManager(tmpDir);
+    await reloaded.load();
+    expect(reloaded.get("msg-1")?.status).toBe("dismissed");
+    expect(reloaded.get("msg-2")?.status).toBe("handled");
+  });
+
+  it("refresh keeps the loaded digest when the file is half-written", async () => {
+    digest.add(makeEntry());
+    await digest.save();
+    await fs.writeFile(path.join(tmpDir, "digest.json"), '{"schemaVersion": 1, "entr');
+
+    await digest.refresh();
+    expect(digest.has("msg-1")).toBe(true);
+    expect(await fs.readdir(tmpDir)).toEqual(["digest.json"]);
+  });
+
   it("concurrent saves do not corrupt data", async () => {
     digest.add(makeEntry({ id: "msg-1" }));
     // Fire multiple saves concurrently
@@ -229,4 +311,20 @@ describe("DigestManager", () => {
     const pruned = digest.prune(30);
     expect(pruned).toBe(0);
   });
+
+  it("ownerRepliedTo finds senders of emails auto-resolved by a reply", () => {
+    digest.add(makeEntry({ id: "msg-1", from: "Alice <alice@example.com>" }));
+    digest.add(makeEntry({ id: "msg-2", from: "bob@example.com" }));
+    digest.markHandled("msg-1", { actor: "auto-resolve", reason: "owner replied in thread" });
+    digest.markHandled("msg-2");
+
+    expect(digest.ownerRepliedTo("alice@example.com")).toBe(true);
+    expect(digest.ownerRepliedTo("bob@example.com")).toBe(false);
+
+    // Still known once the resolved entry itself has been pruned
+    const resolvedAt = new Date(Date.now() - 40 * 24 * 60 * 60_000).toISOString();
+    digest.add({ ...digest.get("msg-1")!, resolvedAt }, { actor: "user" });
+    expect(digest.prune(30)).toBe(1);
+    expect(digest.ownerRepliedTo("alice@example.com")).toBe(true);
+  });
 });
@@ -75,4 +75,39 @@ describe("EmailLog", () => {
     // Only the emails.jsonl file should remain (no .tmp files)
     expect(files.every((f) => !f.endsWith(".tmp"))).toBe(true);
   });
+
+  it("keeps its parsed copy in step with its own appends and picks up other writers", async () => {
+    await log.append({ email: makeTrimmedEmail({ id: "msg-1" }), timestamp: 1 });
+    expect(await log.seenIds()).toEqual(new Set(["msg-1"]));
+    await log.append({ email: makeTrimmedEmail({ id: "msg-2" }), timestamp: 2 });
+    expect(await log.seenIds()).toEqual(new Set(["msg-1", "msg-2"]));
+
+    await new EmailLog(tmpDir).append({ email: makeTrimmedEmail({ id: "msg-3" }), timestamp: 3 });
+    expect((await log.readAll()).map((e) => e.email.id)).toEqual(["msg-1", "msg-2", "msg-3"]);
+  });
+
+  it("reads past a torn line without touching the file", async () => {
+    await log.append({ email: makeTrimmedEmail({ id: "msg-1" }), timestamp: 1 });
+    await fs.appendFile(path.join(tmpDir, "emails.jsonl"), '{"email": {"id": "torn"');
+    const before = await fs.readFile(path.join(tmpDir, "emails.jsonl"), "utf8");
+
+    expect(await log.seenIds()).toEqual(new Set(["msg-1"]));
+    expect((await log.readAll()).map((e) => e.email.id)).toEqual(["msg-1"]);
+    expect(await fs.readFile(path.join(tmpDir, "emails.jsonl"), "utf8")).toBe(before);
+    expect(await fs.readdir(tmpDir)).toEqual(["emails.jsonl"]);
+  });
+
+  it("keeps readable lines and moves a torn one aside", async () => {
+    await log.append({ email: makeTrimmedEmail({ id: "msg-1" }), timestamp: 1 });
+    await fs.appendFile(path.join(tmpDir, "emails.jsonl"), '{"email": {"id": "torn"');
+
+    const corruption = await log.recover();
+    expect(corruption).toMatchObject({ reason: "1 unreadable line(s)" });
+    expect(await fs.readFile(corruption!.movedTo, "utf8")).toBe('{"email": {"id": "torn"\n');
+
+    // The next append starts on a fresh line instead of joining the torn one
+    await log.append({ email: makeTrimmedEmail({ id: "msg-2" }), timestamp: 2 });
+    expect(await log.seenIds()).toEqual(new Set(["msg-1", "msg-2"]));
+    expect(await log.recover()).toBeNull();
+  });
 });
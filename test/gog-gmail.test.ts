@@ -0,0 +1,165 @@
+import { describe, it, expect, vi } from "vitest";
+import { GogGmailSource, extractHistoryId, parseGogMessages, parseGogThread } from "../src/sources/gog-gmail.js";
+
+describe("parseGogMessages", () => {
+  it("parses gog JSON output into RawGogMessage array", () => {
+    const raw = JSON.stringify([
+      { id: "msg-1", threadId: "t-1", subject: "Hello", from: "sender@test.com", date: "2026-02-26" },
+    ]);
+    const result = parseGogMessages(raw);
+    expect(result).toHaveLength(1);
+    expect(result[0].id).toBe("msg-1");
+  });
+
+  it("handles empty output", () => {
+    expect(parseGogMessages("")).toEqual([]);
+    expect(parseGogMessages("[]")).toEqual([]);
+  });
+
+  it("handles single object (not array)", () => {
+    const raw = JSON.stringify({ id: "msg-1", threadId: "t-1" });
+    const result = parseGogMessages(raw);
+    expect(result).toHaveLength(1);
+  });
+
+  it("unwraps gog envelope { messages: [...] }", () => {
+    const raw = JSON.stringify({
+      messages: [
+        { id: "msg-1", threadId: "t-1", subject: "Hello" },
+        { id: "msg-2", threadId: "t-2", subject: "World" },
+      ],
+      nextPageToken: "abc",
+    });
+    const result = parseGogMessages(raw);
+    expect(result).toHaveLength(2);
+    expect(result[0].id).toBe("msg-1");
+    expect(result[1].id).toBe("msg-2");
+  });
+});
+
+describe("parseGogThread", () => {
+  it("parses valid thread JSON", () => {
+    const raw = JSON.stringify({
+      id: "t-1",
+      messages: [{ id: "msg-1", threadId: "t-1", from: "test@test.com" }],
+    });
+    const result = parseGogThread(raw);
+    expect(result).not.toBeNull();
+    expect(result!.id).toBe("t-1");
+    expect(result!.messages).toHaveLength(1);
+  });
+
+  it("returns null for invalid input", () => {
+    expect(parseGogThread("")).toBeNull();
+    expect(parseGogThread("garbage")).toBeNull();
+    expect(parseGogThread(JSON.stringify({ id: "t-1" }))).toBeNull(); // missing messages
+  });
+});
+
+describe("extractHistoryId", () => {
+  it("extracts historyId from a valid gog history response", () => {
+    const response = JSON.stringify({
+      historyId: "12345",
+      messages: [{ id: "msg-1" }],
+    });
+    expect(extractHistoryId(response)).toBe("12345");
+  });
+
+  it("returns undefined for an array response (no top-level historyId)", () => {
+    const response = JSON.stringify([{ id: "msg-1" }]);
+    expect(extractHistoryId(response)).toBeUndefined();
+  });
+
+  it("returns undefined for empty or whitespace input", () => {
+    expect(extractHistoryId("")).toBeUndefined();
+    expect(extractHistoryId("   ")).toBeUndefined();
+  });
+
+  it("returns undefined for invalid JSON", () => {
+    expect(extractHistoryId("not json")).toBeUndefined();
+  });
+
+  it("returns undefined when historyId is not a string", () => {
+    const response = JSON.stringify({ historyId: 12345 });
+    expect(extractHistoryId(response)).toBeUndefined();
+  });
+
+  it("returns undefined for an object without historyId", () => {
+    const response = JSON.stringify({ id: "msg-1", threadId: "t-1" });
+    expect(extractHistoryId(response)).toBeUndefined();
+  });
+});
+
+describe("GogGmailSource", () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+  function makeSource(result: { code: number; stdout?: string; stderr?: string }) {
+    const runCommand = vi.fn().mockResolvedValue(result);
+    return { runCommand, source: new GogGmailSource("me@gmail.com", runCommand, logger) };
+  }
+
+  it("lists changes via gog gmail history and returns the new historyId", async () => {
+    const { runCommand, source } = makeSource({
+      code: 0,
+      stdout: JSON.stringify({ historyId: "200", messages: [{ id: "msg-1", threadId: "t-1" }] }),
+    });
+    const batch = await source.listChanges("100");
+    expect(runCommand).toHaveBeenCalledWith(
+      ["gog", "gmail", "history", "--since", "100", "--account", "me@gmail.com", "--json"],
+      { timeoutMs: 30_000 },
+    );
+    expect(batch?.messages).toHaveLength(1);
+    expect(batch?.cursor).toBe("200");
+  });
+
+  it("rescans via gog gmail messages search without a cursor", async () => {
+    const { runCommand, source } = makeSource({
+      code: 0,
+      stdout: JSON.stringify([{ id: "msg-1", threadId: "t-1" }]),
+    });
+    const batch = await source.rescan(7);
+    expect(runCommand.mock.calls[0][0]).toEqual([
+      "gog", "gmail", "messages", "search", "newer_than:7d",
+      "--account", "me@gmail.com", "--json", "--include-body",
+    ]);
+    expect(batch?.messages).toHaveLength(1);
+    expect(batch?.cursor).toBeUndefined();
+  });
+
+  it("fetches a thread", async () => {
+    const { runCommand, source } = makeSource({
+      code: 0,
+      stdout: JSON.stringify({ id: "t-1", messages: [{ id: "msg-1", threadId: "t-1" }] }),
+    });
+    const thread = await source.fetchThread("t-1");
+    expect(runCommand.mock.calls[0][0]).toEqual(["gog", "gmail", "thread", "get", "t-1", "--account", "me@gmail.com", "--json"]);
+    expect(thread?.messages).toHaveLength(1);
+  });
+
+  it("fetches a single message", async () => {
+    const { source } = makeSource({ code: 0, stdout: JSON.stringify({ id: "msg-1", threadId: "t-1" }) });
+    const msg = await source.fetchMessage("msg-1");
+    expect(msg?.id).toBe("msg-1");
+  });
+
+  it("fetches attachment bytes through a scratch file", async () => {
+    const runCommand = vi.fn(async (args: string[]) => {
+      const { writeFile } = await import("node:fs/promises");
+      await writeFile(args[args.indexOf("--out") + 1], Buffer.from([0x25, 0x50, 0x44, 0x46]));
+      return { code: 0, stdout: "" };
+    });
+    const source = new GogGmailSource("me@gmail.com", runCommand, logger);
+    const data = await source.fetchAttachment("msg-1", "att-1");
+    expect(runCommand.mock.calls[0][0].slice(0, 7)).toEqual(["gog", "gmail", "attachment", "msg-1", "att-1", "--account", "me@gmail.com"]);
+    expect(data?.toString()).toBe("%PDF");
+  });
+
+  it("returns null when gog exits non-zero", async () => {
+    const { source } = makeSource({ code: 1, stderr: "auth expired" });
+    expect(await source.listChanges("100")).toBeNull();
+    expect(await source.rescan(7)).toBeNull();
+    expect(await source.fetchThread("t-1")).toBeNull();
+    expect(await source.fetchMessage("msg-1")).toBeNull();
+    expect(await source.fetchAttachment("msg-1", "att-1")).toBeNull();
+  });
+});
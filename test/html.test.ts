@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { decodeEntities, htmlToText, looksLikeHtml, renderHtml } from "../src/html.js";
+
+describe("decodeEntities", () => {
+  it("decodes named entities beyond the basic five", () => {
+    expect(decodeEntities("Gr&uuml;&szlig;e &ndash; caf&eacute; &euro;5 &hellip; &copy;")).toBe("Grüße – café €5 … ©");
+  });
+
+  it("decodes decimal and hex references", () => {
+    expect(decodeEntities("&#233;&#xE9;&#X1F600;")).toBe("éé😀");
+  });
+
+  it("reads &#128;–&#159; as Windows-1252", () => {
+    expect(decodeEntities("&#147;quoted&#148; &#150; &#128;")).toBe("“quoted” – €");
+  });
+
+  it("leaves unknown names and stray ampersands alone", () => {
+    expect(decodeEntities("R&D &bogus; a && b")).toBe("R&D &bogus; a && b");
+  });
+
+  it("decodes the whole WHATWG table, multi-character references included", () => {
+    expect(decodeEntities("a&NewLine;b &check; &rarrw; &CounterClockwiseContourIntegral; &nvlt; &Afr;")).toBe("a\nb ✓ ↝ ∳ <\u20D2 \u{1D504}");
+    expect(decodeEntities("&constructor; &hellip")).toBe("&constructor; &hellip");
+  });
+
+  it("accepts legacy entities without a semicolon", () => {
+    expect(decodeEntities("?a=1&amp=2&nbsp")).toBe("?a=1&=2 ");
+    expect(decodeEntities("&Eacutex &notit; &ampx;")).toBe("Éx ¬it; &x;");
+  });
+
+  it("leaves bare legacy names in attribute values when a letter, digit or = follows", () => {
+    expect(renderHtml('<a href="https://x.com/?a=1&copy=2&amp;b=3&reg">Link</a>').links).toEqual(["https://x.com/?a=1&copy=2&b=3®"]);
+  });
+});
+
+describe("looksLikeHtml", () => {
+  it("detects markup but not plain text with angle brackets", () => {
+    expect(looksLikeHtml("<div>Hi</div>")).toBe(true);
+    expect(looksLikeHtml("<!DOCTYPE html><html>")).toBe(true);
+    expect(looksLikeHtml("Write to <bob@example.com> if x < y")).toBe(false);
+  });
+});
+
+describe("htmlToText", () => {
+  it("drops head, style, script and comments", () => {
+    const html = [
+      "<html><head><title>Newsletter</title><style>.btn { color: red; } @media (max-width: 600px) { td { display: block } }</style></head>",
+      "<body><!--[if mso]><table><tr><td><![endif]-->",
+      "<script>track();</script><p>Visible text</p></body></html>",
+    ].join("\n");
+    expect(htmlToText(html)).toBe("Visible text");
+  });
+
+  it("drops hidden preheaders and their nested markup", () => {
+    const html = '<div style="display:none;max-height:0;overflow:hidden">Preview <b>text</b> here&zwnj;&nbsp;&#847;</div><p>Body</p>';
+    expect(htmlToText(html)).toBe("Body");
+  });
+
+  it("drops elements with the hidden attribute or mso-hide", () => {
+    expect(htmlToText('<p hidden>no</p><span style="mso-hide: all">no</span><p>yes</p>')).toBe("yes");
+  });
+
+  it("keeps paragraph and line breaks", () => {
+    expect(htmlToText("<p>First paragraph</p><p>Second<br>line two</p><div>Third</div>"))
+      .toBe("First paragraph\n\nSecond\nline two\n\nThird");
+  });
+
+  it("collapses source whitespace but keeps spaces between inline elements", () => {
+    expect(htmlToText("<p>Hello\n   <b>dear</b>\n  <i>reader</i>!</p>")).toBe("Hello dear reader!");
+  });
+
+  it("renders lists as bullets and numbered items", () => {
+    expect(htmlToText("<p>Agenda:</p><ul><li>Budget</li><li>Hiring<ol><li>Backend</li><li>Design</li></ol></li></ul><p>Done</p>"))
+      .toBe("Agenda:\n\n- Budget\n- Hiring\n  1. Backend\n  2. Design\n\nDone");
+  });
+
+  it("renders table rows with separated cells", () => {
+    const html = "<table><tr><th>Item</th><th>Price</th></tr><tr><td>Coffee</td><td>&euro;3</td></tr></table>";
+    expect(htmlToText(html)).toBe("Item | Price\nCoffee | €3");
+  });
+
+  it("puts link targets in numbered footnotes", () => {
+    const html = '<p>Read the <a href="https://example.com/report?a=1&amp;b=2">report</a> or <a href="https://example.com/faq">FAQ</a>. Again: <a href="https://example.com/report?a=1&amp;b=2">report</a></p>';
+    expect(htmlToText(html)).toBe(
+      "Read the report[1] or FAQ[2]. Again: report[1]\n\n[1] https://example.com/report?a=1&b=2\n[2] https://example.com/faq",
+    );
+  });
+
+  it("skips footnotes for bare URLs, mailto repeats, anchors and image-only links", () => {
+    const html = '<p><a href="https://example.com">https://example.com</a> <a href="mailto:a@b.c">a@b.c</a> <a href="#top">top</a> <a href="https://t.co/x"><img src="x.png"></a></p>';
+    expect(renderHtml(html)).toEqual({ text: "https://example.com a@b.c top", links: [] });
+  });
+
+  it("uses image alt text", () => {
+    expect(htmlToText('<p><img src="logo.png" alt="ACME"> Weekly</p>')).toBe("ACME Weekly");
+  });
+
+  it("quotes blockquotes", () => {
+    expect(htmlToText("<p>Sounds good.</p><blockquote><p>Can we meet?</p></blockquote>")).toBe("Sounds good.\n\n> Can we meet?");
+  });
+
+  it("keeps preformatted whitespace", () => {
+    expect(htmlToText("<p>Output:</p><pre>a  b\n\n  c</pre>")).toBe("Output:\n\na  b\n\n  c");
+  });
+});
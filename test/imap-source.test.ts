@@ -0,0 +1,351 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as net from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import { ImapSource, formatImapCursor, parseImapCursor } from "../src/sources/imap.js";
+import { ImapClient } from "../src/sources/imap-client.js";
+import { resolveAccount } from "../src/sources/index.js";
+import { resolveSecret } from "../src/sources/credentials.js";
+import { Poller } from "../src/poller.js";
+import { DigestManager } from "../src/digest.js";
+import { EmailLog } from "../src/email-log.js";
+import { runPipeline } from "../src/pipeline.js";
+import type { ImapAccountConfig } from "../src/types.js";
+
+interface FakeMailbox {
+  uidValidity: number;
+  messages: { uid: number; raw: string }[];
+}
+
+function rawMessage(opts: {
+  id: string; from: string; to?: string; subject: string; date: string; body: string;
+  inReplyTo?: string; references?: string[];
+}): string {
+  const headers = [
+    `Message-ID: <${opts.id}>`,
+    `From: ${opts.from}`,
+    `To: ${opts.to ?? "me@fastmail.com"}`,
+    `Subject: ${opts.subject}`,
+    `Date: ${opts.date}`,
+  ];
+  if (opts.inReplyTo) headers.push(`In-Reply-To: <${opts.inReplyTo}>`);
+  if (opts.references) headers.push(`References: ${opts.references.map((r) => `<${r}>`).join("\r\n ")}`);
+  return headers.join("\r\n") + "\r\n\r\n" + opts.body + "\r\n";
+}
+
+/** In-process IMAP server implementing the handful of commands ImapClient sends. */
+async function startFakeImap(mailboxes: Record<string, FakeMailbox>, password = "secret") {
+  const commands: string[] = [];
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    let selected: FakeMailbox | undefined;
+    let pending = "";
+    socket.write("* OK fake IMAP ready\r\n");
+    socket.on("data", (chunk) => {
+      pending += chunk.toString("utf8");
+      let eol: number;
+      while ((eol = pending.indexOf("\r\n")) >= 0) {
+        const line = pending.slice(0, eol);
+        pending = pending.slice(eol + 2);
+        const [tag, ...rest] = line.split(" ");
+        const command = rest.join(" ");
+        commands.push(command);
+        const quoted = [...command.matchAll(/"((?:[^"\\]|\\.)*)"/g)].map((m) => m[1].replace(/\\(.)/g, "$1"));
+
+        if (/^LOGIN /i.test(command)) {
+          socket.write(quoted[1] === password ? `${tag} OK logged in\r\n` : `${tag} NO [AUTHENTICATIONFAILED] bad credentials\r\n`);
+        } else if (/^EXAMINE /i.test(command)) {
+          selected = mailboxes[quoted[0]];
+          if (!selected) {
+            socket.write(`${tag} NO no such mailbox\r\n`);
+            continue;
+          }
+          const uidNext = Math.max(0, ...selected.messages.map((m) => m.uid)) + 1;
+          socket.write(
+            `* ${selected.messages.length} EXISTS\r\n` +
+            `* OK [UIDVALIDITY ${selected.uidValidity}] UIDs valid\r\n` +
+            `* OK [UIDNEXT ${uidNext}] predicted next UID\r\n` +
+            `${tag} OK [READ-ONLY] EXAMINE completed\r\n`,
+          );
+        } else if (/^UID SEARCH /i.test(command) && selected) {
+          const range = /UID (\d+):\*/.exec(command);
+          let uids: number[];
+          if (range) {
+            const all = selected.messages.map((m) => m.uid);
+            uids = all.filter((uid) => uid >= Number(range[1]));
+            if (uids.length === 0 && all.length > 0) uids = [Math.max(...all)];
+          } else if (/HEADER/i.test(command)) {
+            uids = selected.messages
+              .filter((m) => quoted.some((q) => m.raw.split("\r\n\r\n")[0].includes(q)))
+              .map((m) => m.uid);
+          } else {
+            uids = selected.messages.map((m) => m.uid);
+          }
+          socket.write(`* SEARCH ${uids.join(" ")}\r\n${tag} OK SEARCH completed\r\n`);
+        } else if (/^UID FETCH /i.test(command) && selected) {
+          const wanted = new Set(command.split(" ")[2].split(",").map(Number));
+          selected.messages.forEach((m, i) => {
+            if (!wanted.has(m.uid)) return;
+            socket.write(`* ${i + 1} FETCH (UID ${m.uid} BODY[] {${Buffer.byteLength(m.raw)}}\r\n${m.raw})\r\n`);
+          });
+          socket.write(`${tag} OK FETCH completed\r\n`);
+        } else if (/^LOGOUT/i.test(command)) {
+          socket.end(`* BYE logging out\r\n${tag} OK LOGOUT completed\r\n`);
+        } else {
+          socket.write(`${tag} BAD unknown command\r\n`);
+        }
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const port = (server.address() as net.AddressInfo).port;
+  const drop = () => {
+    for (const socket of sockets) socket.destroy();
+  };
+  // Sources keep their session open between calls, which would hold server.close() up
+  const close = () => new Promise<void>((resolve) => {
+    drop();
+    server.close(() => resolve());
+  });
+  return { server, port, commands, drop, close };
+}
+
+describe("IMAP cursor", () => {
+  it("round-trips UIDVALIDITY:UIDNEXT", () => {
+    expect(parseImapCursor(formatImapCursor(42, 7))).toEqual({ uidValidity: 42, uidNext: 7 });
+  });
+
+  it("rejects non-IMAP cursors such as Gmail history IDs", () => {
+    expect(parseImapCursor("12345")).toBeNull();
+  });
+});
+
+describe("ImapClient.connect", () => {
+  it("gives up on a TLS handshake that never completes and closes the socket", async () => {
+    let serverClosed!: Promise<void>;
+    // Accepts the TCP connection but never answers the ClientHello
+    const server = net.createServer((sock) => {
+      serverClosed = new Promise((resolve) => sock.on("close", () => resolve()));
+      sock.resume();
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as net.AddressInfo;
+    try {
+      await expect(ImapClient.connect({ host: "127.0.0.1", port, tls: true, timeoutMs: 200 }))
+        .rejects.toThrow(`IMAP connection to 127.0.0.1:${port} timed out`);
+      await serverClosed;
+    } finally {
+      server.close();
+    }
+  });
+});
+
+describe("resolveAccount (imap)", () => {
+  it("applies defaults for port, TLS, username and mailboxes", () => {
+    expect(resolveAccount({
+      email: "me@fastmail.com", source: "imap", host: "imap.fastmail.com", password: { env: "FASTMAIL_PASSWORD" },
+    })).toEqual({
+      source: "imap", email: "me@fastmail.com", host: "imap.fastmail.com", port: 993, tls: true,
+      username: "me@fastmail.com", password: { env: "FASTMAIL_PASSWORD" }, mailbox: "INBOX", sentMailbox: "Sent",
+    });
+  });
+
+  it("rejects IMAP accounts without host or credential reference, naming what is missing", () => {
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    expect(resolveAccount({ email: "me@fastmail.com", source: "imap", host: "imap.fastmail.com" }, logger)).toBeNull();
+    expect(resolveAccount({ email: "me@fastmail.com", source: "imap", password: { env: "X" } }, logger)).toBeNull();
+    expect(logger.warn.mock.calls.map(([message]) => message)).toEqual([
+      "betteremail: ignoring imap account me@fastmail.com: missing password",
+      "betteremail: ignoring imap account me@fastmail.com: missing host",
+    ]);
+  });
+});
+
+describe("resolveSecret", () => {
+  it("reads from an environment variable", async () => {
+    process.env.BETTEREMAIL_TEST_SECRET = "hunter2";
+    expect(await resolveSecret({ env: "BETTEREMAIL_TEST_SECRET" }, vi.fn())).toBe("hunter2");
+    delete process.env.BETTEREMAIL_TEST_SECRET;
+  });
+
+  it("reads from a command's stdout", async () => {
+    const runCommand = vi.fn().mockResolvedValue({ code: 0, stdout: "s3cret\n" });
+    expect(await resolveSecret({ command: ["pass", "show", "mail"] }, runCommand)).toBe("s3cret");
+    expect(runCommand).toHaveBeenCalledWith(["pass", "show", "mail"], { timeoutMs: 10_000 });
+  });
+
+  it("throws when the variable is missing", async () => {
+    await expect(resolveSecret({ env: "BETTEREMAIL_MISSING_SECRET" }, vi.fn())).rejects.toThrow("not set");
+  });
+});
+
+describe("ImapSource", () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  let fake: Awaited<ReturnType<typeof startFakeImap>>;
+  let mailboxes: Record<string, FakeMailbox>;
+  let config: ImapAccountConfig;
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    process.env.BETTEREMAIL_IMAP_PASSWORD = "secret";
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "betteremail-imap-"));
+    mailboxes = {
+      INBOX: {
+        uidValidity: 1001,
+        messages: [
+          { uid: 1, raw: rawMessage({ id: "a1@example.com", from: "Alice <alice@example.com>", subject: "Lunch?", date: "Thu, 26 Feb 2026 10:00:00 +0000", body: "Are you free for lunch?" }) },
+          { uid: 2, raw: rawMessage({ id: "b1@example.com", from: "bob@example.com", subject: "Invoice", date: "Thu, 26 Feb 2026 11:00:00 +0000", body: "Invoice attached." }) },
+        ],
+      },
+      Sent: {
+        uidValidity: 2002,
+        messages: [
+          { uid: 1, raw: rawMessage({ id: "r1@fastmail.com", from: "Me <me@fastmail.com>", to: "alice@example.com", subject: "Re: Lunch?", date: "Thu, 26 Feb 2026 10:30:00 +0000", body: "Sure!", inReplyTo: "a1@example.com", references: ["a1@example.com"] }) },
+        ],
+      },
+    };
+    fake = await startFakeImap(mailboxes);
+    config = {
+      source: "imap", email: "me@fastmail.com", host: "127.0.0.1", port: fake.port, tls: false,
+      username: "me@fastmail.com", password: { env: "BETTEREMAIL_IMAP_PASSWORD" }, mailbox: "INBOX", sentMailbox: "Sent",
+    };
+  });
+
+  afterEach(async () => {
+    delete process.env.BETTEREMAIL_IMAP_PASSWORD;
+    await fake.close();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("rescans the inbox and returns a UIDVALIDITY:UIDNEXT cursor", async () => {
+    const source = new ImapSource(config, vi.fn(), logger);
+    const batch = await source.rescan(7);
+    expect(batch?.cursor).toBe("1001:3");
+    expect(batch?.messages.map((m) => m.id)).toEqual(["a1@example.com", "b1@example.com"]);
+    expect(batch?.messages[0]).toMatchObject({
+      threadId: "a1@example.com",
+      from: "Alice <alice@example.com>",
+      subject: "Lunch?",
+      date: "2026-02-26T10:00:00.000Z",
+      labels: ["INBOX"],
+    });
+    expect(fake.commands.some((c) => /^UID SEARCH SINCE \d+-\w{3}-\d{4}$/.test(c))).toBe(true);
+  });
+
+  it("lists only messages at or above the saved UIDNEXT", async () => {
+    const source = new ImapSource(config, vi.fn(), logger);
+    mailboxes.INBOX.messages.push({
+      uid: 3,
+      raw: rawMessage({ id: "c1@example.com", from: "carol@example.com", subject: "New", date: "Thu, 26 Feb 2026 12:00:00 +0000", body: "Hi" }),
+    });
+    const batch = await source.listChanges("1001:3");
+    expect(batch?.messages.map((m) => m.id)).toEqual(["c1@example.com"]);
+    expect(batch?.cursor).toBe("1001:4");
+  });
+
+  it("returns no messages when nothing arrived", async () => {
+    const source = new ImapSource(config, vi.fn(), logger);
+    const batch = await source.listChanges("1001:3");
+    expect(batch).toEqual({ messages: [], cursor: "1001:3" });
+  });
+
+  it("returns null when UIDVALIDITY changed so the poller rescans", async () => {
+    const source = new ImapSource(config, vi.fn(), logger);
+    expect(await source.listChanges("999:3")).toBeNull();
+  });
+
+  it("assembles threads from the inbox and the Sent folder", async () => {
+    const source = new ImapSource(config, vi.fn(), logger);
+    const thread = await source.fetchThread("a1@example.com");
+    expect(thread?.messages.map((m) => m.id)).toEqual(["a1@example.com", "r1@fastmail.com"]);
+    expect(thread?.messages[1].labels).toEqual(["Sent"]);
+  });
+
+  it("reuses one logged-in session for consecutive calls", async () => {
+    const source = new ImapSource(config, vi.fn(), logger);
+    await Promise.all([source.fetchThread("a1@example.com"), source.fetchThread("b1@example.com")]);
+    expect(await source.fetchMessage("b1@example.com")).not.toBeNull();
+    expect(fake.commands.filter((c) => /^LOGIN /.test(c))).toHaveLength(1);
+  });
+
+  it("logs in again once the server dropped the session", async () => {
+    const source = new ImapSource(config, vi.fn(), logger);
+    await source.fetchMessage("a1@example.com");
+    fake.drop();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect((await source.fetchMessage("b1@example.com"))?.subject).toBe("Invoice");
+    expect(fake.commands.filter((c) => /^LOGIN /.test(c))).toHaveLength(2);
+  });
+
+  it("detects owner replies through the Sent folder", async () => {
+    const source = new ImapSource(config, vi.fn(), logger);
+    const poller = new Poller(logger, tmpDir, new Map([["me@fastmail.com", source]]), 7);
+    expect(await poller.checkThreadForReply("a1@example.com", "me@fastmail.com")).toBe(true);
+    expect(await poller.checkThreadForReply("b1@example.com", "me@fastmail.com")).toBe(false);
+  });
+
+  it("fetches a single message by Message-ID", async () => {
+    const source = new ImapSource(config, vi.fn(), logger);
+    const msg = await source.fetchMessage("b1@example.com");
+    expect(msg?.subject).toBe("Invoice");
+  });
+
+  it("fetches attachment bytes by Message-ID or by fallback UID", async () => {
+    const withFile = (headers: string[]) => [
+      ...headers,
+      'Content-Type: multipart/mixed; boundary="b"',
+      "",
+      "--b",
+      "Content-Type: text/plain",
+      "",
+      "Scan attached.",
+      "--b",
+      'Content-Type: application/pdf; name="scan.pdf"',
+      "Content-Transfer-Encoding: base64",
+      "",
+      Buffer.from("%PDF scan").toString("base64"),
+      "--b--",
+      "",
+    ].join("\r\n");
+    mailboxes.INBOX.messages.push(
+      { uid: 3, raw: withFile(["Message-ID: <s1@example.com>", "From: scanner@example.com", "Subject: Scan"]) },
+      { uid: 4, raw: withFile(["From: scanner@example.com", "Subject: Scan"]) },
+    );
+    const source = new ImapSource(config, vi.fn(), logger);
+    expect((await source.fetchAttachment("s1@example.com", "2"))?.toString()).toBe("%PDF scan");
+    expect((await source.fetchAttachment("me@fastmail.com:INBOX:1001:4", "2"))?.toString()).toBe("%PDF scan");
+    expect(await source.fetchAttachment("me@fastmail.com:INBOX:999:4", "2")).toBeNull();
+  });
+
+  it("returns null and warns when login fails", async () => {
+    process.env.BETTEREMAIL_IMAP_PASSWORD = "wrong";
+    const source = new ImapSource(config, vi.fn(), logger);
+    expect(await source.rescan(7)).toBeNull();
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("AUTHENTICATIONFAILED"));
+  });
+
+  it("feeds IMAP mail through runPipeline into the digest", async () => {
+    const source = new ImapSource(config, vi.fn(), logger);
+    const poller = new Poller(logger, tmpDir, new Map([["me@fastmail.com", source]]), 7);
+    const digest = new DigestManager(tmpDir);
+
+    await runPipeline({
+      accounts: ["me@fastmail.com"],
+      poller,
+      digest,
+      emailLog: new EmailLog(tmpDir),
+      logger,
+      runCommand: vi.fn().mockResolvedValue({ code: 0 }),
+      consecutiveFailuresBeforeAlert: 3,
+    });
+
+    // Alice's thread already has an owner reply in Sent, so only Bob's mail lands
+    expect(digest.get("a1@example.com")).toBeUndefined();
+    expect(digest.get("b1@example.com")).toMatchObject({ status: "new", subject: "Invoice", body: "Invoice attached." });
+    expect(poller.getAccountState("me@fastmail.com")?.historyId).toBe("1001:3");
+  });
+});
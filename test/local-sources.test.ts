@@ -0,0 +1,289 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { MaildirSource } from "../src/sources/maildir.js";
+import { MboxSource, splitMbox } from "../src/sources/mbox.js";
+import { resolveAccount } from "../src/sources/index.js";
+import { Poller } from "../src/poller.js";
+import { DigestManager } from "../src/digest.js";
+import { EmailLog } from "../src/email-log.js";
+import { runPipeline } from "../src/pipeline.js";
+
+function rawMessage(opts: { id: string; from: string; subject: string; date: string; body: string; inReplyTo?: string }): string {
+  const headers = [
+    `Message-ID: <${opts.id}>`,
+    `From: ${opts.from}`,
+    "To: me@example.org",
+    `Subject: ${opts.subject}`,
+    `Date: ${opts.date}`,
+  ];
+  if (opts.inReplyTo) headers.push(`In-Reply-To: <${opts.inReplyTo}>`, `References: <${opts.inReplyTo}>`);
+  return headers.join("\n") + "\n\n" + opts.body + "\n";
+}
+
+async function makeMaildir(dir: string): Promise<void> {
+  for (const sub of ["new", "cur", "tmp"]) {
+    await fs.mkdir(path.join(dir, sub), { recursive: true });
+  }
+}
+
+async function deliver(dir: string, sub: "new" | "cur", name: string, raw: string, mtime: Date): Promise<void> {
+  const filePath = path.join(dir, sub, name);
+  await fs.writeFile(filePath, raw);
+  await fs.utimes(filePath, mtime, mtime);
+}
+
+function withAttachment(raw: string, filename: string, content: string): string {
+  const [headers, body] = raw.split("\n\n");
+  return [
+    headers,
+    'Content-Type: multipart/mixed; boundary="b"',
+    "",
+    "--b",
+    "Content-Type: text/plain",
+    "",
+    body.trimEnd(),
+    "--b",
+    `Content-Type: application/pdf; name="${filename}"`,
+    `Content-Disposition: attachment; filename="${filename}"`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    Buffer.from(content).toString("base64"),
+    "--b--",
+    "",
+  ].join("\n");
+}
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+describe("resolveAccount (local)", () => {
+  it("accepts maildir and mbox accounts with a path", () => {
+    expect(resolveAccount({ email: "me@example.org", source: "maildir", path: "/mail/INBOX", sentPath: "/mail/Sent" }))
+      .toEqual({ source: "maildir", email: "me@example.org", path: "/mail/INBOX", sentPath: "/mail/Sent" });
+    expect(resolveAccount({ email: "me@example.org", source: "mbox", path: "/var/mail/me" }))
+      .toEqual({ source: "mbox", email: "me@example.org", path: "/var/mail/me", sentPath: undefined });
+  });
+
+  it("rejects local accounts without a path", () => {
+    expect(resolveAccount({ email: "me@example.org", source: "maildir" })).toBeNull();
+  });
+});
+
+describe("MaildirSource", () => {
+  let tmpDir: string;
+  let inbox: string;
+  let sent: string;
+  let source: MaildirSource;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "betteremail-maildir-"));
+    inbox = path.join(tmpDir, "INBOX");
+    sent = path.join(tmpDir, "Sent");
+    await makeMaildir(inbox);
+    await makeMaildir(sent);
+    source = new MaildirSource({ source: "maildir", email: "me@example.org", path: inbox, sentPath: sent }, logger);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("rescans new/ and cur/ and returns the newest mtime as cursor", async () => {
+    const now = Date.now();
+    await deliver(inbox, "new", "1001.a.host", rawMessage({ id: "a@x", from: "a@x.com", subject: "A", date: "Thu, 26 Feb 2026 10:00:00 +0000", body: "Body A" }), new Date(now - 60_000));
+    await deliver(inbox, "cur", "1002.b.host:2,S", rawMessage({ id: "b@x", from: "b@x.com", subject: "B", date: "Thu, 26 Feb 2026 11:00:00 +0000", body: "Body B" }), new Date(now - 30_000));
+    await deliver(inbox, "cur", "0999.old.host:2,S", rawMessage({ id: "old@x", from: "c@x.com", subject: "Old", date: "Thu, 01 Jan 2026 11:00:00 +0000", body: "Old" }), new Date(now - 30 * 24 * 60 * 60_000));
+
+    const batch = await source.rescan(7);
+    expect(batch?.messages.map((m) => m.id).sort()).toEqual(["a@x", "b@x"]);
+    expect(batch?.messages.find((m) => m.id === "a@x")).toMatchObject({ subject: "A", body: "Body A\n", labels: ["INBOX"] });
+    expect(batch?.cursor).toBe(String(Math.floor((await fs.stat(path.join(inbox, "cur", "1002.b.host:2,S"))).mtimeMs)));
+  });
+
+  it("lists files at or after the cursor", async () => {
+    const base = Math.floor(Date.now() / 1000) * 1000 - 60_000;
+    await deliver(inbox, "cur", "1.old:2,S", rawMessage({ id: "old@x", from: "a@x.com", subject: "Old", date: "Thu, 26 Feb 2026 10:00:00 +0000", body: "" }), new Date(base));
+    await deliver(inbox, "new", "2.new", rawMessage({ id: "new@x", from: "b@x.com", subject: "New", date: "Thu, 26 Feb 2026 11:00:00 +0000", body: "" }), new Date(base + 10_000));
+
+    const batch = await source.listChanges(String(base + 5_000));
+    expect(batch?.messages.map((m) => m.id)).toEqual(["new@x"]);
+    expect(Number(batch?.cursor)).toBeGreaterThanOrEqual(base + 10_000);
+  });
+
+  it("falls back to the filename when there is no Message-ID", async () => {
+    await deliver(inbox, "new", "1700000000.M1P2.host", "From: a@x.com\nSubject: No id\n\nHi\n", new Date());
+    const batch = await source.rescan(1);
+    expect(batch?.messages[0].id).toBe("1700000000.M1P2.host");
+  });
+
+  it("assembles threads across the inbox and sent Maildirs", async () => {
+    await deliver(inbox, "cur", "1.q:2,S", rawMessage({ id: "q@x", from: "client@x.com", subject: "Question", date: "Thu, 26 Feb 2026 10:00:00 +0000", body: "?" }), new Date());
+    await deliver(sent, "cur", "2.r:2,S", rawMessage({ id: "r@me", from: "Me <me@example.org>", subject: "Re: Question", date: "Thu, 26 Feb 2026 10:30:00 +0000", body: "!", inReplyTo: "q@x" }), new Date());
+
+    const thread = await source.fetchThread("q@x");
+    expect(thread?.messages.map((m) => m.id)).toEqual(["q@x", "r@me"]);
+    expect(thread?.messages[1].labels).toEqual(["SENT"]);
+    expect((await source.fetchMessage("r@me"))?.subject).toBe("Re: Question");
+  });
+
+  it("picks up deliveries made after the first fetch", async () => {
+    await deliver(inbox, "cur", "1.q:2,S", rawMessage({ id: "q@x", from: "client@x.com", subject: "Question", date: "Thu, 26 Feb 2026 10:00:00 +0000", body: "?" }), new Date());
+    expect((await source.fetchThread("q@x"))?.messages).toHaveLength(1);
+
+    await deliver(sent, "new", "2.r", rawMessage({ id: "r@me", from: "me@example.org", subject: "Re: Question", date: "Thu, 26 Feb 2026 10:30:00 +0000", body: "!", inReplyTo: "q@x" }), new Date());
+    expect((await source.fetchThread("q@x"))?.messages.map((m) => m.id)).toEqual(["q@x", "r@me"]);
+    expect((await source.fetchMessage("r@me"))?.labels).toEqual(["SENT"]);
+  });
+
+  it("fetches attachment bytes by part number from either folder", async () => {
+    const raw = withAttachment(
+      rawMessage({ id: "att@x", from: "me@example.org", subject: "Report", date: "Thu, 26 Feb 2026 10:00:00 +0000", body: "See attached" }),
+      "report.pdf",
+      "%PDF-1.4 report",
+    );
+    await deliver(sent, "cur", "1003.c.host:2,S", raw, new Date());
+    const msg = await source.fetchMessage("att@x");
+    expect(msg?.attachments).toEqual([{ filename: "report.pdf", mimeType: "application/pdf", size: 15, attachmentId: "2" }]);
+    expect((await source.fetchAttachment("att@x", "2"))?.toString()).toBe("%PDF-1.4 report");
+    expect(await source.fetchAttachment("att@x", "3")).toBeNull();
+    expect(await source.fetchAttachment("missing@x", "2")).toBeNull();
+  });
+
+  it("returns null and warns when the Maildir is missing", async () => {
+    const missing = new MaildirSource({ source: "maildir", email: "me@example.org", path: path.join(tmpDir, "nope") }, logger);
+    expect(await missing.rescan(7)).toBeNull();
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("Maildir not found"));
+  });
+});
+
+describe("splitMbox", () => {
+  it("splits on From_ lines, records byte offsets and unquotes >From", () => {
+    const first = "From a@x.com Thu Feb 26 10:00:00 2026\nSubject: Grüße\n\nHallo\n>From the team\n\n";
+    const second = "From b@x.com Thu Feb 26 11:00:00 2026\nSubject: Two\n\nSecond\n";
+    const entries = splitMbox(Buffer.from(first + second, "utf8"));
+    expect(entries).toHaveLength(2);
+    expect(entries[0].offset).toBe(0);
+    expect(entries[0].raw.toString("utf8")).toContain("Subject: Grüße");
+    expect(entries[0].raw.toString("utf8")).toContain("\nFrom the team");
+    expect(entries[1].offset).toBe(Buffer.byteLength(first));
+  });
+});
+
+describe("MboxSource", () => {
+  let tmpDir: string;
+  let mboxPath: string;
+  let source: MboxSource;
+
+  const msg1 = "From a@x.com Thu Feb 26 10:00:00 2026\n" +
+    rawMessage({ id: "m1@x", from: "a@x.com", subject: "One", date: new Date().toUTCString(), body: "First" }) + "\n";
+  const msg2 = "From b@x.com Thu Feb 26 11:00:00 2026\n" +
+    rawMessage({ id: "m2@x", from: "b@x.com", subject: "Two", date: new Date().toUTCString(), body: "Second" }) + "\n";
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "betteremail-mbox-"));
+    mboxPath = path.join(tmpDir, "inbox.mbox");
+    source = new MboxSource({ source: "mbox", email: "me@example.org", path: mboxPath }, logger);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("rescans the whole file and returns its size as cursor", async () => {
+    await fs.writeFile(mboxPath, msg1);
+    const batch = await source.rescan(7);
+    expect(batch?.messages.map((m) => m.id)).toEqual(["m1@x"]);
+    expect(batch?.cursor).toBe(String(Buffer.byteLength(msg1)));
+  });
+
+  it("reads only messages appended after the cursor", async () => {
+    await fs.writeFile(mboxPath, msg1);
+    const first = await source.rescan(7);
+    await fs.appendFile(mboxPath, msg2);
+
+    const batch = await source.listChanges(first!.cursor!);
+    expect(batch?.messages.map((m) => m.id)).toEqual(["m2@x"]);
+    expect(batch?.cursor).toBe(String(Buffer.byteLength(msg1 + msg2)));
+    expect(await source.listChanges(batch!.cursor!)).toEqual({ messages: [], cursor: batch!.cursor });
+  });
+
+  it("fetches messages and threads from an index rebuilt when the file changes", async () => {
+    await fs.writeFile(mboxPath, msg1);
+    expect((await source.fetchMessage("m1@x"))?.subject).toBe("One");
+    expect(await source.fetchMessage("m2@x")).toBeNull();
+
+    await fs.appendFile(mboxPath, msg2);
+    expect((await source.fetchMessage("m2@x"))?.body).toContain("Second");
+    expect((await source.fetchThread("m1@x"))?.messages.map((m) => m.id)).toEqual(["m1@x"]);
+  });
+
+  it("fetches attachment bytes, including from messages without a Message-ID", async () => {
+    const noId = "From c@x.com Thu Feb 26 12:00:00 2026\n" + withAttachment(
+      "From: c@x.com\nSubject: Scan\n\nScan attached\n",
+      "scan.pdf",
+      "%PDF scan",
+    ) + "\n";
+    await fs.writeFile(mboxPath, msg1 + noId);
+    const offset = Buffer.byteLength(msg1);
+    expect((await source.fetchAttachment(`me@example.org:mbox:${offset}`, "2"))?.toString()).toBe("%PDF scan");
+    expect(await source.fetchAttachment("m1@x", "2")).toBeNull();
+  });
+
+  it("returns null when the file was rewritten under the cursor", async () => {
+    await fs.writeFile(mboxPath, msg1 + msg2);
+    expect(await source.listChanges(String(Buffer.byteLength(msg1 + msg2) + 100))).toBeNull();
+    expect(await source.listChanges("7")).toBeNull();
+  });
+});
+
+describe("Integration: offline pipeline over a Maildir", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "betteremail-offline-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("ingests, dedupes across polls and auto-resolves from the sent Maildir", async () => {
+    const inbox = path.join(tmpDir, "mail", "INBOX");
+    const sent = path.join(tmpDir, "mail", "Sent");
+    const stateDir = path.join(tmpDir, "state");
+    await makeMaildir(inbox);
+    await makeMaildir(sent);
+    await deliver(inbox, "new", "1.a", rawMessage({ id: "a@x", from: "client@x.com", subject: "Contract", date: new Date().toUTCString(), body: "Please sign" }), new Date(Date.now() - 5_000));
+
+    const source = new MaildirSource({ source: "maildir", email: "me@example.org", path: inbox, sentPath: sent }, logger);
+    const poller = new Poller(logger, stateDir, new Map([["me@example.org", source]]), 7);
+    const digest = new DigestManager(stateDir);
+    const emailLog = new EmailLog(stateDir);
+    const deps = {
+      accounts: ["me@example.org"],
+      poller,
+      digest,
+      emailLog,
+      logger,
+      runCommand: vi.fn().mockResolvedValue({ code: 0 }),
+      consecutiveFailuresBeforeAlert: 3,
+    };
+
+    await runPipeline(deps);
+    expect(digest.get("a@x")).toMatchObject({ status: "new", subject: "Contract" });
+
+    // Second poll: the same file is still at the cursor mtime, plus one new arrival
+    await deliver(inbox, "new", "2.b", rawMessage({ id: "b@x", from: "news@x.com", subject: "Newsletter", date: new Date().toUTCString(), body: "Deals" }), new Date());
+    await runPipeline(deps);
+    expect(digest.get("b@x")?.status).toBe("new");
+    expect(await emailLog.readAll()).toHaveLength(2);
+
+    // Owner replies to the contract thread from the sent Maildir
+    await deliver(sent, "cur", "3.r:2,S", rawMessage({ id: "r@me", from: "me@example.org", subject: "Re: Contract", date: new Date().toUTCString(), body: "Signed", inReplyTo: "a@x" }), new Date());
+    await runPipeline(deps);
+    expect(digest.get("a@x")?.status).toBe("handled");
+    expect(digest.get("b@x")?.status).toBe("new");
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { spawnSync } from "node:child_process";
+import { LeaderLock, type LockInfo } from "../src/lock.js";
+
+describe("LeaderLock", () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  let tmpDir: string;
+  let lockPath: string;
+  const locks: LeaderLock[] = [];
+
+  const makeLock = (staleMs = 60_000) => {
+    const lock = new LeaderLock(tmpDir, logger, { heartbeatMs: 60_000, staleMs });
+    locks.push(lock);
+    return lock;
+  };
+  const readLock = async () => JSON.parse(await fs.readFile(lockPath, "utf8")) as LockInfo;
+  const writeLock = (info: Partial<LockInfo>) => fs.writeFile(lockPath, JSON.stringify({
+    pid: process.pid, hostname: os.hostname(), token: "other", acquiredAt: new Date().toISOString(),
+    heartbeatAt: new Date().toISOString(), ...info,
+  }));
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "betteremail-lock-"));
+    lockPath = path.join(tmpDir, "poller.lock");
+  });
+
+  afterEach(async () => {
+    for (const lock of locks.splice(0)) await lock.release();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("lets one process poll and keeps the others as readers", async () => {
+    const first = makeLock();
+    const second = makeLock();
+    expect(await first.acquire()).toBe(true);
+    expect(await second.acquire()).toBe(false);
+    expect(first.isLeader).toBe(true);
+    expect(second.isLeader).toBe(false);
+    expect(await readLock()).toMatchObject({ pid: process.pid, hostname: os.hostname() });
+
+    // Asking again as the holder just refreshes the heartbeat
+    const before = (await readLock()).heartbeatAt;
+    await new Promise((r) => setTimeout(r, 5));
+    expect(await first.acquire()).toBe(true);
+    expect((await readLock()).heartbeatAt > before).toBe(true);
+  });
+
+  it("takes over a lock whose heartbeat is too old", async () => {
+    const first = makeLock(1_000);
+    await first.acquire();
+    const info = await readLock();
+    await fs.writeFile(lockPath, JSON.stringify({ ...info, heartbeatAt: new Date(Date.now() - 5_000).toISOString() }));
+
+    const second = makeLock(1_000);
+    expect(await second.acquire()).toBe(true);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining(`took over poller lock from pid ${process.pid}`));
+
+    // The old holder notices on its next heartbeat and stops polling
+    await first.heartbeat();
+    expect(first.isLeader).toBe(false);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("lost poller lock"));
+    expect(await first.acquire()).toBe(false);
+  });
+
+  it("takes over right away when the holder's process is gone", async () => {
+    const exited = spawnSync(process.execPath, ["-e", ""]).pid!;
+    await writeLock({ pid: exited });
+
+    expect(await makeLock().acquire()).toBe(true);
+  });
+
+  it("respects a live holder on this host and a fresh holder elsewhere", async () => {
+    await writeLock({});
+    expect(await makeLock().acquire()).toBe(false);
+
+    await writeLock({ hostname: "another-host", pid: 1 });
+    expect(await makeLock().acquire()).toBe(false);
+  });
+
+  it("dates an unreadable lock by its mtime", async () => {
+    await fs.writeFile(lockPath, "");
+    const lock = makeLock(1_000);
+    expect(await lock.acquire()).toBe(false);
+
+    const old = new Date(Date.now() - 5_000);
+    await fs.utimes(lockPath, old, old);
+    expect(await lock.acquire()).toBe(true);
+  });
+
+  it("releases only its own lock", async () => {
+    const holder = makeLock();
+    const reader = makeLock();
+    await holder.acquire();
+    await reader.release();
+    expect((await fs.readdir(tmpDir))).toEqual(["poller.lock"]);
+
+    await holder.release();
+    expect(holder.isLeader).toBe(false);
+    expect(await fs.readdir(tmpDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,264 @@
+import { describe, it, expect } from "vitest";
+import {
+  decodeEncodedWords,
+  decodeHeaderValue,
+  decodeQuotedPrintable,
+  extractAttachment,
+  extractBodyText,
+  gmailPayloadToPart,
+  listAttachments,
+  normalizeMessage,
+  parseHeaderParams,
+  parseMimeEntity,
+  rfc822ToMessage,
+} from "../src/mime.js";
+
+describe("decodeEncodedWords", () => {
+  it("decodes Q-encoded ISO-8859-1 (German)", () => {
+    expect(decodeEncodedWords("=?ISO-8859-1?Q?Gr=FC=DFe_aus_M=FCnchen?=")).toBe("Grüße aus München");
+  });
+
+  it("decodes B-encoded UTF-8 (French)", () => {
+    const encoded = Buffer.from("Réunion à 14h", "utf8").toString("base64");
+    expect(decodeEncodedWords(`=?UTF-8?B?${encoded}?=`)).toBe("Réunion à 14h");
+  });
+
+  it("decodes Windows-1252 specific characters", () => {
+    expect(decodeEncodedWords("=?windows-1252?Q?Preis:_100_=80_=96_heute?=")).toBe("Preis: 100 € – heute");
+  });
+
+  it("joins adjacent words and drops the whitespace between them", () => {
+    expect(decodeEncodedWords("=?UTF-8?Q?Caf=C3=A9?= =?UTF-8?Q?_cr=C3=A8me?=")).toBe("Café crème");
+  });
+
+  it("keeps multi-byte characters split across encoded words", () => {
+    // "ü" is C3 BC in UTF-8; split it across two B-encoded words
+    const first = Buffer.from([0x47, 0x72, 0xc3]).toString("base64");
+    const second = Buffer.from([0xbc, 0x65]).toString("base64");
+    expect(decodeEncodedWords(`=?UTF-8?B?${first}?= =?UTF-8?B?${second}?=`)).toBe("Grüe");
+  });
+
+  it("preserves surrounding plain text", () => {
+    expect(decodeEncodedWords("Fwd: =?UTF-8?Q?R=C3=A9sum=C3=A9?= attached")).toBe("Fwd: Résumé attached");
+  });
+});
+
+describe("decodeHeaderValue", () => {
+  it("reads raw 8-bit UTF-8 headers", () => {
+    expect(decodeHeaderValue(Buffer.from("Jörg <j@x.de>", "utf8").toString("latin1"))).toBe("Jörg <j@x.de>");
+  });
+
+  it("falls back to Windows-1252 for raw 8-bit non-UTF-8 headers", () => {
+    expect(decodeHeaderValue(Buffer.from([0x4a, 0xf6, 0x72, 0x67]).toString("latin1"))).toBe("Jörg");
+  });
+});
+
+describe("decodeQuotedPrintable", () => {
+  it("removes soft line breaks and decodes escapes", () => {
+    expect(decodeQuotedPrintable("Hallo Andr=C3=A9, das ist eine sehr lange Zei=\r\nle.").toString("utf8"))
+      .toBe("Hallo André, das ist eine sehr lange Zeile.");
+  });
+});
+
+describe("parseHeaderParams", () => {
+  it("parses quoted and bare parameters", () => {
+    expect(parseHeaderParams('multipart/alternative; boundary="abc def"; charset=utf-8')).toEqual({
+      value: "multipart/alternative",
+      params: { boundary: "abc def", charset: "utf-8" },
+    });
+  });
+
+  it("decodes RFC 2231 extended and continued parameters", () => {
+    const parsed = parseHeaderParams("attachment; filename*0*=UTF-8''Rechnung%20M%C3%A4rz; filename*1*=.pdf");
+    expect(parsed.params.filename).toBe("Rechnung März.pdf");
+  });
+});
+
+describe("MIME bodies", () => {
+  const alternative = [
+    "From: =?ISO-8859-1?Q?Fran=E7ois?= <f@example.fr>",
+    "Subject: =?UTF-8?Q?Devis_sign=C3=A9?=",
+    "Message-ID: <alt@example.fr>",
+    "Content-Type: multipart/alternative; boundary=\"b1\"",
+    "",
+    "--b1",
+    "Content-Type: text/html; charset=utf-8",
+    "",
+    "<p>HTML version</p>",
+    "--b1",
+    "Content-Type: text/plain; charset=iso-8859-1",
+    "Content-Transfer-Encoding: quoted-printable",
+    "",
+    "Bonjour, voici le devis sign=E9. Merci d'avance pour votre r=E9ponse rapi=",
+    "de.",
+    "--b1--",
+    "",
+  ].join("\r\n");
+
+  it("prefers text/plain over text/html in multipart/alternative", () => {
+    const msg = rfc822ToMessage(Buffer.from(alternative, "latin1"), "fallback");
+    expect(msg.body).toBe("Bonjour, voici le devis signé. Merci d'avance pour votre réponse rapide.");
+    expect(msg.subject).toBe("Devis signé");
+    expect(msg.from).toBe("François <f@example.fr>");
+  });
+
+  it("falls back to text/html when there is no plain part", () => {
+    const raw = [
+      "Content-Type: multipart/alternative; boundary=b2",
+      "",
+      "--b2",
+      "Content-Type: text/html; charset=windows-1252",
+      "Content-Transfer-Encoding: base64",
+      "",
+      Buffer.from([0x3c, 0x70, 0x3e, 0x80, 0x35, 0x3c, 0x2f, 0x70, 0x3e]).toString("base64"),
+      "--b2--",
+    ].join("\r\n");
+    const body = extractBodyText(parseMimeEntity(Buffer.from(raw).toString("latin1")));
+    expect(body).toEqual({ text: "<p>€5</p>", isHtml: true });
+  });
+
+  it("walks nested multipart/mixed and skips attachments", () => {
+    const raw = [
+      "Content-Type: multipart/mixed; boundary=outer",
+      "",
+      "--outer",
+      "Content-Type: multipart/alternative; boundary=inner",
+      "",
+      "--inner",
+      "Content-Type: text/plain; charset=utf-8",
+      "",
+      "See attached.",
+      "--inner",
+      "Content-Type: text/html; charset=utf-8",
+      "",
+      "<p>See attached.</p>",
+      "--inner--",
+      "--outer",
+      "Content-Type: text/plain; name=\"notes.txt\"",
+      "Content-Disposition: attachment; filename=\"notes.txt\"",
+      "",
+      "secret attachment text",
+      "--outer--",
+    ].join("\r\n");
+    const root = parseMimeEntity(raw);
+    expect(extractBodyText(root)?.text).toBe("See attached.");
+    expect(root.parts[1].filename).toBe("notes.txt");
+    expect(rfc822ToMessage(raw, "x").attachments).toEqual([{ filename: "notes.txt", mimeType: "text/plain", size: 22, attachmentId: "2" }]);
+  });
+
+  it("decodes a single-part base64 ISO-8859-1 message", () => {
+    const raw = [
+      "Subject: Test",
+      "Content-Type: text/plain; charset=ISO-8859-1",
+      "Content-Transfer-Encoding: base64",
+      "",
+      Buffer.from("Ça coûte 5 £.", "latin1").toString("base64"),
+    ].join("\n");
+    expect(rfc822ToMessage(raw, "x").body).toBe("Ça coûte 5 £.");
+  });
+
+  it("reads Cc and flags list mail", () => {
+    const raw = ["To: team@x.com", "Cc: Me <me@x.com>", "List-Id: <dev.x.com>", "", "Hi"].join("\r\n");
+    expect(rfc822ToMessage(raw, "x")).toMatchObject({ to: "team@x.com", cc: "Me <me@x.com>", bulk: true });
+    expect(rfc822ToMessage("To: me@x.com\r\nPrecedence: normal\r\n\r\nHi", "x").bulk).toBeUndefined();
+  });
+});
+
+describe("normalizeMessage", () => {
+  it("extracts the plain body from a Gmail API payload", () => {
+    const msg = normalizeMessage({
+      id: "m1",
+      threadId: "t1",
+      payload: {
+        mimeType: "multipart/alternative",
+        headers: [{ name: "Subject", value: "=?UTF-8?Q?=C3=9Cbersicht?=" }, { name: "From", value: "a@x.de" }],
+        parts: [
+          { mimeType: "text/plain", headers: [{ name: "Content-Type", value: "text/plain; charset=ISO-8859-1" }], body: { data: Buffer.from("Größe", "latin1").toString("base64url") } },
+          { mimeType: "text/html", body: { data: Buffer.from("<b>Größe</b>").toString("base64url") } },
+        ],
+      },
+    });
+    expect(msg.body).toBe("Größe");
+    expect(msg.subject).toBe("Übersicht");
+    expect(msg.from).toBe("a@x.de");
+  });
+
+  it("takes Cc and bulk headers from a Gmail API payload", () => {
+    const msg = normalizeMessage({
+      id: "m1",
+      threadId: "t1",
+      payload: {
+        mimeType: "text/plain",
+        headers: [{ name: "Cc", value: "me@x.de" }, { name: "List-Unsubscribe", value: "<mailto:off@shop.de>" }],
+        body: { data: Buffer.from("Sale").toString("base64url") },
+      },
+    });
+    expect(msg).toMatchObject({ cc: "me@x.de", bulk: true });
+  });
+
+  it("parses a base64url raw source", () => {
+    const raw = "Subject: =?UTF-8?Q?H=C3=A9llo?=\r\nContent-Type: text/plain; charset=utf-8\r\n\r\nBody text\r\n";
+    const msg = normalizeMessage({ id: "m1", threadId: "t1", raw: Buffer.from(raw).toString("base64url") });
+    expect(msg).toMatchObject({ id: "m1", threadId: "t1", subject: "Héllo", body: "Body text\r\n" });
+  });
+
+  it("undoes quoted-printable that leaked into a plain body", () => {
+    const msg = normalizeMessage({ id: "m1", threadId: "t1", body: "Sch=C3=B6ne Gr=C3=BC=C3=9Fe aus Berlin, bis n=\nächste Woche" });
+    expect(msg.body).toBe("Schöne Grüße aus Berlin, bis nächste Woche");
+  });
+
+  it("leaves ordinary bodies and headers untouched", () => {
+    const msg = normalizeMessage({ id: "m1", threadId: "t1", subject: "x = 1", from: "a@b.c", body: "a=b\nc=d" });
+    expect(msg).toMatchObject({ subject: "x = 1", body: "a=b\nc=d" });
+  });
+});
+
+describe("listAttachments", () => {
+  it("numbers parts IMAP-style and flags embedded images", () => {
+    const raw = [
+      "Content-Type: multipart/mixed; boundary=outer",
+      "",
+      "--outer",
+      "Content-Type: multipart/related; boundary=rel",
+      "",
+      "--rel",
+      "Content-Type: text/html; charset=utf-8",
+      "",
+      "<p>Hi <img src=\"cid:logo\"></p>",
+      "--rel",
+      "Content-Type: image/png; name=logo.png",
+      "Content-ID: <logo>",
+      "Content-Transfer-Encoding: base64",
+      "",
+      Buffer.from("png-bytes").toString("base64"),
+      "--rel--",
+      "--outer",
+      "Content-Type: application/pdf",
+      "Content-Disposition: attachment; filename=\"Rechnung 42.pdf\"",
+      "Content-Transfer-Encoding: base64",
+      "",
+      Buffer.from("%PDF-1.4 fake").toString("base64"),
+      "--outer--",
+    ].join("\r\n");
+    expect(listAttachments(parseMimeEntity(raw))).toEqual([
+      { filename: "logo.png", mimeType: "image/png", size: 9, attachmentId: "1.2", inline: true },
+      { filename: "Rechnung 42.pdf", mimeType: "application/pdf", size: 13, attachmentId: "2" },
+    ]);
+    expect(extractAttachment(raw, "2")?.toString()).toBe("%PDF-1.4 fake");
+    expect(extractAttachment(raw, "1.2")?.toString()).toBe("png-bytes");
+    expect(extractAttachment(raw, "1")).toBeNull();
+    expect(extractAttachment(raw, "3")).toBeNull();
+  });
+});
+
+describe("gmailPayloadToPart", () => {
+  it("keeps attachment filenames", () => {
+    const part = gmailPayloadToPart({
+      mimeType: "multipart/mixed",
+      parts: [{ mimeType: "application/pdf", filename: "invoice.pdf", body: { attachmentId: "att-1", size: 1234 } }],
+    });
+    expect(part.parts[0].filename).toBe("invoice.pdf");
+    expect(extractBodyText(part)).toBeNull();
+    expect(listAttachments(part)).toEqual([{ filename: "invoice.pdf", mimeType: "application/pdf", size: 1234, attachmentId: "att-1" }]);
+  });
+});
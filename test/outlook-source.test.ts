@@ -0,0 +1,273 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as http from "node:http";
+import * as os from "node:os";
+import * as path from "node:path";
+import { OutlookSource, graphToMessage } from "../src/sources/outlook.js";
+import type { GraphMessage } from "../src/sources/outlook.js";
+import { resolveAccount } from "../src/sources/index.js";
+import { Poller } from "../src/poller.js";
+import { DigestManager } from "../src/digest.js";
+import { EmailLog } from "../src/email-log.js";
+import { runPipeline } from "../src/pipeline.js";
+import type { OutlookAccountConfig } from "../src/types.js";
+
+function graphMessage(overrides: Partial<GraphMessage> = {}): GraphMessage {
+  return {
+    id: "AAMk-1",
+    conversationId: "conv-1",
+    subject: "Quarterly report",
+    from: { emailAddress: { name: "Dana Boss", address: "dana@contoso.com" } },
+    toRecipients: [{ emailAddress: { name: "Me", address: "me@contoso.com" } }],
+    receivedDateTime: new Date().toISOString(),
+    body: { contentType: "text", content: "Please review the numbers." },
+    hasAttachments: false,
+    ...overrides,
+  };
+}
+
+/** Local stand-in for the Graph endpoints OutlookSource calls. */
+async function startGraphStub() {
+  const state = {
+    inbox: [] as GraphMessage[],
+    all: [] as GraphMessage[],
+    pendingDelta: [] as GraphMessage[],
+    expired: false,
+    /** When set, $skiptoken=p<n> pages run up to this many before the delta link */
+    pages: 0,
+    requests: [] as { url: string; auth?: string; prefer?: string }[],
+  };
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url!, "http://localhost");
+    state.requests.push({ url: req.url!, auth: req.headers.authorization, prefer: req.headers.prefer as string });
+    const base = `http://127.0.0.1:${(server.address() as { port: number }).port}/v1.0`;
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "content-type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.headers.authorization !== "Bearer test-token") return send(401, { error: { code: "InvalidAuthenticationToken" } });
+
+    if (url.pathname === "/v1.0/me/mailFolders/inbox/messages/delta") {
+      const page = /^p(\d+)$/.exec(url.searchParams.get("$skiptoken") ?? "");
+      if (page) {
+        const n = Number(page[1]);
+        const value = [graphMessage({ id: `AAMk-p${n}`, conversationId: `conv-p${n}` })];
+        return n < state.pages
+          ? send(200, { value, "@odata.nextLink": `${base}/me/mailFolders/inbox/messages/delta?$skiptoken=p${n + 1}` })
+          : send(200, { value, "@odata.deltaLink": `${base}/me/mailFolders/inbox/messages/delta?$deltatoken=t1` });
+      }
+      if (url.searchParams.get("$skiptoken") === "page2") {
+        return send(200, { value: state.inbox.slice(1), "@odata.deltaLink": `${base}/me/mailFolders/inbox/messages/delta?$deltatoken=t1` });
+      }
+      if (url.searchParams.get("$deltatoken")) {
+        if (state.expired) return send(410, { error: { code: "SyncStateNotFound" } });
+        const value = state.pendingDelta;
+        state.pendingDelta = [];
+        return send(200, { value, "@odata.deltaLink": `${base}/me/mailFolders/inbox/messages/delta?$deltatoken=t2` });
+      }
+      return send(200, { value: state.inbox.slice(0, 1), "@odata.nextLink": `${base}/me/mailFolders/inbox/messages/delta?$skiptoken=page2` });
+    }
+
+    const attachments = /^\/v1\.0\/me\/messages\/([^/]+)\/attachments$/.exec(url.pathname);
+    if (attachments) {
+      return send(200, { value: state.all.find((m) => m.id === decodeURIComponent(attachments[1]))?.attachments ?? [] });
+    }
+
+    const attachment = /^\/v1\.0\/me\/messages\/([^/]+)\/attachments\/([^/]+)$/.exec(url.pathname);
+    if (attachment) {
+      const found = state.all.find((m) => m.id === decodeURIComponent(attachment[1]))?.attachments
+        ?.find((a) => a.id === decodeURIComponent(attachment[2]));
+      return found ? send(200, found) : send(404, { error: { code: "ErrorItemNotFound" } });
+    }
+
+    if (url.pathname === "/v1.0/me/messages") {
+      const filter = /conversationId eq '(.*)'/.exec(url.searchParams.get("$filter") ?? "");
+      return send(200, { value: state.all.filter((m) => m.conversationId === filter?.[1]) });
+    }
+
+    const single = /^\/v1\.0\/me\/messages\/(.+)$/.exec(url.pathname);
+    if (single) {
+      const msg = state.all.find((m) => m.id === decodeURIComponent(single[1]));
+      return msg ? send(200, msg) : send(404, { error: { code: "ErrorItemNotFound" } });
+    }
+
+    send(404, { error: { code: "NotFound" } });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const port = (server.address() as { port: number }).port;
+  return { server, state, baseUrl: `http://127.0.0.1:${port}/v1.0` };
+}
+
+describe("graphToMessage", () => {
+  it("maps conversationId to threadId and formats recipients", () => {
+    const msg = graphToMessage(graphMessage({ hasAttachments: true, categories: ["Finance"] }));
+    expect(msg).toMatchObject({
+      id: "AAMk-1",
+      threadId: "conv-1",
+      from: "Dana Boss <dana@contoso.com>",
+      to: "Me <me@contoso.com>",
+      body: "Please review the numbers.",
+      labels: ["Finance", "ATTACHMENT"],
+    });
+  });
+});
+
+describe("resolveAccount (outlook)", () => {
+  it("defaults to the inbox on the public Graph endpoint", () => {
+    expect(resolveAccount({ email: "me@contoso.com", source: "outlook", token: { command: ["get-graph-token"] } })).toEqual({
+      source: "outlook", email: "me@contoso.com", token: { command: ["get-graph-token"] },
+      mailFolder: "inbox", baseUrl: "https://graph.microsoft.com/v1.0",
+    });
+  });
+
+  it("rejects accounts without a token reference", () => {
+    expect(resolveAccount({ email: "me@contoso.com", source: "outlook" })).toBeNull();
+  });
+});
+
+describe("OutlookSource", () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  let stub: Awaited<ReturnType<typeof startGraphStub>>;
+  let config: OutlookAccountConfig;
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    process.env.BETTEREMAIL_GRAPH_TOKEN = "test-token";
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "betteremail-outlook-"));
+    stub = await startGraphStub();
+    config = {
+      source: "outlook", email: "me@contoso.com", token: { env: "BETTEREMAIL_GRAPH_TOKEN" },
+      mailFolder: "inbox", baseUrl: stub.baseUrl,
+    };
+    const question = graphMessage({ id: "AAMk-1", conversationId: "conv-1" });
+    const reply = graphMessage({
+      id: "AAMk-2", conversationId: "conv-1", subject: "RE: Quarterly report",
+      from: { emailAddress: { name: "Me", address: "me@contoso.com" } },
+      receivedDateTime: new Date(Date.now() + 60_000).toISOString(),
+    });
+    const invoice = graphMessage({ id: "AAMk-3", conversationId: "conv-2", subject: "Invoice", from: { emailAddress: { address: "billing@vendor.com" } } });
+    stub.state.inbox = [question, invoice];
+    stub.state.all = [question, reply, invoice];
+  });
+
+  afterEach(async () => {
+    delete process.env.BETTEREMAIL_GRAPH_TOKEN;
+    await new Promise<void>((resolve) => stub.server.close(() => resolve()));
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("rescans with a receivedDateTime filter and follows nextLink to the delta link", async () => {
+    const source = new OutlookSource(config, vi.fn(), logger);
+    const batch = await source.rescan(7);
+    expect(batch?.messages.map((m) => m.id)).toEqual(["AAMk-1", "AAMk-3"]);
+    expect(batch?.cursor).toBe(`${stub.baseUrl}/me/mailFolders/inbox/messages/delta?$deltatoken=t1`);
+    const first = new URL(stub.state.requests[0].url, "http://localhost");
+    expect(first.searchParams.get("$filter")).toMatch(/^receivedDateTime ge \d{4}-/);
+    expect(stub.state.requests[0].prefer).toContain('outlook.body-content-type="text"');
+  });
+
+  it("lists changes from the stored delta link and skips removed items", async () => {
+    const source = new OutlookSource(config, vi.fn(), logger);
+    stub.state.pendingDelta = [
+      graphMessage({ id: "AAMk-4", conversationId: "conv-3", subject: "New one" }),
+      { id: "AAMk-1", "@removed": { reason: "deleted" } },
+    ];
+    const batch = await source.listChanges(`${stub.baseUrl}/me/mailFolders/inbox/messages/delta?$deltatoken=t1`);
+    expect(batch?.messages.map((m) => m.id)).toEqual(["AAMk-4"]);
+    expect(batch?.cursor).toBe(`${stub.baseUrl}/me/mailFolders/inbox/messages/delta?$deltatoken=t2`);
+  });
+
+  it("looks up attachment metadata for delta messages that have attachments", async () => {
+    const source = new OutlookSource(config, vi.fn(), logger);
+    const withFile = graphMessage({ id: "AAMk-5", conversationId: "conv-5", hasAttachments: true });
+    stub.state.all.push({ ...withFile, attachments: [{ id: "att-1", name: "Invoice.PDF", contentType: "application/pdf", size: 48_000 }] });
+    stub.state.pendingDelta = [withFile];
+    const batch = await source.listChanges(`${stub.baseUrl}/me/mailFolders/inbox/messages/delta?$deltatoken=t1`);
+    expect(batch?.messages[0].attachments).toEqual([
+      { filename: "Invoice.PDF", mimeType: "application/pdf", size: 48_000, attachmentId: "att-1" },
+    ]);
+    expect(stub.state.requests.some((r) => r.url.startsWith("/v1.0/me/messages/AAMk-5/attachments"))).toBe(true);
+  });
+
+  it("stops a long delta walk after 50 pages and resumes from the next page link", async () => {
+    const source = new OutlookSource(config, vi.fn(), logger);
+    stub.state.pages = 60;
+    const first = await source.listChanges(`${stub.baseUrl}/me/mailFolders/inbox/messages/delta?$skiptoken=p1`);
+    expect(first?.messages).toHaveLength(50);
+    expect(first?.cursor).toBe(`${stub.baseUrl}/me/mailFolders/inbox/messages/delta?$skiptoken=p51`);
+
+    const rest = await source.listChanges(first!.cursor!);
+    expect(rest?.messages.map((m) => m.id)).toEqual(Array.from({ length: 10 }, (_, i) => `AAMk-p${51 + i}`));
+    expect(rest?.cursor).toBe(`${stub.baseUrl}/me/mailFolders/inbox/messages/delta?$deltatoken=t1`);
+  });
+
+  it("returns null for an expired delta link so the poller rescans", async () => {
+    const source = new OutlookSource(config, vi.fn(), logger);
+    stub.state.expired = true;
+    expect(await source.listChanges(`${stub.baseUrl}/me/mailFolders/inbox/messages/delta?$deltatoken=t1`)).toBeNull();
+  });
+
+  it("rejects cursors that are not delta links", async () => {
+    const source = new OutlookSource(config, vi.fn(), logger);
+    expect(await source.listChanges("12345")).toBeNull();
+    expect(stub.state.requests).toHaveLength(0);
+  });
+
+  it("fetches a conversation including sent replies, oldest first", async () => {
+    const source = new OutlookSource(config, vi.fn(), logger);
+    const thread = await source.fetchThread("conv-1");
+    expect(thread?.messages.map((m) => m.id)).toEqual(["AAMk-1", "AAMk-2"]);
+  });
+
+  it("fetches a single message", async () => {
+    const source = new OutlookSource(config, vi.fn(), logger);
+    expect((await source.fetchMessage("AAMk-3"))?.subject).toBe("Invoice");
+    expect(await source.fetchMessage("missing")).toBeNull();
+  });
+
+  it("downloads file attachment content and skips item attachments", async () => {
+    const source = new OutlookSource(config, vi.fn(), logger);
+    stub.state.all.push(graphMessage({
+      id: "AAMk-6",
+      attachments: [
+        { id: "att-1", name: "Invoice.pdf", contentType: "application/pdf", size: 4, contentBytes: Buffer.from("%PDF").toString("base64") },
+        { id: "att-2", name: "Fwd: Quote", contentType: "message/rfc822", size: 900 },
+      ],
+    }));
+    expect((await source.fetchAttachment("AAMk-6", "att-1"))?.toString()).toBe("%PDF");
+    expect(await source.fetchAttachment("AAMk-6", "att-2")).toBeNull();
+    expect(await source.fetchAttachment("AAMk-6", "att-3")).toBeNull();
+  });
+
+  it("returns null and warns on auth failure", async () => {
+    process.env.BETTEREMAIL_GRAPH_TOKEN = "expired";
+    const source = new OutlookSource(config, vi.fn(), logger);
+    expect(await source.rescan(7)).toBeNull();
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("401"));
+  });
+
+  it("behaves like Gmail in runPipeline: dedup, owner-reply skip and delta cursor", async () => {
+    const source = new OutlookSource(config, vi.fn(), logger);
+    const poller = new Poller(logger, tmpDir, new Map([["me@contoso.com", source]]), 7);
+    const digest = new DigestManager(tmpDir);
+    const emailLog = new EmailLog(tmpDir);
+    const deps = {
+      accounts: ["me@contoso.com"], poller, digest, emailLog, logger,
+      runCommand: vi.fn().mockResolvedValue({ code: 0 }),
+      consecutiveFailuresBeforeAlert: 3,
+    };
+
+    await runPipeline(deps);
+    // conv-1 already has the owner's reply, so only the invoice is new
+    expect(digest.get("AAMk-1")).toBeUndefined();
+    expect(digest.get("AAMk-3")).toMatchObject({ status: "new", threadId: "conv-2", from: "billing@vendor.com" });
+    expect(poller.getAccountState("me@contoso.com")?.historyId).toContain("$deltatoken=t1");
+
+    stub.state.pendingDelta = [stub.state.inbox[1]];
+    await runPipeline(deps);
+    expect(await emailLog.readAll()).toHaveLength(1);
+    expect(poller.getAccountState("me@contoso.com")?.historyId).toContain("$deltatoken=t2");
+  });
+});
@@ -28,15 +28,27 @@ describe("runPipeline", () => {
       add: vi.fn(),
       has: vi.fn().mockReturnValue(false),
       getActiveEntries: vi.fn().mockReturnValue([]),
+      threadDeferral: vi.fn().mockReturnValue(undefined),
+      getMute: vi.fn().mockReturnValue(undefined),
+      matchSender: vi.fn().mockReturnValue(undefined),
+      ownerRepliedTo: vi.fn().mockReturnValue(false),
+      pruneMutes: vi.fn().mockReturnValue(0),
+      backfillSenderProfiles: vi.fn().mockResolvedValue(0),
       expireDeferrals: vi.fn().mockReturnValue([]),
       prune: vi.fn().mockReturnValue(0),
       markHandled: vi.fn(),
       expireStale: vi.fn().mockReturnValue(0),
+      get: vi.fn((id: string) => mockDigest.getActiveEntries().find((e: { id: string }) => e.id === id)),
+      exclusive: vi.fn((fn: () => unknown) => fn()),
+      repairing: vi.fn((fn: () => unknown) => fn()),
+      shared: vi.fn((_key: string, fn: () => unknown) => fn()),
     };
 
     mockEmailLog = {
       append: vi.fn(),
       readAll: vi.fn().mockResolvedValue([]),
+      recover: vi.fn().mockResolvedValue(null),
+      seenIds: vi.fn().mockResolvedValue(new Set()),
     };
 
     mockPoller = {
@@ -82,6 +94,187 @@ describe("runPipeline", () => {
     expect(mockDigest.add).not.toHaveBeenCalled();
   });
 
+  it("defers a reply to a thread that was deferred as a whole", async () => {
+    const until = new Date(Date.now() + 60 * 60_000).toISOString();
+    mockDigest.threadDeferral.mockReturnValue(until);
+
+    await runPipeline({
+      accounts: ["test@gmail.com"],
+      poller: mockPoller,
+      digest: mockDigest,
+      emailLog: mockEmailLog,
+      logger: mockLogger,
+      runCommand: mockRunCommand,
+      consecutiveFailuresBeforeAlert: 3,
+    });
+
+    expect(mockDigest.getMute).toHaveBeenCalledWith("t-1", "test@gmail.com");
+    expect(mockDigest.threadDeferral).toHaveBeenCalledWith("t-1", "test@gmail.com");
+    expect(mockDigest.add).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "deferred", deferredUntil: until, deferredWithThread: true }),
+      { actor: "pipeline", reason: "thread is deferred" },
+    );
+  });
+
+  it("dismisses new emails in muted threads before they reach the digest", async () => {
+    mockDigest.getMute.mockReturnValue({ threadId: "thread-1", account: "test@gmail.com", subject: "Storm", mutedAt: "2026-02-26T10:00:00Z" });
+    mockDigest.threadDeferral.mockReturnValue(new Date(Date.now() + 60_000).toISOString());
+
+    await runPipeline({
+      accounts: ["test@gmail.com"],
+      poller: mockPoller,
+      digest: mockDigest,
+      emailLog: mockEmailLog,
+      logger: mockLogger,
+      runCommand: mockRunCommand,
+      consecutiveFailuresBeforeAlert: 3,
+    });
+
+    expect(mockDigest.add).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "dismissed", dismissReason: "muted thread", deferredUntil: undefined }),
+      { actor: "pipeline", reason: "muted thread" },
+    );
+    expect(mockEmailLog.append).toHaveBeenCalled();
+    expect(mockDigest.pruneMutes).toHaveBeenCalled();
+  });
+
+  it("applies a matching sender rule and labels the decision", async () => {
+    mockDigest.matchSender.mockReturnValue({
+      id: "domain:test.com", match: "domain", pattern: "test.com", action: "always_dismiss", reason: "newsletter", createdAt: "2026-02-26T10:00:00Z",
+    });
+
+    await runPipeline({
+      accounts: ["test@gmail.com"],
+      poller: mockPoller,
+      digest: mockDigest,
+      emailLog: mockEmailLog,
+      logger: mockLogger,
+      runCommand: mockRunCommand,
+      consecutiveFailuresBeforeAlert: 3,
+    });
+
+    const reason = "auto-dismissed by sender rule domain:test.com: newsletter";
+    expect(mockDigest.add).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "dismissed", dismissReason: reason, resolvedAt: expect.any(String) }),
+      { actor: "pipeline", reason },
+    );
+  });
+
+  it("lets an allowed sender through a muted thread", async () => {
+    mockDigest.matchSender.mockReturnValue({
+      id: "address:sender@test.com", match: "address", pattern: "sender@test.com", action: "always_surface", createdAt: "2026-02-26T10:00:00Z",
+    });
+    mockDigest.getMute.mockReturnValue({ threadId: "t-1", account: "test@gmail.com", subject: "Storm", mutedAt: "2026-02-26T10:00:00Z" });
+
+    await runPipeline({
+      accounts: ["test@gmail.com"],
+      poller: mockPoller,
+      digest: mockDigest,
+      emailLog: mockEmailLog,
+      logger: mockLogger,
+      runCommand: mockRunCommand,
+      consecutiveFailuresBeforeAlert: 3,
+    });
+
+    expect(mockDigest.add).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "new" }),
+      { actor: "pipeline", reason: "surfaced by sender rule address:sender@test.com" },
+    );
+  });
+
+  it("applies triage rules from config before adding", async () => {
+    mockPoller.pollAccount.mockResolvedValue({
+      emails: [
+        makeEmail({ id: "m1", subject: "Your weekly digest", labels: ["CATEGORY_PROMOTIONS"] }),
+        makeEmail({ id: "m2", subject: "Contract signed", threadId: "t-2" }),
+      ],
+    });
+
+    await runPipeline({
+      accounts: ["test@gmail.com"],
+      poller: mockPoller,
+      digest: mockDigest,
+      emailLog: mockEmailLog,
+      logger: mockLogger,
+      runCommand: mockRunCommand,
+      consecutiveFailuresBeforeAlert: 3,
+      rules: [
+        { name: "promotions", match: { labels: ["category_promotions"] }, action: "defer", deferMinutes: 60, tags: ["promo"] },
+        { name: "contracts", match: { subject: "contract" }, priority: 5, notify: true },
+      ],
+    });
+
+    expect(mockDigest.add).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "m1", status: "deferred", deferredUntil: expect.any(String), tags: ["promo"] }),
+      { actor: "pipeline", reason: 'deferred by rule "promotions"', deferMinutes: 60 },
+    );
+    expect(mockDigest.add).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "m2", status: "new", priority: 5 }),
+      { actor: "pipeline", reason: undefined },
+    );
+    expect(mockRunCommand).toHaveBeenCalledTimes(1);
+    expect(mockRunCommand.mock.calls[0][0].join(" ")).toContain("Contract signed");
+  });
+
+  it("scores priority, adding a triage rule's priority to the signals", async () => {
+    mockPoller.pollAccount.mockResolvedValue({
+      emails: [makeEmail({ from: "Boss <boss@work.com>", subject: "Contract due tomorrow" })],
+    });
+    mockDigest.ownerRepliedTo.mockReturnValue(true);
+
+    await runPipeline({
+      accounts: ["test@gmail.com"],
+      poller: mockPoller,
+      digest: mockDigest,
+      emailLog: mockEmailLog,
+      logger: mockLogger,
+      runCommand: mockRunCommand,
+      consecutiveFailuresBeforeAlert: 3,
+      rules: [{ name: "contracts", match: { subject: "contract" }, priority: 5 }],
+      priority: {
+        vipSenders: [],
+        urgencyKeywords: [],
+        weights: { vipSender: 0, repliedSender: 20, direct: 10, cc: 0, list: -20, urgent: 0, deadline: 15, ownerThread: 0, threadLength: 0 },
+      },
+    });
+
+    expect(mockDigest.ownerRepliedTo).toHaveBeenCalledWith("boss@work.com");
+    expect(mockDigest.add).toHaveBeenCalledWith(
+      expect.objectContaining({
+        priority: 50,
+        priorityReasons: [
+          "you replied to this sender before (+20)",
+          "sent to you directly (+10)",
+          'deadline: "due tomorrow" (+15)',
+          'rule "contracts" (+5)',
+        ],
+      }),
+      expect.anything(),
+    );
+  });
+
+  it("does not let a triage rule override a sender rule", async () => {
+    mockDigest.matchSender.mockReturnValue({
+      id: "address:sender@test.com", match: "address", pattern: "sender@test.com", action: "always_surface", createdAt: "2026-02-26T10:00:00Z",
+    });
+
+    await runPipeline({
+      accounts: ["test@gmail.com"],
+      poller: mockPoller,
+      digest: mockDigest,
+      emailLog: mockEmailLog,
+      logger: mockLogger,
+      runCommand: mockRunCommand,
+      consecutiveFailuresBeforeAlert: 3,
+      rules: [{ name: "everything", match: { from: "@test.com" }, action: "dismiss", tags: ["bulk"] }],
+    });
+
+    expect(mockDigest.add).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "new", tags: ["bulk"] }),
+      { actor: "pipeline", reason: "surfaced by sender rule address:sender@test.com" },
+    );
+  });
+
   it("adds all emails to digest regardless of content", async () => {
     mockPoller.pollAccount.mockResolvedValue({
       emails: [makeEmail({ id: "msg-1" }), makeEmail({ id: "msg-2", subject: "50% off sale!" })],
@@ -155,9 +348,7 @@ describe("runPipeline", () => {
   });
 
   it("builds seenIds from email log", async () => {
-    mockEmailLog.readAll.mockResolvedValue([
-      { email: { id: "seen-1" }, timestamp: 1 },
-    ]);
+    mockEmailLog.seenIds.mockResolvedValue(new Set(["seen-1"]));
 
     await runPipeline({
       accounts: ["test@gmail.com"],
@@ -191,7 +382,7 @@ describe("runPipeline", () => {
     });
 
     expect(mockPoller.checkThreadForReply).toHaveBeenCalledWith("t-active", "test@gmail.com");
-    expect(mockDigest.markHandled).toHaveBeenCalledWith("msg-active");
+    expect(mockDigest.markHandled).toHaveBeenCalledWith("msg-active", { actor: "auto-resolve", reason: "owner replied in thread" });
   });
 
   it("auto-resolve skips entries older than 7 days", async () => {
@@ -253,6 +444,24 @@ describe("runPipeline", () => {
     expect(mockPoller.checkThreadForReply).toHaveBeenCalledWith("t-recent", "test@gmail.com");
   });
 
+  it("backfills sender profiles from the email log when there are none", async () => {
+    mockDigest.backfillSenderProfiles.mockImplementation(async (readLog: () => Promise<unknown[]>) => (await readLog()).length);
+    mockEmailLog.readAll.mockResolvedValue([{ email: makeEmail(), timestamp: 1 }]);
+
+    await runPipeline({
+      accounts: ["test@gmail.com"],
+      poller: mockPoller,
+      digest: mockDigest,
+      emailLog: mockEmailLog,
+      logger: mockLogger,
+      runCommand: mockRunCommand,
+      consecutiveFailuresBeforeAlert: 3,
+    });
+
+    expect(mockEmailLog.readAll).toHaveBeenCalled();
+    expect(mockLogger.info).toHaveBeenCalledWith(expect.stringContaining("built sender profiles for 1 sender(s)"));
+  });
+
   it("calls digest.expireStale each cycle", async () => {
     mockPoller.pollAccount.mockResolvedValue({ emails: [], historyId: undefined });
 
@@ -288,4 +497,28 @@ describe("runPipeline", () => {
       expect.any(Object),
     );
   });
+
+  it("previews attachment text only for emails with attachments", async () => {
+    const pdf = { filename: "invoice.pdf", mimeType: "application/pdf", size: 900, attachmentId: "2" };
+    mockPoller.pollAccount.mockResolvedValue({
+      emails: [makeEmail({ id: "msg-1", attachments: [pdf] }), makeEmail({ id: "msg-2", attachments: [] })],
+      historyId: "new-hist-456",
+    });
+    const extractAttachmentText = vi.fn().mockResolvedValue("[invoice.pdf]\nTotal: EUR 120");
+
+    await runPipeline({
+      accounts: ["test@gmail.com"],
+      poller: mockPoller,
+      digest: mockDigest,
+      emailLog: mockEmailLog,
+      logger: mockLogger,
+      runCommand: mockRunCommand,
+      consecutiveFailuresBeforeAlert: 3,
+      extractAttachmentText,
+    });
+
+    expect(extractAttachmentText).toHaveBeenCalledTimes(1);
+    expect(mockDigest.add).toHaveBeenCalledWith(expect.objectContaining({ id: "msg-1", attachmentText: "[invoice.pdf]\nTotal: EUR 120" }), expect.anything());
+    expect(mockDigest.add).toHaveBeenCalledWith(expect.objectContaining({ id: "msg-2", attachmentText: undefined }), expect.anything());
+  });
 });
@@ -1,93 +1,19 @@
-import { describe, it, expect } from "vitest";
-import { detectOwnerReply, extractHistoryId, parseGogMessages, parseGogThread } from "../src/poller.js";
-import type { RawGogMessage, RawGogThread } from "../src/types.js";
-
-describe("parseGogMessages", () => {
-  it("parses gog JSON output into RawGogMessage array", () => {
-    const raw = JSON.stringify([
-      { id: "msg-1", threadId: "t-1", subject: "Hello", from: "sender@test.com", date: "2026-02-26" },
-    ]);
-    const result = parseGogMessages(raw);
-    expect(result).toHaveLength(1);
-    expect(result[0].id).toBe("msg-1");
-  });
-
-  it("handles empty output", () => {
-    expect(parseGogMessages("")).toEqual([]);
-    expect(parseGogMessages("[]")).toEqual([]);
-  });
-
-  it("handles single object (not array)", () => {
-    const raw = JSON.stringify({ id: "msg-1", threadId: "t-1" });
-    const result = parseGogMessages(raw);
-    expect(result).toHaveLength(1);
-  });
-
-  it("unwraps gog envelope { messages: [...] }", () => {
-    const raw = JSON.stringify({
-      messages: [
-        { id: "msg-1", threadId: "t-1", subject: "Hello" },
-        { id: "msg-2", threadId: "t-2", subject: "World" },
-      ],
-      nextPageToken: "abc",
-    });
-    const result = parseGogMessages(raw);
-    expect(result).toHaveLength(2);
-    expect(result[0].id).toBe("msg-1");
-    expect(result[1].id).toBe("msg-2");
-  });
-});
-
-describe("parseGogThread", () => {
-  it("parses valid thread JSON", () => {
-    const raw = JSON.stringify({
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { detectOwnerReply, ownerStartedThread, Poller } from "../src/poller.js";
+import type { MailBatch, MailSource, RawGogMessage, RawGogThread } from "../src/types.js";
+
+describe("ownerStartedThread", () => {
+  it("checks only the first message's sender", () => {
+    const thread = (...from: string[]): RawGogThread => ({
       id: "t-1",
-      messages: [{ id: "msg-1", threadId: "t-1", from: "test@test.com" }],
+      messages: from.map((f, i) => ({ id: `msg-${i}`, threadId: "t-1", from: f })),
     });
-    const result = parseGogThread(raw);
-    expect(result).not.toBeNull();
-    expect(result!.id).toBe("t-1");
-    expect(result!.messages).toHaveLength(1);
-  });
-
-  it("returns null for invalid input", () => {
-    expect(parseGogThread("")).toBeNull();
-    expect(parseGogThread("garbage")).toBeNull();
-    expect(parseGogThread(JSON.stringify({ id: "t-1" }))).toBeNull(); // missing messages
-  });
-});
-
-describe("extractHistoryId", () => {
-  it("extracts historyId from a valid gog history response", () => {
-    const response = JSON.stringify({
-      historyId: "12345",
-      messages: [{ id: "msg-1" }],
-    });
-    expect(extractHistoryId(response)).toBe("12345");
-  });
-
-  it("returns undefined for an array response (no top-level historyId)", () => {
-    const response = JSON.stringify([{ id: "msg-1" }]);
-    expect(extractHistoryId(response)).toBeUndefined();
-  });
-
-  it("returns undefined for empty or whitespace input", () => {
-    expect(extractHistoryId("")).toBeUndefined();
-    expect(extractHistoryId("   ")).toBeUndefined();
-  });
-
-  it("returns undefined for invalid JSON", () => {
-    expect(extractHistoryId("not json")).toBeUndefined();
-  });
-
-  it("returns undefined when historyId is not a string", () => {
-    const response = JSON.stringify({ historyId: 12345 });
-    expect(extractHistoryId(response)).toBeUndefined();
-  });
-
-  it("returns undefined for an object without historyId", () => {
-    const response = JSON.stringify({ id: "msg-1", threadId: "t-1" });
-    expect(extractHistoryId(response)).toBeUndefined();
+    expect(ownerStartedThread(thread("Me <ME@work.com>", "other@example.com"), ["me@work.com"])).toBe(true);
+    expect(ownerStartedThread(thread("other@example.com", "me@work.com"), ["me@work.com"])).toBe(false);
+    expect(ownerStartedThread({ id: "t-1", messages: [] }, ["me@work.com"])).toBe(false);
   });
 });
 
@@ -138,3 +64,121 @@ describe("detectOwnerReply", () => {
     expect(detectOwnerReply(thread, ownerAccounts)).toBe(false);
   });
 });
+
+class InMemorySource implements MailSource {
+  messages: RawGogMessage[] = [];
+  cursor = "1";
+  cursorValid = true;
+
+  async listChanges(cursor: string): Promise<MailBatch | null> {
+    if (!this.cursorValid) return null;
+    return { messages: this.messages.filter((m) => Number(m.cursor) > Number(cursor)), cursor: this.cursor };
+  }
+
+  async rescan(): Promise<MailBatch | null> {
+    return { messages: this.messages, cursor: this.cursor };
+  }
+
+  async fetchThread(threadId: string): Promise<RawGogThread | null> {
+    const messages = this.messages.filter((m) => m.threadId === threadId);
+    return messages.length > 0 ? { id: threadId, messages } : null;
+  }
+
+  async fetchMessage(messageId: string): Promise<RawGogMessage | null> {
+    return this.messages.find((m) => m.id === messageId) ?? null;
+  }
+
+  async fetchAttachment(): Promise<Buffer | null> {
+    return null;
+  }
+}
+
+describe("Poller", () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  let tmpDir: string;
+  let source: InMemorySource;
+  let poller: Poller;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "betteremail-poller-"));
+    source = new InMemorySource();
+    poller = new Poller(logger, tmpDir, new Map([["me@work.com", source]]), 7);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("rescans when there is no cursor and returns the source cursor", async () => {
+    source.messages = [{ id: "msg-1", threadId: "t-1", from: "a@example.com", subject: "Hi", body: "Hello", cursor: "1" }];
+    const rescan = vi.spyOn(source, "rescan");
+    const result = await poller.pollAccount("me@work.com", new Set());
+    expect(rescan).toHaveBeenCalledWith(7);
+    expect(result.emails).toHaveLength(1);
+    expect(result.emails[0]).toMatchObject({ id: "msg-1", account: "me@work.com", subject: "Hi", body: "Hello" });
+    expect(result.historyId).toBe("1");
+  });
+
+  it("lists changes since the stored cursor", async () => {
+    source.messages = [
+      { id: "msg-1", threadId: "t-1", from: "a@example.com", cursor: "1" },
+      { id: "msg-2", threadId: "t-2", from: "b@example.com", cursor: "2" },
+    ];
+    source.cursor = "2";
+    poller.recordSuccess("me@work.com", "1");
+    const result = await poller.pollAccount("me@work.com", new Set());
+    expect(result.emails.map((e) => e.id)).toEqual(["msg-2"]);
+    expect(result.historyId).toBe("2");
+  });
+
+  it("falls back to rescan when the cursor is rejected", async () => {
+    source.messages = [{ id: "msg-1", threadId: "t-1", from: "a@example.com", cursor: "1" }];
+    source.cursorValid = false;
+    poller.recordSuccess("me@work.com", "stale");
+    const result = await poller.pollAccount("me@work.com", new Set());
+    expect(result.emails).toHaveLength(1);
+  });
+
+  it("skips seen messages and threads the owner replied to", async () => {
+    source.messages = [
+      { id: "msg-1", threadId: "t-1", from: "a@example.com" },
+      { id: "msg-2", threadId: "t-2", from: "b@example.com" },
+      { id: "msg-3", threadId: "t-2", from: "Me <me@work.com>" },
+      { id: "msg-4", threadId: "t-3", from: "c@example.com" },
+    ];
+    const result = await poller.pollAccount("me@work.com", new Set(["msg-1"]));
+    expect(result.emails.map((e) => e.id)).toEqual(["msg-4"]);
+  });
+
+  it("checks threads for owner replies through the source", async () => {
+    source.messages = [
+      { id: "msg-1", threadId: "t-1", from: "a@example.com" },
+      { id: "msg-2", threadId: "t-1", from: "me@work.com" },
+    ];
+    expect(await poller.checkThreadForReply("t-1", "me@work.com")).toBe(true);
+    expect(await poller.checkThreadForReply("t-unknown", "me@work.com")).toBe(false);
+  });
+
+  it("records attachment metadata and ignores embedded images for hasAttachments", async () => {
+    const invoice = { filename: "invoice.pdf", mimeType: "application/pdf", size: 48_000, attachmentId: "2" };
+    const logo = { filename: "logo.png", mimeType: "image/png", size: 900, attachmentId: "1.2", inline: true };
+    source.messages = [
+      { id: "msg-1", threadId: "t-1", from: "a@example.com", attachments: [logo, invoice] },
+      { id: "msg-2", threadId: "t-2", from: "b@example.com", attachments: [logo] },
+    ];
+    const result = await poller.pollAccount("me@work.com", new Set());
+    expect(result.emails[0]).toMatchObject({ hasAttachments: true, attachments: [logo, invoice] });
+    expect(result.emails[1]).toMatchObject({ hasAttachments: false, attachments: [logo] });
+  });
+
+  it("fetches messages and threads through the account's source", async () => {
+    source.messages = [{ id: "msg-1", threadId: "t-1", from: "a@example.com" }];
+    expect((await poller.fetchMessage("msg-1", "me@work.com"))?.id).toBe("msg-1");
+    expect((await poller.fetchThread("t-1", "me@work.com"))?.messages).toHaveLength(1);
+    expect(await poller.fetchMessage("msg-1", "other@work.com")).toBeNull();
+  });
+
+  it("throws for an account without a source", async () => {
+    await expect(poller.pollAccount("other@work.com", new Set())).rejects.toThrow("no mail source");
+  });
+});
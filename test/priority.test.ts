@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from "vitest";
+import { DEFAULT_PRIORITY_CONFIG, resolvePriorityConfig, scorePriority } from "../src/priority.js";
+import type { PriorityConfig, TrimmedEmail } from "../src/types.js";
+
+function makeEmail(overrides: Partial<TrimmedEmail> = {}): TrimmedEmail {
+  return {
+    id: "msg-1", threadId: "t-1", account: "me@gmail.com",
+    from: "Someone <someone@example.com>", to: "me@gmail.com", subject: "Hello",
+    date: "2026-02-26T10:00:00Z", body: "Just saying hi.", originalLength: 15, truncated: false,
+    threadLength: 1, hasAttachments: false, attachments: [],
+    ...overrides,
+  };
+}
+
+const context = { accounts: ["me@gmail.com", "me@work.com"], ownerRepliedTo: () => false };
+
+describe("scorePriority", () => {
+  it("ranks a fraud alert from a VIP bank above a newsletter", () => {
+    const config: PriorityConfig = { ...DEFAULT_PRIORITY_CONFIG, vipSenders: ["@bank.com"] };
+    const alert = scorePriority(
+      makeEmail({ from: "Bank <alerts@secure.bank.com>", subject: "Suspected fraud on your card", body: "Reply by today." }),
+      config,
+      context,
+    );
+    expect(alert.reasons).toEqual([
+      "VIP sender (+50)",
+      "sent to you directly (+10)",
+      'urgent: "fraud" (+25)',
+      'deadline: "by today" (+15)',
+    ]);
+    expect(alert.priority).toBe(100);
+
+    const newsletter = scorePriority(makeEmail({ from: "news@shop.com", bulk: true }), config, context);
+    expect(newsletter).toEqual({ priority: -20, reasons: ["mailing list or bulk mail (-20)"] });
+  });
+
+  it("tells direct, Cc and undirected mail apart", () => {
+    const reasons = (overrides: Partial<TrimmedEmail>) => scorePriority(makeEmail(overrides), DEFAULT_PRIORITY_CONFIG, context).reasons;
+    expect(reasons({ to: "Team <team@work.com>, Me <ME@work.com>" })).toEqual(["sent to you directly (+10)"]);
+    expect(reasons({ to: "team@work.com", cc: "me@work.com" })).toEqual([]);
+    expect(reasons({ to: "all-staff@work.com" })).toEqual(["not addressed to you (list or Bcc) (-20)"]);
+    expect(reasons({ labels: ["INBOX", "CATEGORY_PROMOTIONS"] })).toEqual(["mailing list or bulk mail (-20)"]);
+  });
+
+  it("counts replies, thread participation, thread length and rule priority", () => {
+    const scored = scorePriority(
+      makeEmail({ ownerInThread: true, threadLength: 9 }),
+      DEFAULT_PRIORITY_CONFIG,
+      { ...context, ownerRepliedTo: (sender) => sender === "someone@example.com", rule: { name: "clients", priority: 7 } },
+    );
+    expect(scored.reasons).toEqual([
+      "you replied to this sender before (+20)",
+      "sent to you directly (+10)",
+      "you started this thread (+15)",
+      "thread of 9 messages (+10)",
+      'rule "clients" (+7)',
+    ]);
+    expect(scored.priority).toBe(62);
+  });
+
+  it("matches urgency keywords as whole words only", () => {
+    const scored = scorePriority(makeEmail({ subject: "Fraudulent-looking but fine", body: "nothing pressing" }), DEFAULT_PRIORITY_CONFIG, context);
+    expect(scored.reasons).toEqual(["sent to you directly (+10)"]);
+  });
+});
+
+describe("resolvePriorityConfig", () => {
+  it("overrides defaults and warns about invalid values", () => {
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const config = resolvePriorityConfig({
+      vipSenders: ["boss@work.com", 42],
+      weights: { direct: 30, list: "low", surprise: 5 },
+    }, logger);
+    expect(config.vipSenders).toEqual(["boss@work.com"]);
+    expect(config.urgencyKeywords).toEqual(DEFAULT_PRIORITY_CONFIG.urgencyKeywords);
+    expect(config.weights).toEqual({ ...DEFAULT_PRIORITY_CONFIG.weights, direct: 30 });
+    expect(logger.warn).toHaveBeenCalledTimes(3);
+    expect(resolvePriorityConfig(undefined, logger)).toBe(DEFAULT_PRIORITY_CONFIG);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { DigestManager } from "../src/digest.js";
+import { EmailLog } from "../src/email-log.js";
+import { Poller } from "../src/poller.js";
+import { loadState } from "../src/recovery.js";
+import type { DigestEntry, TrimmedEmail } from "../src/types.js";
+
+function makeEntry(overrides: Partial<DigestEntry> = {}): DigestEntry {
+  return {
+    id: "msg-1",
+    threadId: "thread-1",
+    account: "test@gmail.com",
+    from: "sender@example.com",
+    subject: "Test email",
+    date: "2026-02-26T10:00:00Z",
+    body: "Hello world",
+    status: "new",
+    firstSeenAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+function makeEmail(id: string): TrimmedEmail {
+  return {
+    id, threadId: `t-${id}`, account: "test@gmail.com", from: "a@example.com", to: "test@gmail.com",
+    subject: `Subject ${id}`, date: "2026-02-26T10:00:00Z", body: "Hello", originalLength: 5, truncated: false,
+    threadLength: 1, hasAttachments: false, attachments: [],
+  };
+}
+
+describe("loadState", () => {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  const runCommand = vi.fn().mockResolvedValue({ code: 0 });
+  let tmpDir: string;
+  let digest: DigestManager;
+  let emailLog: EmailLog;
+  let poller: Poller;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "betteremail-recovery-"));
+    digest = new DigestManager(tmpDir);
+    emailLog = new EmailLog(tmpDir, logger);
+    poller = new Poller(logger, tmpDir, new Map(), 7);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  const load = () => loadState({ poller, digest, emailLog, logger, runCommand });
+  const alertText = () => runCommand.mock.calls[0][0].at(-1) as string;
+
+  it("loads healthy state without alerting", async () => {
+    await digest.load();
+    digest.add(makeEntry());
+    await digest.save();
+
+    await load();
+    expect(digest.has("msg-1")).toBe(true);
+    expect(runCommand).not.toHaveBeenCalled();
+  });
+
+  it("keeps readable entries of a damaged digest and rebuilds the rest from the log", async () => {
+    const now = Date.now() / 1000;
+    await emailLog.append({ email: makeEmail("kept"), timestamp: now });
+    await emailLog.append({ email: makeEmail("lost"), timestamp: now });
+    await emailLog.append({ email: makeEmail("ancient"), timestamp: now - 60 * 24 * 60 * 60 });
+    await fs.writeFile(path.join(tmpDir, "digest.json"), JSON.stringify({
+      schemaVersion: 1,
+      entries: {
+        kept: makeEntry({ id: "kept", status: "dismissed", dismissReason: "newsletter" }),
+        lost: { id: "lost", status: "handled" },
+      },
+    }));
+
+    await load();
+    expect(digest.get("kept")).toMatchObject({ status: "dismissed", dismissReason: "newsletter" });
+    expect(digest.get("lost")).toMatchObject({ status: "new", subject: "Subject lost", threadId: "t-lost" });
+    expect(digest.has("ancient")).toBe(false);
+
+    // The repaired digest is saved, so a reload sees it without another alert
+    const reloaded = new DigestManager(tmpDir);
+    expect(await reloaded.load()).toBeNull();
+    expect(reloaded.getByStatus("all")).toHaveLength(2);
+
+    expect(runCommand).toHaveBeenCalledTimes(1);
+    expect(alertText()).toMatch(/^\[BetterEmail\] State files were damaged/);
+    expect(alertText()).toContain("Kept 1 readable entries and restored 1 recent email(s)");
+    expect((await fs.readdir(tmpDir)).some((f) => f.startsWith("digest.json.corrupt-"))).toBe(true);
+  });
+
+  it("rebuilds from the log when the digest is not even JSON", async () => {
+    await emailLog.append({ email: makeEmail("a"), timestamp: Date.now() / 1000 });
+    await fs.writeFile(path.join(tmpDir, "digest.json"), '{"schemaVersion": 1, "entries": {"a": {"id": "a", "sta');
+
+    await load();
+    expect(digest.get("a")?.status).toBe("new");
+    expect(alertText()).toContain("Kept 0 readable entries and restored 1 recent email(s)");
+  });
+
+  it("reports a torn email log line and a corrupt poll state", async () => {
+    await emailLog.append({ email: makeEmail("a"), timestamp: Date.now() / 1000 });
+    await fs.appendFile(path.join(tmpDir, "emails.jsonl"), "{\"email\"");
+    await fs.writeFile(path.join(tmpDir, "state.json"), "\u0000");
+
+    await load();
+    expect(await emailLog.seenIds()).toEqual(new Set(["a"]));
+    expect(alertText()).toContain("emails.jsonl had 1 unreadable line(s)");
+    expect(alertText()).toContain("state.json was unreadable");
+  });
+
+  it("leaves a digest from a newer release alone, refuses to save over it and alerts once", async () => {
+    const newer = JSON.stringify({ schemaVersion: 99, entries: {}, fromTheFuture: true });
+    await fs.writeFile(path.join(tmpDir, "digest.json"), newer);
+
+    await expect(load()).rejects.toThrow(/newer version of the plugin/);
+    await expect(load()).rejects.toThrow(/newer version of the plugin/);
+    expect(runCommand).toHaveBeenCalledTimes(1);
+    expect(alertText()).toContain("digest.json was written by a newer version");
+
+    await expect(digest.save()).rejects.toThrow(/newer version of the plugin/);
+    expect(await fs.readFile(path.join(tmpDir, "digest.json"), "utf8")).toBe(newer);
+    expect((await fs.readdir(tmpDir)).some((f) => f.includes(".corrupt-"))).toBe(false);
+  });
+
+  it("does not rewrite an email log holding lines from a newer release", async () => {
+    await emailLog.append({ email: makeEmail("a"), timestamp: Date.now() / 1000 });
+    await fs.appendFile(path.join(tmpDir, "emails.jsonl"), JSON.stringify({ schemaVersion: 99, email: { id: "b" }, timestamp: 1 }) + "\n");
+    const before = await fs.readFile(path.join(tmpDir, "emails.jsonl"), "utf8");
+
+    await expect(load()).rejects.toThrow(/newer version of the plugin/);
+    expect(await emailLog.seenIds()).toEqual(new Set(["a"]));
+    expect(await fs.readFile(path.join(tmpDir, "emails.jsonl"), "utf8")).toBe(before);
+  });
+
+  it("logs when the alert cannot be delivered", async () => {
+    runCommand.mockRejectedValueOnce(new Error("no agent"));
+    await fs.writeFile(path.join(tmpDir, "state.json"), "garbage");
+
+    await load();
+    expect(logger.error).toHaveBeenCalledWith("betteremail: failed to alert agent about damaged state files");
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from "vitest";
+import { applyRuleOutcome, evaluateRules, resolveRules, ruleMatches, validateRule } from "../src/rules.js";
+import type { DigestEntry, TriageRule, TrimmedEmail } from "../src/types.js";
+
+function makeEmail(overrides: Partial<TrimmedEmail> = {}): TrimmedEmail {
+  return {
+    id: "msg-1", threadId: "t-1", account: "me@work.com",
+    from: "Alerts <alerts@ci.example.com>", to: "me@work.com, team@work.com", subject: "Build failed on main",
+    date: "2026-02-26T10:00:00Z", body: "The nightly build failed. See logs.", originalLength: 35, truncated: false,
+    threadLength: 3, hasAttachments: false, attachments: [], labels: ["INBOX", "CATEGORY_UPDATES"],
+    ...overrides,
+  };
+}
+
+function makeEntry(overrides: Partial<DigestEntry> = {}): DigestEntry {
+  return {
+    id: "msg-1", threadId: "t-1", account: "me@work.com", from: "alerts@ci.example.com", subject: "Build failed",
+    date: "2026-02-26T10:00:00Z", body: "", status: "new", firstSeenAt: "2026-02-26T10:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("ruleMatches", () => {
+  it("requires every condition to hold", () => {
+    const email = makeEmail();
+    const rule = (match: TriageRule["match"]): TriageRule => ({ name: "r", match, tags: ["x"] });
+    expect(ruleMatches(rule({ from: "CI.EXAMPLE.COM", subject: "^build (failed|passed)" }), email)).toBe(true);
+    expect(ruleMatches(rule({ from: "ci.example.com", subject: "^deploy" }), email)).toBe(false);
+    expect(ruleMatches(rule({ to: "team@work.com", account: "ME@work.com" }), email)).toBe(true);
+    expect(ruleMatches(rule({ bodyKeywords: ["urgent", "nightly"] }), email)).toBe(true);
+    expect(ruleMatches(rule({ bodyKeywords: ["urgent"] }), email)).toBe(false);
+    expect(ruleMatches(rule({ hasAttachments: true }), email)).toBe(false);
+    expect(ruleMatches(rule({ labels: ["category_updates"] }), email)).toBe(true);
+    expect(ruleMatches(rule({ labels: ["STARRED"] }), makeEmail({ labels: undefined }))).toBe(false);
+    expect(ruleMatches(rule({ minThreadLength: 3, maxThreadLength: 5 }), email)).toBe(true);
+    expect(ruleMatches(rule({ minThreadLength: 4 }), email)).toBe(false);
+  });
+});
+
+describe("evaluateRules", () => {
+  it("takes the first status action and accumulates tags, priority and notify", () => {
+    const rules: TriageRule[] = [
+      { name: "ci", match: { from: "ci.example.com" }, action: "dismiss", tags: ["ci"] },
+      { name: "failures", match: { subject: "failed" }, action: "handle", priority: 3, tags: ["ci", "failure"], notify: true },
+      { name: "other", match: { subject: "invoice" }, priority: 9 },
+    ];
+    expect(evaluateRules(rules, makeEmail())).toEqual({
+      matched: ["ci", "failures"],
+      action: { rule: "ci", type: "dismiss", deferMinutes: undefined },
+      priority: { name: "failures", priority: 3 },
+      tags: ["ci", "failure"],
+      notify: true,
+    });
+  });
+});
+
+describe("applyRuleOutcome", () => {
+  it("resolves a new entry and labels the decision", () => {
+    const entry = makeEntry();
+    const reason = applyRuleOutcome(entry, { matched: ["ci"], action: { rule: "ci", type: "dismiss" }, tags: ["ci"], notify: false });
+    expect(reason).toBe('auto-dismissed by rule "ci"');
+    expect(entry).toMatchObject({ status: "dismissed", resolvedAt: entry.firstSeenAt, dismissReason: reason, tags: ["ci"] });
+  });
+
+  it("defers from the time the entry was first seen", () => {
+    const entry = makeEntry();
+    applyRuleOutcome(entry, { matched: ["later"], action: { rule: "later", type: "defer", deferMinutes: 90 }, tags: [], notify: false });
+    expect(entry.status).toBe("deferred");
+    expect(entry.deferredUntil).toBe("2026-02-26T11:30:00.000Z");
+  });
+
+  it("leaves the status of an entry something else already decided", () => {
+    const entry = makeEntry({ status: "dismissed", dismissReason: "muted thread" });
+    const reason = applyRuleOutcome(entry, { matched: ["ci"], action: { rule: "ci", type: "handle" }, priority: { name: "ci", priority: 2 }, tags: [], notify: false });
+    expect(reason).toBeUndefined();
+    expect(entry).toMatchObject({ status: "dismissed", dismissReason: "muted thread", priority: 2 });
+  });
+});
+
+describe("rule validation", () => {
+  it("explains what is wrong with a rule", () => {
+    expect(validateRule({ name: "ok", match: { from: "x" }, action: "dismiss" })).toBeNull();
+    expect(validateRule({ name: "empty", match: {}, action: "dismiss" })).toMatch(/^\/match/);
+    expect(validateRule({ name: "typo", match: { form: "x" }, action: "dismiss" })).toMatch(/^\/match/);
+    expect(validateRule({ name: "regex", match: { subject: "([" }, tags: ["x"] })).toMatch(/invalid regular expression/);
+    expect(validateRule({ name: "defer", match: { from: "x" }, action: "defer" })).toMatch(/deferMinutes: required/);
+    expect(validateRule({ name: "minutes", match: { from: "x" }, action: "dismiss", deferMinutes: 5 })).toMatch(/only allowed/);
+    expect(validateRule({ name: "noop", match: { from: "x" } })).toMatch(/at least one of/);
+  });
+
+  it("keeps valid rules and warns about the rest", () => {
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const rules = resolveRules([
+      { name: "ok", match: { from: "x" }, action: "dismiss" },
+      { name: "bad", match: { from: "x" }, action: "archive" },
+      "not a rule",
+    ], logger);
+    expect(rules.map((r) => r.name)).toEqual(["ok"]);
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+    expect(logger.warn.mock.calls[0][0]).toMatch(/^betteremail: ignoring invalid rules\[1\]/);
+    expect(resolveRules(undefined, logger)).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyHistoryEvent, buildSenderProfiles, describeSenderProfile, dominantOutcome, emptyProfile, medianTriageMinutes, senderOutcome,
+  suggestsDismissal,
+} from "../src/sender-profiles.js";
+import type { DigestEntry, DigestHistoryEvent, EmailLogEntry, SenderProfile } from "../src/types.js";
+
+function makeEntry(history: DigestHistoryEvent[], overrides: Partial<DigestEntry> = {}): DigestEntry {
+  return {
+    id: "msg-1", threadId: "t-1", account: "me@gmail.com", from: "News <news@shop.com>", subject: "Sale",
+    date: "2026-02-26T10:00:00Z", body: "", status: history[history.length - 1]?.to ?? "new",
+    firstSeenAt: "2026-02-26T10:00:00.000Z", history,
+    ...overrides,
+  };
+}
+
+const created: DigestHistoryEvent = { at: "2026-02-26T10:00:00.000Z", from: null, to: "new", actor: "pipeline" };
+
+function profileWith(outcomes: Partial<SenderProfile["outcomes"]>, received: number, triageMinutes: number[] = []): SenderProfile {
+  const profile = emptyProfile("news@shop.com");
+  return { ...profile, received, outcomes: { ...profile.outcomes, ...outcomes }, triageMinutes };
+}
+
+describe("senderOutcome", () => {
+  it("counts the owner's decisions and replies, not automatic ones", () => {
+    expect(senderOutcome("dismissed", "dismiss_email")).toBe("dismissed");
+    expect(senderOutcome("dismissed", "mute_thread")).toBe("dismissed");
+    expect(senderOutcome("deferred", "defer_email")).toBe("deferred");
+    expect(senderOutcome("handled", "auto-resolve")).toBe("autoResolved");
+    expect(senderOutcome("dismissed", "pipeline")).toBeUndefined();
+    expect(senderOutcome("dismissed", "expiry")).toBeUndefined();
+    expect(senderOutcome("surfaced", "get_email_digest")).toBeUndefined();
+  });
+});
+
+describe("applyHistoryEvent", () => {
+  it("samples triage time once per email and takes back undone decisions", () => {
+    const entry = makeEntry([
+      created,
+      { at: "2026-02-26T10:05:00.000Z", from: "new", to: "deferred", actor: "defer_email", deferMinutes: 60 },
+      { at: "2026-02-26T11:05:00.000Z", from: "deferred", to: "new", actor: "expiry" },
+      { at: "2026-02-26T11:30:00.000Z", from: "new", to: "dismissed", actor: "dismiss_email" },
+      { at: "2026-02-26T11:31:00.000Z", from: "dismissed", to: "new", actor: "undo_last_triage" },
+    ]);
+    const profile = emptyProfile("news@shop.com");
+    const changed = entry.history!.map((_, i) => applyHistoryEvent(profile, entry, i));
+
+    expect(changed).toEqual([false, true, false, true, true]);
+    expect(profile.outcomes).toEqual({ handled: 0, dismissed: 0, deferred: 1, autoResolved: 0 });
+    expect(profile.triageMinutes).toEqual([5]);
+    expect(profile.lastTriagedAt).toBe("2026-02-26T11:30:00.000Z");
+  });
+});
+
+describe("buildSenderProfiles", () => {
+  it("counts arrivals from the log and decisions from entry history", () => {
+    const log = [1, 2, 3].map((n): EmailLogEntry => ({
+      email: {
+        id: `m${n}`, threadId: "t", account: "me@gmail.com", from: "News <NEWS@shop.com>", to: "me@gmail.com", subject: "Sale",
+        date: "2026-02-26T10:00:00Z", body: "", originalLength: 0, truncated: false, threadLength: 1, hasAttachments: false, attachments: [],
+      },
+      timestamp: 1_772_100_000 + n,
+    }));
+    const entries = [
+      makeEntry([created, { at: "2026-02-26T12:00:00.000Z", from: "new", to: "dismissed", actor: "dismiss_email" }]),
+      makeEntry([created], { id: "msg-2", from: "boss@work.com" }),
+    ];
+
+    const profiles = buildSenderProfiles(entries, log);
+    expect(profiles).toEqual([
+      expect.objectContaining({ sender: "news@shop.com", received: 3, outcomes: expect.objectContaining({ dismissed: 1 }), triageMinutes: [120] }),
+      expect.objectContaining({ sender: "boss@work.com", received: 0 }),
+    ]);
+  });
+});
+
+describe("profile summaries", () => {
+  it("describes the dominant outcome and typical triage time", () => {
+    expect(describeSenderProfile(profileWith({ dismissed: 14, handled: 1 }, 15, [2, 4, 6]))).toBe(
+      "you dismissed 14/15 from this sender, usually within 4m",
+    );
+    expect(describeSenderProfile(profileWith({ autoResolved: 3 }, 4, [90, 150]))).toBe(
+      "you replied to 3/4 from this sender, usually within 2h",
+    );
+    expect(describeSenderProfile(profileWith({}, 1))).toBe("first email from this sender");
+    expect(describeSenderProfile(profileWith({}, 3))).toBe("3 emails from this sender, none triaged yet");
+    expect(dominantOutcome(profileWith({ handled: 2, dismissed: 2 }, 4))).toBe("handled");
+    expect(medianTriageMinutes(profileWith({}, 0))).toBeUndefined();
+  });
+
+  it("suggests dismissal only for senders dismissed nearly every time", () => {
+    expect(suggestsDismissal(profileWith({ dismissed: 14, handled: 1 }, 15))).toBe(true);
+    expect(suggestsDismissal(profileWith({ dismissed: 4 }, 4))).toBe(false);
+    expect(suggestsDismissal(profileWith({ dismissed: 8, autoResolved: 2 }, 10))).toBe(false);
+  });
+});
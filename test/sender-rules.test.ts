@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { displayName, matchSenderRule, senderMatchFromParams, senderRuleId, senderRuleReason } from "../src/sender-rules.js";
+import type { SenderRule } from "../src/types.js";
+
+function rule(match: SenderRule["match"], pattern: string, action: SenderRule["action"] = "always_dismiss"): SenderRule {
+  return { id: senderRuleId(match, pattern), match, pattern, action, createdAt: "2026-02-26T10:00:00Z" };
+}
+
+describe("matchSenderRule", () => {
+  it("matches an exact address, a domain with its subdomains and a display-name glob", () => {
+    const rules = [rule("address", "deals@shop.com"), rule("domain", "news.example.com"), rule("name", "*newsletter*")];
+    expect(matchSenderRule(rules, "Shop <DEALS@shop.com>")?.id).toBe("address:deals@shop.com");
+    expect(matchSenderRule(rules, "other@shop.com")).toBeUndefined();
+    expect(matchSenderRule(rules, "a@news.example.com")?.id).toBe("domain:news.example.com");
+    expect(matchSenderRule(rules, "a@eu.news.example.com")?.id).toBe("domain:news.example.com");
+    expect(matchSenderRule(rules, "a@fakenews.example.com")).toBeUndefined();
+    expect(matchSenderRule(rules, '"The Weekly Newsletter" <x@y.com>')?.id).toBe("name:*newsletter*");
+    expect(matchSenderRule(rules, "newsletter@y.com")).toBeUndefined();
+  });
+
+  it("prefers the most specific rule", () => {
+    const rules = [rule("name", "*"), rule("domain", "work.com"), rule("address", "boss@work.com", "always_surface")];
+    expect(matchSenderRule(rules, "Boss <boss@work.com>")?.action).toBe("always_surface");
+    expect(matchSenderRule(rules, "Bot <bot@work.com>")?.id).toBe("domain:work.com");
+  });
+});
+
+describe("sender rule helpers", () => {
+  it("reads display names", () => {
+    expect(displayName('"Doe, Jane" <jane@x.com>')).toBe("Doe, Jane");
+    expect(displayName("jane@x.com")).toBe("");
+  });
+
+  it("labels auto-applied decisions", () => {
+    expect(senderRuleReason({ ...rule("domain", "shop.com"), reason: "promotions" }))
+      .toBe("auto-dismissed by sender rule domain:shop.com: promotions");
+    expect(senderRuleReason(rule("address", "a@b.com", "always_handle"))).toBe("auto-handled by sender rule address:a@b.com");
+  });
+
+  it("takes exactly one valid pattern from tool parameters", () => {
+    expect(senderMatchFromParams({ domain: "@Shop.com" })).toEqual({ match: "domain", pattern: "shop.com" });
+    expect(senderMatchFromParams({ name: "*Digest*" })).toEqual({ match: "name", pattern: "*digest*" });
+    expect(senderMatchFromParams({})).toMatch(/^Error: pass exactly one/);
+    expect(senderMatchFromParams({ address: "a@b.com", domain: "b.com" })).toMatch(/^Error: pass exactly one/);
+    expect(senderMatchFromParams({ address: "not-an-address" })).toMatch(/not an email address/);
+    expect(senderMatchFromParams({ domain: "localhost" })).toMatch(/not a domain/);
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { DigestManager } from "../src/digest.js";
+import { EmailLog } from "../src/email-log.js";
+import { Poller } from "../src/poller.js";
+import { STATE_FILES, loadStateFile, migrateState, validateState } from "../src/state-schema.js";
+import type { DigestEntry } from "../src/types.js";
+
+function makeEntry(overrides: Partial<DigestEntry> = {}): DigestEntry {
+  return {
+    id: "msg-1",
+    threadId: "thread-1",
+    account: "test@gmail.com",
+    from: "sender@example.com",
+    subject: "Test email",
+    date: "2026-02-26T10:00:00Z",
+    body: "Hello world",
+    status: "new",
+    firstSeenAt: "2026-02-26T10:05:00Z",
+    ...overrides,
+  };
+}
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+describe("migrateState", () => {
+  it("stamps unversioned legacy data with the current version", () => {
+    expect(migrateState("digest", { entries: { a: makeEntry({ id: "a" }) } })).toEqual({
+      schemaVersion: 3,
+      entries: { a: makeEntry({ id: "a" }) },
+    });
+    expect(migrateState("poll", {})).toEqual({ schemaVersion: 1, accounts: {} });
+  });
+
+  it("applies registered steps one version at a time", () => {
+    const spec = STATE_FILES.digest;
+    const original = { ...spec, migrations: [...spec.migrations] };
+    const seen: number[] = [];
+    spec.version = 5;
+    spec.migrations.push(
+      { to: 4, migrate: (data) => { seen.push(4); return { ...data, renamed: data.entries }; } },
+      { to: 5, migrate: (data) => { seen.push(5); const { entries: _old, ...rest } = data; return rest; } },
+    );
+    try {
+      expect(migrateState("digest", { schemaVersion: 3, entries: {} })).toEqual({ schemaVersion: 5, renamed: {} });
+      expect(seen).toEqual([4, 5]);
+    } finally {
+      Object.assign(spec, original);
+    }
+  });
+
+  it("rejects data from a newer release", () => {
+    expect(() => migrateState("digest", { schemaVersion: 99, entries: {} })).toThrow(/newer than this plugin supports/);
+  });
+});
+
+describe("validateState", () => {
+  it("accepts a current digest and reports the first problem otherwise", () => {
+    expect(validateState("digest", { schemaVersion: 3, entries: { "msg-1": makeEntry() } })).toBeNull();
+    expect(validateState("digest", { schemaVersion: 3, entries: { "msg-1": makeEntry({ status: "lost" as never }) } }))
+      .toMatch(/^\/entries\/msg-1\/status/);
+    expect(validateState("poll", { schemaVersion: 1, accounts: { a: { historyId: 5 } } })).toMatch(/^\/accounts\/a/);
+  });
+});
+
+describe("loadStateFile", () => {
+  let tmpDir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "betteremail-schema-"));
+    file = path.join(tmpDir, "digest.json");
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("reports a missing file", async () => {
+    expect(await loadStateFile(file, "digest", logger)).toEqual({ status: "missing" });
+  });
+
+  it("backs up a legacy file before migrating it", async () => {
+    const legacy = JSON.stringify({ entries: { "msg-1": makeEntry() } });
+    await fs.writeFile(file, legacy);
+
+    const result = await loadStateFile(file, "digest", logger);
+    expect(result).toMatchObject({ status: "ok", migratedFrom: 0, data: { schemaVersion: 3 } });
+    expect(await fs.readFile(`${file}.v0.bak`, "utf8")).toBe(legacy);
+    expect(logger.info).toHaveBeenCalledWith(expect.stringContaining("from schemaVersion 0 to 3"));
+  });
+
+  it("upgrades a version 1 digest written with the fields version 2 declares and rekeys its mutes", async () => {
+    const mute = { threadId: "t-1", account: "me@x.com", subject: "Storm", mutedAt: "2026-02-26T10:00:00Z" };
+    const entry = makeEntry({ priority: 30, priorityReasons: ["VIP sender (+50)"], tags: ["vip"] });
+    await fs.writeFile(file, JSON.stringify({ schemaVersion: 1, entries: { "msg-1": entry }, mutedThreads: { "t-1": mute } }));
+
+    const result = await loadStateFile(file, "digest", logger);
+    expect(result).toMatchObject({
+      status: "ok",
+      migratedFrom: 1,
+      data: { schemaVersion: 3, entries: { "msg-1": entry }, mutedThreads: { "me@x.com/t-1": mute } },
+    });
+    expect(await fs.readdir(tmpDir)).toContain("digest.json.v1.bak");
+  });
+
+  it("quarantines invalid JSON instead of discarding it", async () => {
+    await fs.writeFile(file, '{"entries": {');
+
+    const result = await loadStateFile(file, "digest", logger);
+    expect(result.status).toBe("quarantined");
+    const files = await fs.readdir(tmpDir);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^digest\.json\.corrupt-\d{4}-\d\d-\d\dT/);
+    expect(await fs.readFile(path.join(tmpDir, files[0]), "utf8")).toBe('{"entries": {');
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining("is unreadable"));
+  });
+
+  it("quarantines a file that fails validation", async () => {
+    await fs.writeFile(file, JSON.stringify({ schemaVersion: 1, entries: { x: { id: "x" } } }));
+    expect(await loadStateFile(file, "digest", logger)).toMatchObject({ status: "quarantined", reason: expect.stringMatching(/^\/entries\/x/) });
+  });
+
+  it("leaves a file from a newer release in place", async () => {
+    await fs.writeFile(file, JSON.stringify({ schemaVersion: 7, entries: {} }));
+    expect(await loadStateFile(file, "digest", logger)).toEqual({ status: "newer", version: 7 });
+    expect(await fs.readdir(tmpDir)).toEqual(["digest.json"]);
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining("newer than this plugin supports"));
+  });
+});
+
+describe("state files on load", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "betteremail-schema-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("rewrites a legacy digest.json at the current version", async () => {
+    await fs.writeFile(path.join(tmpDir, "digest.json"), JSON.stringify({ entries: { "msg-1": makeEntry() } }));
+
+    const digest = new DigestManager(tmpDir);
+    await digest.load();
+    expect(digest.get("msg-1")?.subject).toBe("Test email");
+    const saved = JSON.parse(await fs.readFile(path.join(tmpDir, "digest.json"), "utf8"));
+    expect(saved.schemaVersion).toBe(3);
+    expect((await fs.readdir(tmpDir)).sort()).toEqual(["digest.json", "digest.json.v0.bak"]);
+  });
+
+  it("starts an empty digest next to a quarantined one", async () => {
+    await fs.writeFile(path.join(tmpDir, "digest.json"), "not json");
+
+    const digest = new DigestManager(tmpDir);
+    await digest.load();
+    expect(digest.getByStatus("all")).toEqual([]);
+    digest.add(makeEntry());
+    await digest.save();
+    const files = await fs.readdir(tmpDir);
+    expect(files).toContain("digest.json");
+    expect(files.some((f) => f.startsWith("digest.json.corrupt-"))).toBe(true);
+  });
+
+  it("migrates a legacy state.json for the poller", async () => {
+    const account = { historyId: "42", lastPollAt: "2026-02-26T10:00:00Z", consecutiveFailures: 0 };
+    await fs.writeFile(path.join(tmpDir, "state.json"), JSON.stringify({ accounts: { "me@x.com": account } }));
+
+    const poller = new Poller(logger, tmpDir, new Map(), 7);
+    await poller.loadState();
+    expect(poller.getAccountState("me@x.com")).toEqual(account);
+    const saved = JSON.parse(await fs.readFile(path.join(tmpDir, "state.json"), "utf8"));
+    expect(saved.schemaVersion).toBe(1);
+  });
+
+  it("upgrades legacy emails.jsonl lines", async () => {
+    const logPath = path.join(tmpDir, "emails.jsonl");
+    const legacy = JSON.stringify({ email: { id: "old" }, timestamp: 1 }) + "\n";
+    await fs.writeFile(logPath, legacy);
+
+    const log = new EmailLog(tmpDir, logger);
+    await log.append({ email: { id: "new" } as never, timestamp: 2 });
+    expect(await log.seenIds()).toEqual(new Set(["old", "new"]));
+    expect(await log.recover()).toBeNull();
+    // The backup is the whole file as it was before the rewrite, legacy line first
+    expect((await fs.readFile(`${logPath}.v0.bak`, "utf8")).startsWith(legacy)).toBe(true);
+    const lines = (await fs.readFile(logPath, "utf8")).trim().split("\n").map((l) => JSON.parse(l));
+    expect(lines.map((l) => l.schemaVersion)).toEqual([1, 1]);
+  });
+});
@@ -0,0 +1,284 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { DigestManager } from "../src/digest.js";
+import { EmailLog } from "../src/email-log.js";
+import { JsonDigestStore } from "../src/storage/json.js";
+import { SqliteDigestStore, SqliteEmailLog, SqliteState, loadSqlite } from "../src/storage/sqlite.js";
+import { createStorage } from "../src/storage/index.js";
+import type { DigestEntry, DigestStore, EmailLogStore, TrimmedEmail } from "../src/types.js";
+
+function makeEntry(overrides: Partial<DigestEntry> = {}): DigestEntry {
+  return {
+    id: "msg-1",
+    threadId: "thread-1",
+    account: "test@gmail.com",
+    from: "Sender <sender@example.com>",
+    subject: "Test email",
+    date: "2026-02-26T10:00:00Z",
+    body: "Hello world",
+    status: "new",
+    firstSeenAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+function makeEmail(id: string): TrimmedEmail {
+  return {
+    id, threadId: "t-1", account: "test@gmail.com", from: "a@example.com", to: "test@gmail.com",
+    subject: "Hi", date: "2026-02-26T10:00:00Z", body: "Hello", originalLength: 5, truncated: false,
+    threadLength: 1, hasAttachments: false, attachments: [],
+  };
+}
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+const sqlite = loadSqlite();
+
+const backends: { name: string; available: boolean; create: (dir: string) => { store: DigestStore; log: EmailLogStore } }[] = [
+  {
+    name: "json",
+    available: true,
+    create: (dir) => ({ store: new JsonDigestStore(dir), log: new EmailLog(dir) }),
+  },
+  {
+    name: "sqlite",
+    available: sqlite !== null,
+    create: (dir) => {
+      const state = new SqliteState(dir, sqlite!, logger);
+      return { store: new SqliteDigestStore(state), log: new SqliteEmailLog(state) };
+    },
+  },
+];
+
+for (const backend of backends) {
+  describe.skipIf(!backend.available)(`${backend.name} storage`, () => {
+    let tmpDir: string;
+    let store: DigestStore;
+    let log: EmailLogStore;
+    let digest: DigestManager;
+
+    beforeEach(async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), `betteremail-${backend.name}-`));
+      ({ store, log } = backend.create(tmpDir));
+      digest = new DigestManager(tmpDir, store);
+      await digest.load();
+    });
+
+    afterEach(async () => {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it("looks entries up by id, status, account, thread and sender", () => {
+      digest.add(makeEntry({ id: "a", status: "new" }));
+      digest.add(makeEntry({ id: "b", status: "surfaced", threadId: "thread-2", account: "work@corp.com" }));
+      digest.add(makeEntry({ id: "c", status: "handled", from: "other@example.com" }));
+
+      expect(digest.get("b")?.account).toBe("work@corp.com");
+      expect(digest.has("z")).toBe(false);
+      expect(digest.getByStatus("new").map((e) => e.id)).toEqual(["a"]);
+      expect(digest.getActiveEntries().map((e) => e.id)).toEqual(["a", "b"]);
+      expect(digest.query({ account: "work@corp.com" }).map((e) => e.id)).toEqual(["b"]);
+      expect(digest.getByThread("thread-1").map((e) => e.id)).toEqual(["a", "c"]);
+      expect(digest.getBySender("SENDER@example.com").map((e) => e.id)).toEqual(["a", "b"]);
+      expect(digest.query({ status: ["new", "handled"], sender: "other@example.com" }).map((e) => e.id)).toEqual(["c"]);
+    });
+
+    it("persists status changes across reloads", async () => {
+      digest.add(makeEntry({ id: "a" }));
+      digest.defer("a", 30);
+      digest.dismiss("missing");
+      await digest.save();
+
+      const reloaded = new DigestManager(tmpDir, backend.create(tmpDir).store);
+      await reloaded.load();
+      expect(reloaded.get("a")).toMatchObject({ status: "deferred", deferredUntil: expect.any(String) });
+      expect(reloaded.has("missing")).toBe(false);
+    });
+
+    it("rolls back every change in a failed transaction", async () => {
+      digest.add(makeEntry({ id: "a" }));
+      digest.add(makeEntry({ id: "b" }));
+      expect(() => store.transaction(() => {
+        store.put({ ...store.get("a")!, status: "handled" });
+        store.delete("b");
+        throw new Error("boom");
+      })).toThrow("boom");
+      expect(digest.get("a")?.status).toBe("new");
+      expect(digest.has("b")).toBe(true);
+    });
+
+    it("rolls back a failed nested transaction, in-place edits included, and keeps the outer one", () => {
+      digest.add(makeEntry({ id: "a" }));
+      store.transaction(() => {
+        store.put(makeEntry({ id: "b" }));
+        expect(() => store.transaction(() => {
+          const entry = store.get("a")!;
+          entry.status = "handled";
+          store.put(entry);
+          store.putSenderRule({ id: "domain:example.com", match: "domain", pattern: "example.com", action: "always_dismiss", createdAt: new Date().toISOString() });
+          throw new Error("inner");
+        })).toThrow("inner");
+      });
+      expect(digest.get("a")?.status).toBe("new");
+      expect(digest.has("b")).toBe(true);
+      expect(digest.listSenderRules()).toEqual([]);
+    });
+
+    it("keeps thread mutes and sender rules across reloads and drops lapsed mutes", async () => {
+      const mutedAt = new Date().toISOString();
+      digest.muteThread({ threadId: "thread-1", account: "test@gmail.com", subject: "Storm", mutedAt });
+      digest.muteThread({ threadId: "thread-2", account: "test@gmail.com", subject: "Old", mutedAt, until: new Date(Date.now() - 1_000).toISOString() });
+      digest.putSenderRule({ id: "domain:example.com", match: "domain", pattern: "example.com", action: "always_dismiss", createdAt: mutedAt });
+      await digest.save();
+
+      const reloaded = new DigestManager(tmpDir, backend.create(tmpDir).store);
+      await reloaded.load();
+      expect(reloaded.getMute("thread-1", "test@gmail.com")?.subject).toBe("Storm");
+      expect(reloaded.getMute("thread-1", "other@gmail.com")).toBeUndefined();
+      expect(reloaded.getMute("thread-2", "test@gmail.com")).toBeUndefined();
+      expect(reloaded.matchSender("Sender <sender@example.com>")?.id).toBe("domain:example.com");
+      expect(reloaded.pruneMutes()).toBe(1);
+      expect(reloaded.unmuteThread("thread-1", "other@gmail.com")).toBe(false);
+      expect(reloaded.unmuteThread("thread-1", "test@gmail.com")).toBe(true);
+      expect(reloaded.unmuteThread("thread-1", "test@gmail.com")).toBe(false);
+      expect(reloaded.listMutes()).toEqual([]);
+    });
+
+    it("updates sender profiles as entries arrive and are triaged", async () => {
+      digest.add(makeEntry({ id: "a" }));
+      digest.add(makeEntry({ id: "b" }));
+      digest.add(makeEntry({ id: "c" }));
+      digest.add(makeEntry({ id: "d" }), { actor: "recovery" });
+      digest.dismiss("a");
+      digest.dismiss("b");
+      digest.markHandled("c");
+      digest.restore("c", "new");
+      await digest.save();
+
+      const reloaded = new DigestManager(tmpDir, backend.create(tmpDir).store);
+      await reloaded.load();
+      expect(reloaded.getSenderProfile("Sender <SENDER@example.com>")).toMatchObject({
+        sender: "sender@example.com",
+        received: 3,
+        outcomes: { handled: 0, dismissed: 2, deferred: 0, autoResolved: 0 },
+        lastTriagedAt: expect.any(String),
+      });
+      expect(reloaded.getSenderProfile("sender@example.com")?.triageMinutes).toHaveLength(3);
+      expect(await reloaded.backfillSenderProfiles(async () => [])).toBe(0);
+    });
+
+    it("logs emails, reports seen IDs and rotates old lines", async () => {
+      for (let i = 0; i < 5; i++) {
+        await log.append({ email: makeEmail(`msg-${i}`), timestamp: i < 2 ? 1000 : Date.now() / 1000 });
+      }
+      expect(await log.seenIds()).toEqual(new Set(["msg-0", "msg-1", "msg-2", "msg-3", "msg-4"]));
+      expect(await log.rotate(10)).toBe(0);
+      expect(await log.rotate(2)).toBe(3);
+      expect((await log.readAll()).map((e) => e.email.id)).toEqual(["msg-3", "msg-4"]);
+    });
+  });
+}
+
+describe.skipIf(!sqlite)("sqlite migration", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "betteremail-migrate-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("imports digest.json and emails.jsonl once and keeps them as .migrated", async () => {
+    const jsonDigest = new DigestManager(tmpDir);
+    await jsonDigest.load();
+    jsonDigest.add(makeEntry({ id: "a", status: "surfaced" }));
+    jsonDigest.add(makeEntry({ id: "b", status: "dismissed", dismissReason: "newsletter" }));
+    await jsonDigest.save();
+    const jsonLog = new EmailLog(tmpDir);
+    await jsonLog.append({ email: makeEmail("a"), timestamp: 1 });
+    await jsonLog.append({ email: makeEmail("b"), timestamp: 2 });
+    await fs.appendFile(path.join(tmpDir, "emails.jsonl"), '{"email": {"id": "torn"');
+
+    const state = new SqliteState(tmpDir, sqlite!, logger);
+    const digest = new DigestManager(tmpDir, new SqliteDigestStore(state));
+    await digest.load();
+    expect(digest.get("b")).toMatchObject({ status: "dismissed", dismissReason: "newsletter" });
+    expect(await new SqliteEmailLog(state).seenIds()).toEqual(new Set(["a", "b"]));
+    expect((await fs.readdir(tmpDir)).sort()).toEqual(
+      expect.arrayContaining(["digest.json.migrated", "emails.jsonl.migrated", "state.db"]),
+    );
+    expect(logger.info).toHaveBeenCalledWith(expect.stringContaining("imported 2 digest entries and 2 log entries"));
+
+    // A digest.json appearing later (e.g. a downgrade and upgrade) is not re-imported
+    state.close();
+    await fs.writeFile(path.join(tmpDir, "digest.json"), JSON.stringify({ entries: { c: makeEntry({ id: "c" }) } }));
+    const reopened = new DigestManager(tmpDir, new SqliteDigestStore(new SqliteState(tmpDir, sqlite!, logger)));
+    await reopened.load();
+    expect(reopened.has("c")).toBe(false);
+    expect(reopened.getByStatus("all")).toHaveLength(2);
+  });
+
+  it("upgrades rows from an older schemaVersion after backing up state.db", async () => {
+    const state = new SqliteState(tmpDir, sqlite!, logger);
+    const digest = new DigestManager(tmpDir, new SqliteDigestStore(state));
+    await digest.load();
+    digest.add(makeEntry({ id: "a" }));
+    state.statement("UPDATE meta SET value = ? WHERE key = 'schema_version'").run(JSON.stringify({ digest: 0, emailLog: 0 }));
+    state.close();
+
+    const reopened = new SqliteState(tmpDir, sqlite!, logger);
+    const upgraded = new DigestManager(tmpDir, new SqliteDigestStore(reopened));
+    await upgraded.load();
+    expect(upgraded.get("a")?.subject).toBe("Test email");
+    expect(await fs.readdir(tmpDir)).toContain("state.db.v0-0.bak");
+    expect(logger.info).toHaveBeenCalledWith(expect.stringContaining("migrated state.db from schemaVersion 0/0 to 3/1"));
+    reopened.close();
+  });
+
+  it("rekeys thread mutes by account when upgrading from schemaVersion 2", async () => {
+    const state = new SqliteState(tmpDir, sqlite!, logger);
+    await state.open();
+    const mute = { threadId: "t-1", account: "me@x.com", subject: "Storm", mutedAt: new Date().toISOString() };
+    state.statement("DROP TABLE muted_threads").run();
+    state.statement("CREATE TABLE muted_threads (thread_id TEXT PRIMARY KEY, data TEXT NOT NULL)").run();
+    state.statement("INSERT INTO muted_threads (thread_id, data) VALUES (?, ?)").run("t-1", JSON.stringify(mute));
+    state.statement("UPDATE meta SET value = ? WHERE key = 'schema_version'").run(JSON.stringify({ digest: 2, emailLog: 1 }));
+    state.close();
+
+    const reopened = new SqliteState(tmpDir, sqlite!, logger);
+    const upgraded = new DigestManager(tmpDir, new SqliteDigestStore(reopened));
+    await upgraded.load();
+    expect(upgraded.getMute("t-1", "me@x.com")).toEqual(mute);
+    upgraded.muteThread({ ...mute, account: "other@x.com" });
+    expect(upgraded.listMutes()).toHaveLength(2);
+    reopened.close();
+  });
+
+  it("refuses a database written by a newer release", async () => {
+    const state = new SqliteState(tmpDir, sqlite!, logger);
+    await state.open();
+    state.statement("UPDATE meta SET value = ? WHERE key = 'schema_version'").run(JSON.stringify({ digest: 99, emailLog: 1 }));
+    state.close();
+
+    await expect(new SqliteDigestStore(new SqliteState(tmpDir, sqlite!, logger)).load()).rejects.toThrow(/newer version/);
+  });
+});
+
+describe("createStorage", () => {
+  it("uses JSON files by default", () => {
+    const storage = createStorage("json", "/tmp/unused", logger);
+    expect(storage.backend).toBe("json");
+    expect(storage.emailLog).toBeInstanceOf(EmailLog);
+  });
+
+  it("picks sqlite when available and falls back to JSON otherwise", () => {
+    vi.clearAllMocks();
+    const storage = createStorage("sqlite", "/tmp/unused", logger);
+    expect(storage.backend).toBe(sqlite ? "sqlite" : "json");
+    expect(logger.warn).toHaveBeenCalledTimes(sqlite ? 0 : 1);
+  });
+});
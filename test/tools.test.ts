@@ -1,13 +1,26 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import * as fs from "node:fs/promises";
 import * as os from "node:os";
 import * as path from "node:path";
 import { DigestManager } from "../src/digest.js";
-import type { DigestEntry } from "../src/types.js";
+import type { DigestEntry, EmailLogEntry, RawGogMessage, TrimmedEmail } from "../src/types.js";
 import { createMarkEmailHandledTool } from "../src/tools/mark-email-handled.js";
 import { createDeferEmailTool } from "../src/tools/defer-email.js";
 import { createDismissEmailTool } from "../src/tools/dismiss-email.js";
 import { createGetEmailDigestTool } from "../src/tools/get-email-digest.js";
+import { createGetEmailTool } from "../src/tools/get-email.js";
+import { createGetEmailHistoryTool } from "../src/tools/get-email-history.js";
+import { createTestEmailRuleTool } from "../src/tools/test-email-rule.js";
+import { createRestoreEmailTool } from "../src/tools/restore-email.js";
+import { createUndoLastTriageTool } from "../src/tools/undo-last-triage.js";
+import { TriageJournal } from "../src/triage-journal.js";
+import { createMuteThreadTool } from "../src/tools/mute-thread.js";
+import { createUnmuteThreadTool } from "../src/tools/unmute-thread.js";
+import { createBlockSenderTool } from "../src/tools/block-sender.js";
+import { createAllowSenderTool } from "../src/tools/allow-sender.js";
+import { createListSenderRulesTool } from "../src/tools/list-sender-rules.js";
+import { createRemoveSenderRuleTool } from "../src/tools/remove-sender-rule.js";
+import { createSaveEmailAttachmentTool, safeFileName } from "../src/tools/save-email-attachment.js";
 
 function makeEntry(overrides: Partial<DigestEntry> = {}): DigestEntry {
   return {
@@ -363,6 +376,82 @@ describe("get_email_digest", () => {
     expect(digest.get("msg-1")?.status).toBe("surfaced");
   });
 
+  it("groups a thread into one item led by its newest message", async () => {
+    digest.add(makeEntry({ id: "msg-1", threadId: "t-busy", from: "alice@example.com", subject: "Plan", date: "2026-02-26T09:00:00Z" }));
+    digest.add(makeEntry({ id: "msg-2", threadId: "t-busy", from: "bob@example.com", subject: "Re: Plan", date: "2026-02-26T11:00:00Z" }));
+    digest.add(makeEntry({ id: "msg-3", threadId: "t-busy", from: "alice@example.com", subject: "Re: Plan", date: "2026-02-26T10:00:00Z" }));
+    digest.add(makeEntry({ id: "msg-4", threadId: "t-other", date: "2026-02-26T08:00:00Z" }));
+    const result = await tool.execute("call-1", { groupByThread: true, limit: 1 });
+    const parsed = JSON.parse(textContent(result));
+    expect(parsed).toMatchObject({ total: 2, showing: 1, hasMore: true });
+    expect(parsed.emails["test@gmail.com"]).toEqual([expect.objectContaining({
+      threadId: "t-busy",
+      subject: "Re: Plan",
+      messageCount: 3,
+      participants: ["bob@example.com", "alice@example.com"],
+      messageIds: ["msg-2", "msg-3", "msg-1"],
+      latest: expect.objectContaining({ messageId: "msg-2", from: "bob@example.com" }),
+    })]);
+    expect(digest.getByStatus("surfaced")).toHaveLength(4);
+  });
+
+  it("sorts by priority and hides emails below minPriority", async () => {
+    digest.add(makeEntry({ id: "msg-1", date: "2026-02-26T11:00:00Z", priority: -20, priorityReasons: ["mailing list or bulk mail (-20)"] }));
+    digest.add(makeEntry({ id: "msg-2", date: "2026-02-26T09:00:00Z", priority: 75, priorityReasons: ["VIP sender (+50)", 'urgent: "fraud" (+25)'] }));
+    digest.add(makeEntry({ id: "msg-3", date: "2026-02-26T10:00:00Z" }));
+
+    const sorted = JSON.parse(textContent(await tool.execute("call-1", { sortBy: "priority" })));
+    const emails = sorted.emails["test@gmail.com"];
+    expect(emails.map((e: any) => e.messageId)).toEqual(["msg-2", "msg-3", "msg-1"]);
+    expect(emails[0].priorityReasons).toEqual(["VIP sender (+50)", 'urgent: "fraud" (+25)']);
+
+    const filtered = JSON.parse(textContent(await tool.execute("call-2", { minPriority: 0 })));
+    expect(filtered.emails["test@gmail.com"].map((e: any) => e.messageId)).toEqual(["msg-3", "msg-2"]);
+  });
+
+  it("leaves emails hidden by minPriority unsurfaced", async () => {
+    digest.add(makeEntry({ id: "msg-1", priority: -20 }));
+    digest.add(makeEntry({ id: "msg-2", priority: 10 }));
+    await tool.execute("call-1", { minPriority: 5 });
+    expect(digest.get("msg-1")?.status).toBe("new");
+    expect(digest.get("msg-2")?.status).toBe("surfaced");
+  });
+
+  it("keeps or hides whole threads by their highest priority when grouping", async () => {
+    digest.add(makeEntry({ id: "msg-1", threadId: "t-vip", from: "vip@example.com", date: "2026-02-26T09:00:00Z", priority: 50 }));
+    digest.add(makeEntry({ id: "msg-2", threadId: "t-vip", from: "list@example.com", date: "2026-02-26T10:00:00Z", priority: -20 }));
+    digest.add(makeEntry({ id: "msg-3", threadId: "t-noise", date: "2026-02-26T11:00:00Z", priority: -20 }));
+
+    const parsed = JSON.parse(textContent(await tool.execute("call-1", { groupByThread: true, minPriority: 0 })));
+    expect(parsed.total).toBe(1);
+    expect(parsed.emails["test@gmail.com"]).toEqual([expect.objectContaining({
+      threadId: "t-vip",
+      messageCount: 2,
+      participants: ["list@example.com", "vip@example.com"],
+    })]);
+    expect(digest.get("msg-2")?.status).toBe("surfaced");
+    expect(digest.get("msg-3")?.status).toBe("new");
+  });
+
+  it("annotates emails with the sender's history and optionally suggests dismissal", async () => {
+    for (let i = 1; i <= 6; i++) {
+      digest.add(makeEntry({ id: `old-${i}`, from: "News <news@shop.com>" }));
+      digest.dismiss(`old-${i}`);
+    }
+    digest.add(makeEntry({ id: "msg-1", from: "news@shop.com" }));
+    digest.add(makeEntry({ id: "msg-2", from: "friend@example.com" }));
+
+    const plain = JSON.parse(textContent(await tool.execute("call-1", {})));
+    const byId = (parsed: any) => Object.fromEntries(parsed.emails["test@gmail.com"].map((e: any) => [e.messageId, e]));
+    expect(byId(plain)["msg-1"]).toMatchObject({ senderHistory: "you dismissed 6/7 from this sender, usually within 0m" });
+    expect(byId(plain)["msg-1"].suggestedAction).toBeUndefined();
+    expect(byId(plain)["msg-2"].senderHistory).toBe("first email from this sender");
+
+    const suggested = byId(JSON.parse(textContent(await tool.execute("call-2", { suggestDismissals: true }))));
+    expect(suggested["msg-1"].suggestedAction).toBe("dismiss");
+    expect(suggested["msg-2"].suggestedAction).toBeUndefined();
+  });
+
   it("filters by account", async () => {
     digest.add(makeEntry({ id: "msg-1", account: "a@test.com" }));
     digest.add(makeEntry({ id: "msg-2", account: "b@test.com" }));
@@ -378,8 +467,60 @@ describe("get_email_digest", () => {
     const parsed = JSON.parse(textContent(result));
     const entries = Object.values(parsed.emails ?? parsed).flat() as any[];
     const entry = entries.find((e: any) => e.messageId === "msg-long");
-    expect(entry.body.length).toBeLessThanOrEqual(501); // 500 chars + ellipsis char
-    expect(entry.body.endsWith("\u2026")).toBe(true);
+    expect(entry.body.length).toBeLessThanOrEqual(500);
+    expect(entry.body).toContain("chars omitted]");
+    expect(entry).toMatchObject({ truncated: true, originalLength: 600 });
+  });
+
+  it("shows attachment metadata and text previews", async () => {
+    digest.add(makeEntry({
+      id: "msg-att",
+      attachments: [
+        { filename: "invoice.pdf", mimeType: "application/pdf", size: 48_000, attachmentId: "att-1" },
+        { filename: "logo.png", mimeType: "image/png", size: 900, attachmentId: "att-2", inline: true },
+      ],
+      attachmentText: "[invoice.pdf]\nTotal due: EUR 120",
+    }));
+    const result = await tool.execute("call-1", {});
+    const entries = Object.values(JSON.parse(textContent(result)).emails).flat() as any[];
+    expect(entries[0].attachments).toEqual([
+      { filename: "invoice.pdf", mimeType: "application/pdf", size: "47 KB" },
+      { filename: "logo.png", mimeType: "image/png", size: "900 B", inline: true },
+    ]);
+    expect(entries[0].attachmentText).toBe("[invoice.pdf]\nTotal due: EUR 120");
+  });
+
+  it("reports bodies already truncated by the trimmer", async () => {
+    digest.add(makeEntry({ id: "msg-trimmed", body: "Short now.", originalLength: 4200, truncated: true }));
+    digest.add(makeEntry({ id: "msg-whole", body: "Complete." }));
+    const result = await tool.execute("call-1", {});
+    const entries = Object.values(JSON.parse(textContent(result)).emails).flat() as any[];
+    expect(entries.find((e) => e.messageId === "msg-trimmed")).toMatchObject({ body: "Short now.", truncated: true, originalLength: 4200 });
+    expect(entries.find((e) => e.messageId === "msg-whole")).not.toHaveProperty("truncated");
+  });
+
+  it("spreads a character budget across emails, giving short bodies only what they need", async () => {
+    const sentence = "This sentence is exactly forty chars ok. ";
+    digest.add(makeEntry({ id: "short", body: "Tiny.", date: "2026-02-26T10:00:00Z" }));
+    digest.add(makeEntry({ id: "long-1", body: sentence.repeat(20).trim(), date: "2026-02-26T09:00:00Z" }));
+    digest.add(makeEntry({ id: "long-2", body: sentence.repeat(20).trim(), date: "2026-02-26T08:00:00Z" }));
+    const result = await tool.execute("call-1", { maxChars: 605 });
+    const entries = Object.values(JSON.parse(textContent(result)).emails).flat() as any[];
+    const byId = Object.fromEntries(entries.map((e) => [e.messageId, e]));
+    expect(byId.short.body).toBe("Tiny.");
+    for (const id of ["long-1", "long-2"]) {
+      expect(byId[id].body.length).toBeLessThanOrEqual(300);
+      expect(byId[id].body).toMatch(/ok\.\n\n\[… \d+ chars omitted\]$/);
+      expect(byId[id].truncated).toBe(true);
+    }
+  });
+
+  it("converts a token budget to characters", async () => {
+    digest.add(makeEntry({ id: "msg-long", body: "word ".repeat(200).trim() }));
+    const result = await tool.execute("call-1", { maxTokens: 50 });
+    const entries = Object.values(JSON.parse(textContent(result)).emails).flat() as any[];
+    expect(entries[0].body.length).toBeLessThanOrEqual(200);
+    expect(entries[0].body).toMatch(/^word word/);
   });
 
   it("respects limit parameter", async () => {
@@ -488,6 +629,598 @@ describe("get_email_digest", () => {
   });
 });
 
+describe("get_email", () => {
+  let tmpDir: string;
+  let digest: DigestManager;
+
+  const background = "The vendor proposal covers hosting, support and a two-year price lock for all regions.";
+  const thread: RawGogMessage[] = [
+    {
+      id: "msg-0", threadId: "thread-1", from: "me@example.com", to: "sender@example.com",
+      subject: "Vendor proposal", date: "2026-02-25T09:00:00Z",
+      body: `Hi,\n\n${background}\n\nThoughts?`,
+    },
+    {
+      id: "msg-1", threadId: "thread-1", from: "sender@example.com", to: "me@example.com",
+      subject: "Re: Vendor proposal", date: "2026-02-26T10:00:00Z",
+      body: `Looks good to me, but can we push for three years?\n\n${background}\n\nSent from my iPhone`,
+      attachments: [{ filename: "counter-offer.pdf", mimeType: "application/pdf", size: 48_000, attachmentId: "att-9" }],
+    },
+  ];
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "tools-test-"));
+    digest = new DigestManager(tmpDir);
+    await digest.load();
+    digest.add(makeEntry({ id: "msg-1", threadId: "thread-1", status: "surfaced" }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  function makeTool() {
+    const deps = {
+      fetchMessage: vi.fn(async (id: string) => thread.find((m) => m.id === id) ?? null),
+      fetchThread: vi.fn(async (threadId: string) => (threadId === "thread-1" ? { id: threadId, messages: thread } : null)),
+    };
+    return { tool: createGetEmailTool(digest, undefined, deps), deps };
+  }
+
+  it("returns the single message with headers, attachments and the digest marker", async () => {
+    const { tool, deps } = makeTool();
+    const parsed = JSON.parse(textContent(await tool.execute("call-1", { messageId: "msg-1" })));
+    expect(deps.fetchMessage).toHaveBeenCalledWith("msg-1", "test@gmail.com");
+    expect(deps.fetchThread).not.toHaveBeenCalled();
+    expect(parsed).toMatchObject({ messageId: "msg-1", threadId: "thread-1", account: "test@gmail.com", status: "surfaced" });
+    expect(parsed.messages).toHaveLength(1);
+    expect(parsed.messages[0]).toMatchObject({
+      messageId: "msg-1",
+      digestEntry: true,
+      from: "sender@example.com",
+      subject: "Re: Vendor proposal",
+      attachments: [{ filename: "counter-offer.pdf", mimeType: "application/pdf", size: "47 KB", attachmentId: "att-9" }],
+    });
+    expect(parsed.messages[0].body).toBe(`Looks good to me, but can we push for three years?\n\n${background}`);
+  });
+
+  it("returns the whole thread oldest first with repeated paragraphs removed", async () => {
+    const { tool, deps } = makeTool();
+    const parsed = JSON.parse(textContent(await tool.execute("call-1", { messageId: "msg-1", includeThread: true })));
+    expect(deps.fetchThread).toHaveBeenCalledWith("thread-1", "test@gmail.com");
+    expect(parsed.messages.map((m: any) => m.messageId)).toEqual(["msg-0", "msg-1"]);
+    expect(parsed.messages[0].digestEntry).toBeUndefined();
+    expect(parsed.messages[0].body).toContain(background);
+    expect(parsed.messages[1]).toMatchObject({
+      digestEntry: true,
+      body: "Looks good to me, but can we push for three years?",
+      repeatedParagraphsRemoved: 1,
+    });
+  });
+
+  it("does not cut bodies to the digest preview length", async () => {
+    const long = "A sentence that keeps going. ".repeat(100);
+    const tool = createGetEmailTool(digest, undefined, {
+      fetchMessage: async () => ({ ...thread[1], body: long }),
+      fetchThread: async () => null,
+    });
+    const parsed = JSON.parse(textContent(await tool.execute("call-1", { messageId: "msg-1" })));
+    expect(parsed.messages[0].body).toBe(long.trim());
+    expect(parsed.messages[0].truncated).toBeUndefined();
+  });
+
+  it("reports unknown messages and fetch failures", async () => {
+    const { tool, deps } = makeTool();
+    expect(textContent(await tool.execute("call-1", { messageId: "nope" }))).toBe("Email nope not found in digest.");
+    expect(textContent(await tool.execute("call-1", {}))).toContain("Error: messageId");
+
+    deps.fetchThread.mockResolvedValueOnce(null);
+    expect(textContent(await tool.execute("call-1", { messageId: "msg-1", includeThread: true })))
+      .toBe("Error: could not fetch thread thread-1 from test@gmail.com.");
+  });
+});
+
+describe("save_email_attachment", () => {
+  let tmpDir: string;
+  let saveDir: string;
+  let digest: DigestManager;
+
+  const pdf = { filename: "Invoice 42.pdf", mimeType: "application/pdf", size: 11, attachmentId: "att-1" };
+  const exe = { filename: "setup.exe", mimeType: "application/x-msdownload", size: 11, attachmentId: "att-2" };
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "tools-test-"));
+    saveDir = path.join(tmpDir, "attachments");
+    digest = new DigestManager(tmpDir);
+    await digest.load();
+    digest.add(makeEntry({ id: "msg-1", status: "surfaced", attachments: [pdf, exe] }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  function makeTool(overrides: { maxBytes?: number; data?: Buffer } = {}) {
+    const deps = {
+      fetchMessage: vi.fn(async (): Promise<RawGogMessage | null> => null),
+      fetchAttachment: vi.fn(async () => overrides.data ?? Buffer.from("%PDF-1.4 ok")),
+      directory: saveDir,
+      maxBytes: overrides.maxBytes ?? 1024,
+      allowedMimeTypes: ["application/pdf", "image/*"],
+    };
+    return { tool: createSaveEmailAttachmentTool(digest, undefined, deps), deps };
+  }
+
+  it("saves the attachment under the configured directory and returns its path", async () => {
+    const { tool, deps } = makeTool();
+    const text = textContent(await tool.execute("call-1", { messageId: "msg-1", filename: "invoice 42.PDF" }));
+    const saved = path.join(saveDir, "msg-1", "Invoice 42.pdf");
+    expect(deps.fetchAttachment).toHaveBeenCalledWith("msg-1", "att-1", "test@gmail.com");
+    expect(text).toBe(`Saved "Invoice 42.pdf" (11 B, application/pdf) to ${saved}`);
+    expect(await fs.readFile(saved, "utf8")).toBe("%PDF-1.4 ok");
+  });
+
+  it("refuses to overwrite an existing file", async () => {
+    const { tool } = makeTool();
+    await tool.execute("call-1", { messageId: "msg-1", attachmentId: "att-1" });
+    const text = textContent(await tool.execute("call-2", { messageId: "msg-1", attachmentId: "att-1" }));
+    expect(text).toMatch(/^Error: .*Invoice 42\.pdf already exists; not overwriting\.$/);
+  });
+
+  it("rejects MIME types outside the allowlist without downloading", async () => {
+    const { tool, deps } = makeTool();
+    const text = textContent(await tool.execute("call-1", { messageId: "msg-1", attachmentId: "att-2" }));
+    expect(text).toBe("Error: application/x-msdownload attachments are not allowed to be saved.");
+    expect(deps.fetchAttachment).not.toHaveBeenCalled();
+  });
+
+  it("enforces the size limit on the downloaded bytes", async () => {
+    const { tool } = makeTool({ maxBytes: 16, data: Buffer.alloc(32) });
+    const text = textContent(await tool.execute("call-1", { messageId: "msg-1", attachmentId: "att-1" }));
+    expect(text).toBe("Error: Invoice 42.pdf is 32 B, over the 16 B limit.");
+    await expect(fs.access(saveDir)).rejects.toThrow();
+  });
+
+  it("keeps hostile filenames inside the directory", async () => {
+    digest.add(makeEntry({
+      id: "../../escape",
+      attachments: [{ filename: "../../../etc/passwd.pdf", mimeType: "application/pdf", size: 3, attachmentId: "x" }],
+    }));
+    const { tool } = makeTool();
+    const text = textContent(await tool.execute("call-1", { messageId: "../../escape" }));
+    expect(text).toContain(path.join(saveDir, "escape", "passwd.pdf"));
+    expect(safeFileName("..")).toBe("attachment");
+    expect(safeFileName('a<b>:"c|?.pdf')).toBe("a_b___c__.pdf");
+  });
+
+  it("asks which attachment when there are several and none was named", async () => {
+    const { tool } = makeTool();
+    expect(textContent(await tool.execute("call-1", { messageId: "msg-1" })))
+      .toBe("Error: specify attachmentId or filename. Available: Invoice 42.pdf (attachmentId: att-1), setup.exe (attachmentId: att-2).");
+  });
+
+  it("looks up attachments for entries recorded without metadata", async () => {
+    digest.add(makeEntry({ id: "msg-old" }));
+    const { tool, deps } = makeTool();
+    deps.fetchMessage.mockResolvedValueOnce({ id: "msg-old", threadId: "t", attachments: [pdf] });
+    const text = textContent(await tool.execute("call-1", { messageId: "msg-old" }));
+    expect(text).toContain(path.join(saveDir, "msg-old", "Invoice 42.pdf"));
+  });
+});
+
+describe("thread-wide triage", () => {
+  let tmpDir: string;
+  let digest: DigestManager;
+  let journal: TriageJournal;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "tools-test-"));
+    digest = new DigestManager(tmpDir);
+    await digest.load();
+    journal = new TriageJournal();
+    digest.add(makeEntry({ id: "msg-1", threadId: "t-busy" }));
+    digest.add(makeEntry({ id: "msg-2", threadId: "t-busy", status: "surfaced" }));
+    digest.add(makeEntry({ id: "msg-3", threadId: "t-busy", status: "handled" }));
+    digest.add(makeEntry({ id: "msg-4", threadId: "t-other" }));
+    // Same thread id in another account is a different thread
+    digest.add(makeEntry({ id: "msg-5", threadId: "t-busy", account: "other@test.com" }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  const statuses = () => Object.fromEntries(digest.getByStatus("all").map((e) => [e.id, e.status]));
+
+  it("handles every active email in the thread and nothing else", async () => {
+    const result = await createMarkEmailHandledTool(digest, undefined, journal).execute("1", { messageId: "msg-3", thread: true });
+    expect(textContent(result)).toContain("Marked 2 email(s)");
+    expect(statuses()).toEqual({ "msg-1": "handled", "msg-2": "handled", "msg-3": "handled", "msg-4": "new", "msg-5": "new" });
+
+    // One undo brings back the whole thread call
+    await createUndoLastTriageTool(digest, journal).execute("2", {});
+    expect(statuses()).toEqual({ "msg-1": "new", "msg-2": "surfaced", "msg-3": "handled", "msg-4": "new", "msg-5": "new" });
+  });
+
+  it("dismisses the thread with the reason on each email", async () => {
+    await createDismissEmailTool(digest).execute("1", { messageId: "msg-1", thread: true, reason: "noise" });
+    expect(digest.get("msg-2")).toMatchObject({ status: "dismissed", dismissReason: "noise" });
+    const again = await createDismissEmailTool(digest).execute("2", { messageId: "msg-1", thread: true });
+    expect(textContent(again)).toContain("no active emails in this thread");
+  });
+
+  it("defers the thread so later replies wait with it", async () => {
+    await createDeferEmailTool(digest).execute("1", { messageId: "msg-1", minutes: 60, thread: true });
+    expect(digest.get("msg-1")).toMatchObject({ status: "deferred", deferredWithThread: true });
+    expect(digest.get("msg-2")?.status).toBe("deferred");
+    expect(digest.get("msg-5")?.status).toBe("new");
+    expect(digest.threadDeferral("t-busy", "test@gmail.com")).toBe(digest.get("msg-1")?.deferredUntil);
+    expect(digest.threadDeferral("t-busy", "other@test.com")).toBeUndefined();
+
+    // A single-message deferral does not pull the thread's later replies along
+    await createDeferEmailTool(digest).execute("2", { messageId: "msg-4", minutes: 60 });
+    expect(digest.threadDeferral("t-other", "test@gmail.com")).toBeUndefined();
+  });
+});
+
+describe("mute_thread and unmute_thread", () => {
+  let tmpDir: string;
+  let digest: DigestManager;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "tools-test-"));
+    digest = new DigestManager(tmpDir);
+    await digest.load();
+    digest.add(makeEntry({ id: "msg-1", threadId: "t-storm", subject: "Re: all hands" }));
+    digest.add(makeEntry({ id: "msg-2", threadId: "t-storm", status: "surfaced" }));
+    digest.add(makeEntry({ id: "msg-3", threadId: "t-other" }));
+    // Same thread id in another account is a different thread
+    digest.add(makeEntry({ id: "msg-4", threadId: "t-storm", account: "other@test.com" }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("mutes the thread and dismisses its active emails", async () => {
+    const result = await createMuteThreadTool(digest).execute("1", { messageId: "msg-1", days: 7, reason: "reply-all" });
+    expect(textContent(result)).toContain("Dismissed 2 active email(s)");
+    expect(digest.get("msg-2")).toMatchObject({ status: "dismissed", dismissReason: "muted thread" });
+    expect(digest.get("msg-2")!.history!.at(-1)?.actor).toBe("mute_thread");
+    expect(digest.get("msg-3")?.status).toBe("new");
+    expect(digest.get("msg-4")?.status).toBe("new");
+    expect(digest.getMute("t-storm", "other@test.com")).toBeUndefined();
+
+    const mute = digest.getMute("t-storm", "test@gmail.com")!;
+    expect(mute).toMatchObject({ account: "test@gmail.com", subject: "Re: all hands", reason: "reply-all" });
+    const days = (new Date(mute.until!).getTime() - Date.now()) / (24 * 60 * 60_000);
+    expect(days).toBeCloseTo(7, 1);
+
+    const reloaded = new DigestManager(tmpDir);
+    await reloaded.load();
+    expect(reloaded.getMute("t-storm", "test@gmail.com")).toBeDefined();
+  });
+
+  it("rejects a non-positive duration", async () => {
+    expect(textContent(await createMuteThreadTool(digest).execute("1", { messageId: "msg-1", days: 0 }))).toContain("Error:");
+    expect(digest.getMute("t-storm", "test@gmail.com")).toBeUndefined();
+  });
+
+  it("lists muted threads and unmutes by thread or message", async () => {
+    const unmute = createUnmuteThreadTool(digest);
+    expect(textContent(await unmute.execute("1", {}))).toBe("No threads are muted.");
+
+    await createMuteThreadTool(digest).execute("2", { messageId: "msg-1" });
+    await createMuteThreadTool(digest).execute("3", { messageId: "msg-3" });
+    const listed = JSON.parse(textContent(await unmute.execute("4", {})));
+    expect(listed.muted.map((m: { threadId: string }) => m.threadId)).toEqual(["t-storm", "t-other"]);
+
+    expect(textContent(await unmute.execute("5", { threadId: "t-storm" }))).toContain("Unmuted thread t-storm");
+    expect(textContent(await unmute.execute("6", { messageId: "msg-3" }))).toContain("Unmuted thread t-other");
+    expect(textContent(await unmute.execute("7", { threadId: "t-storm" }))).toContain("is not muted");
+    // Unmuting leaves earlier dismissals alone
+    expect(digest.get("msg-1")?.status).toBe("dismissed");
+  });
+
+  it("asks for the account when a thread ID is muted in several accounts", async () => {
+    const unmute = createUnmuteThreadTool(digest);
+    await createMuteThreadTool(digest).execute("1", { messageId: "msg-1" });
+    await createMuteThreadTool(digest).execute("2", { messageId: "msg-4" });
+
+    expect(textContent(await unmute.execute("3", { threadId: "t-storm" }))).toContain("pass account");
+    expect(textContent(await unmute.execute("4", { threadId: "t-storm", account: "other@test.com" }))).toContain("Unmuted thread t-storm");
+    expect(digest.getMute("t-storm", "other@test.com")).toBeUndefined();
+    expect(digest.getMute("t-storm", "test@gmail.com")).toBeDefined();
+  });
+});
+
+describe("sender rule tools", () => {
+  let tmpDir: string;
+  let digest: DigestManager;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "tools-test-"));
+    digest = new DigestManager(tmpDir);
+    await digest.load();
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("blocks and allows senders, one rule per pattern", async () => {
+    const block = createBlockSenderTool(digest);
+    expect(textContent(await block.execute("1", { domain: "shop.com", reason: "promotions" }))).toContain("domain:shop.com");
+    await block.execute("2", { address: "receipts@shop.com", action: "handle" });
+    await createAllowSenderTool(digest).execute("3", { domain: "shop.com" });
+
+    const reloaded = new DigestManager(tmpDir);
+    await reloaded.load();
+    expect(reloaded.listSenderRules().map(({ id, action }) => ({ id, action }))).toEqual([
+      { id: "domain:shop.com", action: "always_surface" },
+      { id: "address:receipts@shop.com", action: "always_handle" },
+    ]);
+    expect(reloaded.matchSender("Shop <receipts@shop.com>")?.action).toBe("always_handle");
+  });
+
+  it("rejects bad parameters", async () => {
+    expect(textContent(await createBlockSenderTool(digest).execute("1", { domain: "shop.com", action: "delete" }))).toContain("Error:");
+    expect(textContent(await createAllowSenderTool(digest).execute("1", {}))).toContain("Error:");
+    expect(digest.listSenderRules()).toEqual([]);
+  });
+
+  it("leaves an unreadable digest.json alone until it is recovered", async () => {
+    const file = path.join(tmpDir, "digest.json");
+    await fs.writeFile(file, "{ not json");
+    await digest.refresh();
+
+    await expect(createBlockSenderTool(digest).execute("1", { domain: "shop.com" })).rejects.toThrow("could not be read");
+    expect(await fs.readFile(file, "utf8")).toBe("{ not json");
+
+    const corruption = await digest.load();
+    expect(await fs.readFile(corruption!.movedTo, "utf8")).toBe("{ not json");
+    expect(textContent(await createBlockSenderTool(digest).execute("2", { domain: "shop.com" }))).toContain("domain:shop.com");
+  });
+
+  it("lists rules without changing them and removes one by id", async () => {
+    await createBlockSenderTool(digest).execute("1", { name: "*Newsletter*" });
+    const list = createListSenderRulesTool(digest);
+    const remove = createRemoveSenderRuleTool(digest);
+    expect(JSON.parse(textContent(await list.execute("2", { removeId: "name:*newsletter*" }))).rules).toEqual([
+      expect.objectContaining({ id: "name:*newsletter*", action: "always_dismiss" }),
+    ]);
+    expect(digest.listSenderRules()).toHaveLength(1);
+
+    expect(textContent(await remove.execute("3", { id: "name:*newsletter*" }))).toBe("Removed sender rule name:*newsletter*.");
+    expect(JSON.parse(textContent(await list.execute("4", {})))).toEqual({ rules: [] });
+    expect(textContent(await remove.execute("5", { id: "name:*newsletter*" }))).toContain("not found");
+    expect(textContent(await remove.execute("6", {}))).toContain("Error:");
+  });
+});
+
+describe("get_email_history", () => {
+  let tmpDir: string;
+  let digest: DigestManager;
+  let tool: ReturnType<typeof createGetEmailHistoryTool>;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "tools-test-"));
+    digest = new DigestManager(tmpDir);
+    await digest.load();
+    tool = createGetEmailHistoryTool(digest);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("lists transitions made through the tools", async () => {
+    digest.add(makeEntry());
+    await digest.save();
+    await createDeferEmailTool(digest).execute("1", { messageId: "msg-1", minutes: 15 });
+    await createMarkEmailHandledTool(digest).execute("2", { messageId: "msg-1" });
+
+    const parsed = JSON.parse(textContent(await tool.execute("3", { messageId: "msg-1" })));
+    expect(parsed.status).toBe("handled");
+    expect(parsed.note).toBeUndefined();
+    expect(parsed.history).toEqual([
+      expect.objectContaining({ from: null, to: "new", actor: "pipeline" }),
+      expect.objectContaining({ from: "new", to: "deferred", actor: "defer_email", deferMinutes: 15 }),
+      expect.objectContaining({ from: "deferred", to: "handled", actor: "mark_email_handled" }),
+    ]);
+  });
+
+  it("notes entries stored before history was recorded", async () => {
+    await fs.writeFile(path.join(tmpDir, "digest.json"), JSON.stringify({
+      schemaVersion: 1,
+      entries: { "msg-1": makeEntry({ status: "surfaced" }) },
+    }));
+    await digest.load();
+    const parsed = JSON.parse(textContent(await tool.execute("1", { messageId: "msg-1" })));
+    expect(parsed.history).toEqual([]);
+    expect(parsed.note).toContain("before status changes were recorded");
+  });
+
+  it("returns error when entry not found or messageId missing", async () => {
+    expect(textContent(await tool.execute("1", { messageId: "nope" }))).toContain("not found");
+    expect(textContent(await tool.execute("1", {}))).toContain("Error:");
+  });
+});
+
+describe("test_email_rule", () => {
+  let tmpDir: string;
+  let digest: DigestManager;
+  let tool: ReturnType<typeof createTestEmailRuleTool>;
+
+  function logged(id: string, subject: string): EmailLogEntry {
+    const email: TrimmedEmail = {
+      id, threadId: `t-${id}`, account: "test@gmail.com", from: "billing@vendor.com", to: "test@gmail.com",
+      subject, date: "2026-02-26T10:00:00Z", body: "", originalLength: 0, truncated: false,
+      threadLength: 1, hasAttachments: false, attachments: [],
+    };
+    return { email, timestamp: 1 };
+  }
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "tools-test-"));
+    digest = new DigestManager(tmpDir);
+    await digest.load();
+    digest.add(makeEntry({ id: "m3", status: "surfaced" }));
+    await digest.save();
+    const log = [logged("m1", "Invoice 1"), logged("m2", "Lunch?"), logged("m3", "Invoice 3")];
+    tool = createTestEmailRuleTool(digest, undefined, {
+      rules: [{ name: "invoices", match: { subject: "^invoice" }, action: "handle", tags: ["billing"] }],
+      emailLog: { readAll: async () => log },
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("dry-runs a configured rule over the most recent emails", async () => {
+    const parsed = JSON.parse(textContent(await tool.execute("1", { name: "invoices", limit: 2 })));
+    expect(parsed).toMatchObject({
+      rule: "invoices",
+      tested: 2,
+      matched: 1,
+      wouldApply: ['auto-handled by rule "invoices"', "tags billing"],
+    });
+    expect(parsed.emails).toEqual([expect.objectContaining({ messageId: "m3", currentStatus: "surfaced" })]);
+    expect(digest.get("m3")?.status).toBe("surfaced");
+  });
+
+  it("dry-runs an ad-hoc rule object", async () => {
+    const parsed = JSON.parse(textContent(await tool.execute("1", {
+      rule: { name: "vendor", match: { from: "vendor.com" }, action: "defer", deferMinutes: 30 },
+    })));
+    expect(parsed.matched).toBe(3);
+    expect(parsed.emails.map((e: { messageId: string }) => e.messageId)).toEqual(["m3", "m2", "m1"]);
+    expect(parsed.wouldApply).toEqual(['deferred by rule "vendor" for 30 minutes']);
+  });
+
+  it("rejects invalid rules, unknown names and bad limits", async () => {
+    expect(textContent(await tool.execute("1", { rule: { name: "x", match: {} } }))).toContain("Error: invalid rule");
+    expect(textContent(await tool.execute("1", { name: "nope" }))).toContain('Configured rules: "invoices"');
+    expect(textContent(await tool.execute("1", {}))).toContain("Error:");
+    expect(textContent(await tool.execute("1", { name: "invoices", limit: 0 }))).toContain("Error:");
+  });
+});
+
+describe("restore_email", () => {
+  let tmpDir: string;
+  let digest: DigestManager;
+  let tool: ReturnType<typeof createRestoreEmailTool>;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "tools-test-"));
+    digest = new DigestManager(tmpDir);
+    await digest.load();
+    tool = createRestoreEmailTool(digest);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("brings a dismissed email back as new", async () => {
+    digest.add(makeEntry({ status: "dismissed", resolvedAt: new Date().toISOString(), dismissReason: "spam" }));
+    const result = await tool.execute("1", { messageId: "msg-1" });
+    expect(textContent(result)).toContain("Restored");
+    expect(digest.get("msg-1")).toMatchObject({ status: "new", dismissReason: undefined, resolvedAt: undefined });
+
+    const reloaded = new DigestManager(tmpDir);
+    await reloaded.load();
+    expect(reloaded.get("msg-1")?.status).toBe("new");
+  });
+
+  it("brings a handled email back as surfaced", async () => {
+    digest.add(makeEntry({ status: "handled", resolvedAt: new Date().toISOString() }));
+    await tool.execute("1", { messageId: "msg-1", status: "surfaced" });
+    expect(digest.get("msg-1")?.status).toBe("surfaced");
+  });
+
+  it("rejects active emails and unknown statuses", async () => {
+    digest.add(makeEntry());
+    expect(textContent(await tool.execute("1", { messageId: "msg-1" }))).toContain('Cannot restore: email is "new"');
+    expect(textContent(await tool.execute("1", { messageId: "msg-1", status: "deferred" }))).toContain("Error:");
+  });
+
+  it("explains that pruned emails cannot be recovered", async () => {
+    const longAgo = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000).toISOString();
+    digest.add(makeEntry({ status: "dismissed", resolvedAt: longAgo }));
+    digest.prune(30);
+    expect(textContent(await tool.execute("1", { messageId: "msg-1" }))).toContain("can no longer be restored");
+  });
+});
+
+describe("undo_last_triage", () => {
+  let tmpDir: string;
+  let digest: DigestManager;
+  let journal: TriageJournal;
+  let tool: ReturnType<typeof createUndoLastTriageTool>;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "tools-test-"));
+    digest = new DigestManager(tmpDir);
+    await digest.load();
+    journal = new TriageJournal();
+    tool = createUndoLastTriageTool(digest, journal);
+    for (const id of ["msg-1", "msg-2", "msg-3"]) digest.add(makeEntry({ id, subject: `Subject ${id}` }));
+    digest.markSurfaced("msg-1");
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("reverts the most recent actions, newest first", async () => {
+    await createDismissEmailTool(digest, undefined, journal).execute("1", { messageId: "msg-1" });
+    await createDeferEmailTool(digest, undefined, journal).execute("2", { messageId: "msg-2", minutes: 30 });
+    await createMarkEmailHandledTool(digest, undefined, journal).execute("3", { messageId: "msg-3" });
+
+    const text = textContent(await tool.execute("4", { count: 2 }));
+    expect(text.split("\n")).toEqual(['"Subject msg-3": handled → new', '"Subject msg-2": deferred → new']);
+    expect(digest.get("msg-3")).toMatchObject({ status: "new", resolvedAt: undefined });
+    expect(digest.get("msg-2")).toMatchObject({ status: "new", deferredUntil: undefined });
+    expect(digest.get("msg-1")?.status).toBe("dismissed");
+    expect(digest.get("msg-2")!.history!.at(-1)).toMatchObject({ actor: "undo_last_triage", reason: "undid defer_email" });
+
+    await tool.execute("5", {});
+    expect(digest.get("msg-1")?.status).toBe("surfaced");
+    expect(textContent(await tool.execute("6", {}))).toBe("Nothing to undo in this session.");
+  });
+
+  it("walks back several actions on the same email", async () => {
+    await createDeferEmailTool(digest, undefined, journal).execute("1", { messageId: "msg-1", minutes: 30 });
+    await createDismissEmailTool(digest, undefined, journal).execute("2", { messageId: "msg-1" });
+    await tool.execute("3", { count: 1 });
+    expect(digest.get("msg-1")).toMatchObject({ status: "deferred" });
+    expect(digest.get("msg-1")?.deferredUntil).toBeDefined();
+    await tool.execute("4", { count: 1 });
+    expect(digest.get("msg-1")?.status).toBe("surfaced");
+  });
+
+  it("skips emails changed since and reports pruned ones", async () => {
+    await createDismissEmailTool(digest, undefined, journal).execute("1", { messageId: "msg-1" });
+    await createMarkEmailHandledTool(digest, undefined, journal).execute("2", { messageId: "msg-2" });
+    digest.restore("msg-1", "new");
+    digest.get("msg-2")!.resolvedAt = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000).toISOString();
+    digest.prune(30);
+
+    const text = textContent(await tool.execute("3", { count: 5 }));
+    expect(text).toContain("msg-2: no longer in the digest");
+    expect(text).toContain("cannot be recovered");
+    expect(text).toContain('skipped, it has been moved to "new" since dismiss_email');
+    expect(text).toContain("Only 2 action(s)");
+  });
+
+  it("rejects a count that is not a positive whole number", async () => {
+    expect(textContent(await tool.execute("1", { count: 0 }))).toContain("Error:");
+    expect(textContent(await tool.execute("1", { count: 1.5 }))).toContain("Error:");
+  });
+});
+
 describe("tool init guard", () => {
   let tmpDir: string;
   let digest: DigestManager;
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { trimEmailBody } from "../src/trimmer.js";
+import { DEFAULT_TRIMMER_CONFIG, trimEmail, trimEmailBody, truncateText } from "../src/trimmer.js";
 
 describe("trimEmailBody", () => {
   it("strips HTML tags", () => {
@@ -55,4 +55,215 @@ describe("trimEmailBody", () => {
     expect(trimEmailBody("")).toBe("");
     expect(trimEmailBody(undefined as any)).toBe("");
   });
+
+  it("converts HTML marketing mail without leaking CSS or preheaders", () => {
+    const body = [
+      "<!DOCTYPE html><html><head><style>body { margin: 0 } .cta { background: #f00 }</style></head><body>",
+      '<div style="display:none;max-height:0px;overflow:hidden">Last chance! &zwnj;&nbsp;&zwnj;&nbsp;</div>',
+      "<h1>Spring Sale</h1><p>Everything is 20&#37; off&hellip; &amp; free shipping.</p>",
+      '<ul><li>Shoes</li><li>Bags</li></ul><p><a class="cta" href="https://shop.example.com/sale">Shop now</a></p>',
+      "</body></html>",
+    ].join("\n");
+    expect(trimEmailBody(body)).toBe(
+      "Spring Sale\n\nEverything is 20% off… & free shipping.\n\n- Shoes\n- Bags\n\nShop now[1]\n\n[1] https://shop.example.com/sale",
+    );
+  });
+
+  it("drops footnotes whose links were trimmed with the signature", () => {
+    const body = '<p>See <a href="https://a.example/doc">the doc</a>.</p><p>--<br>Jane<br><a href="https://jane.example">My site</a></p>';
+    expect(trimEmailBody(body)).toBe("See the doc[1].\n\n[1] https://a.example/doc");
+  });
+
+  it("strips Gmail blockquotes as quoted replies", () => {
+    const body = '<div>Works for me.</div><div class="gmail_quote">On Mon, Feb 24, 2026 at 9:00 AM Bob wrote:<blockquote class="gmail_quote"><div>Lunch Friday?</div></blockquote></div>';
+    expect(trimEmailBody(body)).toBe("Works for me.");
+  });
+});
+
+describe("trimEmailBody quote and signature corpus", () => {
+  const corpus: Record<string, { name: string; body: string; expected: string }[]> = {
+    en: [
+      {
+        name: "wrapped Gmail attribution with unprefixed quote",
+        body: "Friday works.\n\nOn Mon, Feb 24, 2026 at 9:15 AM Jane Doe <\njane@example.com> wrote:\nCan we move the call?",
+        expected: "Friday works.",
+      },
+      {
+        name: "Outlook Original Message separator",
+        body: "Approved.\n\n-----Original Message-----\nFrom: Jane Doe\nSent: Monday, February 24, 2026 9:15 AM\nTo: Me\nSubject: Budget\n\nPlease approve.",
+        expected: "Approved.",
+      },
+      {
+        name: "Outlook header block with bold fields",
+        body: "See attached.\n\n*From:* Jane Doe <jane@example.com>\n*Sent:* Monday, February 24, 2026 9:15 AM\n*To:* Me\n*Subject:* Contract\n\nOld text",
+        expected: "See attached.",
+      },
+      {
+        name: "sign-off and mobile footer",
+        body: "Will do.\n\nKind regards,\nJane\n\nSent from my iPhone",
+        expected: "Will do.",
+      },
+    ],
+    de: [
+      {
+        name: "Thunderbird attribution with > quotes",
+        body: "Passt, danke!\n\nAm 24.02.2026 um 09:15 schrieb Max Mustermann <max@example.de>:\n> Können wir den Termin verschieben?",
+        expected: "Passt, danke!",
+      },
+      {
+        name: "Outlook Ursprüngliche Nachricht",
+        body: "Erledigt.\n\n-----Ursprüngliche Nachricht-----\nVon: Max Mustermann\nGesendet: Montag, 24. Februar 2026 09:15\nAn: Ich\nBetreff: Rechnung\n\nBitte prüfen.",
+        expected: "Erledigt.",
+      },
+      {
+        name: "Outlook header block without separator",
+        body: "Anbei die Unterlagen.\n\nVon: Max Mustermann <max@example.de>\nGesendet: Montag, 24. Februar 2026 09:15\nAn: Ich\nBetreff: Unterlagen\n\nAlter Text",
+        expected: "Anbei die Unterlagen.",
+      },
+      {
+        name: "sign-off, mobile footer and disclaimer",
+        body: "Bis morgen.\n\nMit freundlichen Grüßen\nMax Mustermann\n\nVon meinem iPhone gesendet",
+        expected: "Bis morgen.",
+      },
+      {
+        name: "confidentiality notice",
+        body: "Der Vertrag ist unterschrieben.\n\nDiese E-Mail enthält vertrauliche Informationen. Wenn Sie nicht der richtige Adressat sind, informieren Sie bitte den Absender.",
+        expected: "Der Vertrag ist unterschrieben.",
+      },
+    ],
+    fr: [
+      {
+        name: "Gmail attribution with a space before the colon",
+        body: "C'est noté.\n\nLe lun. 24 févr. 2026 à 09:15, Marie Dupont <marie@example.fr> a écrit :\n> Pouvez-vous confirmer ?",
+        expected: "C'est noté.",
+      },
+      {
+        name: "Outlook header block with French field spacing",
+        body: "Merci pour le retour.\n\nDe : Marie Dupont <marie@example.fr>\nEnvoyé : lundi 24 février 2026 09:15\nÀ : Moi\nObjet : Devis\n\nAncien texte",
+        expected: "Merci pour le retour.",
+      },
+      {
+        name: "Message d'origine separator",
+        body: "D'accord.\n\n-----Message d'origine-----\nDe : Marie Dupont\nObjet : Devis\n\nAncien texte",
+        expected: "D'accord.",
+      },
+      {
+        name: "sign-off and mobile footer",
+        body: "Je vous rappelle demain.\n\nCordialement,\nMarie\n\nEnvoyé de mon iPhone",
+        expected: "Je vous rappelle demain.",
+      },
+    ],
+    es: [
+      {
+        name: "Gmail attribution",
+        body: "Perfecto, gracias.\n\nEl lun, 24 feb 2026 a las 9:15, Juan Pérez (<juan@example.es>) escribió:\n> ¿Podemos vernos el martes?",
+        expected: "Perfecto, gracias.",
+      },
+      {
+        name: "Outlook Mensaje original with header block",
+        body: "Recibido.\n\n-----Mensaje original-----\nDe: Juan Pérez\nEnviado: lunes, 24 de febrero de 2026 9:15\nPara: Yo\nAsunto: Factura\n\nTexto anterior",
+        expected: "Recibido.",
+      },
+      {
+        name: "sign-off and mobile footer",
+        body: "Lo reviso hoy.\n\nUn saludo,\nJuan\n\nEnviado desde mi iPhone",
+        expected: "Lo reviso hoy.",
+      },
+    ],
+  };
+
+  for (const [locale, cases] of Object.entries(corpus)) {
+    describe(locale, () => {
+      for (const { name, body, expected } of cases) {
+        it(name, () => {
+          expect(trimEmailBody(body)).toBe(expected);
+        });
+      }
+    });
+  }
+
+  it("keeps the reply when quoted text is followed by an inline answer", () => {
+    const body = "On Mon, Feb 24, 2026, Jane wrote:\n> Which day?\n\nTuesday, after lunch.";
+    expect(trimEmailBody(body)).toBe("Tuesday, after lunch.");
+  });
+
+  it("keeps forwarded messages", () => {
+    const body = "FYI, see below.\n\n---------- Forwarded message ---------\nFrom: Billing <billing@vendor.com>\nDate: Mon, Feb 24, 2026\nSubject: Invoice 42\nTo: Me\n\nYour invoice is due Friday.";
+    expect(trimEmailBody(body)).toContain("Your invoice is due Friday.");
+  });
+
+  it("only applies the configured locales", () => {
+    const body = "Passt.\n\nAm 24.02.2026 um 09:15 schrieb Max <max@example.de>:\nAlter Text";
+    const config = { ...DEFAULT_TRIMMER_CONFIG, locales: ["en"] };
+    expect(trimEmailBody(body, undefined, config)).toBe(body);
+    expect(trimEmailBody(body, undefined, { ...config, locales: ["de"] })).toBe("Passt.");
+  });
+
+  it("cuts at custom quote and signature patterns", () => {
+    const config = {
+      locales: [],
+      quotePatterns: ["^_{5,}\\s*$"],
+      signaturePatterns: ["^Jane Doe \\| ACME"],
+    };
+    expect(trimEmailBody("Sure.\n\n__________\nOld thread", undefined, config)).toBe("Sure.");
+    expect(trimEmailBody("Sure.\n\nJane Doe | ACME Corp\n+1 555 0100", undefined, config)).toBe("Sure.");
+  });
+});
+
+describe("truncateText", () => {
+  it("returns short text untouched", () => {
+    expect(truncateText("Hello.", 100)).toEqual({ text: "Hello.", truncated: false });
+  });
+
+  it("cuts at a paragraph boundary and reports what was dropped", () => {
+    const text = `${"First paragraph. ".repeat(5).trim()}\n\n${"Second paragraph. ".repeat(10).trim()}`;
+    const result = truncateText(text, 150);
+    expect(result.truncated).toBe(true);
+    expect(result.text).toBe(`${"First paragraph. ".repeat(5).trim()}\n\n[… ${text.length - 84} chars omitted]`);
+  });
+
+  it("cuts at a sentence boundary within a long paragraph", () => {
+    const text = "One two three. Four five six. Seven eight nine ten eleven twelve thirteen fourteen fifteen.";
+    expect(truncateText(text, 60).text).toBe("One two three. Four five six.\n\n[… 62 chars omitted]");
+  });
+
+  it("never splits words, URLs or surrogate pairs", () => {
+    const url = "https://example.com/a/very/long/path/that/should/not/be/split/in/the/middle";
+    const result = truncateText(`See ${url} for details on this.`, 70);
+    expect(result.text).not.toContain("https://example.com/a");
+    expect(result.text.startsWith("See")).toBe(true);
+
+    const emoji = truncateText("😀".repeat(100), 41);
+    expect(emoji.text).not.toMatch(/[\ud800-\udbff](?![\udc00-\udfff])/);
+  });
+
+  it("keeps a closing question after the gap", () => {
+    const text = `Hi team,\n\n${"Here is a lot of background on the project. ".repeat(30).trim()}\n\nCan you confirm the budget by Friday?`;
+    const result = truncateText(text, 300);
+    expect(result.text.length).toBeLessThanOrEqual(300);
+    expect(result.text.startsWith("Hi team,")).toBe(true);
+    expect(result.text).toMatch(/chars omitted\]\n\nCan you confirm the budget by Friday\?$/);
+  });
+
+  it("keeps a closing call to action", () => {
+    const text = `${"Background sentence here. ".repeat(40).trim()}\n\nThanks for reading. Please sign the contract and send it back.`;
+    expect(truncateText(text, 400).text).toMatch(/Please sign the contract and send it back\.$/);
+  });
+});
+
+describe("trimEmail", () => {
+  it("reports the original length and whether the body was truncated", () => {
+    expect(trimEmail("Short body.")).toEqual({ body: "Short body.", originalLength: 11, truncated: false });
+    const long = trimEmail("Lorem ipsum dolor. ".repeat(300), 1000);
+    expect(long.truncated).toBe(true);
+    expect(long.originalLength).toBe("Lorem ipsum dolor. ".repeat(300).trim().length);
+    expect(long.body.length).toBeLessThanOrEqual(1000);
+  });
+
+  it("keeps link footnotes only while they fit", () => {
+    const html = `<p>${"Long newsletter text goes here. ".repeat(20)}<a href="https://example.com/${"x".repeat(300)}">Read more</a></p>`;
+    const result = trimEmail(html, 400);
+    expect(result.body.length).toBeLessThanOrEqual(400);
+    expect(result.body).not.toContain("https://example.com/");
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, afterEach } from "vitest";
-import { formatAge } from "../src/utils.js";
+import { formatAge, formatSize } from "../src/utils.js";
 
 describe("formatAge", () => {
   afterEach(() => {
@@ -34,3 +34,11 @@ describe("formatAge", () => {
     expect(formatAge(justNow)).toBe("0m ago");
   });
 });
+
+describe("formatSize", () => {
+  it("formats bytes, kilobytes and megabytes", () => {
+    expect(formatSize(512)).toBe("512 B");
+    expect(formatSize(48_000)).toBe("47 KB");
+    expect(formatSize(3 * 1024 * 1024 + 200_000)).toBe("3.2 MB");
+  });
+});